@@ -1,9 +1,24 @@
 import { HEADER_FRAGMENT_SEPARATOR } from "./src/vcl-value";
 import "./src/platform-node";
-import { existsSync, readFileSync } from "node:fs";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { runLanguageServer } from "./src/lsp/stdio";
+import { DiskCacheStore } from "./src/node-cache-store";
+import { loadVCLFiles } from "./src/node-loader";
+import { BoundedCache } from "./src/runtime/bounded-cache";
+import { type CacheStore, MemoryCacheStore } from "./src/runtime/cache-store";
+import { HealthChecker } from "./src/runtime/health-check";
 import { type BackendResponse, runPipeline } from "./src/runtime/pipeline";
-import { createVCLContext, loadVCLContent } from "./src/vcl";
-import type { VCLContext } from "./src/vcl-compiler";
+import { nextPurgeId, parseSurrogateKeys, purgeAll, purgeSurrogateKey } from "./src/runtime/purge";
+import { createVCLContext } from "./src/vcl";
+import { declaredBackends, type VCLContext } from "./src/vcl-compiler";
+import { formatVCL } from "./src/vcl-format";
+import {
+	DEFAULT_LINT_RULES,
+	lintVCL,
+	type VCLLintOptions,
+	type VCLLintRule,
+	type VCLLintRuleSetting,
+} from "./src/vcl-lint";
 import { SecurityModule } from "./src/vcl-security";
 
 /** Multi-fragment header values become repeated header lines. */
@@ -18,41 +33,139 @@ function toFragmentedHeaders(record: Record<string, string>): Headers {
 }
 
 const PROXY_HOST = "127.0.0.1";
-const PROXY_PORT = 8000;
+// Taken from FASTLY_JS_PORT when set; 0 listens on any free port.
+const PROXY_PORT = Number(process.env.FASTLY_JS_PORT ?? 8000);
 const DEFAULT_VCL_FILE = "filter.vcl";
 const MAX_RESTARTS = 3;
+// A long-running proxy's cache stays within these, evicting the least
+// recently used objects (expired ones first) to make room.
+const CACHE_MAX_OBJECTS = 10_000;
+const CACHE_MAX_BYTES = 256 * 1024 * 1024;
+// With a directory, objects are kept on disk instead, so the cache survives a
+// restart of the proxy. The same limits apply there.
+const CACHE_DIR = process.env.FASTLY_JS_CACHE_DIR;
+
+/**
+ * `--format [--write | --check] files...`: print each file in canonical layout,
+ * rewrite it in place, or list the files that are not formatted and exit 1.
+ */
+function runFormatter(args: string[]): never {
+	const write = args.includes("--write");
+	const check = args.includes("--check");
+	const files = args.filter((arg) => !arg.startsWith("--"));
+	if (files.length === 0) {
+		console.error("Usage: bun run index.ts --format [--write | --check] <file.vcl>...");
+		process.exit(1);
+	}
+	let failed = false;
+	for (const filePath of files) {
+		let source: string;
+		let formatted: string;
+		try {
+			source = readFileSync(filePath, "utf-8");
+			formatted = formatVCL(source);
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			console.error(`${filePath}: ${message}`);
+			failed = true;
+			continue;
+		}
+		if (check) {
+			if (formatted !== source) {
+				console.log(filePath);
+				failed = true;
+			}
+		} else if (write) {
+			if (formatted !== source) writeFileSync(filePath, formatted);
+		} else {
+			process.stdout.write(formatted);
+		}
+	}
+	process.exit(failed ? 1 : 0);
+}
+
+/**
+ * `--lint [--rule name=severity]... files...`: print every diagnostic, and exit 1
+ * if any of them is an error.
+ */
+function runLinter(args: string[]): never {
+	const rules: NonNullable<VCLLintOptions["rules"]> = {};
+	const files: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i]!;
+		if (arg !== "--rule") {
+			files.push(arg);
+			continue;
+		}
+		const [name, setting] = (args[++i] ?? "").split("=");
+		if (
+			!name ||
+			!(name in DEFAULT_LINT_RULES) ||
+			!/^(error|warning|info|off)$/.test(setting ?? "")
+		) {
+			console.error(`Invalid --rule ${args[i] ?? ""}: expected <rule>=error|warning|info|off`);
+			process.exit(1);
+		}
+		rules[name as VCLLintRule] = setting as VCLLintRuleSetting;
+	}
+	if (files.length === 0) {
+		console.error("Usage: bun run index.ts --lint [--rule <rule>=<severity>]... <file.vcl>...");
+		process.exit(1);
+	}
+	let failed = false;
+	for (const filePath of files) {
+		let source: string;
+		try {
+			source = readFileSync(filePath, "utf-8");
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			console.error(`${filePath}: ${message}`);
+			failed = true;
+			continue;
+		}
+		for (const diagnostic of lintVCL(source, { rules })) {
+			const rule = diagnostic.rule ? ` (${diagnostic.rule})` : "";
+			console.log(`${filePath}: ${diagnostic.severity}: ${diagnostic.message}${rule}`);
+			if (diagnostic.severity === "error") failed = true;
+		}
+	}
+	process.exit(failed ? 1 : 0);
+}
+
+if (process.argv[2] === "--format") {
+	runFormatter(process.argv.slice(3));
+}
+if (process.argv[2] === "--lint") {
+	runLinter(process.argv.slice(3));
+}
+if (process.argv[2] === "--lsp") {
+	// The language server owns stdout for its JSON-RPC frames.
+	process.exit(await runLanguageServer(process.stdin, process.stdout));
+}
 
 const vclFilePaths = process.argv.slice(2);
 if (vclFilePaths.length === 0) {
 	vclFilePaths.push(DEFAULT_VCL_FILE);
 }
 
-let vclContent = "";
-const loadedFiles: string[] = [];
-
 for (const filePath of vclFilePaths) {
 	if (!existsSync(filePath)) {
 		console.error(`VCL file not found: ${filePath}`);
 		process.exit(1);
 	}
-	try {
-		const content = readFileSync(filePath, "utf-8");
-		vclContent += `\n# Begin file: ${filePath}\n${content}\n# End file: ${filePath}\n`;
-		loadedFiles.push(filePath);
-	} catch (err) {
-		const message = err instanceof Error ? err.message : String(err);
-		console.error(`Error loading VCL file ${filePath}: ${message}`);
-		process.exit(1);
-	}
 }
 
-console.log(`Loading VCL files: ${loadedFiles.join(", ")}`);
-const vclSubroutines = loadVCLContent(vclContent);
+console.log(`Loading VCL files: ${vclFilePaths.join(", ")}`);
+// The first file is the entry point; the others load as if it included them.
+const vclSubroutines = loadVCLFiles(vclFilePaths);
 
 console.log("Initializing security module...");
 SecurityModule.init();
 
-const cache = new Map();
+const cacheLimits = { maxObjects: CACHE_MAX_OBJECTS, maxBytes: CACHE_MAX_BYTES };
+const memoryCache = new BoundedCache(cacheLimits);
+const diskCache = CACHE_DIR ? new DiskCacheStore(CACHE_DIR, cacheLimits) : undefined;
+const cache: CacheStore = diskCache ?? new MemoryCacheStore(memoryCache);
 const setupContext = createVCLContext();
 
 console.log("Setting up backends...");
@@ -95,6 +208,18 @@ setupContext.std!.director!.add_backend("fallback_director", "api", 1);
 console.log(`Backends configured: ${Object.keys(setupContext.backends).join(", ")}`);
 console.log(`Directors configured: ${Object.keys(setupContext.directors).join(", ")}`);
 
+// Every request copies setupContext.backends and shares the backends the VCL
+// declares, so the health the probes record on these backends is what its
+// directors and health checks see.
+const healthChecker = new HealthChecker(
+	{ ...declaredBackends(vclSubroutines), ...setupContext.backends },
+	{
+		onChange: (backend, healthy) =>
+			console.log(`Backend '${backend.name}' is now ${healthy ? "healthy" : "sick"}`),
+	},
+);
+healthChecker.start();
+
 // Selects a backend per the configured routing and fetches it, with a fallback
 // director on 5xx. Throws (with context.obj set) on a backend or network error,
 // which runPipeline turns into a vcl_error response.
@@ -127,6 +252,9 @@ async function fetchFromBackend(context: VCLContext, url: URL): Promise<BackendR
 	}
 
 	context.req.http["X-Selected-Backend"] = context.req.backend ?? "unknown";
+	// The pipeline built bereq.http from the request before vcl_miss or
+	// vcl_pass, which may have changed it; only the backend choice is new.
+	context.bereq.http["X-Selected-Backend"] = context.req.http["X-Selected-Backend"];
 	const backend = context.current_backend!;
 
 	// The total fetch bound: bereq.fetch_timeout wins when set, then the
@@ -146,9 +274,6 @@ async function fetchFromBackend(context: VCLContext, url: URL): Promise<BackendR
 			`${protocol}://${target.host}:${target.port}`,
 		);
 		context.bereq.url = targetUrl.toString();
-		for (const [key, value] of Object.entries(context.req.http)) {
-			context.bereq.http[key] = value;
-		}
 		const proxyHeaders = toFragmentedHeaders(context.bereq.http);
 		const proxyReq = new Request(targetUrl.toString(), {
 			method: context.req.method,
@@ -212,17 +337,58 @@ async function fetchFromBackend(context: VCLContext, url: URL): Promise<BackendR
 	}
 }
 
-const _server = Bun.serve({
+// The parts of Fastly's purge API that have no request-level equivalent, so a
+// deploy script's purge calls can be pointed at the proxy: any service id is
+// accepted, and Fastly-Soft-Purge: 1 makes the purge soft. A URL purge is a
+// PURGE request for the URL, which goes through the VCL like any other.
+//   POST /service/<id>/purge/<surrogate-key>
+//   POST /service/<id>/purge            (keys in the Surrogate-Key header)
+//   POST /service/<id>/purge_all
+async function handlePurgeAPI(req: Request, url: URL): Promise<Response | null> {
+	const route = url.pathname.match(/^\/service\/[^/]+\/(purge_all|purge(?:\/([^/]+))?)$/);
+	if (req.method !== "POST" || !route) return null;
+	const options = { soft: req.headers.get("fastly-soft-purge") === "1" };
+	if (route[1] === "purge_all") {
+		await purgeAll(cache, options);
+		return Response.json({ status: "ok" });
+	}
+	const keys = route[2]
+		? [decodeURIComponent(route[2])]
+		: parseSurrogateKeys(req.headers.get("surrogate-key") ?? undefined);
+	if (keys.length === 0) {
+		return Response.json({ msg: "No surrogate keys given" }, { status: 400 });
+	}
+	const ids: Record<string, string> = {};
+	for (const key of keys) {
+		await purgeSurrogateKey(cache, key, options);
+		ids[key] = nextPurgeId(Date.now());
+	}
+	return Response.json(route[2] ? { status: "ok", id: ids[keys[0]!] } : ids);
+}
+
+// The cache's object and byte counts, its limits and its evictions, in the
+// envelope of Fastly's stats API.
+//   GET /stats/service/<id>
+async function handleStatsAPI(req: Request, url: URL): Promise<Response | null> {
+	if (req.method !== "GET" || !/^\/stats\/service\/[^/]+$/.test(url.pathname)) return null;
+	const stats = diskCache ? await diskCache.stats() : memoryCache.stats();
+	return Response.json({ status: "success", msg: null, data: stats });
+}
+
+const server = Bun.serve({
 	port: PROXY_PORT,
 	hostname: PROXY_HOST,
 	idleTimeout: 255,
 
 	async fetch(req) {
 		const url = new URL(req.url);
+		const apiResponse = (await handlePurgeAPI(req, url)) ?? (await handleStatsAPI(req, url));
+		if (apiResponse) return apiResponse;
+
 		const context = createVCLContext();
 		context.req.url = url.pathname + url.search;
 		context.req.method = req.method;
-		context.cache = cache;
+		if (!diskCache) context.cache = memoryCache;
 		context.backends = { ...setupContext.backends };
 		context.directors = { ...setupContext.directors };
 
@@ -247,8 +413,8 @@ const _server = Bun.serve({
 	},
 });
 
-console.log(`HTTP Proxy server running at http://${PROXY_HOST}:${PROXY_PORT}`);
-console.log(`Using VCL files: ${loadedFiles.join(", ")}`);
+console.log(`HTTP Proxy server running at http://${PROXY_HOST}:${server.port}`);
+console.log(`Using VCL files: ${vclFilePaths.join(", ")}`);
 
 function createDefaultErrorPage(
 	status: number,
@@ -3,10 +3,15 @@
 // enter this graph because the engine in vcl.ts is platform-pure.
 import "./platform-browser";
 
-export type { VCLDiagnostic } from "./diagnostics";
+export type { VCLDiagnostic, VCLSeverity } from "./diagnostics";
 export { VCLDiagnosticError } from "./diagnostics";
 export type { TraceEvent, VCLPlatform } from "./platform";
 export { UnsupportedFeatureError } from "./platform";
+export type { SourceLocation } from "./source-map";
+export type { BoundedCacheOptions, CacheStats } from "./runtime/bounded-cache";
+export { BoundedCache, entrySize } from "./runtime/bounded-cache";
+export type { CacheStore } from "./runtime/cache-store";
+export { hashKey, MemoryCacheStore } from "./runtime/cache-store";
 export type {
 	SimBackendResponse,
 	SimErrorKind,
@@ -17,6 +22,27 @@ export type {
 	SimulationResult,
 } from "./runtime/browser";
 export { runBrowserSimulation } from "./runtime/browser";
-export type { BackendResponse, CacheDecision, CacheEntry, CacheOutcome } from "./runtime/pipeline";
+export type { Freshness, TTLSource } from "./runtime/freshness";
+export type { HealthCheckOptions } from "./runtime/health-check";
+export { HealthChecker, probeRequest } from "./runtime/health-check";
+export type {
+	BackendResponse,
+	CacheDecision,
+	CacheEntry,
+	CacheOutcome,
+	CacheSegment,
+	PipelineCache,
+	StaleReason,
+} from "./runtime/pipeline";
+export type { PurgeOptions } from "./runtime/purge";
+export { purgeAll, purgeKey, purgeSurrogateKey, purgeURL } from "./runtime/purge";
+export type { LoadVCLOptions } from "./vcl";
 export { createVCLContext, executeVCL, executeVCLByName, loadVCLContent } from "./vcl";
-export type { VCLContext, VCLSubroutines } from "./vcl-compiler";
+export type { VCLCompileMode, VCLContext, VCLSubroutines } from "./vcl-compiler";
+export { declaredBackends } from "./vcl-compiler";
+export type { VCLFormatOptions } from "./vcl-format";
+export { formatVCL } from "./vcl-format";
+export type { VCLLintOptions, VCLLintRule, VCLLintRuleSetting } from "./vcl-lint";
+export { DEFAULT_LINT_RULES, lintVCL } from "./vcl-lint";
+export type { IncludeResolver, ResolvedInclude } from "./vcl-include";
+export { createMapIncludeResolver } from "./vcl-include";
@@ -1,17 +1,28 @@
 // Structured parse/compile diagnostics so an editor UI can underline the
 // offending token and show an inline message instead of reading a stack trace
 // off the console. loadVCLContent throws a VCLDiagnosticError carrying these
-// fields; its `message` is left identical to the underlying error so existing
-// callers that match on the message keep working.
+// fields for every error found; its `message` is left identical to the first
+// underlying error so existing callers that match on the message keep working,
+// except that in a multi-file program the trailing location is rewritten to name
+// the originating file.
+
+import { formatLocation, type SourceLocation, type VCLSourceMap } from "./source-map";
+
+export type VCLSeverity = "error" | "warning" | "info";
 
 export interface VCLDiagnostic {
 	message: string;
+	file?: string;
 	line?: number;
 	column?: number;
 	sourceFrame?: string;
+	/** Set by lintVCL; load errors are always errors. */
+	severity?: VCLSeverity;
+	/** The lint rule that reported this diagnostic. */
+	rule?: string;
 }
 
-const LOCATION_RE = /at line (\d+),? column (\d+)/;
+const LOCATION_RE = /at line (\d+),? column (\d+)(?: in file "([^"]*)")?/;
 
 function buildSourceFrame(source: string, line: number, column: number): string {
 	const lines = source.split("\n");
@@ -30,27 +41,80 @@ function buildSourceFrame(source: string, line: number, column: number): string
 	return out.join("\n");
 }
 
-export function buildDiagnostic(error: Error, source: string): VCLDiagnostic {
+// buildDiagnostic reads the location off an error message. Positions in a merged
+// buffer are mapped through `sourceMap` back to their file; a message that
+// already names its file is taken as is, with `source` being that file's text.
+export function buildDiagnostic(
+	error: Error,
+	source: string,
+	sourceMap?: VCLSourceMap,
+): VCLDiagnostic {
 	const match = error.message.match(LOCATION_RE);
 	if (!match) {
 		return { message: error.message };
 	}
 	const line = Number(match[1]);
 	const column = Number(match[2]);
+	if (match[3] !== undefined || !sourceMap) {
+		return {
+			message: error.message,
+			...(match[3] !== undefined && { file: match[3] }),
+			line,
+			column,
+			sourceFrame: buildSourceFrame(source, line, column),
+		};
+	}
+	const location = sourceMap.resolve(line, column);
+	return {
+		message: error.message.replace(LOCATION_RE, formatLocation(location)),
+		...(location.file !== undefined && { file: location.file }),
+		line: location.line,
+		column: location.column,
+		sourceFrame: buildSourceFrame(
+			sourceMap.fileSource(location.file) ?? source,
+			location.line,
+			location.column,
+		),
+	};
+}
+
+// diagnosticAt builds a diagnostic for a problem found on the AST rather than by
+// a thrown error. `location` is already in originating-file terms (see
+// VCLSourceMap.remapLocations); `source` is the fallback text for the frame.
+export function diagnosticAt(
+	message: string,
+	location: SourceLocation | undefined,
+	source: string,
+	sourceMap?: VCLSourceMap,
+): VCLDiagnostic {
+	if (!location) {
+		return { message };
+	}
 	return {
-		message: error.message,
-		line,
-		column,
-		sourceFrame: buildSourceFrame(source, line, column),
+		message: `${message} ${formatLocation(location)}`,
+		...(location.file !== undefined && { file: location.file }),
+		line: location.line,
+		column: location.column,
+		sourceFrame: buildSourceFrame(
+			sourceMap?.fileSource(location.file) ?? source,
+			location.line,
+			location.column,
+		),
 	};
 }
 
 export class VCLDiagnosticError extends Error {
+	/** The first diagnostic; `message` is its message. */
 	readonly diagnostic: VCLDiagnostic;
+	/** Every diagnostic, in source order. */
+	readonly diagnostics: VCLDiagnostic[];
 
-	constructor(diagnostic: VCLDiagnostic) {
-		super(diagnostic.message);
+	constructor(diagnostics: VCLDiagnostic | VCLDiagnostic[]) {
+		const all = Array.isArray(diagnostics) ? diagnostics : [diagnostics];
+		const first = all[0] ?? { message: "Unknown VCL error" };
+		super(first.message);
 		this.name = "VCLDiagnosticError";
-		this.diagnostic = diagnostic;
+		this.diagnostic = first;
+		this.diagnostics = all.length > 0 ? all : [first];
 	}
 }
@@ -2,20 +2,45 @@
 // node:os), then exposes the engine and the request pipeline.
 import "./platform-node";
 
-export type { VCLDiagnostic } from "./diagnostics";
+export type { VCLDiagnostic, VCLSeverity } from "./diagnostics";
 export { VCLDiagnosticError } from "./diagnostics";
-export { loadVCL } from "./node-loader";
+export type { VCLLanguageServerOptions } from "./lsp/server";
+export { VCLLanguageServer } from "./lsp/server";
+export { runLanguageServer } from "./lsp/stdio";
+export { DiskCacheStore } from "./node-cache-store";
+export { createFileIncludeResolver, loadVCL, loadVCLFiles } from "./node-loader";
 export type { TraceEvent, VCLPlatform } from "./platform";
 export { UnsupportedFeatureError } from "./platform";
+export type { BoundedCacheOptions, CacheStats } from "./runtime/bounded-cache";
+export { BoundedCache, entrySize } from "./runtime/bounded-cache";
+export type { CacheStore } from "./runtime/cache-store";
+export { hashKey, MemoryCacheStore } from "./runtime/cache-store";
+export type { Freshness, TTLSource } from "./runtime/freshness";
+export type { HealthCheckOptions } from "./runtime/health-check";
+export { HealthChecker, probeRequest } from "./runtime/health-check";
+export type { SourceLocation } from "./source-map";
 export type {
 	BackendResponse,
 	CacheDecision,
 	CacheEntry,
 	CacheOutcome,
+	CacheSegment,
+	PipelineCache,
 	PipelineOptions,
 	PipelineResponse,
 	PipelineResult,
+	StaleReason,
 } from "./runtime/pipeline";
 export { runPipeline } from "./runtime/pipeline";
+export type { PurgeOptions } from "./runtime/purge";
+export { purgeAll, purgeKey, purgeSurrogateKey, purgeURL } from "./runtime/purge";
+export type { LoadVCLOptions } from "./vcl";
 export { createVCLContext, executeVCL, executeVCLByName, loadVCLContent } from "./vcl";
-export type { VCLContext, VCLSubroutines } from "./vcl-compiler";
+export type { VCLCompileMode, VCLContext, VCLSubroutines } from "./vcl-compiler";
+export { declaredBackends } from "./vcl-compiler";
+export type { VCLFormatOptions } from "./vcl-format";
+export { formatVCL } from "./vcl-format";
+export type { VCLLintOptions, VCLLintRule, VCLLintRuleSetting } from "./vcl-lint";
+export { DEFAULT_LINT_RULES, lintVCL } from "./vcl-lint";
+export type { IncludeResolver, ResolvedInclude } from "./vcl-include";
+export { createMapIncludeResolver } from "./vcl-include";
@@ -0,0 +1,106 @@
+// The subset of the Language Server Protocol the VCL server speaks: JSON-RPC
+// message shapes and the LSP structures it sends and receives. Positions are
+// 0-based, as LSP defines them.
+
+export interface JsonRpcMessage {
+	jsonrpc: "2.0";
+	id?: number | string | null;
+	method?: string;
+	params?: unknown;
+	result?: unknown;
+	error?: { code: number; message: string };
+}
+
+export const ErrorCodes = {
+	ParseError: -32700,
+	InvalidRequest: -32600,
+	MethodNotFound: -32601,
+	InternalError: -32603,
+	ServerNotInitialized: -32002,
+} as const;
+
+export interface Position {
+	line: number;
+	character: number;
+}
+
+export interface Range {
+	start: Position;
+	end: Position;
+}
+
+export interface Location {
+	uri: string;
+	range: Range;
+}
+
+export interface TextDocumentPositionParams {
+	textDocument: { uri: string };
+	position: Position;
+}
+
+export const DiagnosticSeverity = { Error: 1, Warning: 2, Information: 3 } as const;
+
+export interface Diagnostic {
+	range: Range;
+	severity: number;
+	code?: string;
+	source: string;
+	message: string;
+}
+
+export const CompletionItemKind = {
+	Function: 3,
+	Field: 5,
+	Variable: 6,
+	Module: 9,
+	Property: 10,
+	Keyword: 14,
+	Reference: 18,
+} as const;
+
+export interface CompletionItem {
+	label: string;
+	kind: number;
+	detail?: string;
+	textEdit?: { range: Range; newText: string };
+}
+
+export interface SignatureInformation {
+	label: string;
+	/** Offsets of each parameter within `label`. */
+	parameters: Array<{ label: [number, number] }>;
+}
+
+export interface SignatureHelp {
+	signatures: SignatureInformation[];
+	activeSignature: number;
+	activeParameter: number;
+}
+
+export interface Hover {
+	contents: { kind: "markdown"; value: string };
+	range?: Range;
+}
+
+export const SymbolKind = {
+	Module: 2,
+	Namespace: 3,
+	Class: 5,
+	Function: 12,
+	Variable: 13,
+	Constant: 14,
+	Object: 19,
+	Key: 20,
+	Struct: 23,
+	Array: 18,
+} as const;
+
+export interface DocumentSymbol {
+	name: string;
+	detail?: string;
+	kind: number;
+	range: Range;
+	selectionRange: Range;
+	children?: DocumentSymbol[];
+}
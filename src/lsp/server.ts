@@ -0,0 +1,477 @@
+// The VCL language server: diagnostics from lintVCL, completion and signature
+// help from the builtin type tables, and hover, go-to-definition, references and
+// document symbols from the per-document symbol index. The server only maps
+// JSON-RPC messages to replies through `send`; framing them on a stream is
+// stdio.ts's job, so tests can drive it message by message.
+
+import { BUILTIN_SIGNATURES, VARIABLE_TYPES } from "../vcl-builtin-types";
+import { lintVCL, type VCLLintOptions } from "../vcl-lint";
+import { type Token, TokenType } from "../vcl-parser";
+import {
+	type CompletionItem,
+	CompletionItemKind,
+	type Diagnostic,
+	DiagnosticSeverity,
+	type DocumentSymbol,
+	ErrorCodes,
+	type Hover,
+	type JsonRpcMessage,
+	type Location,
+	type Position,
+	type Range,
+	type SignatureHelp,
+	type SignatureInformation,
+	SymbolKind,
+	type TextDocumentPositionParams,
+} from "./protocol";
+import {
+	indexDocument,
+	occurrenceAt,
+	subroutineAt,
+	tokenAt,
+	tokenLength,
+	type VCLDocumentIndex,
+	type VCLSymbol,
+	type VCLSymbolKind,
+} from "./symbols";
+
+export interface VCLLanguageServerOptions {
+	/** Rule settings for the published diagnostics. */
+	lint?: VCLLintOptions;
+}
+
+const KEYWORDS = [
+	"acl",
+	"add",
+	"backend",
+	"break",
+	"call",
+	"declare local",
+	"director",
+	"else",
+	"error",
+	"esi",
+	"fallthrough",
+	"goto",
+	"hash_data",
+	"if",
+	"import",
+	"include",
+	"log",
+	"remove",
+	"restart",
+	"return",
+	"set",
+	"sub",
+	"switch",
+	"synthetic",
+	"synthetic.base64",
+	"table",
+	"unset",
+];
+
+const SYMBOL_KINDS: Record<VCLSymbolKind, number> = {
+	subroutine: SymbolKind.Function,
+	acl: SymbolKind.Array,
+	table: SymbolKind.Object,
+	backend: SymbolKind.Struct,
+	director: SymbolKind.Class,
+	penaltybox: SymbolKind.Constant,
+	ratecounter: SymbolKind.Constant,
+	label: SymbolKind.Key,
+	parameter: SymbolKind.Variable,
+	local: SymbolKind.Variable,
+};
+
+const SYMBOL_LABELS: Record<VCLSymbolKind, string> = {
+	subroutine: "Subroutine",
+	acl: "ACL",
+	table: "Table",
+	backend: "Backend",
+	director: "Director",
+	penaltybox: "Penaltybox",
+	ratecounter: "Ratecounter",
+	label: "Label",
+	parameter: "Parameter",
+	local: "Local variable",
+};
+
+const LOCATION_SUFFIX = / at line \d+,? column \d+(?: in file "[^"]*")?$/;
+
+class ResponseError extends Error {
+	constructor(
+		readonly code: number,
+		message: string,
+	) {
+		super(message);
+	}
+}
+
+interface OpenDocument {
+	text: string;
+	index?: VCLDocumentIndex;
+}
+
+export class VCLLanguageServer {
+	private readonly documents = new Map<string, OpenDocument>();
+	private initialized = false;
+	private shutdownRequested = false;
+	/** Set once the client sends `exit`. */
+	exited = false;
+
+	constructor(
+		private readonly send: (message: JsonRpcMessage) => void,
+		private readonly options: VCLLanguageServerOptions = {},
+	) {}
+
+	/** The process exit code LSP asks for: 0 after a `shutdown` request, 1 without one. */
+	get exitCode(): number {
+		return this.shutdownRequested ? 0 : 1;
+	}
+
+	handle(message: JsonRpcMessage): void {
+		// Replies to server-initiated requests; this server sends none.
+		if (message.method === undefined) return;
+		const isRequest = message.id !== undefined && message.id !== null;
+		try {
+			const result = this.dispatch(message.method, message.params, isRequest);
+			if (isRequest) this.send({ jsonrpc: "2.0", id: message.id, result: result ?? null });
+		} catch (error) {
+			if (!isRequest) return;
+			this.send({
+				jsonrpc: "2.0",
+				id: message.id,
+				error: {
+					code: error instanceof ResponseError ? error.code : ErrorCodes.InternalError,
+					message: error instanceof Error ? error.message : String(error),
+				},
+			});
+		}
+	}
+
+	private dispatch(method: string, params: any, isRequest: boolean): unknown {
+		if (method === "initialize") {
+			this.initialized = true;
+			return {
+				capabilities: {
+					textDocumentSync: 1,
+					completionProvider: { triggerCharacters: ["."] },
+					signatureHelpProvider: { triggerCharacters: ["(", ","] },
+					hoverProvider: true,
+					definitionProvider: true,
+					referencesProvider: true,
+					documentSymbolProvider: true,
+				},
+				serverInfo: { name: "fastly.js-vcl" },
+			};
+		}
+		if (method === "exit") {
+			this.exited = true;
+			return undefined;
+		}
+		if (!this.initialized) {
+			throw new ResponseError(ErrorCodes.ServerNotInitialized, "Server not initialized");
+		}
+		switch (method) {
+			case "initialized":
+				return undefined;
+			case "shutdown":
+				this.shutdownRequested = true;
+				return null;
+			case "textDocument/didOpen":
+				this.documents.set(params.textDocument.uri, { text: params.textDocument.text });
+				this.publishDiagnostics(params.textDocument.uri);
+				return undefined;
+			case "textDocument/didChange": {
+				// Full sync: the last change holds the whole text.
+				const changes = params.contentChanges as Array<{ text: string }>;
+				const text = changes[changes.length - 1]?.text;
+				if (text === undefined) return undefined;
+				this.documents.set(params.textDocument.uri, { text });
+				this.publishDiagnostics(params.textDocument.uri);
+				return undefined;
+			}
+			case "textDocument/didClose":
+				this.documents.delete(params.textDocument.uri);
+				this.send({
+					jsonrpc: "2.0",
+					method: "textDocument/publishDiagnostics",
+					params: { uri: params.textDocument.uri, diagnostics: [] },
+				});
+				return undefined;
+			case "textDocument/completion":
+				return this.completion(params);
+			case "textDocument/signatureHelp":
+				return this.signatureHelp(params);
+			case "textDocument/hover":
+				return this.hover(params);
+			case "textDocument/definition":
+				return this.definition(params);
+			case "textDocument/references":
+				return this.references(params);
+			case "textDocument/documentSymbol":
+				return this.documentSymbols(params);
+		}
+		if (isRequest) throw new ResponseError(ErrorCodes.MethodNotFound, `Unhandled method ${method}`);
+		return undefined;
+	}
+
+	// ---- Documents ----
+
+	private document(uri: string): OpenDocument & { index: VCLDocumentIndex } {
+		const document = this.documents.get(uri);
+		if (!document) throw new ResponseError(ErrorCodes.InvalidRequest, `Unknown document ${uri}`);
+		document.index ??= indexDocument(document.text);
+		return document as OpenDocument & { index: VCLDocumentIndex };
+	}
+
+	private publishDiagnostics(uri: string): void {
+		const { text, index } = this.document(uri);
+		const diagnostics: Diagnostic[] = lintVCL(text, this.options.lint).map((diagnostic) => {
+			const line = (diagnostic.line ?? 1) - 1;
+			const character = (diagnostic.column ?? 1) - 1;
+			const token = tokenAt(index.tokens, line + 1, character + 1);
+			const length = token !== undefined ? tokenLength(index.tokens[token]!) : 0;
+			return {
+				range: { start: { line, character }, end: { line, character: character + length } },
+				severity:
+					diagnostic.severity === "warning"
+						? DiagnosticSeverity.Warning
+						: diagnostic.severity === "info"
+							? DiagnosticSeverity.Information
+							: DiagnosticSeverity.Error,
+				...(diagnostic.rule && { code: diagnostic.rule }),
+				source: "vcl",
+				message: diagnostic.message.replace(LOCATION_SUFFIX, ""),
+			};
+		});
+		this.send({
+			jsonrpc: "2.0",
+			method: "textDocument/publishDiagnostics",
+			params: { uri, diagnostics },
+		});
+	}
+
+	// ---- Requests ----
+
+	private completion(params: TextDocumentPositionParams): CompletionItem[] {
+		const { text, index } = this.document(params.textDocument.uri);
+		const { line, character } = params.position;
+		const lineText = text.split("\n")[line] ?? "";
+		let start = character;
+		while (start > 0 && /[\w.-]/.test(lineText[start - 1]!)) start--;
+		const prefix = lineText.slice(start, character).toLowerCase();
+		const before = lineText.slice(0, start).trimEnd();
+		const sub = subroutineAt(index, line + 1, character + 1);
+
+		const items: CompletionItem[] = [];
+		const add = (label: string, kind: number, detail?: string) => {
+			if (!label.toLowerCase().startsWith(prefix)) return;
+			items.push({
+				label,
+				kind,
+				...(detail && { detail }),
+				textEdit: {
+					range: { start: { line, character: start }, end: { line, character } },
+					newText: label,
+				},
+			});
+		};
+		const symbols = (kind: VCLSymbolKind, scope?: VCLSymbol) =>
+			index.symbols.filter((symbol) => symbol.kind === kind && symbol.scope === scope);
+
+		if (/\bcall$/.test(before)) {
+			for (const symbol of symbols("subroutine")) {
+				add(symbol.name, CompletionItemKind.Function, symbol.detail);
+			}
+			return items;
+		}
+		if (/\bgoto$/.test(before)) {
+			if (sub)
+				for (const symbol of symbols("label", sub)) add(symbol.name, CompletionItemKind.Reference);
+			return items;
+		}
+		if (sub) {
+			for (const kind of ["local", "parameter"] as const) {
+				for (const symbol of symbols(kind, sub)) {
+					add(symbol.name, CompletionItemKind.Variable, symbol.detail);
+				}
+			}
+		}
+		for (const kind of [
+			"acl",
+			"table",
+			"backend",
+			"director",
+			"penaltybox",
+			"ratecounter",
+		] as const) {
+			for (const symbol of symbols(kind))
+				add(symbol.name, CompletionItemKind.Module, symbol.detail);
+		}
+		for (const symbol of symbols("subroutine")) {
+			if (!symbol.name.startsWith("vcl_"))
+				add(symbol.name, CompletionItemKind.Function, symbol.detail);
+		}
+		for (const [name, variable] of Object.entries(VARIABLE_TYPES)) {
+			const type = variable.get ?? variable.set ?? "";
+			add(name, CompletionItemKind.Variable, variable.set === null ? `${type} (read-only)` : type);
+		}
+		for (const name of Object.keys(BUILTIN_SIGNATURES)) {
+			add(name, CompletionItemKind.Function, builtinSignatures(name)[0]?.label);
+		}
+		for (const keyword of KEYWORDS) add(keyword, CompletionItemKind.Keyword);
+		return items;
+	}
+
+	private signatureHelp(params: TextDocumentPositionParams): SignatureHelp | null {
+		const { index } = this.document(params.textDocument.uri);
+		const line = params.position.line + 1;
+		const column = params.position.character + 1;
+		// The innermost call whose `(` is still open at the cursor.
+		const open: Array<{ paren: number; commas: number }> = [];
+		for (let i = 0; i < index.tokens.length; i++) {
+			const token = index.tokens[i]!;
+			if (token.line > line || (token.line === line && token.column >= column)) break;
+			if (token.type !== TokenType.PUNCTUATION) continue;
+			if (token.value === "(") open.push({ paren: i, commas: 0 });
+			else if (token.value === ")") open.pop();
+			else if (token.value === "," && open.length > 0) open[open.length - 1]!.commas++;
+		}
+		const call = open[open.length - 1];
+		if (!call) return null;
+		const name = index.tokens[call.paren - 1];
+		if (!name || name.type !== TokenType.IDENTIFIER) return null;
+
+		let signatures = builtinSignatures(name.value);
+		if (signatures.length === 0) {
+			const sub = index.symbols.find((s) => s.kind === "subroutine" && s.name === name.value);
+			const subParams = sub
+				? index.symbols.filter((s) => s.kind === "parameter" && s.scope === sub)
+				: [];
+			if (!sub || subParams.length === 0) return null;
+			signatures = [
+				signature(
+					name.value,
+					subParams.map((p) => p.detail),
+					undefined,
+				),
+			];
+		}
+		const active = signatures.findIndex((s) => s.parameters.length > call.commas);
+		return {
+			signatures,
+			activeSignature: active === -1 ? 0 : active,
+			activeParameter: call.commas,
+		};
+	}
+
+	private hover(params: TextDocumentPositionParams): Hover | null {
+		const { index } = this.document(params.textDocument.uri);
+		const line = params.position.line + 1;
+		const column = params.position.character + 1;
+		const occurrence = occurrenceAt(index, line, column);
+		if (occurrence) {
+			const symbol = occurrence.symbol;
+			const scope = symbol.scope ? ` in \`${symbol.scope.name}\`` : "";
+			const references = index.occurrences.filter(
+				(o) => o.symbol === symbol && !o.definition,
+			).length;
+			return {
+				contents: {
+					kind: "markdown",
+					value: `\`\`\`vcl\n${symbol.detail}\n\`\`\`\n\n${SYMBOL_LABELS[symbol.kind]}${scope}, ${references} reference${references === 1 ? "" : "s"}`,
+				},
+				range: tokenRange(index.tokens[occurrence.token]!),
+			};
+		}
+
+		const at = tokenAt(index.tokens, line, column);
+		const token = at !== undefined ? index.tokens[at] : undefined;
+		if (!token || token.type !== TokenType.IDENTIFIER) return null;
+		let value: string | undefined;
+		const signatures = builtinSignatures(token.value);
+		if (signatures.length > 0) {
+			value = `\`\`\`vcl\n${signatures.map((s) => s.label).join("\n")}\n\`\`\`\n\nBuiltin function`;
+		} else {
+			const variable = VARIABLE_TYPES[token.value];
+			if (variable) {
+				const access =
+					variable.set === null ? "read-only" : variable.get === null ? "write-only" : "read-write";
+				value = `\`\`\`vcl\n${variable.get ?? variable.set} ${token.value}\n\`\`\`\n\nBuiltin variable, ${access}`;
+			} else if (/^[a-z_.]+\.http\./.test(token.value)) {
+				value = `\`\`\`vcl\nSTRING ${token.value}\n\`\`\`\n\nHTTP header`;
+			}
+		}
+		return value ? { contents: { kind: "markdown", value }, range: tokenRange(token) } : null;
+	}
+
+	private definition(params: TextDocumentPositionParams): Location | null {
+		const { index } = this.document(params.textDocument.uri);
+		const occurrence = occurrenceAt(index, params.position.line + 1, params.position.character + 1);
+		if (!occurrence) return null;
+		return {
+			uri: params.textDocument.uri,
+			range: tokenRange(index.tokens[occurrence.symbol.token]!),
+		};
+	}
+
+	private references(
+		params: TextDocumentPositionParams & { context?: { includeDeclaration?: boolean } },
+	): Location[] {
+		const { index } = this.document(params.textDocument.uri);
+		const occurrence = occurrenceAt(index, params.position.line + 1, params.position.character + 1);
+		if (!occurrence) return [];
+		const includeDeclaration = params.context?.includeDeclaration ?? true;
+		return index.occurrences
+			.filter((o) => o.symbol === occurrence.symbol && (includeDeclaration || !o.definition))
+			.map((o) => ({ uri: params.textDocument.uri, range: tokenRange(index.tokens[o.token]!) }));
+	}
+
+	private documentSymbols(params: { textDocument: { uri: string } }): DocumentSymbol[] {
+		const { index } = this.document(params.textDocument.uri);
+		const toDocumentSymbol = (symbol: VCLSymbol): DocumentSymbol => {
+			const children = index.symbols.filter((child) => child.scope === symbol);
+			return {
+				name: symbol.name,
+				detail: symbol.detail,
+				kind: SYMBOL_KINDS[symbol.kind],
+				range: spanRange(index.tokens[symbol.start]!, index.tokens[symbol.end]!),
+				selectionRange: tokenRange(index.tokens[symbol.token]!),
+				...(children.length > 0 && { children: children.map(toDocumentSymbol) }),
+			};
+		};
+		return index.symbols.filter((symbol) => !symbol.scope).map(toDocumentSymbol);
+	}
+}
+
+/** One signature per overload of a builtin, e.g. `STRING std.tolower(STRING)`. */
+function builtinSignatures(name: string): SignatureInformation[] {
+	const builtin = BUILTIN_SIGNATURES[name];
+	if (!builtin) return [];
+	const overloads = builtin.args.length > 0 ? builtin.args : [[]];
+	return overloads.map((args) => signature(name, args, builtin.ret ?? "VOID"));
+}
+
+function signature(name: string, params: string[], ret: string | undefined): SignatureInformation {
+	let label = `${ret ? `${ret} ` : ""}${name}(`;
+	const parameters: SignatureInformation["parameters"] = [];
+	params.forEach((param, i) => {
+		if (i > 0) label += ", ";
+		parameters.push({ label: [label.length, label.length + param.length] });
+		label += param;
+	});
+	return { label: `${label})`, parameters };
+}
+
+function position(token: Token, offset = 0): Position {
+	return { line: token.line - 1, character: token.column - 1 + offset };
+}
+
+function tokenRange(token: Token): Range {
+	return { start: position(token), end: position(token, tokenLength(token)) };
+}
+
+function spanRange(first: Token, last: Token): Range {
+	return { start: position(first), end: position(last, tokenLength(last)) };
+}
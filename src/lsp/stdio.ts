@@ -0,0 +1,71 @@
+// Runs the VCL language server over a byte stream pair (stdin/stdout for an
+// editor), framing JSON-RPC messages with `Content-Length` headers as LSP's
+// base protocol requires.
+
+import type { Readable, Writable } from "node:stream";
+import { ErrorCodes, type JsonRpcMessage } from "./protocol";
+import { VCLLanguageServer, type VCLLanguageServerOptions } from "./server";
+
+const HEADER_END = "\r\n\r\n";
+
+// runLanguageServer serves until the client sends `exit` or closes `input`, and
+// resolves with the exit code LSP prescribes.
+export function runLanguageServer(
+	input: Readable,
+	output: Writable,
+	options: VCLLanguageServerOptions = {},
+): Promise<number> {
+	const server = new VCLLanguageServer((message) => output.write(frame(message)), options);
+
+	return new Promise((resolve) => {
+		let buffer = Buffer.alloc(0);
+		const finish = () => {
+			input.off("data", onData);
+			input.off("end", finish);
+			resolve(server.exitCode);
+		};
+		const onData = (chunk: Buffer | string) => {
+			buffer = Buffer.concat([buffer, typeof chunk === "string" ? Buffer.from(chunk) : chunk]);
+			for (;;) {
+				const headerEnd = buffer.indexOf(HEADER_END);
+				if (headerEnd === -1) return;
+				const header = buffer.subarray(0, headerEnd).toString("ascii");
+				const length = Number(/Content-Length: *(\d+)/i.exec(header)?.[1]);
+				const bodyStart = headerEnd + HEADER_END.length;
+				if (!Number.isInteger(length)) {
+					// Unframed garbage: drop it and look for the next header.
+					buffer = buffer.subarray(bodyStart);
+					continue;
+				}
+				if (buffer.length < bodyStart + length) return;
+				const body = buffer.subarray(bodyStart, bodyStart + length).toString("utf8");
+				buffer = buffer.subarray(bodyStart + length);
+				let message: JsonRpcMessage;
+				try {
+					message = JSON.parse(body);
+				} catch {
+					output.write(
+						frame({
+							jsonrpc: "2.0",
+							id: null,
+							error: { code: ErrorCodes.ParseError, message: "Invalid JSON" },
+						}),
+					);
+					continue;
+				}
+				server.handle(message);
+				if (server.exited) {
+					finish();
+					return;
+				}
+			}
+		};
+		input.on("data", onData);
+		input.on("end", finish);
+	});
+}
+
+function frame(message: JsonRpcMessage): string {
+	const body = JSON.stringify(message);
+	return `Content-Length: ${Buffer.byteLength(body, "utf8")}${HEADER_END}${body}`;
+}
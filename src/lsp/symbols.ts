@@ -0,0 +1,382 @@
+// Symbol index for one VCL document: where every subroutine, ACL, table,
+// backend, director, goto label, parameter and `var.` local is defined, and
+// every token that refers to one. Built from the token stream plus the AST the
+// error-recovering parser returns, so a document with syntax errors still gets
+// an index for everything that parsed. Positions are the lexer's: 1-based line
+// and column.
+
+import {
+	type Token,
+	TokenType,
+	type VCLBlockStatement,
+	type VCLDeclareStatement,
+	type VCLIfStatement,
+	VCLLexer,
+	type VCLNode,
+	type VCLProgram,
+	type VCLStatement,
+	type VCLSubroutine,
+	type VCLSwitchStatement,
+} from "../vcl-parser";
+import { VCLParser } from "../vcl-parser-impl";
+
+export type VCLSymbolKind =
+	| "subroutine"
+	| "acl"
+	| "table"
+	| "backend"
+	| "director"
+	| "penaltybox"
+	| "ratecounter"
+	| "label"
+	| "parameter"
+	| "local";
+
+export interface VCLSymbol {
+	kind: VCLSymbolKind;
+	name: string;
+	/** The declaration as written, e.g. `sub add(INTEGER a, INTEGER b) INTEGER`. */
+	detail: string;
+	/** Index of the name token in the definition. */
+	token: number;
+	/** Index of the first and last token of the whole declaration. */
+	start: number;
+	end: number;
+	/** The subroutine a label, parameter or local belongs to. */
+	scope?: VCLSymbol;
+}
+
+export interface VCLOccurrence {
+	symbol: VCLSymbol;
+	token: number;
+	definition: boolean;
+}
+
+export interface VCLDocumentIndex {
+	/** Tokens without whitespace and comments. */
+	tokens: Token[];
+	program: VCLProgram;
+	symbols: VCLSymbol[];
+	occurrences: VCLOccurrence[];
+}
+
+// Declarations a bare identifier can refer to, in lookup order.
+const GLOBAL_KINDS: VCLSymbolKind[] = [
+	"acl",
+	"table",
+	"backend",
+	"director",
+	"penaltybox",
+	"ratecounter",
+];
+
+// indexDocument never throws: text the lexer rejects yields an empty index.
+export function indexDocument(source: string): VCLDocumentIndex {
+	let tokens: Token[];
+	try {
+		tokens = new VCLLexer(source).tokenize();
+	} catch {
+		return { tokens: [], program: emptyProgram(), symbols: [], occurrences: [] };
+	}
+	const { program } = new VCLParser(tokens, source).parseWithRecovery();
+	return new Indexer(
+		tokens.filter((t) => t.type !== TokenType.WHITESPACE && t.type !== TokenType.COMMENT),
+		program,
+	).build();
+}
+
+/** The token covering a position, or the one ending right before it. */
+export function tokenAt(tokens: Token[], line: number, column: number): number | undefined {
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i]!;
+		if (token.type === TokenType.EOF || token.line !== line) continue;
+		if (column >= token.column && column <= token.column + tokenLength(token)) return i;
+	}
+	return undefined;
+}
+
+/** Length of a token's text on its first line. */
+export function tokenLength(token: Token): number {
+	return token.value.split("\n")[0]!.length;
+}
+
+export function occurrenceAt(
+	index: VCLDocumentIndex,
+	line: number,
+	column: number,
+): VCLOccurrence | undefined {
+	const token = tokenAt(index.tokens, line, column);
+	if (token === undefined) return undefined;
+	return index.occurrences.find((occurrence) => occurrence.token === token);
+}
+
+/** The subroutine whose body contains a position. */
+export function subroutineAt(
+	index: VCLDocumentIndex,
+	line: number,
+	column: number,
+): VCLSymbol | undefined {
+	return index.symbols.find((symbol) => {
+		if (symbol.kind !== "subroutine") return false;
+		const start = index.tokens[symbol.start]!;
+		const end = index.tokens[symbol.end]!;
+		const after = line > start.line || (line === start.line && column >= start.column);
+		const before = line < end.line || (line === end.line && column <= end.column);
+		return after && before;
+	});
+}
+
+function emptyProgram(): VCLProgram {
+	return {
+		type: "Program",
+		subroutines: [],
+		comments: [],
+		acls: [],
+		includes: [],
+		imports: [],
+		tables: [],
+		backends: [],
+		directors: [],
+		penaltyboxes: [],
+		ratecounters: [],
+	};
+}
+
+class Indexer {
+	private readonly symbols: VCLSymbol[] = [];
+	private readonly occurrences: VCLOccurrence[] = [];
+	private readonly byPosition = new Map<string, number>();
+	/** Index of each `{` token's matching `}`. */
+	private readonly closing = new Map<number, number>();
+
+	constructor(
+		private readonly tokens: Token[],
+		private readonly program: VCLProgram,
+	) {
+		const open: number[] = [];
+		for (let i = 0; i < tokens.length; i++) {
+			const token = tokens[i]!;
+			this.byPosition.set(`${token.line}:${token.column}`, i);
+			if (token.type !== TokenType.PUNCTUATION) continue;
+			if (token.value === "{") open.push(i);
+			if (token.value === "}" && open.length > 0) this.closing.set(open.pop()!, i);
+		}
+	}
+
+	build(): VCLDocumentIndex {
+		const declarations: Array<[VCLSymbolKind, Array<VCLNode & { name: string }>]> = [
+			["acl", this.program.acls],
+			["table", this.program.tables],
+			["backend", this.program.backends],
+			["director", this.program.directors],
+			["penaltybox", this.program.penaltyboxes],
+			["ratecounter", this.program.ratecounters],
+		];
+		for (const [kind, nodes] of declarations) {
+			for (const node of nodes) this.declare(kind, node);
+		}
+		for (const sub of this.program.subroutines) this.subroutine(sub);
+		this.references();
+		this.occurrences.sort((a, b) => a.token - b.token);
+		return {
+			tokens: this.tokens,
+			program: this.program,
+			symbols: this.symbols,
+			occurrences: this.occurrences,
+		};
+	}
+
+	private declare(kind: VCLSymbolKind, node: VCLNode & { name: string }): VCLSymbol | undefined {
+		const at = this.indexOf(node.location);
+		if (at === undefined) return undefined;
+		const token = this.findName(at, node.name);
+		if (token === undefined) return undefined;
+		// The declaration starts at its keyword (`sub`, `acl`, ...).
+		const start = this.tokens[token - 1]?.type === TokenType.KEYWORD ? token - 1 : token;
+		const open = this.findPunctuation(token, "{");
+		const end = open !== undefined ? (this.closing.get(open) ?? open) : token;
+		const symbol: VCLSymbol = {
+			kind,
+			name: node.name,
+			detail: this.join(start, open ?? token + 1),
+			token,
+			start,
+			end,
+		};
+		this.define(symbol);
+		return symbol;
+	}
+
+	private subroutine(sub: VCLSubroutine): void {
+		const symbol = this.declare("subroutine", sub);
+		if (!symbol) return;
+		// Parameters: `(TYPE name, TYPE name)` after the name.
+		if (this.isPunctuation(symbol.token + 1, "(")) {
+			for (let i = symbol.token + 2; i < symbol.end && !this.isPunctuation(i, ")"); i++) {
+				if (this.isPunctuation(i + 1, ",") || this.isPunctuation(i + 1, ")")) {
+					const token = this.tokens[i]!;
+					this.define({
+						kind: "parameter",
+						name: token.value,
+						detail: `${this.tokens[i - 1]?.value ?? ""} ${token.value}`.trim(),
+						token: i,
+						start: i - 1,
+						end: i,
+						scope: symbol,
+					});
+				}
+			}
+		}
+		this.statements(sub.body ?? [], symbol);
+	}
+
+	private statements(statements: VCLStatement[], sub: VCLSymbol): void {
+		for (const statement of statements) {
+			switch (statement.type) {
+				case "DeclareStatement": {
+					const declare = statement as VCLDeclareStatement;
+					if (this.lookup(sub, "local", declare.variableName)) break;
+					const at = this.indexOf(declare.location);
+					const token = at !== undefined ? this.findName(at, declare.variableName) : undefined;
+					if (token === undefined) break;
+					const end = this.findPunctuation(token, ";") ?? token;
+					this.define({
+						kind: "local",
+						name: declare.variableName,
+						detail: this.join(at!, end),
+						token,
+						start: at!,
+						end,
+						scope: sub,
+					});
+					break;
+				}
+				case "LabelStatement": {
+					const token = this.indexOf(statement.location);
+					if (token === undefined) break;
+					this.define({
+						kind: "label",
+						name: statement.name,
+						detail: `${statement.name}:`,
+						token,
+						start: token,
+						end: token + 1,
+						scope: sub,
+					});
+					break;
+				}
+				case "IfStatement": {
+					const ifStmt = statement as VCLIfStatement;
+					this.statements(ifStmt.consequent ?? [], sub);
+					if (ifStmt.alternate) this.statements(ifStmt.alternate, sub);
+					break;
+				}
+				case "SwitchStatement":
+					for (const switchCase of (statement as VCLSwitchStatement).cases) {
+						this.statements(switchCase.body ?? [], sub);
+					}
+					break;
+				case "BlockStatement":
+					this.statements((statement as VCLBlockStatement).body, sub);
+					break;
+			}
+		}
+	}
+
+	/** Resolve every identifier token that names a symbol. */
+	private references(): void {
+		const definitions = new Set(this.symbols.map((symbol) => symbol.token));
+		for (let i = 0; i < this.tokens.length; i++) {
+			const token = this.tokens[i]!;
+			if (token.type !== TokenType.IDENTIFIER || definitions.has(i)) continue;
+			// `.host = ...` and other property names.
+			if (this.isPunctuation(i - 1, ".")) continue;
+			const symbol = this.resolve(i);
+			if (symbol) this.occurrences.push({ symbol, token: i, definition: false });
+		}
+	}
+
+	private resolve(index: number): VCLSymbol | undefined {
+		const token = this.tokens[index]!;
+		const name = token.value;
+		const sub = this.symbols.find(
+			(symbol) => symbol.kind === "subroutine" && index > symbol.token && index <= symbol.end,
+		);
+		const previous = this.tokens[index - 1];
+		if (previous?.type === TokenType.KEYWORD && previous.value === "goto") {
+			return sub && this.lookup(sub, "label", name);
+		}
+		if (previous?.type === TokenType.KEYWORD && previous.value === "call") {
+			return this.lookup(undefined, "subroutine", name);
+		}
+		if (sub) {
+			const local = this.lookup(sub, name.startsWith("var.") ? "local" : "parameter", name);
+			if (local) return local;
+		}
+		if (this.isPunctuation(index + 1, "(")) {
+			return this.lookup(undefined, "subroutine", name);
+		}
+		for (const kind of GLOBAL_KINDS) {
+			const symbol = this.lookup(undefined, kind, name);
+			if (symbol) return symbol;
+		}
+		return undefined;
+	}
+
+	private lookup(
+		scope: VCLSymbol | undefined,
+		kind: VCLSymbolKind,
+		name: string,
+	): VCLSymbol | undefined {
+		return this.symbols.find(
+			(symbol) => symbol.kind === kind && symbol.name === name && symbol.scope === scope,
+		);
+	}
+
+	private define(symbol: VCLSymbol): void {
+		this.symbols.push(symbol);
+		this.occurrences.push({ symbol, token: symbol.token, definition: true });
+	}
+
+	private indexOf(location: VCLNode["location"]): number | undefined {
+		return location ? this.byPosition.get(`${location.line}:${location.column}`) : undefined;
+	}
+
+	/** The first token at or after `from` spelled `name`. */
+	private findName(from: number, name: string): number | undefined {
+		for (let i = from; i < this.tokens.length && i < from + 4; i++) {
+			if (this.tokens[i]!.value === name) return i;
+		}
+		return undefined;
+	}
+
+	private findPunctuation(from: number, value: string): number | undefined {
+		for (let i = from; i < this.tokens.length; i++) {
+			if (this.isPunctuation(i, value)) return i;
+			if (this.isPunctuation(i, "}") || this.isPunctuation(i, ";")) {
+				return value === "}" || value === ";" ? i : undefined;
+			}
+		}
+		return undefined;
+	}
+
+	private isPunctuation(index: number, value: string): boolean {
+		const token = this.tokens[index];
+		return token?.type === TokenType.PUNCTUATION && token.value === value;
+	}
+
+	/** The tokens in [start, end) as one line of source. */
+	private join(start: number, end: number): string {
+		let text = "";
+		for (let i = start; i < end && i < this.tokens.length; i++) {
+			const token = this.tokens[i]!;
+			const previous = this.tokens[i - 1];
+			const glued =
+				i === start ||
+				(token.type === TokenType.PUNCTUATION && /^[(),]$/.test(token.value)) ||
+				(previous?.type === TokenType.PUNCTUATION && previous.value === "(");
+			text += glued ? token.value : ` ${token.value}`;
+		}
+		return text;
+	}
+}
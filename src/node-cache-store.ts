@@ -0,0 +1,244 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { type BoundedCacheOptions, type CacheStats, entrySize } from "./runtime/bounded-cache";
+import type { CacheStore } from "./runtime/cache-store";
+import type { CacheEntry } from "./runtime/pipeline";
+
+// DiskCacheStore keeps each hash key's variants in a JSON file of its own in
+// `directory`, named after the key's SHA-256, so a proxy restarted on the same
+// directory starts warm and the objects can be read or copied while it is
+// stopped. Bodies are stored as base64. A file that cannot be parsed, or that
+// was written in another format, reads as absent.
+//
+// Like a BoundedCache, the store may be given limits on its objects and bytes,
+// and evicts expired objects first and then the least recently used keys. It
+// keeps the size and expiry of what is on disk in memory, counted from the
+// directory the first time it is used; a key whose files were there before
+// the store started counts as used when its newest object was stored.
+
+/** Bumped whenever the file layout changes, so older files are ignored. */
+const FORMAT_VERSION = 1;
+
+interface StoredKey {
+	version: number;
+	key: string;
+	entries: (Omit<CacheEntry, "body"> & { body: string })[];
+}
+
+function isMissing(err: unknown): boolean {
+	return (err as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+let writeSequence = 0;
+
+/** What a stored key counts for against the limits: the size and expiry of each variant. */
+interface KeyUsage {
+	sizes: number[];
+	expires: number[];
+}
+
+function usageOf(entries: CacheEntry[]): KeyUsage {
+	return {
+		sizes: entries.map(entrySize),
+		expires: entries.map((entry) => entry.expires),
+	};
+}
+
+const sum = (sizes: number[]) => sizes.reduce((total, size) => total + size, 0);
+
+export class DiskCacheStore implements CacheStore {
+	readonly maxObjects: number;
+	readonly maxBytes: number;
+	private readonly now: () => number;
+	/** Stored keys in LRU order, once the directory has been counted. */
+	private usage?: Promise<Map<string, KeyUsage>>;
+	private objects = 0;
+	private bytes = 0;
+	private evictions = 0;
+	private expiredEvictions = 0;
+
+	constructor(
+		readonly directory: string,
+		options: BoundedCacheOptions = {},
+	) {
+		this.maxObjects = options.maxObjects ?? Infinity;
+		this.maxBytes = options.maxBytes ?? Infinity;
+		this.now = options.now ?? Date.now;
+	}
+
+	private path(key: string): string {
+		return join(this.directory, `${createHash("sha256").update(key).digest("hex")}.json`);
+	}
+
+	async get(key: string): Promise<CacheEntry[] | undefined> {
+		const stored = await this.read(this.path(key));
+		if (stored?.key !== key) return undefined;
+		const usage = await this.counted();
+		const used = usage.get(key);
+		if (used) {
+			usage.delete(key);
+			usage.set(key, used);
+		}
+		return stored.entries;
+	}
+
+	async set(key: string, entries: CacheEntry[]): Promise<void> {
+		const usage = await this.counted();
+		await this.write(key, entries);
+		this.forget(usage, key);
+		usage.delete(key);
+		this.count(usage, key, usageOf(entries));
+		await this.evict(usage);
+	}
+
+	async delete(key: string): Promise<boolean> {
+		if ((await this.get(key)) === undefined) return false;
+		const removed = await this.remove(key);
+		const usage = await this.counted();
+		this.forget(usage, key);
+		usage.delete(key);
+		return removed;
+	}
+
+	/** The store's objects, bytes, limits and evictions, as BoundedCache.stats reports them. */
+	async stats(): Promise<CacheStats> {
+		await this.counted();
+		return {
+			objects: this.objects,
+			bytes: this.bytes,
+			maxObjects: this.maxObjects,
+			maxBytes: this.maxBytes,
+			evictions: this.evictions,
+			expiredEvictions: this.expiredEvictions,
+		};
+	}
+
+	async *entries(): AsyncIterable<[string, CacheEntry[]]> {
+		let names: string[];
+		try {
+			names = await readdir(this.directory);
+		} catch (err) {
+			if (isMissing(err)) return;
+			throw err;
+		}
+		for (const name of names.filter((name) => name.endsWith(".json")).sort()) {
+			const stored = await this.read(join(this.directory, name));
+			if (stored) yield [stored.key, stored.entries];
+		}
+	}
+
+	private async write(key: string, entries: CacheEntry[]): Promise<void> {
+		const file: StoredKey = {
+			version: FORMAT_VERSION,
+			key,
+			entries: entries.map((entry) => ({
+				...entry,
+				body: Buffer.from(entry.body).toString("base64"),
+			})),
+		};
+		await mkdir(this.directory, { recursive: true });
+		// Written aside and renamed into place, so a reader never sees half a file.
+		const path = this.path(key);
+		const temporary = `${path}.${process.pid}.${++writeSequence}.tmp`;
+		await writeFile(temporary, JSON.stringify(file));
+		await rename(temporary, path);
+	}
+
+	private async remove(key: string): Promise<boolean> {
+		try {
+			await unlink(this.path(key));
+			return true;
+		} catch (err) {
+			if (isMissing(err)) return false;
+			throw err;
+		}
+	}
+
+	/** The usage of every stored key, counting the directory on first use. */
+	private counted(): Promise<Map<string, KeyUsage>> {
+		this.usage ??= (async () => {
+			const found: [string, KeyUsage, number][] = [];
+			for await (const [key, entries] of this.entries()) {
+				found.push([key, usageOf(entries), Math.max(...entries.map((entry) => entry.created))]);
+			}
+			const usage = new Map<string, KeyUsage>();
+			for (const [key, used] of found.sort((a, b) => a[2] - b[2])) this.count(usage, key, used);
+			return usage;
+		})();
+		return this.usage;
+	}
+
+	private count(usage: Map<string, KeyUsage>, key: string, used: KeyUsage): void {
+		usage.set(key, used);
+		this.objects += used.sizes.length;
+		this.bytes += sum(used.sizes);
+	}
+
+	/** Take the objects stored under `key` out of the totals. */
+	private forget(usage: Map<string, KeyUsage>, key: string): void {
+		const used = usage.get(key);
+		if (!used) return;
+		this.objects -= used.sizes.length;
+		this.bytes -= sum(used.sizes);
+	}
+
+	private overLimit(): boolean {
+		return this.objects > this.maxObjects || this.bytes > this.maxBytes;
+	}
+
+	/** Remove expired objects, oldest keys first, then whole keys in LRU order, until within the limits. */
+	private async evict(usage: Map<string, KeyUsage>): Promise<void> {
+		if (!this.overLimit()) return;
+		const at = this.now();
+		for (const [key, used] of [...usage]) {
+			const expired = used.expires.filter((expires) => at >= expires).length;
+			if (expired === 0) continue;
+			const stored = await this.read(this.path(key));
+			const remaining = stored?.entries.filter((entry) => at < entry.expires) ?? [];
+			this.forget(usage, key);
+			if (remaining.length > 0) {
+				await this.write(key, remaining);
+				// Replacing the value of a key keeps its place in the order.
+				this.count(usage, key, usageOf(remaining));
+			} else {
+				await this.remove(key);
+				usage.delete(key);
+			}
+			this.evictions += expired;
+			this.expiredEvictions += expired;
+			if (!this.overLimit()) return;
+		}
+		for (const [key, used] of [...usage]) {
+			await this.remove(key);
+			this.forget(usage, key);
+			usage.delete(key);
+			this.evictions += used.sizes.length;
+			if (!this.overLimit()) return;
+		}
+	}
+
+	private async read(path: string): Promise<{ key: string; entries: CacheEntry[] } | undefined> {
+		let text: string;
+		try {
+			text = await readFile(path, "utf-8");
+		} catch (err) {
+			if (isMissing(err)) return undefined;
+			throw err;
+		}
+		let stored: StoredKey;
+		try {
+			stored = JSON.parse(text);
+		} catch {
+			return undefined;
+		}
+		if (stored?.version !== FORMAT_VERSION || typeof stored.key !== "string") return undefined;
+		return {
+			key: stored.key,
+			entries: stored.entries.map((entry) => ({
+				...entry,
+				body: new Uint8Array(Buffer.from(entry.body, "base64")),
+			})),
+		};
+	}
+}
@@ -1,12 +1,79 @@
-import { existsSync, readFileSync } from "node:fs";
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { dirname, extname, resolve } from "node:path";
 import "./platform-node";
-import { loadVCLContent } from "./vcl";
+import { type LoadVCLOptions, loadVCLContent } from "./vcl";
 import type { VCLSubroutines } from "./vcl-compiler";
+import type { IncludeResolver, ResolvedInclude } from "./vcl-include";
 
-export function loadVCL(filePath: string): VCLSubroutines {
+// createFileIncludeResolver resolves includes from the filesystem: first next to
+// the including file, then in each of `searchPaths` in order. A name without an
+// extension also matches the same name with ".vcl".
+export function createFileIncludeResolver(searchPaths: string[] = []): IncludeResolver {
+	return {
+		resolve(name: string, from: string | undefined): ResolvedInclude | undefined {
+			const directories = from ? [dirname(from), ...searchPaths] : [...searchPaths, "."];
+			const names = extname(name) ? [name] : [name, `${name}.vcl`];
+			for (const directory of directories) {
+				for (const candidate of names) {
+					const path = resolve(directory, candidate);
+					if (existsSync(path) && statSync(path).isFile()) {
+						return { path, content: readFileSync(path, "utf-8") };
+					}
+				}
+			}
+			return undefined;
+		},
+	};
+}
+
+export function loadVCL(filePath: string, options: LoadVCLOptions = {}): VCLSubroutines {
 	if (!existsSync(filePath)) {
 		throw new Error(`VCL file not found: ${filePath}`);
 	}
 	const content = readFileSync(filePath, "utf-8");
-	return loadVCLContent(content);
+	return loadVCLContent(content, {
+		includeResolver: createFileIncludeResolver(),
+		fileName: resolve(filePath),
+		...options,
+	});
+}
+
+// loadVCLFiles loads a service split over files the way the proxy takes them
+// on its command line: the first file is the entry point, and each of the
+// others is read as if the entry point included it at its end. Includes
+// resolve next to the including file, then next to each of the files. A file
+// that is already reached through an include is rejected rather than loaded a
+// second time.
+export function loadVCLFiles(filePaths: string[], options: LoadVCLOptions = {}): VCLSubroutines {
+	const [entry, ...others] = filePaths.map((filePath) => {
+		if (!existsSync(filePath)) {
+			throw new Error(`VCL file not found: ${filePath}`);
+		}
+		return resolve(filePath);
+	});
+	if (entry === undefined) {
+		throw new Error("No VCL file to load");
+	}
+	const files = createFileIncludeResolver([...new Set([entry, ...others].map(dirname))]);
+	const includedFrom = new Map<string, string>();
+	const includeResolver: IncludeResolver = {
+		resolve(name: string, from: string | undefined): ResolvedInclude | undefined {
+			const resolved = files.resolve(name, from);
+			if (!resolved || !others.includes(resolved.path)) return resolved;
+			if (includedFrom.has(resolved.path)) {
+				throw new Error(
+					`VCL file ${resolved.path} is already included from ${includedFrom.get(resolved.path)}; load it only once`,
+				);
+			}
+			includedFrom.set(resolved.path, from ?? entry);
+			return resolved;
+		},
+	};
+	const content = readFileSync(entry, "utf-8");
+	const appended = others.map((path) => `include "${path}";`).join("\n");
+	return loadVCLContent(others.length > 0 ? `${content}\n${appended}\n` : content, {
+		includeResolver,
+		fileName: entry,
+		...options,
+	});
 }
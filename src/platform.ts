@@ -72,7 +72,7 @@ export interface LogRecord {
 export interface TraceEvent {
 	phase: string;
 	subroutine: string;
-	statement?: { line: number; column: number };
+	statement?: { file?: string; line: number; column: number };
 	returnAction?: string;
 	error?: string;
 }
@@ -0,0 +1,156 @@
+// A PipelineCache with limits on how many objects it holds and how many bytes
+// they take. It is a Map, so it goes wherever a PipelineCache does. Reading a
+// key marks it recently used; storing past a limit evicts, as Fastly does,
+// expired objects first and then the least recently used hash keys, each
+// with all of its variants.
+
+import { hashKey, variantKey } from "./cache-store";
+import type { CacheEntry } from "./pipeline";
+
+export interface BoundedCacheOptions {
+	/** The most objects to hold, counting each variant and block. */
+	maxObjects?: number;
+	/** The most bytes the objects may take, as entrySize counts them. */
+	maxBytes?: number;
+	/** The clock that decides which objects have expired, in ms; defaults to Date.now. */
+	now?: () => number;
+}
+
+export interface CacheStats {
+	objects: number;
+	bytes: number;
+	maxObjects: number;
+	maxBytes: number;
+	/** Objects removed to make room, expired ones included. */
+	evictions: number;
+	/** The evictions that removed an object past its TTL. */
+	expiredEvictions: number;
+}
+
+/** The bytes an entry is accounted at: its body, and the names and values of its headers. */
+export function entrySize(entry: CacheEntry): number {
+	let size = entry.body.byteLength;
+	for (const [name, value] of Object.entries(entry.resp.http)) size += name.length + value.length;
+	return size;
+}
+
+export class BoundedCache extends Map<string, CacheEntry> {
+	readonly maxObjects: number;
+	readonly maxBytes: number;
+	private readonly now: () => number;
+	private objects = 0;
+	private bytes = 0;
+	private evictions = 0;
+	private expiredEvictions = 0;
+
+	constructor(options: BoundedCacheOptions = {}) {
+		super();
+		this.maxObjects = options.maxObjects ?? Infinity;
+		this.maxBytes = options.maxBytes ?? Infinity;
+		this.now = options.now ?? Date.now;
+	}
+
+	override get(key: string): CacheEntry | undefined {
+		const entry = super.get(key);
+		if (entry !== undefined) {
+			// Map iterates in insertion order, so re-inserting keeps the least
+			// recently used key first.
+			super.delete(key);
+			super.set(key, entry);
+		}
+		return entry;
+	}
+
+	override set(key: string, entry: CacheEntry): this {
+		this.forget(key);
+		super.delete(key);
+		super.set(key, entry);
+		this.objects++;
+		this.bytes += entrySize(entry);
+		this.evict();
+		return this;
+	}
+
+	override delete(key: string): boolean {
+		this.forget(key);
+		return super.delete(key);
+	}
+
+	override clear(): void {
+		super.clear();
+		this.objects = 0;
+		this.bytes = 0;
+	}
+
+	stats(): CacheStats {
+		return {
+			objects: this.objects,
+			bytes: this.bytes,
+			maxObjects: this.maxObjects,
+			maxBytes: this.maxBytes,
+			evictions: this.evictions,
+			expiredEvictions: this.expiredEvictions,
+		};
+	}
+
+	/** Take the entry stored under `key` out of the totals. */
+	private forget(key: string): void {
+		const entry = super.get(key);
+		if (entry === undefined) return;
+		this.objects--;
+		this.bytes -= entrySize(entry);
+	}
+
+	private overLimit(): boolean {
+		return this.objects > this.maxObjects || this.bytes > this.maxBytes;
+	}
+
+	/** The map keys holding each hash key's variants, least recently used hash key first. */
+	private groups(): string[][] {
+		const groups = new Map<string, string[]>();
+		for (const key of super.keys()) {
+			const group = groups.get(hashKey(key));
+			if (group) group.push(key);
+			else groups.set(hashKey(key), [key]);
+		}
+		// Positions sort by length first, so the tenth variant follows the ninth.
+		for (const group of groups.values()) {
+			group.sort((a, b) => a.length - b.length || (a < b ? -1 : 1));
+		}
+		return [...groups.values()];
+	}
+
+	/**
+	 * Remove expired objects, oldest keys first, then whole hash keys with all
+	 * their variants in LRU order, until within the limits. The variants left
+	 * under a hash key move up to fill the places of the ones removed.
+	 */
+	private evict(): void {
+		if (!this.overLimit()) return;
+		const at = this.now();
+		for (const group of this.groups()) {
+			const entries = group.map((key) => super.get(key)!);
+			const expired = entries.filter((entry) => at >= entry.expires);
+			if (expired.length === 0) continue;
+			const remaining = entries.filter((entry) => at < entry.expires);
+			for (const key of group) this.forget(key);
+			const keys = remaining.map((_, i) => variantKey(hashKey(group[0]!), i));
+			for (const key of group) if (!keys.includes(key)) super.delete(key);
+			// Replacing the value of a key keeps its place in the order.
+			remaining.forEach((entry, i) => super.set(keys[i]!, entry));
+			this.objects += remaining.length;
+			this.bytes += remaining.reduce((size, entry) => size + entrySize(entry), 0);
+			this.evictions += expired.length;
+			this.expiredEvictions += expired.length;
+			if (!this.overLimit()) return;
+		}
+		for (const group of this.groups()) {
+			for (const key of group) {
+				this.forget(key);
+				super.delete(key);
+			}
+			this.evictions += group.length;
+			if (!this.overLimit()) return;
+		}
+	}
+}
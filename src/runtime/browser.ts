@@ -14,7 +14,8 @@ import {
 } from "../platform";
 import { browserPlatform } from "../platform-browser";
 import { createVCLContext, loadVCLContent } from "../vcl";
-import { type CacheDecision, type CacheEntry, runPipeline } from "./pipeline";
+import { createMapIncludeResolver } from "../vcl-include";
+import { type CacheDecision, type PipelineCache, runPipeline } from "./pipeline";
 
 const MAX_RESTARTS = 3;
 
@@ -40,9 +41,11 @@ export interface SimPlatformOptions {
 
 export interface SimulationOptions {
 	vcl: string;
+	/** Files available to `include` statements, keyed by include name. */
+	includes?: Record<string, string>;
 	request: SimRequest;
 	backendResponse: SimBackendResponse;
-	cacheState?: Map<string, CacheEntry>;
+	cacheState?: PipelineCache;
 	platformOptions?: SimPlatformOptions;
 	maxRestarts?: number;
 }
@@ -63,7 +66,7 @@ export interface SimulationResult {
 	logs: string[];
 	response?: SimResponse;
 	cacheDecision?: CacheDecision;
-	cacheState: Map<string, CacheEntry>;
+	cacheState: PipelineCache;
 	error?: { kind: SimErrorKind; message: string };
 }
 
@@ -103,7 +106,7 @@ function buildPlatform(
 export async function runBrowserSimulation(options: SimulationOptions): Promise<SimulationResult> {
 	const trace: TraceEvent[] = [];
 	const logs: string[] = [];
-	const cacheState = options.cacheState ?? new Map<string, CacheEntry>();
+	const cacheState: PipelineCache = options.cacheState ?? new Map();
 	const platform = buildPlatform(options.platformOptions, trace, logs);
 
 	let previous: VCLPlatform | null = null;
@@ -117,10 +120,12 @@ export async function runBrowserSimulation(options: SimulationOptions): Promise<
 	try {
 		let subroutines: ReturnType<typeof loadVCLContent>;
 		try {
-			subroutines = loadVCLContent(options.vcl);
+			subroutines = loadVCLContent(options.vcl, {
+				includeResolver: createMapIncludeResolver(options.includes ?? {}),
+			});
 		} catch (err) {
 			if (err instanceof VCLDiagnosticError) {
-				return { ok: false, diagnostics: [err.diagnostic], trace, logs, cacheState };
+				return { ok: false, diagnostics: err.diagnostics, trace, logs, cacheState };
 			}
 			throw err;
 		}
@@ -151,6 +156,9 @@ export async function runBrowserSimulation(options: SimulationOptions): Promise<
 			maxRestarts: options.maxRestarts ?? MAX_RESTARTS,
 			getBackendResponse,
 		});
+		// A stale hit's background fetch belongs to this run, so the returned
+		// cacheState already holds the refreshed object.
+		await result.revalidation;
 
 		return {
 			ok: true,
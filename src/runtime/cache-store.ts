@@ -0,0 +1,109 @@
+// Where runPipeline keeps its objects. A CacheStore is asynchronous, so the
+// objects may live outside the process: on disk, to survive a restart, or
+// anywhere else a host can reach. MemoryCacheStore keeps them in a
+// PipelineCache, and a PipelineCache handed to runPipeline is wrapped in one.
+
+import type { CacheEntry, PipelineCache } from "./pipeline";
+
+export interface CacheStore {
+	/** The variants stored under a hash key, or undefined when there are none. */
+	get(key: string): Promise<CacheEntry[] | undefined>;
+	/** Replace the variants stored under a hash key. */
+	set(key: string, entries: CacheEntry[]): Promise<void>;
+	/** Remove a hash key and its variants; false when it was not stored. */
+	delete(key: string): Promise<boolean>;
+	/**
+	 * Every hash key with its variants, as stored when iteration starts. The
+	 * store may be written to while it is iterated.
+	 */
+	entries(): AsyncIterable<[string, CacheEntry[]]>;
+}
+
+// A PipelineCache holds one object per map key, so the variants of a hash key
+// are spread over several: the first under the hash key itself, so a map of
+// objects that do not vary is keyed exactly by hash key, and the rest under
+// the hash key followed by VARIANT_SEPARATOR and their position.
+const VARIANT_SEPARATOR = "\u0000";
+
+/** The map key of the variant at `index` under hash key `key`. */
+export function variantKey(key: string, index: number): string {
+	return index === 0 ? key : `${key}${VARIANT_SEPARATOR}${index}`;
+}
+
+/** The hash key a map key stores a variant of. */
+export function hashKey(mapKey: string): string {
+	const separator = mapKey.indexOf(VARIANT_SEPARATOR);
+	return separator < 0 ? mapKey : mapKey.slice(0, separator);
+}
+
+/** The variants a PipelineCache holds under a hash key, or undefined when there are none. */
+export function mapVariants(map: PipelineCache, key: string): CacheEntry[] | undefined {
+	const entries: CacheEntry[] = [];
+	for (
+		let entry = map.get(key);
+		entry !== undefined;
+		entry = map.get(variantKey(key, entries.length))
+	) {
+		entries.push(entry);
+	}
+	return entries.length > 0 ? entries : undefined;
+}
+
+/**
+ * Replace the variants a PipelineCache holds under a hash key. The last one is
+ * written first, so a map that evicts as it is written, like a BoundedCache,
+ * never keeps a later variant without the ones before it.
+ */
+export function setMapVariants(map: PipelineCache, key: string, entries: CacheEntry[]): boolean {
+	let removed = false;
+	for (let i = entries.length; map.has(variantKey(key, i)); i++) {
+		map.delete(variantKey(key, i));
+		removed = true;
+	}
+	for (let i = entries.length - 1; i >= 0; i--) map.set(variantKey(key, i), entries[i]!);
+	return removed;
+}
+
+/** The hash keys a PipelineCache holds variants under, in map order. */
+export function mapHashKeys(map: PipelineCache): string[] {
+	return [...new Set([...map.keys()].map(hashKey))];
+}
+
+/** A CacheStore over a PipelineCache, which a BoundedCache can be to bound it. */
+export class MemoryCacheStore implements CacheStore {
+	constructor(readonly map: PipelineCache = new Map()) {}
+
+	async get(key: string): Promise<CacheEntry[] | undefined> {
+		return mapVariants(this.map, key);
+	}
+
+	async set(key: string, entries: CacheEntry[]): Promise<void> {
+		setMapVariants(this.map, key, entries);
+	}
+
+	async delete(key: string): Promise<boolean> {
+		return setMapVariants(this.map, key, []);
+	}
+
+	async *entries(): AsyncIterable<[string, CacheEntry[]]> {
+		const stored = mapHashKeys(this.map).flatMap((key) => {
+			const entries = mapVariants(this.map, key);
+			return entries ? [[key, entries] as [string, CacheEntry[]]] : [];
+		});
+		yield* stored;
+	}
+}
+
+// One store per map, so requests sharing a map share collapsing state too.
+const mapStores = new WeakMap<PipelineCache, MemoryCacheStore>();
+
+/** `cache` as a CacheStore: a store as is, a PipelineCache wrapped in its MemoryCacheStore. */
+export function cacheStore(cache: PipelineCache | CacheStore): CacheStore {
+	if (!(cache instanceof Map)) return cache;
+	let store = mapStores.get(cache);
+	if (!store) {
+		store = new MemoryCacheStore(cache);
+		mapStores.set(cache, store);
+	}
+	return store;
+}
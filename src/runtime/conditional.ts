@@ -0,0 +1,74 @@
+// Conditional requests (RFC 9110 section 13.1). A client whose If-None-Match
+// or If-Modified-Since matches a cached object is answered 304 Not Modified,
+// and an expired object with an ETag or Last-Modified is revalidated with a
+// conditional backend request, whose 304 refreshes the object's headers.
+
+import { headerValue } from "./headers";
+
+/** The request headers that make a GET conditional on what the client holds. */
+const VALIDATOR_HEADERS = ["if-none-match", "if-modified-since"];
+
+/** The entity tags an If-None-Match value lists, with any W/ prefix removed. */
+function entityTags(value: string): string[] {
+	return (value.match(/(?:W\/)?"[^"]*"/g) ?? []).map((tag) => tag.replace(/^W\//, ""));
+}
+
+/**
+ * Whether a request with `requestHeaders` already holds the object whose
+ * headers are `objectHeaders`, so a 304 may answer it. Only GET and HEAD are
+ * answered this way. If-None-Match, matched by weak comparison, decides alone
+ * when present; If-Modified-Since is only consulted without it.
+ */
+export function isNotModified(
+	method: string,
+	requestHeaders: Record<string, string>,
+	objectHeaders: Record<string, string>,
+): boolean {
+	if (method !== "GET" && method !== "HEAD") return false;
+	const ifNoneMatch = headerValue(requestHeaders, "if-none-match");
+	if (ifNoneMatch !== undefined) {
+		if (ifNoneMatch.trim() === "*") return true;
+		const etag = headerValue(objectHeaders, "etag");
+		if (etag === undefined) return false;
+		const [opaque] = entityTags(etag);
+		return opaque !== undefined && entityTags(ifNoneMatch).includes(opaque);
+	}
+	const since = Date.parse(headerValue(requestHeaders, "if-modified-since") ?? "");
+	const modified = Date.parse(headerValue(objectHeaders, "last-modified") ?? "");
+	return !Number.isNaN(since) && !Number.isNaN(modified) && modified <= since;
+}
+
+/** A copy of `headers` without the client's If-None-Match and If-Modified-Since. */
+export function withoutValidators(headers: Record<string, string>): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(headers).filter(([name]) => !VALIDATOR_HEADERS.includes(name.toLowerCase())),
+	);
+}
+
+/** The If-None-Match and If-Modified-Since headers that revalidate an object with `objectHeaders`. */
+export function validatorHeaders(objectHeaders: Record<string, string>): Record<string, string> {
+	const etag = headerValue(objectHeaders, "etag");
+	const lastModified = headerValue(objectHeaders, "last-modified");
+	return {
+		...(etag !== undefined && { "if-none-match": etag }),
+		...(lastModified !== undefined && { "if-modified-since": lastModified }),
+	};
+}
+
+/**
+ * The stored object's headers updated by a 304's, as RFC 9111 section 4.3.4
+ * describes: each header the 304 carries replaces the stored one, except
+ * Content-Length, which describes the 304's empty body. Names are lowercased.
+ */
+export function refreshHeaders(
+	objectHeaders: Record<string, string>,
+	notModifiedHeaders: Record<string, string>,
+): Record<string, string> {
+	const refreshed: Record<string, string> = {};
+	for (const [name, value] of Object.entries(objectHeaders)) refreshed[name.toLowerCase()] = value;
+	for (const [name, value] of Object.entries(notModifiedHeaders)) {
+		const key = name.toLowerCase();
+		if (key !== "content-length") refreshed[key] = value;
+	}
+	return refreshed;
+}
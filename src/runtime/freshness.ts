@@ -0,0 +1,106 @@
+// The initial beresp.ttl and friends, computed from a backend response's
+// headers before vcl_fetch runs, the way Fastly does: Surrogate-Control
+// max-age first, then Cache-Control s-maxage and max-age, then Expires minus
+// Date. stale-while-revalidate and stale-if-error come from the same headers,
+// and Cache-Control private or no-store makes the response uncacheable. Only
+// an object whose TTL no header set starts with the default grace and
+// stale-while-revalidate; one the headers gave a lifetime gets none unless
+// they ask for it.
+
+import { headerValue } from "./headers";
+
+/** Which header decided the TTL; "default" when none of them did. */
+export type TTLSource = "surrogate-control" | "s-maxage" | "max-age" | "expires" | "default";
+
+export interface Freshness {
+	ttl: number;
+	source: TTLSource;
+	grace: number;
+	staleWhileRevalidate: number;
+	staleIfError: number;
+	/** False for no-store, and for private unless Surrogate-Control sets a max-age. */
+	cacheable: boolean;
+}
+
+export const DEFAULT_TTL = 300;
+export const DEFAULT_GRACE = 3600;
+export const DEFAULT_STALE_WHILE_REVALIDATE = 10;
+/** How long a hit-for-pass marker lasts when beresp.ttl does not say. */
+export const DEFAULT_HIT_FOR_PASS_TTL = 120;
+
+/** The statuses beresp.cacheable starts true for, as on Fastly. */
+export const CACHEABLE_STATUSES: ReadonlySet<number> = new Set([200, 203, 300, 301, 302, 404, 410]);
+
+/** Cache-Control-style directives by lowercased name; a bare directive maps to "". */
+function parseDirectives(value: string | undefined): Map<string, string> {
+	const directives = new Map<string, string>();
+	for (const part of (value ?? "").split(",")) {
+		const [name = "", ...rest] = part.split("=");
+		const key = name.trim().toLowerCase();
+		if (key === "" || directives.has(key)) continue;
+		directives.set(
+			key,
+			rest
+				.join("=")
+				.trim()
+				.replace(/^"(.*)"$/, "$1"),
+		);
+	}
+	return directives;
+}
+
+/** A delta-seconds directive value, or undefined when it is absent or malformed. */
+function seconds(directives: Map<string, string>, name: string): number | undefined {
+	const value = directives.get(name);
+	return value !== undefined && /^\d+$/.test(value) ? Number(value) : undefined;
+}
+
+// deriveFreshness reads the response headers as they arrived from the
+// backend. A max-age is reduced by the response's Age, so an object that sat
+// in another cache is not kept longer than its origin allows.
+export function deriveFreshness(headers: Record<string, string>, now: number): Freshness {
+	const surrogate = parseDirectives(headerValue(headers, "surrogate-control"));
+	const control = parseDirectives(headerValue(headers, "cache-control"));
+	const age = Number(headerValue(headers, "age"));
+	const elapsed = Number.isFinite(age) && age > 0 ? Math.floor(age) : 0;
+	const remaining = (maxAge: number) => Math.max(0, maxAge - elapsed);
+
+	const staleWhileRevalidate =
+		seconds(surrogate, "stale-while-revalidate") ?? seconds(control, "stale-while-revalidate");
+	const freshness = (ttl: number, source: TTLSource): Freshness => ({
+		ttl,
+		source,
+		grace: source === "default" ? DEFAULT_GRACE : 0,
+		staleWhileRevalidate:
+			staleWhileRevalidate ?? (source === "default" ? DEFAULT_STALE_WHILE_REVALIDATE : 0),
+		staleIfError: seconds(surrogate, "stale-if-error") ?? seconds(control, "stale-if-error") ?? 0,
+		cacheable: true,
+	});
+
+	// Surrogate-Control is meant for the CDN alone, so it overrides whatever
+	// Cache-Control tells browsers, private included.
+	const surrogateMaxAge = seconds(surrogate, "max-age");
+	if (surrogate.has("no-store")) return { ...freshness(0, "surrogate-control"), cacheable: false };
+	if (surrogateMaxAge !== undefined) {
+		return freshness(remaining(surrogateMaxAge), "surrogate-control");
+	}
+
+	if (control.has("private") || control.has("no-store")) {
+		return { ...freshness(0, "default"), cacheable: false };
+	}
+	const sMaxAge = seconds(control, "s-maxage");
+	if (sMaxAge !== undefined) return freshness(remaining(sMaxAge), "s-maxage");
+	const maxAge = seconds(control, "max-age");
+	if (maxAge !== undefined) return freshness(remaining(maxAge), "max-age");
+
+	const expires = headerValue(headers, "expires");
+	if (expires !== undefined) {
+		// An unparseable Expires means already expired (RFC 9111 5.3).
+		const expiresAt = Date.parse(expires);
+		const date = Date.parse(headerValue(headers, "date") ?? "");
+		const base = Number.isNaN(date) ? now : date;
+		const ttl = Number.isNaN(expiresAt) ? 0 : Math.max(0, Math.floor((expiresAt - base) / 1000));
+		return freshness(ttl, "expires");
+	}
+	return freshness(DEFAULT_TTL, "default");
+}
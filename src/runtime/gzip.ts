@@ -0,0 +1,26 @@
+// gzip for bodies the edge has to read or rewrite, such as an ESI template an
+// origin sent compressed. CompressionStream is a web standard, so this works
+// the same in Node, Bun and the browser.
+
+async function transform(
+	body: Uint8Array,
+	stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+	const piped = new Blob([body as Uint8Array<ArrayBuffer>]).stream().pipeThrough(stream);
+	return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+/** Decompress a gzip body; rejects when it is not valid gzip. */
+export function gunzip(body: Uint8Array): Promise<Uint8Array> {
+	return transform(body, new DecompressionStream("gzip"));
+}
+
+export function gzip(body: Uint8Array): Promise<Uint8Array> {
+	return transform(body, new CompressionStream("gzip"));
+}
+
+/** Whether a Content-Encoding value says the body is gzip-compressed. */
+export function isGzip(contentEncoding: string | undefined): boolean {
+	const encoding = contentEncoding?.trim().toLowerCase();
+	return encoding === "gzip" || encoding === "x-gzip";
+}
@@ -0,0 +1,11 @@
+// Header records as VCL leaves them: a name may be cased any way a
+// subroutine or backend wrote it, so lookups ignore case.
+
+/** A header's value regardless of how its name is cased. */
+export function headerValue(headers: Record<string, string>, name: string): string | undefined {
+	const lower = name.toLowerCase();
+	for (const [key, value] of Object.entries(headers)) {
+		if (key.toLowerCase() === lower) return value;
+	}
+	return undefined;
+}
@@ -0,0 +1,138 @@
+// Active health checks. HealthChecker sends each probed backend its probe
+// request every `interval` seconds, and counts a response with the
+// `expected_response` status, within `timeout` seconds, as good. A backend is
+// healthy while at least `threshold` of the last `window` probes were good;
+// the window starts with `initial` good probes, so a backend whose initial
+// reaches its threshold is healthy before its first probe returns. Health is
+// written to the backend's is_healthy in place. Request contexts share the
+// backend objects, so directors, req.backend.healthy and
+// std.backend.is_healthy see each change as it happens.
+
+import type { VCLBackend, VCLProbe } from "../vcl-compiler";
+
+export interface HealthCheckOptions {
+	/** Sends a probe request; defaults to the global fetch. */
+	fetch?: (request: Request) => Promise<Response>;
+	/** Called when a backend turns healthy or sick. */
+	onChange?: (backend: VCLBackend, healthy: boolean) => void;
+}
+
+/** Probes are sent as HTTP/1.1 by fetch, which manages the connection itself. */
+const IGNORED_PROBE_HEADERS = new Set(["connection", "content-length", "transfer-encoding"]);
+
+/**
+ * The Request a probe sends: its `request` text, a request line and headers
+ * as written in VCL, addressed to the backend. Without a Host header it uses
+ * the backend's host, and an empty request is `HEAD /`.
+ */
+export function probeRequest(backend: VCLBackend, probe: VCLProbe, signal?: AbortSignal): Request {
+	const [requestLine = "", ...lines] = probe.request.trim().split(/\r?\n/);
+	const [method = "HEAD", path = "/"] = requestLine.trim().split(/\s+/).filter(Boolean);
+	const headers = new Headers();
+	for (const line of lines) {
+		if (line.trim() === "") break;
+		const colon = line.indexOf(":");
+		if (colon <= 0) continue;
+		const name = line.slice(0, colon).trim();
+		if (!IGNORED_PROBE_HEADERS.has(name.toLowerCase())) {
+			headers.set(name, line.slice(colon + 1).trim());
+		}
+	}
+	if (!headers.has("host")) headers.set("host", backend.host);
+	const origin = `${backend.ssl ? "https" : "http"}://${backend.host}:${backend.port}`;
+	return new Request(new URL(path, origin), { method, headers, signal });
+}
+
+export class HealthChecker {
+	private readonly windows = new Map<VCLBackend, boolean[]>();
+	private readonly timers = new Map<VCLBackend, ReturnType<typeof setInterval>>();
+	private readonly inFlight = new Set<VCLBackend>();
+
+	/** `backends` is read when probing starts; those without a probe are left alone. */
+	constructor(
+		private readonly backends: Record<string, VCLBackend>,
+		private readonly options: HealthCheckOptions = {},
+	) {}
+
+	/**
+	 * Seed each probed backend's health from its `initial`, send it a first
+	 * probe at once, and then one every `interval`. Backends already being
+	 * probed are left as they are.
+	 */
+	start(): void {
+		for (const backend of Object.values(this.backends)) {
+			const probe = backend.probe;
+			if (!probe || this.timers.has(backend)) continue;
+			this.results(backend);
+			const tick = () => {
+				// A probe still waiting on a slow backend is not sent again.
+				if (this.inFlight.has(backend)) return;
+				this.inFlight.add(backend);
+				void this.send(backend).finally(() => this.inFlight.delete(backend));
+			};
+			tick();
+			this.timers.set(backend, setInterval(tick, Math.max(probe.interval, 0.001) * 1000));
+		}
+	}
+
+	/** Stop sending probes. Backends keep the health they last had. */
+	stop(): void {
+		for (const timer of this.timers.values()) clearInterval(timer);
+		this.timers.clear();
+	}
+
+	/**
+	 * Send a backend's probe now and record the result, as a scheduled probe
+	 * would; resolves to whether the probe was good.
+	 */
+	async probe(name: string): Promise<boolean> {
+		const backend = this.backends[name];
+		if (!backend?.probe) throw new Error(`Backend '${name}' has no probe`);
+		this.results(backend);
+		return this.send(backend);
+	}
+
+	/** A backend's probe window, oldest first, or undefined before it is probed. */
+	window(name: string): boolean[] | undefined {
+		const backend = this.backends[name];
+		const results = backend && this.windows.get(backend);
+		return results && [...results];
+	}
+
+	/** The backend's window, seeded from its probe's `initial` the first time. */
+	private results(backend: VCLBackend): boolean[] {
+		let results = this.windows.get(backend);
+		if (!results) {
+			const { window, initial } = backend.probe!;
+			results = Array.from({ length: window }, (_, i) => i >= window - initial);
+			this.windows.set(backend, results);
+			this.update(backend, results);
+		}
+		return results;
+	}
+
+	private async send(backend: VCLBackend): Promise<boolean> {
+		const probe = backend.probe!;
+		let good: boolean;
+		try {
+			const signal = AbortSignal.timeout(probe.timeout * 1000);
+			const response = await (this.options.fetch ?? fetch)(probeRequest(backend, probe, signal));
+			await response.body?.cancel();
+			good = response.status === probe.expected_response;
+		} catch {
+			good = false;
+		}
+		const results = this.results(backend);
+		results.push(good);
+		results.splice(0, results.length - probe.window);
+		this.update(backend, results);
+		return good;
+	}
+
+	private update(backend: VCLBackend, results: boolean[]): void {
+		const healthy = results.filter(Boolean).length >= backend.probe!.threshold;
+		if (backend.is_healthy === healthy) return;
+		backend.is_healthy = healthy;
+		this.options.onChange?.(backend, healthy);
+	}
+}
@@ -1,14 +1,32 @@
 // The shared VCL request lifecycle: recv -> hash -> cache lookup ->
 // hit/miss/pass -> fetch -> deliver -> log, plus error handling, cache
-// storage, and restarts (from recv, hit, fetch, deliver, or error). Both the CLI proxy and the browser simulator drive this, so
+// storage, stale serving, and restarts (from recv, hit, fetch, deliver, or error). Both the CLI proxy and the browser simulator drive this, so
 // the two can never drift on caching or subroutine order. The one thing they
 // supply differently is how a backend response is obtained — a real fetch for
 // the CLI, a synthetic response for the simulator — injected as getBackendResponse.
 
-import { executeVCL } from "../vcl";
+import { createVCLContext, executeVCL } from "../vcl";
 import { getIPType } from "../vcl-acl";
-import type { VCLContext, VCLSubroutines } from "../vcl-compiler";
+import {
+	SEGMENTED_CACHING_BLOCK_SIZE,
+	type SegmentedCachingState,
+	type VCLContext,
+	type VCLSubroutines,
+} from "../vcl-compiler";
+import { type ESIIncludeFetcher, processESI } from "../vcl-esi";
 import { seedRequestWorkspace } from "../vcl-limits";
+import { type CacheStore, cacheStore } from "./cache-store";
+import { isNotModified, refreshHeaders, validatorHeaders, withoutValidators } from "./conditional";
+import {
+	CACHEABLE_STATUSES,
+	DEFAULT_HIT_FOR_PASS_TTL,
+	deriveFreshness,
+	type Freshness,
+} from "./freshness";
+import { gunzip, gzip, isGzip } from "./gzip";
+import { headerValue } from "./headers";
+import { nextPurgeId, parseSurrogateKeys, purgeKey } from "./purge";
+import { applyRange, requestedRanges, withoutRange } from "./range";
 
 export interface BackendResponse {
 	status: number;
@@ -24,8 +42,40 @@ export interface CacheEntry {
 	expires: number;
 	staleUntil: number;
 	beresp: VCLContext["beresp"];
+	/**
+	 * The request header values this variant was stored for, keyed by the
+	 * lowercased names in the object's Vary header; absent when it does not vary.
+	 * A header the request did not send is null.
+	 */
+	vary?: Record<string, string | null>;
+	/** The object's Surrogate-Key tags, which purgeSurrogateKey matches. */
+	surrogateKeys?: string[];
+	/**
+	 * Marks a hit-for-pass marker rather than an object: until it expires,
+	 * requests for the key go straight to vcl_pass. Its body is empty.
+	 */
+	hitForPass?: boolean;
+	/** Set when the entry is one block of an object stored by segmented caching. */
+	segment?: CacheSegment;
 }
 
+/** Which block of an object a segmented cache entry holds. */
+export interface CacheSegment {
+	/** The zero-based block number. */
+	block: number;
+	/** The block size the object was split with, in bytes. */
+	size: number;
+	/** The size of the whole object, in bytes. */
+	completeLength: number;
+}
+
+/**
+ * Cached objects by hash key. A key may hold several variants, one per set of
+ * Vary header values or per block of a segmented object; the first is stored
+ * under the hash key and the others under keys derived from it.
+ */
+export type PipelineCache = Map<string, CacheEntry>;
+
 export type CacheOutcome =
 	| "hit"
 	| "hit-stale"
@@ -33,7 +83,9 @@ export type CacheOutcome =
 	| "pass"
 	| "uncacheable"
 	| "error"
-	| "upgrade";
+	| "upgrade"
+	| "purge"
+	| "hit-for-pass";
 
 export interface PipelineResponse {
 	status: number;
@@ -48,41 +100,183 @@ export interface CacheDecision {
 	ttl?: number;
 	grace?: number;
 	staleWhileRevalidate?: number;
+	staleIfError?: number;
+	/** What the backend response's caching headers asked for, before vcl_fetch ran. */
+	freshness?: Freshness;
 	ageSeconds?: number;
+	/** The Vary header values of the variant served or stored, when the object varies. */
+	variant?: Record<string, string | null>;
+	/** How many objects a purge request removed or, for a soft purge, marked stale. */
+	purged?: number;
+	/** Why a stale object was served, when it was served for one of these reasons. */
+	stale?: StaleReason;
+	/** Set on a hit served from an object another request fetched while this one waited. */
+	collapsed?: boolean;
+	/** Set when a backend 304 refreshed the stored object instead of replacing it. */
+	revalidated?: boolean;
+	/**
+	 * For a segmented request: the block size, how many blocks the object
+	 * has, and how many of those this request read from the cache or fetched.
+	 */
+	segments?: { blockSize: number; total: number; hits: number; fetched: number };
 	stored: boolean;
 }
 
+/**
+ * "revalidating": a stale-while-revalidate hit, refreshed in the background.
+ * "error": served in place of a failed or 5xx backend response.
+ */
+export type StaleReason = "revalidating" | "error";
+
 export interface PipelineResult {
 	response: PipelineResponse;
 	action: string;
 	restarts: number;
 	cache: CacheDecision;
+	/**
+	 * The background fetch a stale-while-revalidate hit started. It settles
+	 * once the cache holds the refreshed object, and never rejects: a host may
+	 * await it or let it run.
+	 */
+	revalidation?: Promise<void>;
 }
 
 export interface PipelineOptions {
 	subroutines: VCLSubroutines;
 	context: VCLContext;
-	cache: Map<string, CacheEntry>;
+	/** Where objects are looked up and stored; a PipelineCache is kept in memory. */
+	cache: PipelineCache | CacheStore;
 	maxRestarts: number;
 	getBackendResponse: (context: VCLContext) => Promise<BackendResponse>;
 }
 
-const DEFAULT_TTL = 300;
-const DEFAULT_GRACE = 3600;
-const DEFAULT_STALE_WHILE_REVALIDATE = 10;
-
 function toBytes(body: Uint8Array | ArrayBuffer | string): Uint8Array {
 	if (typeof body === "string") return new TextEncoder().encode(body);
 	if (body instanceof ArrayBuffer) return new Uint8Array(body);
 	return body;
 }
 
+/** The lowercased header names a Vary value lists, or "*" when it varies on everything. */
+function parseVary(value: string | undefined): string[] | "*" {
+	const names = (value ?? "")
+		.split(",")
+		.map((name) => name.trim().toLowerCase())
+		.filter((name) => name !== "");
+	return names.includes("*") ? "*" : names;
+}
+
+function variantMatches(entry: CacheEntry, requestHeaders: Record<string, string>): boolean {
+	if (!entry.vary) return true;
+	return Object.entries(entry.vary).every(
+		([name, value]) => (headerValue(requestHeaders, name) ?? null) === value,
+	);
+}
+
+/** Whether two entries hold the same block of an object, or are both whole objects. */
+function sameSegment(a: CacheEntry, b: CacheEntry): boolean {
+	return a.segment?.block === b.segment?.block && a.segment?.size === b.segment?.size;
+}
+
+/**
+ * Whether two entries are the same stored object. A store other than memory
+ * returns a copy on each read, so this compares what the object was stored
+ * for and when, not identity.
+ */
+function sameEntry(a: CacheEntry, b: CacheEntry): boolean {
+	const vary = Object.entries(a.vary ?? {});
+	return (
+		a.created === b.created &&
+		sameSegment(a, b) &&
+		vary.length === Object.keys(b.vary ?? {}).length &&
+		vary.every(([name, value]) => b.vary?.[name] === value)
+	);
+}
+
+async function removeVariant(cache: CacheStore, key: string, entry: CacheEntry): Promise<void> {
+	const remaining = ((await cache.get(key)) ?? []).filter((variant) => !sameEntry(variant, entry));
+	if (remaining.length > 0) await cache.set(key, remaining);
+	else await cache.delete(key);
+}
+
+/** How long an expired object is kept: to be served stale, or in place of an error. */
+function retainedUntil(entry: CacheEntry): number {
+	return Math.max(entry.staleUntil, entry.expires + (entry.beresp.stale_if_error ?? 0) * 1000);
+}
+
+/** Whether stale-if-error still covers `entry`, as capped by req.max_stale_if_error. */
+function withinStaleIfError(context: VCLContext, entry: CacheEntry, at: number): boolean {
+	const window = Math.min(
+		entry.beresp.stale_if_error ?? 0,
+		context.req.max_stale_if_error ?? Infinity,
+	);
+	return at < entry.expires + window * 1000;
+}
+
+// Fetches in flight, per cache and hash key, for request collapsing.
+const inFlight = new WeakMap<CacheStore, Map<string, Promise<void>>>();
+
+/** The fetch another request is making for `key`, if there is one. */
+function fetchInFlight(cache: CacheStore, key: string): Promise<void> | undefined {
+	return inFlight.get(cache)?.get(key);
+}
+
+/**
+ * Register this request's fetch for `key`, unless another one already is, and
+ * return the function that wakes whoever waits for it. Only the first call of
+ * that function counts, so a later fetch's claim on the key is left alone.
+ */
+function claimFetch(cache: CacheStore, key: string): (() => void) | undefined {
+	let fetches = inFlight.get(cache);
+	if (!fetches) {
+		fetches = new Map();
+		inFlight.set(cache, fetches);
+	}
+	if (fetches.has(key)) return undefined;
+	const registry = fetches;
+	let wake = () => {};
+	registry.set(
+		key,
+		new Promise<void>((resolve) => {
+			wake = resolve;
+		}),
+	);
+	let released = false;
+	return () => {
+		if (released) return;
+		released = true;
+		registry.delete(key);
+		wake();
+	};
+}
+
 function computeCacheKey(context: VCLContext): string {
 	return context.hashData && context.hashData.length > 0
 		? context.hashData.join(":")
 		: `${context.req.url}:${context.req.http.host || ""}`;
 }
 
+// A purge answers like Fastly's: 200 with a JSON body naming the purge. The
+// object count is not part of Fastly's body; it is reported in CacheDecision.
+function purgeResult(
+	context: VCLContext,
+	key: string,
+	restarts: number,
+	purged: number,
+): PipelineResult {
+	const id = nextPurgeId(context.platform.now());
+	return {
+		response: {
+			status: 200,
+			statusText: "OK",
+			headers: { "Content-Type": "application/json" },
+			body: toBytes(JSON.stringify({ status: "ok", id })),
+		},
+		action: "purge",
+		restarts,
+		cache: { outcome: "purge", key, purged, stored: false },
+	};
+}
+
 function errorResult(context: VCLContext, key: string, restarts: number): PipelineResult {
 	return {
 		response: {
@@ -120,7 +314,8 @@ export async function runPipeline(opts: PipelineOptions): Promise<PipelineResult
 }
 
 async function runPass(opts: PipelineOptions): Promise<PipelineResult | "restart"> {
-	const { subroutines, context, cache, getBackendResponse } = opts;
+	const { subroutines, context } = opts;
+	const cache = cacheStore(opts.cache);
 	const now = () => context.platform.now();
 
 	// Each pass computes its own cache key; hash data from a previous pass must
@@ -129,9 +324,14 @@ async function runPass(opts: PipelineOptions): Promise<PipelineResult | "restart
 
 	// beresp.backend.* and the PCI/HIPAA flag describe this pass only. A pass
 	// that serves from cache makes no backend request, so both start cleared
-	// and a restart cannot inherit the previous pass's values.
+	// and a restart cannot inherit the previous pass's values. Neither can it
+	// inherit a stale object or a stale delivery.
 	context.beresp.backend = undefined;
 	context.beresp.pci = undefined;
+	context.staleExists = false;
+	context.resp.stale = false;
+	context.resp.stale_is_error = false;
+	context.resp.stale_is_revalidating = false;
 
 	let action = executeVCL(subroutines, "vcl_recv", context) || "lookup";
 	if (action === "restart") return "restart";
@@ -163,61 +363,153 @@ async function runPass(opts: PipelineOptions): Promise<PipelineResult | "restart
 	}
 
 	let key = "";
+
+	// A PURGE request that vcl_recv lets through to the cache, or any request
+	// vcl_recv returns purge for, removes the objects under its hash key
+	// instead of being served. Fastly-Soft-Purge: 1 only marks them stale.
+	if (action === "purge" || (context.req.method === "PURGE" && action === "lookup")) {
+		executeVCL(subroutines, "vcl_hash", context);
+		key = computeCacheKey(context);
+		const purged = await purgeKey(cache, key, {
+			soft: headerValue(context.req.http, "fastly-soft-purge") === "1",
+			now: now(),
+		});
+		executeVCL(subroutines, "vcl_log", context);
+		return purgeResult(context, key, restarts, purged);
+	}
+
+	// With segmented caching, inner requests fetch and store the object in
+	// blocks, and this request is answered from them.
+	if (action === "lookup" && context.req.enable_segmented_caching && context.req.method === "GET") {
+		return deliverSegmented(opts, restarts);
+	}
+
+	// An expired object that is still kept for stale-if-error or deliver_stale.
+	let stale: CacheEntry | undefined;
+	let collapsed = false;
+	let hitForPass = false;
 	if (action === "lookup") {
 		executeVCL(subroutines, "vcl_hash", context);
 		key = computeCacheKey(context);
 
-		const cached = cache.get(key);
-		if (cached) {
-			const at = now();
-			const isFresh = at < cached.expires;
-			const isStale = !isFresh && at < cached.staleUntil;
-			if (isFresh || isStale) {
-				context.obj.hits = 1;
-				// The PCI/HIPAA flag the object was cached with drives obj.is_pci
-				// and obj.is_hipaa on the hit.
-				(context.obj as Record<string, unknown>).pci = cached.beresp?.pci ?? false;
-				action = executeVCL(subroutines, "vcl_hit", context) || "deliver";
-				if (action === "restart") return "restart";
-				if (action === "deliver") {
-					context.resp = { ...cached.resp, http: { ...cached.resp.http } };
-					context.resp.http["X-Cache"] = isFresh ? "HIT" : "HIT-STALE";
-					context.resp.http["X-Cache-Hits"] = "1";
-					const ageSeconds = Math.floor((at - cached.created) / 1000);
-					context.resp.http["X-Cache-Age"] = `${ageSeconds}`;
-
-					if (executeVCL(subroutines, "vcl_deliver", context) === "restart") return "restart";
-					executeVCL(subroutines, "vcl_log", context);
-					if (isStale) cache.delete(key);
-
-					return {
-						response: {
-							status: context.resp.status,
-							statusText: context.resp.statusText,
-							headers: { ...context.resp.http },
-							body: cached.body.slice(),
-						},
-						action,
-						restarts,
-						cache: { outcome: isFresh ? "hit" : "hit-stale", key, ageSeconds, stored: false },
-					};
+		for (;;) {
+			let cached = (await cache.get(key))?.find(
+				(entry) => !entry.segment && variantMatches(entry, context.req.http),
+			);
+			if (cached?.hitForPass && now() >= cached.expires) {
+				await removeVariant(cache, key, cached);
+				cached = undefined;
+			}
+			// A hit-for-pass marker sends the request straight to vcl_pass: no
+			// vcl_hit, and no waiting for another request's fetch.
+			if (cached?.hitForPass) {
+				hitForPass = true;
+				context.fastly = context.fastly ?? {};
+				context.fastly.state = "HITPASS";
+				prepareBackendRequest(context, false);
+				action = executeVCL(subroutines, "vcl_pass", context) || "fetch";
+				break;
+			}
+			let servable = false;
+			stale = undefined;
+			if (cached) {
+				const at = now();
+				const isFresh = at < cached.expires;
+				// Past its TTL an object is served while a background fetch refreshes
+				// it, for as long as grace and stale-while-revalidate allow and
+				// req.max_stale_while_revalidate does not cut that short.
+				const revalidateUntil = Math.min(
+					cached.staleUntil,
+					cached.expires + (context.req.max_stale_while_revalidate ?? Infinity) * 1000,
+				);
+				servable = isFresh || at < revalidateUntil;
+				if (!isFresh) {
+					if (at < retainedUntil(cached)) stale = cached;
+					else await removeVariant(cache, key, cached);
+				}
+				context.staleExists = stale !== undefined;
+				if (servable) {
+					context.obj.hits = 1;
+					// The PCI/HIPAA flag the object was cached with drives obj.is_pci
+					// and obj.is_hipaa on the hit.
+					(context.obj as Record<string, unknown>).pci = cached.beresp?.pci ?? false;
+					action = executeVCL(subroutines, "vcl_hit", context) || "deliver";
+					if (action === "restart") return "restart";
+					if (action === "deliver") {
+						const result = await deliverCached(
+							opts,
+							key,
+							cached,
+							restarts,
+							isFresh ? undefined : "revalidating",
+						);
+						if (collapsed && result !== "restart") result.cache.collapsed = true;
+						return result;
+					}
+					prepareBackendRequest(context, true, stale);
+					break;
 				}
-			} else {
-				cache.delete(key);
+			}
+
+			// Request collapsing: a miss on a key another request is already
+			// fetching waits for that fetch and looks the object up again. If the
+			// response turned out uncacheable, it fetches on its own rather than
+			// wait a second time. req.hash_ignore_busy skips the wait.
+			const busy =
+				collapsed || context.req.hash_ignore_busy ? undefined : fetchInFlight(cache, key);
+			if (!busy) {
+				prepareBackendRequest(context, true, stale);
 				action = executeVCL(subroutines, "vcl_miss", context) || "fetch";
+				break;
 			}
-		} else {
-			action = executeVCL(subroutines, "vcl_miss", context) || "fetch";
+			await busy;
+			collapsed = true;
 		}
 	} else if (action === "pass") {
+		prepareBackendRequest(context, false);
 		action = executeVCL(subroutines, "vcl_pass", context) || "fetch";
 	}
 
-	const passing = key === "";
+	// Only a fetch that may store an object is worth waiting for; a pass never does.
+	const release =
+		key !== "" && action === "fetch" && !hitForPass ? claimFetch(cache, key) : undefined;
+	try {
+		return await fetchAndDeliver(opts, key, action, restarts, stale, hitForPass, release);
+	} finally {
+		release?.();
+	}
+}
+
+/**
+ * The second half of a pass: fetch from the backend, run vcl_fetch, store
+ * the object when it is cacheable, and deliver. `key` is empty for a pass
+ * from vcl_recv; a hit-for-pass keeps its key but stores nothing either.
+ * `release` wakes the requests collapsed on this fetch, once the object is
+ * stored and before delivery, whose ESI includes may request `key` again.
+ */
+async function fetchAndDeliver(
+	opts: PipelineOptions,
+	key: string,
+	action: string,
+	restarts: number,
+	stale: CacheEntry | undefined,
+	hitForPass: boolean,
+	release?: () => void,
+): Promise<PipelineResult | "restart"> {
+	const { subroutines, context, getBackendResponse } = opts;
+	const cache = cacheStore(opts.cache);
+	const now = () => context.platform.now();
+
+	const passing = key === "" || hitForPass;
 	let backendResponse: BackendResponse;
 	try {
 		backendResponse = await getBackendResponse(context);
 	} catch (err) {
+		// stale-if-error: a backend that cannot be reached is hidden behind the
+		// stale object for as long as the object and the request allow.
+		if (stale && withinStaleIfError(context, stale, now())) {
+			return deliverCached(opts, key, stale, restarts, "error");
+		}
 		if (!context.obj.status) {
 			context.obj.status = 503;
 			context.obj.response = err instanceof Error ? err.message : String(err);
@@ -225,52 +517,33 @@ async function runPass(opts: PipelineOptions): Promise<PipelineResult | "restart
 		}
 		context.fastly!.error = context.obj.response;
 		context.fastly!.state = "error";
-		if (executeVCL(subroutines, "vcl_error", context) === "restart") return "restart";
+		const errorAction = executeVCL(subroutines, "vcl_error", context);
+		if (errorAction === "restart") return "restart";
+		if (errorAction === "deliver_stale" && stale) {
+			return deliverCached(opts, key, stale, restarts, "error");
+		}
 		return errorResult(context, key, restarts);
 	}
 
-	// beresp is born from this pass's backend response; nothing from a previous
-	// pass (headers, TTL decisions) may carry over across a restart.
-	context.beresp.status = backendResponse.status;
-	context.beresp.statusText = backendResponse.statusText ?? "";
-	context.beresp.http = {};
-	context.beresp.ttl = 0;
-	context.beresp.grace = 0;
-	context.beresp.stale_while_revalidate = 0;
-	context.beresp.do_esi = false;
-	for (const field of ["cacheable", "do_stream", "gzip", "brotli", "saintmode", "stale_if_error"]) {
-		delete (context.beresp as Record<string, any>)[field];
-	}
-	for (const [name, value] of Object.entries(backendResponse.headers)) {
-		context.beresp.http[name.toLowerCase()] = value;
-	}
+	const freshness = receiveBackendResponse(context, backendResponse, passing ? undefined : stale);
+	const refreshed = !passing && backendResponse.status === 304 ? stale : undefined;
 
-	// Record the backend that answered so beresp.backend.* can report it for
-	// the rest of this pass. The peer address is not observable through the
-	// fetch API, so a backend host given as an IP literal is reported verbatim
-	// and any other host falls back to the emulated origin address.
-	const answeringBackend =
-		context.current_backend ?? context.backends?.[context.req.backend ?? "default"];
-	context.beresp.backend = {
-		name: answeringBackend?.name ?? "",
-		host: answeringBackend?.host ?? "",
-		port: answeringBackend?.port ?? 0,
-		ip:
-			answeringBackend?.host && getIPType(answeringBackend.host)
-				? answeringBackend.host
-				: "127.0.0.1",
-	};
+	// A 5xx is an error too: the stale object is served in its place.
+	if (stale && backendResponse.status >= 500 && withinStaleIfError(context, stale, now())) {
+		return deliverCached(opts, key, stale, restarts, "error");
+	}
 
 	action = executeVCL(subroutines, "vcl_fetch", context) || "deliver";
 	if (action === "restart") return "restart";
-
-	if (context.beresp.ttl === 0) {
-		context.beresp.ttl = DEFAULT_TTL;
-		context.beresp.grace = DEFAULT_GRACE;
-		context.beresp.stale_while_revalidate = DEFAULT_STALE_WHILE_REVALIDATE;
+	if (action === "deliver_stale" && stale) {
+		const isError = context.beresp.status >= 500;
+		return deliverCached(opts, key, stale, restarts, isError ? "error" : undefined);
 	}
 
-	const body = toBytes(backendResponse.body);
+	// vcl_fetch has seen the 304; what is delivered and stored is the
+	// refreshed object, with its own status and body.
+	if (refreshed) restoreObjectStatus(context, refreshed);
+	const body = refreshed ? refreshed.body : toBytes(backendResponse.body);
 
 	context.resp.status = context.beresp.status;
 	context.resp.statusText = context.beresp.statusText;
@@ -280,31 +553,33 @@ async function runPass(opts: PipelineOptions): Promise<PipelineResult | "restart
 
 	const deliverAction = executeVCL(subroutines, "vcl_deliver", context);
 
-	let stored = false;
-	if (action === "deliver" && key && context.beresp.ttl > 0) {
-		const at = now();
-		const ttlMs = context.beresp.ttl * 1000;
-		const graceMs = (context.beresp.grace || 0) * 1000;
-		const swrMs = (context.beresp.stale_while_revalidate || 0) * 1000;
-		cache.set(key, {
-			resp: {
-				status: context.resp.status,
-				statusText: context.resp.statusText,
-				http: { ...context.resp.http },
-			},
-			body: body.slice(),
-			created: at,
-			expires: at + ttlMs,
-			staleUntil: at + ttlMs + graceMs + swrMs,
-			beresp: { ...context.beresp },
-		});
-		stored = true;
+	const { variant } = objectVariant(context);
+	const stored =
+		!passing && action === "deliver" && (await storeObject(cache, key, context, body, now()));
+
+	// return(pass) from vcl_fetch, or a response of a cacheable status that
+	// was made uncacheable, leaves a hit-for-pass marker behind. A response
+	// that is uncacheable for its status alone, such as a 503, does not.
+	const madeUncacheable =
+		context.beresp.cacheable === false && CACHEABLE_STATUSES.has(context.beresp.status);
+	if (
+		!passing &&
+		(action === "pass" || action === "hit_for_pass" || (action === "deliver" && madeUncacheable))
+	) {
+		await storeHitForPass(cache, key, context, now());
 	}
+	release?.();
 
 	// The object is cached above regardless: on Fastly, cache insertion happens
 	// at fetch time, before vcl_deliver runs.
 	if (deliverAction === "restart") return "restart";
 
+	// The whole object was stored; the client gets the part it asked for. A
+	// pass leaves Range to the backend unless req.enable_range_on_pass is set.
+	const delivered =
+		(await deliverESI(opts, body, context.beresp.do_esi)) ??
+		(passing && !context.req.enable_range_on_pass ? body : deliverRange(context, body));
+
 	executeVCL(subroutines, "vcl_log", context);
 
 	return {
@@ -312,17 +587,691 @@ async function runPass(opts: PipelineOptions): Promise<PipelineResult | "restart
 			status: context.resp.status,
 			statusText: context.resp.statusText,
 			headers: { ...context.resp.http },
-			body,
+			body: delivered,
 		},
 		action,
 		restarts,
 		cache: {
-			outcome: passing ? "pass" : stored ? "miss" : "uncacheable",
+			outcome: hitForPass ? "hit-for-pass" : passing ? "pass" : stored ? "miss" : "uncacheable",
 			key,
 			ttl: context.beresp.ttl,
 			grace: context.beresp.grace,
 			staleWhileRevalidate: context.beresp.stale_while_revalidate,
+			staleIfError: context.beresp.stale_if_error,
+			freshness,
+			...(variant && { variant }),
+			...(refreshed && stored && { revalidated: true }),
+			stored,
+		},
+	};
+}
+
+/** A block an inner request read from the cache or fetched, with what it told of the object. */
+interface FetchedBlock {
+	key: string;
+	body: Uint8Array;
+	status: number;
+	statusText: string;
+	/** The object's headers, without the block's Content-Range and Content-Length. */
+	headers: Record<string, string>;
+	completeLength: number;
+	hit: boolean;
+	stored: boolean;
+}
+
+type BlockResult =
+	| { block: FetchedBlock }
+	| { key: string; response: BackendResponse }
+	| { key: string; error: string };
+
+/** The object's headers from a block's: the ones that describe the block's part of it are dropped. */
+function objectHeaders(headers: Record<string, string>): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(headers).filter(
+			([name]) => !["content-range", "content-length"].includes(name.toLowerCase()),
+		),
+	);
+}
+
+/**
+ * Answer a request that enabled segmented caching. Inner requests fetch the
+ * blocks the client's range covers, starting with the one it begins in,
+ * which tells the object's size; the response is assembled from them. A
+ * single range is answered 206 from its blocks alone, anything else from the
+ * whole object. vcl_deliver and vcl_log run once, for this outer request.
+ */
+async function deliverSegmented(
+	opts: PipelineOptions,
+	restarts: number,
+): Promise<PipelineResult | "restart"> {
+	const { subroutines, context } = opts;
+	const blockSize = Math.max(
+		1,
+		Math.floor(context.segmentedCaching?.block_size ?? SEGMENTED_CACHING_BLOCK_SIZE),
+	);
+	const state: SegmentedCachingState = { block_size: blockSize };
+	context.segmentedCaching = state;
+
+	const range = headerValue(context.req.http, "range") ?? "";
+	const low = Number(/^\s*bytes\s*=\s*(\d+)\s*-/i.exec(range)?.[1] ?? 0);
+	const firstNumber = Math.floor(low / blockSize);
+	const first = await fetchBlock(opts, firstNumber, blockSize);
+	if ("error" in first) return segmentedFailure(opts, first.key, restarts, first.error);
+	if ("response" in first) {
+		// Not a block: the backend's answer, such as a 404 or a 416, is passed on.
+		context.resp.status = first.response.status;
+		context.resp.statusText = first.response.statusText ?? "";
+		context.resp.http = {};
+		for (const [name, value] of Object.entries(first.response.headers)) {
+			context.resp.http[name.toLowerCase()] = value;
+		}
+		context.resp.http["X-Cache"] = "MISS";
+		if (executeVCL(subroutines, "vcl_deliver", context) === "restart") return "restart";
+		executeVCL(subroutines, "vcl_log", context);
+		return {
+			response: {
+				status: context.resp.status,
+				statusText: context.resp.statusText,
+				headers: { ...context.resp.http },
+				body: toBytes(first.response.body),
+			},
+			action: "deliver",
+			restarts,
+			cache: { outcome: "uncacheable", key: first.key, stored: false },
+		};
+	}
+
+	const size = first.block.completeLength;
+	const total = Math.ceil(size / blockSize);
+	const ranges = requestedRanges(context.req.method, context.req.http, first.block.headers, size);
+	const single = Array.isArray(ranges) && ranges.length === 1 ? ranges[0] : undefined;
+	const span =
+		single ?? (ranges === "unsatisfiable" ? { start: 0, end: -1 } : { start: 0, end: size - 1 });
+
+	const blocks = new Map<number, FetchedBlock>([[firstNumber, first.block]]);
+	for (let n = Math.floor(span.start / blockSize); n * blockSize <= span.end; n++) {
+		if (blocks.has(n)) continue;
+		const result = await fetchBlock(opts, n, blockSize);
+		if (!("block" in result)) {
+			const reason =
+				"error" in result ? result.error : `the backend answered ${result.response.status}`;
+			return segmentedFailure(opts, result.key, restarts, `block ${n}: ${reason}`);
+		}
+		blocks.set(n, result.block);
+	}
+
+	const body = new Uint8Array(span.end - span.start + 1);
+	for (const [n, block] of blocks) {
+		const blockStart = n * blockSize;
+		const from = Math.max(span.start, blockStart);
+		const to = Math.min(span.end, blockStart + block.body.length - 1);
+		if (from <= to) {
+			body.set(block.body.subarray(from - blockStart, to - blockStart + 1), from - span.start);
+		}
+	}
+
+	Object.assign(state, { total_blocks: total, completed: true, complete_length: size });
+	if (single) {
+		state.client_range = { low: single.start, high: single.end, open_ended: /-\s*$/.test(range) };
+		state.rounded_range = {
+			low: Math.floor(single.start / blockSize) * blockSize,
+			high: Math.min(size, (Math.floor(single.end / blockSize) + 1) * blockSize) - 1,
+		};
+	}
+
+	const hits = [...blocks.values()].filter((block) => block.hit).length;
+	context.resp.status = first.block.status;
+	context.resp.statusText = first.block.statusText;
+	context.resp.http = { ...first.block.headers, "content-length": `${body.length}` };
+	if (single) {
+		context.resp.status = 206;
+		context.resp.statusText = "Partial Content";
+		context.resp.http["content-range"] = `bytes ${single.start}-${single.end}/${size}`;
+	} else if (ranges === "unsatisfiable") {
+		context.resp.status = 416;
+		context.resp.statusText = "Range Not Satisfiable";
+		context.resp.http["content-range"] = `bytes */${size}`;
+	}
+	context.resp.http["X-Cache"] = hits === blocks.size ? "HIT" : "MISS";
+
+	if (executeVCL(subroutines, "vcl_deliver", context) === "restart") return "restart";
+	// Several ranges are cut from the whole object, like any other response.
+	const delivered = deliverRange(context, body);
+	executeVCL(subroutines, "vcl_log", context);
+
+	return {
+		response: {
+			status: context.resp.status,
+			statusText: context.resp.statusText,
+			headers: { ...context.resp.http },
+			body: delivered,
+		},
+		action: "deliver",
+		restarts,
+		cache: {
+			outcome: hits === blocks.size ? "hit" : "miss",
+			key: first.block.key,
+			segments: { blockSize, total, hits, fetched: blocks.size - hits },
+			stored: [...blocks.values()].some((block) => block.stored),
+		},
+	};
+}
+
+/** A block that could not be fetched fails the outer request through vcl_error with a 503. */
+function segmentedFailure(
+	opts: PipelineOptions,
+	key: string,
+	restarts: number,
+	error: string,
+): PipelineResult | "restart" {
+	const { subroutines, context } = opts;
+	Object.assign(context.segmentedCaching ?? {}, { failed: true, error });
+	context.obj.status = 503;
+	context.obj.response = `Segmented caching failed: ${error}`;
+	context.obj.http = { "Content-Type": "text/html; charset=utf-8" };
+	if (executeVCL(subroutines, "vcl_error", context) === "restart") return "restart";
+	return errorResult(context, key, restarts);
+}
+
+/**
+ * One inner request: look block `number` up, or fetch it with a backend Range
+ * request and store it. vcl_hash, vcl_hit or vcl_miss, and vcl_fetch run with
+ * segmented_caching.is_inner_req set. A backend that ignores the Range and
+ * sends the whole object has the block cut from it; any other answer than a
+ * 206 for the block or a 200 is returned as is.
+ */
+async function fetchBlock(
+	opts: PipelineOptions,
+	number: number,
+	size: number,
+): Promise<BlockResult> {
+	const { subroutines, context: outer, getBackendResponse } = opts;
+	const cache = cacheStore(opts.cache);
+	const context = requestContext(outer);
+	context.segmentedCaching = { is_inner_req: true, block_number: number, block_size: size };
+	context.hashData = [];
+	executeVCL(subroutines, "vcl_hash", context);
+	const key = computeCacheKey(context);
+
+	const cached = (await cache.get(key))?.find(
+		(entry) =>
+			entry.segment?.block === number &&
+			entry.segment.size === size &&
+			variantMatches(entry, context.req.http),
+	);
+	if (cached?.segment && context.platform.now() < cached.expires) {
+		context.obj.hits = 1;
+		if ((executeVCL(subroutines, "vcl_hit", context) || "deliver") === "deliver") {
+			const { status, statusText, http } = cached.resp;
+			return {
+				block: {
+					key,
+					body: cached.body,
+					status,
+					statusText,
+					headers: http,
+					completeLength: cached.segment.completeLength,
+					hit: true,
+					stored: false,
+				},
+			};
+		}
+	} else if (cached) {
+		await removeVariant(cache, key, cached);
+	}
+
+	prepareBackendRequest(context, true);
+	executeVCL(subroutines, "vcl_miss", context);
+	const start = number * size;
+	context.bereq.http.range = `bytes=${start}-${start + size - 1}`;
+	let backendResponse: BackendResponse;
+	try {
+		backendResponse = await getBackendResponse(context);
+	} catch (err) {
+		return { key, error: err instanceof Error ? err.message : String(err) };
+	}
+	const freshness = receiveBackendResponse(context, backendResponse);
+
+	const fetched = toBytes(backendResponse.body);
+	const contentRange = /^bytes (\d+)-\d+\/(\d+)$/.exec(
+		headerValue(context.beresp.http, "content-range") ?? "",
+	);
+	let body: Uint8Array;
+	let completeLength: number;
+	if (backendResponse.status === 206 && contentRange && Number(contentRange[1]) === start) {
+		body = fetched;
+		completeLength = Number(contentRange[2]);
+		// The 206 is the block's object, cacheable as a 200 would be.
+		context.beresp.cacheable = freshness.cacheable;
+	} else if (backendResponse.status === 200) {
+		body = fetched.slice(start, start + size);
+		completeLength = fetched.length;
+	} else {
+		return { key, response: backendResponse };
+	}
+
+	const action = executeVCL(subroutines, "vcl_fetch", context) || "deliver";
+	context.resp.status = 200;
+	context.resp.statusText = backendResponse.status === 200 ? context.beresp.statusText : "OK";
+	context.resp.http = objectHeaders(context.beresp.http);
+	const stored =
+		action === "deliver" &&
+		(await storeObject(cache, key, context, body, context.platform.now(), {
+			block: number,
+			size,
+			completeLength,
+		}));
+	return {
+		block: {
+			key,
+			body,
+			status: context.resp.status,
+			statusText: context.resp.statusText,
+			headers: context.resp.http,
+			completeLength,
+			hit: false,
 			stored,
 		},
 	};
 }
+
+/**
+ * Serve a stored object: fresh from vcl_hit, or stale in place of a backend
+ * error or while a background fetch revalidates it, which this starts once
+ * the request has been delivered.
+ */
+async function deliverCached(
+	opts: PipelineOptions,
+	key: string,
+	entry: CacheEntry,
+	restarts: number,
+	stale?: StaleReason,
+): Promise<PipelineResult | "restart"> {
+	const { subroutines, context } = opts;
+	const at = context.platform.now();
+	const isFresh = at < entry.expires;
+	// The background fetch repeats the request as it was looked up.
+	const background = stale === "revalidating" ? backgroundContext(context) : undefined;
+	context.resp = {
+		...entry.resp,
+		http: { ...entry.resp.http },
+		stale: !isFresh,
+		stale_is_error: stale === "error",
+		stale_is_revalidating: stale === "revalidating",
+	};
+	context.resp.http["X-Cache"] = isFresh ? "HIT" : "HIT-STALE";
+	context.resp.http["X-Cache-Hits"] = "1";
+	const ageSeconds = Math.floor((at - entry.created) / 1000);
+	context.resp.http["X-Cache-Age"] = `${ageSeconds}`;
+
+	// A client that already holds the object gets a 304 with no body, which
+	// vcl_deliver sees as resp.status.
+	const notModified = isNotModified(context.req.method, context.req.http, entry.beresp.http);
+	if (notModified) {
+		context.resp.status = 304;
+		context.resp.statusText = "Not Modified";
+		for (const name of Object.keys(context.resp.http)) {
+			if (name.toLowerCase() === "content-length") delete context.resp.http[name];
+		}
+	}
+
+	if (executeVCL(subroutines, "vcl_deliver", context) === "restart") return "restart";
+	const body = notModified
+		? new Uint8Array()
+		: ((await deliverESI(opts, entry.body, entry.beresp.do_esi)) ??
+			deliverRange(context, entry.body.slice()));
+	executeVCL(subroutines, "vcl_log", context);
+
+	const revalidation = background && revalidate(opts, key, entry, background);
+	return {
+		response: {
+			status: context.resp.status,
+			statusText: context.resp.statusText,
+			headers: { ...context.resp.http },
+			body,
+		},
+		action: "deliver",
+		restarts,
+		cache: {
+			outcome: isFresh ? "hit" : "hit-stale",
+			key,
+			ageSeconds,
+			...(entry.vary && { variant: { ...entry.vary } }),
+			...(stale && { stale }),
+			stored: false,
+		},
+		...(revalidation && { revalidation }),
+	};
+}
+
+// Objects with a background fetch in flight, per cache and hash key, so a
+// burst of stale hits starts only one.
+const revalidating = new WeakMap<CacheStore, Map<string, CacheEntry[]>>();
+
+/**
+ * The background fetch a stale-while-revalidate hit starts. It runs vcl_miss
+ * and vcl_fetch for a copy of the request, with req.is_background_fetch set,
+ * and stores the new object over the stale one. A failed fetch leaves the
+ * stale object in place; the returned promise never rejects.
+ */
+async function revalidate(
+	opts: PipelineOptions,
+	key: string,
+	entry: CacheEntry,
+	context: VCLContext,
+): Promise<void> {
+	const cache = cacheStore(opts.cache);
+	let fetches = revalidating.get(cache);
+	if (!fetches) {
+		fetches = new Map();
+		revalidating.set(cache, fetches);
+	}
+	const underKey = fetches.get(key) ?? [];
+	if (underKey.some((other) => sameEntry(other, entry))) return;
+	fetches.set(key, [...underKey, entry]);
+	const registry = fetches;
+	const { subroutines, getBackendResponse } = opts;
+	try {
+		prepareBackendRequest(context, true, entry);
+		const action = executeVCL(subroutines, "vcl_miss", context) || "fetch";
+		if (action !== "fetch") return;
+		const backendResponse = await getBackendResponse(context);
+		receiveBackendResponse(context, backendResponse, entry);
+		if ((executeVCL(subroutines, "vcl_fetch", context) || "deliver") !== "deliver") return;
+		const refreshed = backendResponse.status === 304;
+		if (refreshed) restoreObjectStatus(context, entry);
+		context.resp.status = context.beresp.status;
+		context.resp.statusText = context.beresp.statusText;
+		context.resp.http = { ...context.beresp.http };
+		const body = refreshed ? entry.body : toBytes(backendResponse.body);
+		await storeObject(cache, key, context, body, context.platform.now());
+	} catch {
+		// The stale object keeps being served until its windows close.
+	} finally {
+		const remaining = (registry.get(key) ?? []).filter((other) => other !== entry);
+		if (remaining.length > 0) registry.set(key, remaining);
+		else registry.delete(key);
+	}
+}
+
+/** A context for a background fetch: the request as it was looked up, sharing the service's state. */
+function backgroundContext(foreground: VCLContext): VCLContext {
+	const context = requestContext(foreground);
+	context.req.is_background_fetch = true;
+	return context;
+}
+
+/** A context for another request on behalf of `foreground`: a copy of its request, sharing the service's state. */
+function requestContext(foreground: VCLContext): VCLContext {
+	const context = createVCLContext(foreground.platform);
+	context.req = { ...foreground.req, http: { ...foreground.req.http } };
+	context.hashData = [...(foreground.hashData ?? [])];
+	context.cache = foreground.cache;
+	context.backends = foreground.backends;
+	context.directors = foreground.directors;
+	context.acls = foreground.acls;
+	context.tables = foreground.tables;
+	context.client = foreground.client;
+	return context;
+}
+
+/**
+ * The body to send after running ESI over the object, or undefined when it is
+ * sent as stored: the object did not enable ESI, set req.esi = false turned
+ * it off, or the body is not markup. Like Fastly, this goes by the body
+ * rather than its Content-Type: it is parsed when its first character past
+ * any whitespace is "<". A gzip body is decompressed for parsing and the
+ * result compressed again. The stored object keeps the unprocessed template,
+ * and each delivery fetches the includes again as subrequests. The result
+ * has no Content-Length, since Fastly streams it, and Range does not apply.
+ */
+async function deliverESI(
+	opts: PipelineOptions,
+	body: Uint8Array,
+	doEsi: boolean | undefined,
+): Promise<Uint8Array | undefined> {
+	const { context } = opts;
+	if (!doEsi || context.req.esi === false) return undefined;
+	const compressed = isGzip(headerValue(context.resp.http, "content-encoding"));
+	let template: string;
+	try {
+		template = new TextDecoder().decode(compressed ? await gunzip(body) : body);
+	} catch {
+		return undefined;
+	}
+	if (!/^\s*</.test(template)) return undefined;
+
+	context.esiIncludes ??= { count: 0 };
+	// A hit takes do_esi from the object rather than this request's beresp.
+	const esiContext = { ...context, beresp: { ...context.beresp, do_esi: true } };
+	const processed = toBytes(
+		await processESI(template, esiContext, { fetchInclude: esiIncludeFetcher(opts) }),
+	);
+	for (const name of Object.keys(context.resp.http)) {
+		if (name.toLowerCase() === "content-length") delete context.resp.http[name];
+	}
+	return compressed ? gzip(processed) : processed;
+}
+
+/**
+ * Fetch an ESI include as a subrequest: a GET for `src`, resolved against
+ * this request's URL, run through the whole pipeline one req.esi_level
+ * deeper, so its object is looked up and stored under its own hash key. It
+ * repeats this request's headers, less the ones asking for part of an
+ * object or making it conditional. A response with an error status fails the
+ * include, for its alt, onerror or esi:try to handle.
+ */
+function esiIncludeFetcher(opts: PipelineOptions): ESIIncludeFetcher {
+	const parent = opts.context;
+	return async (src) => {
+		const base = new URL(parent.req.url, `http://${parent.req.http.host || "localhost"}`);
+		const url = new URL(src, base);
+		const context = requestContext(parent);
+		context.req = {
+			url: url.pathname + url.search,
+			method: "GET",
+			http: withoutRange(withoutValidators(parent.req.http)),
+			backend: "default",
+			restarts: 0,
+			is_esi_subreq: true,
+			esi_level: (parent.req.esi_level ?? 0) + 1,
+			topurl: parent.req.topurl ?? parent.req.url,
+		};
+		if (url.host !== base.host) context.req.http.host = url.host;
+		context.hashData = [];
+		context.esiIncludes = parent.esiIncludes;
+		const { response } = await runPipeline({ ...opts, context });
+		if (response.status >= 400) throw new Error(`${src} answered ${response.status}`);
+		const compressed = isGzip(headerValue(response.headers, "content-encoding"));
+		return new TextDecoder().decode(compressed ? await gunzip(response.body) : response.body);
+	};
+}
+
+/**
+ * Build bereq.http from the request, before vcl_miss or vcl_pass may change
+ * it. A fetch whose response may be stored drops the client's validators and
+ * Range, since the cache needs the whole object, and sends the validators of
+ * the expired object it still holds so the backend can answer 304. A pass
+ * forwards the request's headers as they are.
+ */
+function prepareBackendRequest(context: VCLContext, lookup: boolean, stale?: CacheEntry): void {
+	context.bereq.http = lookup
+		? {
+				...withoutRange(withoutValidators(context.req.http)),
+				...(stale && validatorHeaders(stale.beresp.http)),
+			}
+		: { ...context.req.http };
+}
+
+/**
+ * Apply the request's Range to the response vcl_deliver left, updating
+ * context.resp so vcl_log sees the 206 or 416, and return the body to send.
+ */
+function deliverRange(context: VCLContext, body: Uint8Array): Uint8Array {
+	const ranged = applyRange(context.req.method, context.req.http, {
+		status: context.resp.status,
+		statusText: context.resp.statusText,
+		headers: context.resp.http,
+		body,
+	});
+	if (!ranged) return body;
+	context.resp.status = ranged.status;
+	context.resp.statusText = ranged.statusText;
+	context.resp.http = ranged.headers;
+	return ranged.body;
+}
+
+/** After vcl_fetch has seen a backend 304, give beresp the status of the object it refreshed. */
+function restoreObjectStatus(context: VCLContext, refreshed: CacheEntry): void {
+	context.beresp.status = refreshed.beresp.status;
+	context.beresp.statusText = refreshed.beresp.statusText;
+}
+
+/**
+ * Reset beresp from this pass's backend response and derive its initial
+ * TTLs. Nothing from a previous pass (headers, TTL decisions) may carry over
+ * across a restart. A 304 answering the revalidation of `revalidating` keeps
+ * its status for vcl_fetch, but its headers update the object's, and the
+ * TTLs come from the result.
+ */
+function receiveBackendResponse(
+	context: VCLContext,
+	backendResponse: BackendResponse,
+	revalidating?: CacheEntry,
+): Freshness {
+	const refreshing = backendResponse.status === 304 ? revalidating : undefined;
+	context.beresp.status = backendResponse.status;
+	context.beresp.statusText = backendResponse.statusText ?? "";
+	context.beresp.http = {};
+	context.beresp.ttl = 0;
+	context.beresp.grace = 0;
+	context.beresp.stale_while_revalidate = 0;
+	context.beresp.do_esi = false;
+	for (const field of ["cacheable", "do_stream", "gzip", "brotli", "saintmode", "stale_if_error"]) {
+		delete (context.beresp as Record<string, any>)[field];
+	}
+	const headers = refreshing
+		? refreshHeaders(refreshing.beresp.http, backendResponse.headers)
+		: backendResponse.headers;
+	for (const [name, value] of Object.entries(headers)) {
+		context.beresp.http[name.toLowerCase()] = value;
+	}
+
+	// Fastly derives the initial TTL from the response headers before
+	// vcl_fetch runs, so VCL reads those values and may override them.
+	const freshness = deriveFreshness(context.beresp.http, context.platform.now());
+	context.beresp.ttl = freshness.ttl;
+	context.beresp.grace = freshness.grace;
+	context.beresp.stale_while_revalidate = freshness.staleWhileRevalidate;
+	context.beresp.stale_if_error = freshness.staleIfError;
+	const status = refreshing ? refreshing.beresp.status : backendResponse.status;
+	context.beresp.cacheable = freshness.cacheable && CACHEABLE_STATUSES.has(status);
+
+	// Record the backend that answered so beresp.backend.* can report it for
+	// the rest of this pass. The peer address is not observable through the
+	// fetch API, so a backend host given as an IP literal is reported verbatim
+	// and any other host falls back to the emulated origin address.
+	const answeringBackend =
+		context.current_backend ?? context.backends?.[context.req.backend ?? "default"];
+	context.beresp.backend = {
+		name: answeringBackend?.name ?? "",
+		host: answeringBackend?.host ?? "",
+		port: answeringBackend?.port ?? 0,
+		ip:
+			answeringBackend?.host && getIPType(answeringBackend.host)
+				? answeringBackend.host
+				: "127.0.0.1",
+	};
+	return freshness;
+}
+
+/** The object's Vary header and, when it varies, the request values it is stored for. */
+function objectVariant(context: VCLContext): {
+	vary: string[] | "*";
+	variant?: Record<string, string | null>;
+} {
+	const vary = parseVary(headerValue(context.beresp.http, "vary"));
+	if (vary === "*" || vary.length === 0) return { vary };
+	return {
+		vary,
+		variant: Object.fromEntries(
+			vary.map((name) => [name, headerValue(context.req.http, name) ?? null]),
+		),
+	};
+}
+
+/**
+ * Store context.resp and `body` under `key` if beresp allows it, replacing
+ * the variant this request would have been served. Vary: * makes the object
+ * uncacheable, as on Fastly.
+ */
+async function storeObject(
+	cache: CacheStore,
+	key: string,
+	context: VCLContext,
+	body: Uint8Array,
+	at: number,
+	segment?: CacheSegment,
+): Promise<boolean> {
+	const { vary, variant } = objectVariant(context);
+	if (context.beresp.ttl <= 0 || context.beresp.cacheable === false || vary === "*") return false;
+	const ttlMs = context.beresp.ttl * 1000;
+	const graceMs = (context.beresp.grace || 0) * 1000;
+	const swrMs = (context.beresp.stale_while_revalidate || 0) * 1000;
+	const surrogateKeys = parseSurrogateKeys(headerValue(context.beresp.http, "surrogate-key"));
+	await putVariant(cache, key, context, {
+		resp: {
+			status: context.resp.status,
+			statusText: context.resp.statusText,
+			http: { ...context.resp.http },
+		},
+		body: body.slice(),
+		created: at,
+		expires: at + ttlMs,
+		staleUntil: at + ttlMs + graceMs + swrMs,
+		beresp: { ...context.beresp },
+		...(variant && { vary: variant }),
+		...(surrogateKeys.length > 0 && { surrogateKeys }),
+		...(segment && { segment }),
+	});
+	return true;
+}
+
+/**
+ * Store a hit-for-pass marker for this request's variant. It lasts
+ * beresp.ttl, or DEFAULT_HIT_FOR_PASS_TTL when that is not positive.
+ */
+async function storeHitForPass(
+	cache: CacheStore,
+	key: string,
+	context: VCLContext,
+	at: number,
+): Promise<void> {
+	const { vary, variant } = objectVariant(context);
+	if (vary === "*") return;
+	const ttl = context.beresp.ttl > 0 ? context.beresp.ttl : DEFAULT_HIT_FOR_PASS_TTL;
+	await putVariant(cache, key, context, {
+		resp: { status: context.beresp.status, statusText: context.beresp.statusText, http: {} },
+		body: new Uint8Array(),
+		created: at,
+		expires: at + ttl * 1000,
+		staleUntil: at + ttl * 1000,
+		beresp: { ...context.beresp },
+		...(variant && { vary: variant }),
+		hitForPass: true,
+	});
+}
+
+/** Store `entry` under `key` in place of the variant (or block) this request would have been served. */
+async function putVariant(
+	cache: CacheStore,
+	key: string,
+	context: VCLContext,
+	entry: CacheEntry,
+): Promise<void> {
+	const others = ((await cache.get(key)) ?? []).filter(
+		(other) => !(variantMatches(other, context.req.http) && sameSegment(other, entry)),
+	);
+	others.push(entry);
+	await cache.set(key, others);
+}
@@ -0,0 +1,195 @@
+// Cache invalidation on a PipelineCache or a CacheStore: by hash key (what a
+// PURGE request for a URL resolves to), by surrogate key, or everything at
+// once. A hard purge removes the objects; a soft purge only marks them stale,
+// so grace and stale-while-revalidate still let them be served while the
+// backend is asked for a fresh copy, as with Fastly's Fastly-Soft-Purge
+// header. A PipelineCache is purged at once; a CacheStore returns a promise.
+
+import { type CacheStore, mapHashKeys, mapVariants, setMapVariants } from "./cache-store";
+import type { CacheEntry, PipelineCache } from "./pipeline";
+
+export interface PurgeOptions {
+	/** Mark the objects stale instead of removing them. */
+	soft?: boolean;
+	/** The time a soft purge makes the objects expire at, in ms; defaults to Date.now(). */
+	now?: number;
+}
+
+let purgeSequence = 0;
+
+/** An identifier for a purge in the shape of Fastly's: a sequence number and the time. */
+export function nextPurgeId(now: number): string {
+	return `${++purgeSequence}-${Math.floor(now / 1000)}`;
+}
+
+/** The space-separated keys of a Surrogate-Key header value. */
+export function parseSurrogateKeys(value: string | undefined): string[] {
+	return [...new Set((value ?? "").split(/\s+/).filter((key) => key !== ""))];
+}
+
+type Matcher = (entry: CacheEntry) => boolean;
+
+/**
+ * Purge the `variants` of a key that `matches` selects: how many were purged,
+ * and the variants to keep under the key. A soft purge marks the objects
+ * stale in place, servable for their grace and stale-while-revalidate from
+ * now, and keeps them all; an object it already made stale is not counted
+ * again.
+ */
+function purgeVariants(
+	variants: CacheEntry[],
+	matches: Matcher,
+	options: PurgeOptions,
+): { purged: number; remaining: CacheEntry[] } {
+	const purged = variants.filter(matches);
+	if (options.soft) {
+		const now = options.now ?? Date.now();
+		const fresh = purged.filter((entry) => entry.expires > now);
+		for (const entry of fresh) {
+			// The stale windows start over from the purge, rather than from the
+			// end of a TTL that no longer applies.
+			const staleMs =
+				((entry.beresp.grace || 0) + (entry.beresp.stale_while_revalidate || 0)) * 1000;
+			entry.expires = now;
+			entry.staleUntil = Math.min(entry.staleUntil, now + staleMs);
+		}
+		return { purged: fresh.length, remaining: variants };
+	}
+	return {
+		purged: purged.length,
+		remaining: variants.filter((entry) => !purged.includes(entry)),
+	};
+}
+
+function purgeMapKey(
+	cache: PipelineCache,
+	key: string,
+	variants: CacheEntry[],
+	matches: Matcher,
+	options: PurgeOptions,
+): number {
+	const { purged, remaining } = purgeVariants(variants, matches, options);
+	if (purged === 0) return 0;
+	if (remaining !== variants) setMapVariants(cache, key, remaining);
+	return purged;
+}
+
+// A store may hand out copies, so even a soft purge writes the variants back.
+async function purgeStoreKey(
+	store: CacheStore,
+	key: string,
+	variants: CacheEntry[],
+	matches: Matcher,
+	options: PurgeOptions,
+): Promise<number> {
+	const { purged, remaining } = purgeVariants(variants, matches, options);
+	if (purged === 0) return 0;
+	if (remaining.length > 0) await store.set(key, remaining);
+	else await store.delete(key);
+	return purged;
+}
+
+/** Purge what `matches` selects under `key`, or under every key when it is undefined. */
+function purge(
+	cache: PipelineCache | CacheStore,
+	key: string | undefined,
+	matches: Matcher,
+	options: PurgeOptions,
+): number | Promise<number> {
+	if (cache instanceof Map) {
+		let purged = 0;
+		const keys = key === undefined ? mapHashKeys(cache) : [key];
+		for (const each of keys) {
+			const variants = mapVariants(cache, each);
+			if (variants) purged += purgeMapKey(cache, each, variants, matches, options);
+		}
+		return purged;
+	}
+	return (async () => {
+		if (key !== undefined) {
+			const variants = await cache.get(key);
+			return variants ? purgeStoreKey(cache, key, variants, matches, options) : 0;
+		}
+		let purged = 0;
+		for await (const [each, variants] of cache.entries()) {
+			purged += await purgeStoreKey(cache, each, variants, matches, options);
+		}
+		return purged;
+	})();
+}
+
+/** Purge every variant stored under a hash key. */
+export function purgeKey(cache: PipelineCache, key: string, options?: PurgeOptions): number;
+export function purgeKey(cache: CacheStore, key: string, options?: PurgeOptions): Promise<number>;
+export function purgeKey(
+	cache: PipelineCache | CacheStore,
+	key: string,
+	options?: PurgeOptions,
+): number | Promise<number>;
+export function purgeKey(
+	cache: PipelineCache | CacheStore,
+	key: string,
+	options: PurgeOptions = {},
+): number | Promise<number> {
+	return purge(cache, key, () => true, options);
+}
+
+/**
+ * Purge a URL the way the default vcl_hash keys it (the URL, then the Host).
+ * A service with its own vcl_hash should send a PURGE request through
+ * runPipeline instead, so its hash decides the key.
+ */
+export function purgeURL(
+	cache: PipelineCache,
+	url: string,
+	host?: string,
+	options?: PurgeOptions,
+): number;
+export function purgeURL(
+	cache: CacheStore,
+	url: string,
+	host?: string,
+	options?: PurgeOptions,
+): Promise<number>;
+export function purgeURL(
+	cache: PipelineCache | CacheStore,
+	url: string,
+	host = "",
+	options: PurgeOptions = {},
+): number | Promise<number> {
+	return purgeKey(cache, `${url}:${host}`, options);
+}
+
+/** Purge every object tagged with `surrogateKey` in its Surrogate-Key header. */
+export function purgeSurrogateKey(
+	cache: PipelineCache,
+	surrogateKey: string,
+	options?: PurgeOptions,
+): number;
+export function purgeSurrogateKey(
+	cache: CacheStore,
+	surrogateKey: string,
+	options?: PurgeOptions,
+): Promise<number>;
+export function purgeSurrogateKey(
+	cache: PipelineCache | CacheStore,
+	surrogateKey: string,
+	options: PurgeOptions = {},
+): number | Promise<number> {
+	return purge(
+		cache,
+		undefined,
+		(entry) => entry.surrogateKeys?.includes(surrogateKey) ?? false,
+		options,
+	);
+}
+
+/** Purge the whole cache. */
+export function purgeAll(cache: PipelineCache, options?: PurgeOptions): number;
+export function purgeAll(cache: CacheStore, options?: PurgeOptions): Promise<number>;
+export function purgeAll(
+	cache: PipelineCache | CacheStore,
+	options: PurgeOptions = {},
+): number | Promise<number> {
+	return purge(cache, undefined, () => true, options);
+}
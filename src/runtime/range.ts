@@ -0,0 +1,179 @@
+// Byte-range requests (RFC 9110 section 14). A GET whose Range header reaches
+// a whole 200 response is answered 206 Partial Content: one range with a
+// Content-Range header, several as a multipart/byteranges body. A Range that
+// asks only for bytes past the end is answered 416, and If-Range serves the
+// whole response instead when the client's copy is no longer current.
+
+import { headerValue } from "./headers";
+
+/** An inclusive span of byte offsets. */
+export interface ByteRange {
+	start: number;
+	end: number;
+}
+
+/** A response as applyRange reads and rewrites it. */
+export interface RangeResponse {
+	status: number;
+	statusText: string;
+	headers: Record<string, string>;
+	body: Uint8Array;
+}
+
+/** The request headers that ask for part of an object. */
+const RANGE_HEADERS = ["range", "if-range"];
+
+/** A copy of `headers` with `names` removed, however they are cased. */
+function omit(headers: Record<string, string>, names: string[]): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(headers).filter(([name]) => !names.includes(name.toLowerCase())),
+	);
+}
+
+/** A copy of `headers` without Range and If-Range, for a fetch that needs the whole object. */
+export function withoutRange(headers: Record<string, string>): Record<string, string> {
+	return omit(headers, RANGE_HEADERS);
+}
+
+/**
+ * The ranges a Range value asks of a body of `size` bytes, in the order given
+ * and clipped to the body. "unsatisfiable" means none of them overlaps it;
+ * undefined means the value is not a byte-range set, so the Range is ignored.
+ */
+export function parseRange(value: string, size: number): ByteRange[] | "unsatisfiable" | undefined {
+	const match = /^\s*bytes\s*=(.*)$/i.exec(value);
+	if (!match) return undefined;
+	const ranges: ByteRange[] = [];
+	for (const spec of (match[1] ?? "").split(",")) {
+		if (spec.trim() === "") continue;
+		const [, first = "", last = ""] = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec) ?? [];
+		if (first === "" && last === "") return undefined;
+		if (first === "") {
+			// A suffix range: the last N bytes.
+			const length = Number(last);
+			if (length > 0 && size > 0) ranges.push({ start: Math.max(0, size - length), end: size - 1 });
+			continue;
+		}
+		const start = Number(first);
+		if (last !== "" && Number(last) < start) return undefined;
+		if (start < size) {
+			ranges.push({ start, end: last === "" ? size - 1 : Math.min(Number(last), size - 1) });
+		}
+	}
+	return ranges.length > 0 ? ranges : "unsatisfiable";
+}
+
+/**
+ * Whether an If-Range value still names the object with `headers`: an entity
+ * tag must match the ETag by strong comparison, a date the Last-Modified exactly.
+ */
+function ifRangeHolds(ifRange: string, headers: Record<string, string>): boolean {
+	const value = ifRange.trim();
+	if (value.startsWith('"') || value.startsWith("W/")) {
+		const etag = headerValue(headers, "etag")?.trim();
+		return !value.startsWith("W/") && etag === value;
+	}
+	const date = Date.parse(value);
+	const lastModified = Date.parse(headerValue(headers, "last-modified") ?? "");
+	return !Number.isNaN(date) && date === lastModified;
+}
+
+const encoder = new TextEncoder();
+
+/** The body of a multipart/byteranges response: one part per range, each with its Content-Range. */
+function multipartBody(
+	body: Uint8Array,
+	ranges: ByteRange[],
+	boundary: string,
+	contentType: string | undefined,
+): Uint8Array {
+	const chunks: Uint8Array[] = [];
+	for (const { start, end } of ranges) {
+		const type = contentType === undefined ? "" : `Content-Type: ${contentType}\r\n`;
+		chunks.push(
+			encoder.encode(
+				`--${boundary}\r\n${type}Content-Range: bytes ${start}-${end}/${body.length}\r\n\r\n`,
+			),
+			body.subarray(start, end + 1),
+			encoder.encode("\r\n"),
+		);
+	}
+	chunks.push(encoder.encode(`--${boundary}--\r\n`));
+	const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return result;
+}
+
+/**
+ * The ranges a request with `method` and `requestHeaders` asks of an object
+ * with `objectHeaders` and `size` bytes, as parseRange returns them. It is
+ * undefined when the object is to be sent whole: the request is not a GET
+ * with a Range, If-Range no longer holds, or the Range is malformed.
+ */
+export function requestedRanges(
+	method: string,
+	requestHeaders: Record<string, string>,
+	objectHeaders: Record<string, string>,
+	size: number,
+): ByteRange[] | "unsatisfiable" | undefined {
+	const range = headerValue(requestHeaders, "range");
+	if (method !== "GET" || range === undefined) return undefined;
+	const ifRange = headerValue(requestHeaders, "if-range");
+	if (ifRange !== undefined && !ifRangeHolds(ifRange, objectHeaders)) return undefined;
+	return parseRange(range, size);
+}
+
+/**
+ * `response` with the Range of a request with `method` and `requestHeaders`
+ * applied, or undefined when it is to be sent whole, as it is when the
+ * response is not a 200 or requestedRanges finds nothing to apply.
+ */
+export function applyRange(
+	method: string,
+	requestHeaders: Record<string, string>,
+	response: RangeResponse,
+): RangeResponse | undefined {
+	if (response.status !== 200) return undefined;
+	const size = response.body.length;
+	const ranges = requestedRanges(method, requestHeaders, response.headers, size);
+	if (ranges === undefined) return undefined;
+	const headers = omit(response.headers, ["content-length", "content-range"]);
+	if (ranges === "unsatisfiable") {
+		return {
+			status: 416,
+			statusText: "Range Not Satisfiable",
+			headers: { ...headers, "content-range": `bytes */${size}`, "content-length": "0" },
+			body: new Uint8Array(),
+		};
+	}
+	const [only] = ranges;
+	if (only && ranges.length === 1) {
+		const body = response.body.slice(only.start, only.end + 1);
+		return {
+			status: 206,
+			statusText: "Partial Content",
+			headers: {
+				...headers,
+				"content-range": `bytes ${only.start}-${only.end}/${size}`,
+				"content-length": `${body.length}`,
+			},
+			body,
+		};
+	}
+	const boundary = crypto.randomUUID().replace(/-/g, "");
+	const body = multipartBody(response.body, ranges, boundary, headerValue(headers, "content-type"));
+	return {
+		status: 206,
+		statusText: "Partial Content",
+		headers: {
+			...omit(headers, ["content-type"]),
+			"content-type": `multipart/byteranges; boundary=${boundary}`,
+			"content-length": `${body.length}`,
+		},
+		body,
+	};
+}
@@ -0,0 +1,112 @@
+// Maps positions in a merged VCL buffer back to the file they came from. Several
+// files become one buffer either by concatenation (index.ts wraps each file in
+// `# Begin file:` / `# End file:` comment markers) or by include expansion
+// (vcl-include.ts emits the same markers), and the lexer and parser only ever see
+// the merged text. The markers are the source map: each line between a matching
+// Begin/End pair belongs to the named file, numbered from 1, and an include that
+// splits a line resumes the including file's numbering on that same line.
+
+import type { VCLNode } from "./vcl-parser";
+
+export interface SourceLocation {
+	file?: string;
+	line: number;
+	column: number;
+}
+
+const BEGIN_MARKER_RE = /^# Begin file: (.+)$/;
+const END_MARKER_RE = /^# End file: (.+)$/;
+
+// formatLocation renders a location the way every error message in the engine
+// ends, so buildDiagnostic can read it back.
+export function formatLocation(location: SourceLocation): string {
+	const at = `at line ${location.line}, column ${location.column}`;
+	return location.file ? `${at} in file "${location.file}"` : at;
+}
+
+export class VCLSourceMap {
+	// Per merged line (index = line - 1): the originating file and line, or null
+	// for a marker line.
+	private readonly lines: ({ file: string | undefined; line: number } | null)[] = [];
+	private readonly files = new Map<string | undefined, string[]>();
+
+	constructor(source: string, rootFile?: string) {
+		const stack: { file: string | undefined; next: number }[] = [{ file: rootFile, next: 1 }];
+		for (const text of source.split("\n")) {
+			const begin = BEGIN_MARKER_RE.exec(text);
+			if (begin) {
+				// The including file's line continues after the matching End marker.
+				const parent = stack[stack.length - 1]!;
+				if (parent.next > 1) parent.next--;
+				stack.push({ file: begin[1], next: 1 });
+				this.lines.push(null);
+				continue;
+			}
+			const end = END_MARKER_RE.exec(text);
+			if (end && stack.length > 1 && stack[stack.length - 1]!.file === end[1]) {
+				stack.pop();
+				this.lines.push(null);
+				continue;
+			}
+			const frame = stack[stack.length - 1]!;
+			const line = frame.next++;
+			this.lines.push({ file: frame.file, line });
+			this.recordLine(frame.file, line, text);
+		}
+	}
+
+	/** Map a merged-buffer line/column to the originating file and position. */
+	resolve(line: number, column: number): SourceLocation {
+		const entry = this.lines[line - 1];
+		if (!entry) {
+			return { line, column };
+		}
+		return entry.file === undefined
+			? { line: entry.line, column }
+			: { file: entry.file, line: entry.line, column };
+	}
+
+	/** The text of one originating file, as far as it appears in the buffer. */
+	fileSource(file: string | undefined): string | undefined {
+		return this.files.get(file)?.join("\n");
+	}
+
+	/**
+	 * Rewrite every `location` in an AST (in place) from merged-buffer positions to
+	 * originating file positions. Shared location objects are rewritten once.
+	 */
+	remapLocations(root: VCLNode): void {
+		const seen = new Set<object>();
+		const visit = (value: unknown): void => {
+			if (value === null || typeof value !== "object" || seen.has(value)) return;
+			seen.add(value);
+			if (Array.isArray(value)) {
+				for (const item of value) visit(item);
+				return;
+			}
+			const node = value as { location?: SourceLocation };
+			if (node.location && !seen.has(node.location)) {
+				seen.add(node.location);
+				const mapped = this.resolve(node.location.line, node.location.column);
+				node.location.line = mapped.line;
+				node.location.column = mapped.column;
+				if (mapped.file !== undefined) node.location.file = mapped.file;
+			}
+			for (const child of Object.values(value)) visit(child);
+		};
+		visit(root);
+	}
+
+	private recordLine(file: string | undefined, line: number, text: string): void {
+		let lines = this.files.get(file);
+		if (!lines) {
+			lines = [];
+			this.files.set(file, lines);
+		}
+		// An include splits a line in two: the text before the include, then the
+		// rest padded to its original column. Overlay the rest onto the start.
+		const previous = lines[line - 1];
+		lines[line - 1] =
+			previous === undefined ? text : previous + text.slice(Math.min(previous.length, text.length));
+	}
+}
@@ -664,7 +664,7 @@ export const VARIABLE_TYPES: Record<string, VariableSignature> = {
 	"server.pop": { get: "STRING", set: null },
 	"server.port": { get: "INTEGER", set: null },
 	"server.region": { get: "STRING", set: null },
-	"stale.exists": { get: "STRING", set: null },
+	"stale.exists": { get: "BOOL", set: null },
 	"time.elapsed": { get: "RTIME", set: null },
 	"time.elapsed.msec": { get: "STRING", set: null },
 	"time.elapsed.msec_frac": { get: "STRING", set: null },
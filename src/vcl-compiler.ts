@@ -6,6 +6,7 @@ import {
 	UnsupportedFeatureError,
 	type VCLPlatform,
 } from "./platform";
+import { formatLocation, type SourceLocation } from "./source-map";
 import { createVCLContext } from "./vcl";
 import { aclMatch, validateAclEntries } from "./vcl-acl";
 import { BUILTIN_SIGNATURES, VARIABLE_TYPES } from "./vcl-builtin-types";
@@ -47,6 +48,8 @@ import type {
 	VCLUnaryExpression,
 	VCLUnsetStatement,
 } from "./vcl-parser";
+import { compileRegex, regexCaptures } from "./vcl-regex";
+import { STATEMENT_SCOPES } from "./vcl-scopes";
 import {
 	boltsort_sort as boltsortImpl,
 	cstr_escape as cstrEscapeImpl,
@@ -99,12 +102,18 @@ export interface VCLBackend {
 }
 
 export interface VCLProbe {
+	/** The request line and headers to send, one per line. */
 	request: string;
 	expected_response: number;
+	/** Seconds between probes. */
 	interval: number;
+	/** Seconds a probe may take before it counts as failed. */
 	timeout: number;
+	/** How many of the latest probes decide the backend's health. */
 	window: number;
+	/** The good probes in the window a healthy backend needs. */
 	threshold: number;
+	/** The probes counted as good before the first one is sent. */
 	initial: number;
 }
 
@@ -133,6 +142,25 @@ export interface VCLTable {
 	entries: Record<string, string | number | boolean | RegExp>;
 }
 
+/**
+ * What segmented_caching.* reports. An inner request fetches one block; the
+ * outer request is answered from the blocks and learns the object's size.
+ */
+export interface SegmentedCachingState {
+	is_inner_req?: boolean;
+	block_number?: number;
+	block_size?: number;
+	total_blocks?: number;
+	completed?: boolean;
+	failed?: boolean;
+	error?: string;
+	complete_length?: number;
+	/** The client's Range, when it asked for one range. */
+	client_range?: { low: number; high: number; open_ended: boolean };
+	/** The client's range widened to whole blocks. */
+	rounded_range?: { low: number; high: number };
+}
+
 export interface VCLContext {
 	req: {
 		url: string;
@@ -140,6 +168,24 @@ export interface VCLContext {
 		http: Record<string, string>;
 		backend?: string;
 		restarts?: number;
+		/** True in the copy of a request that revalidates a stale object in the background. */
+		is_background_fetch?: boolean;
+		max_stale_if_error?: number;
+		max_stale_while_revalidate?: number;
+		/** Set by VCL so a miss does not wait for another request's fetch of the same object. */
+		hash_ignore_busy?: boolean;
+		/** Set by VCL so the edge applies Range to a passed request's whole response. */
+		enable_range_on_pass?: boolean;
+		/** Set by VCL so the object is fetched and cached in blocks. */
+		enable_segmented_caching?: boolean;
+		/** True in the subrequest that fetches an <esi:include>. */
+		is_esi_subreq?: boolean;
+		/** How deeply the request's ESI include nests: 0 for the client's request. */
+		esi_level?: number;
+		/** The URL of the client's request an ESI subrequest belongs to. */
+		topurl?: string;
+		/** Cleared by VCL so the response delivered for this request is not ESI-processed. */
+		esi?: boolean;
 	};
 	bereq: { url: string; method: string; http: Record<string, string> };
 	beresp: {
@@ -149,6 +195,9 @@ export interface VCLContext {
 		ttl: number;
 		grace?: number;
 		stale_while_revalidate?: number;
+		stale_if_error?: number;
+		/** Cleared by VCL (or by Cache-Control: private / no-store) to keep the response out of the cache. */
+		cacheable?: boolean;
 		do_esi?: boolean;
 		/** Whether beresp.pci / beresp.hipaa was set on this response. */
 		pci?: boolean;
@@ -160,7 +209,15 @@ export interface VCLContext {
 		 */
 		backend?: { name: string; host: string; port: number; ip: string };
 	};
-	resp: { status: number; statusText: string; http: Record<string, string> };
+	resp: {
+		status: number;
+		statusText: string;
+		http: Record<string, string>;
+		/** Set when a stale cached object is delivered, with the reason it was. */
+		stale?: boolean;
+		stale_is_error?: boolean;
+		stale_is_revalidating?: boolean;
+	};
 	obj: {
 		status: number;
 		/** Response reason phrase; undefined until a synthetic/error body sets it. */
@@ -170,6 +227,11 @@ export interface VCLContext {
 	};
 	cache: Map<string, any>;
 	hashData?: string[];
+	/** Whether the lookup found an expired object that deliver_stale could serve. */
+	staleExists?: boolean;
+	segmentedCaching?: SegmentedCachingState;
+	/** How many ESI includes the client's request has fetched, shared with its subrequests. */
+	esiIncludes?: { count: number };
 	backends: Record<string, VCLBackend>;
 	directors: Record<string, VCLDirector>;
 	current_backend?: VCLBackend;
@@ -527,6 +589,32 @@ export interface VCLSubroutines {
 	// biome-ignore lint/suspicious/noConfusingVoidType: vcl_log returns void
 	[key: string]: ((context: VCLContext) => string | void) | undefined;
 }
+
+/** The declarations each compiled program merges into its request contexts. */
+const programDeclarations = new WeakMap<VCLSubroutines, VCLContext>();
+
+/**
+ * The backends a compiled program declares, by name. Every request running
+ * the program shares these objects, so health recorded on them (by a
+ * HealthChecker probing them, say) is the health its VCL sees.
+ */
+export function declaredBackends(subroutines: VCLSubroutines): Record<string, VCLBackend> {
+	const backends = programDeclarations.get(subroutines)?.backends ?? {};
+	return Object.fromEntries(Object.entries(backends).filter(([, backend]) => !backend.builtin));
+}
+
+/**
+ * How compiled subroutines execute. "closures" lowers each subroutine once,
+ * at load, into nested closures with variable accessors resolved, regexes
+ * compiled and constant subexpressions folded; "interpreter" walks the AST
+ * on every call. Both produce identical results.
+ */
+export type VCLCompileMode = "closures" | "interpreter";
+
+export interface VCLCompilerOptions {
+	/** Defaults to "closures". */
+	mode?: VCLCompileMode;
+}
 export const VCLStdLib = {
 	log: (message: string) => logInfo(`[VCL] ${message}`),
 	time: {
@@ -538,7 +626,7 @@ export const VCLStdLib = {
 		toupper: (str: string): string => str.toUpperCase(),
 		match: (str: string, pattern: string): boolean => {
 			try {
-				return new RegExp(pattern).test(str);
+				return compileRegex(pattern).test(str);
 			} catch {
 				logError(`Invalid regex pattern: ${pattern}`);
 				return false;
@@ -576,15 +664,6 @@ const NULL_RESULT_RULES: Record<string, { value: any; error: string }> = {
 const BROWSER_DEFAULTS: Record<string, string> = { name: "BrowserUnknown", version: "0.0.0" };
 const OS_DEFAULTS: Record<string, string> = { name: "OSUnknown", version: "0.0.0" };
 
-/** Statements restricted to specific built-in subroutine scopes. */
-const STATEMENT_SCOPES: Record<string, { label: string; allowed: string[] }> = {
-	ErrorStatement: { label: "error", allowed: ["RECV", "HIT", "MISS", "PASS", "FETCH"] },
-	SyntheticStatement: { label: "synthetic", allowed: ["ERROR"] },
-	SyntheticBase64Statement: { label: "synthetic.base64", allowed: ["ERROR"] },
-	EsiStatement: { label: "esi", allowed: ["FETCH"] },
-	RestartStatement: { label: "restart", allowed: ["RECV", "HIT", "FETCH", "ERROR", "DELIVER"] },
-};
-
 /** Initial value of a `declare local` variable, per declared type. */
 const LOCAL_TYPE_DEFAULTS: Record<string, () => any> = {
 	STRING: () => VCLString.notset(),
@@ -797,6 +876,9 @@ function fastlyHash(key: string, seed: number, from: number, to: number): number
 /** Largest representable RTIME (2^63 - 1 nanoseconds), in seconds. */
 const MAX_RTIME_SECONDS = 9223372036.854776;
 
+/** Fastly's default segmented caching block size, 1 MiB. */
+export const SEGMENTED_CACHING_BLOCK_SIZE = 1024 * 1024;
+
 /** Render a header map as "Name: value" lines. */
 function serializeHeaders(headers: Record<string, string> | undefined): string {
 	if (!headers) return "";
@@ -878,9 +960,630 @@ function generateXid(context: VCLContext): string {
 	return out;
 }
 
+/** Bare identifiers that name an enum argument (cipher, digest, encoding) and read as themselves. */
+const VCL_ENUM_VALUES = new Set([
+	"aes128",
+	"aes192",
+	"aes256",
+	"cbc",
+	"ctr",
+	"gcm",
+	"ccm",
+	"pkcs7",
+	"nopad",
+	"sha1",
+	"sha256",
+	"sha384",
+	"sha512",
+	"der",
+	"jwt",
+	"standard",
+	"url",
+	"url_nopad",
+	"default",
+]);
+
+/** The math.* FLOAT and INTEGER constants that fit a double. */
+const MATH_CONSTANTS: Record<string, number> = {
+	"math.PI": Math.PI,
+	"math.PI_2": Math.PI / 2,
+	"math.PI_4": Math.PI / 4,
+	"math.2PI": 2 * Math.PI,
+	"math.E": Math.E,
+	"math.TAU": 2 * Math.PI,
+	"math.PHI": (1 + Math.sqrt(5)) / 2,
+	"math.1_PI": 1 / Math.PI,
+	"math.2_PI": 2 / Math.PI,
+	"math.2_SQRTPI": 2 / Math.sqrt(Math.PI),
+	"math.SQRT2": Math.SQRT2,
+	"math.SQRT1_2": Math.SQRT1_2,
+	"math.LN2": Math.LN2,
+	"math.LN10": Math.LN10,
+	"math.LOG2E": Math.LOG2E,
+	"math.LOG10E": Math.LOG10E,
+	"math.NEG_INFINITY": -Infinity,
+	"math.POS_INFINITY": Infinity,
+	"math.NEG_HUGE_VAL": -Infinity,
+	"math.POS_HUGE_VAL": Infinity,
+	"math.NAN": NaN,
+	"math.FLOAT_MAX": Number.MAX_VALUE,
+	"math.FLOAT_MIN": Number.MIN_VALUE,
+	"math.FLOAT_EPSILON": Number.EPSILON,
+	"math.FLOAT_DIG": 15,
+	"math.FLOAT_MANT_DIG": 53,
+	"math.FLOAT_MAX_10_EXP": 308,
+	"math.FLOAT_MAX_EXP": 1024,
+	"math.FLOAT_MIN_10_EXP": -307,
+	"math.FLOAT_MIN_EXP": -1021,
+	"math.FLOAT_RADIX": 2,
+	"math.INTEGER_BIT": 64,
+};
+
+// Readers see the context untyped: most of what they read (req.proto,
+// beresp.saintmode, ...) is set by hosts and tests, not declared on VCLContext.
+type VariableReader = (context: any) => any;
+
+/**
+ * Readers for the predefined variables with fixed names, so a read is one
+ * lookup rather than a walk over every name. Families with a variable part
+ * (req.backend.*, client.geo.*, backend.NAME.healthy, ...) are resolved by
+ * resolveDynamicVariable.
+ */
+const VARIABLE_READERS: Record<string, VariableReader> = {
+	"testing.state": (context) => context.testing?._state ?? "",
+	"testing.synthetic_body": (context) => context.obj.response ?? "",
+
+	"req.url": (context) => context.req.url,
+	"req.url.path": (context) => {
+		const url = context.req.url || "";
+		const qIdx = url.indexOf("?");
+		return qIdx >= 0 ? url.substring(0, qIdx) : url;
+	},
+	"req.url.qs": (context) => {
+		const url = context.req.url || "";
+		const qIdx = url.indexOf("?");
+		return qIdx >= 0 ? url.substring(qIdx + 1) : "";
+	},
+	"req.url.basename": (context) => {
+		const path = resolveVariable("req.url.path", context) as string;
+		if (path === "") return ".";
+		const lastSlash = path.lastIndexOf("/");
+		return lastSlash >= 0 ? path.substring(lastSlash + 1) : path;
+	},
+	"req.url.dirname": (context) => {
+		const path = resolveVariable("req.url.path", context) as string;
+		if (path === "") return ".";
+		const lastSlash = path.lastIndexOf("/");
+		return lastSlash >= 0 ? path.substring(0, lastSlash + 1) : "/";
+	},
+	"req.url.ext": (context) => {
+		const basename = resolveVariable("req.url.basename", context) as string;
+		const dotIdx = basename.lastIndexOf(".");
+		return dotIdx >= 0 ? basename.substring(dotIdx + 1) : "";
+	},
+	"req.method": (context) => context.req.method,
+	"req.request": (context) => context.req.method,
+	"req.backend": (context) => context.req.backend || "",
+	"req.restarts": (context) => context.req.restarts || 0,
+	"req.proto": (context) => context.req?.proto || "HTTP/1.1",
+	"req.body": (context) => context.req?.body || "",
+	"req.body.base64": (context) => {
+		const body = context.req?.body || "";
+		return body ? Buffer.from(body).toString("base64") : "";
+	},
+	"req.is_ssl": (context) => context.req?.is_ssl ?? false,
+	"req.is_purge": (context) => context.req.method === "PURGE",
+	"req.is_ipv6": (context) => context.req?.is_ipv6 ?? false,
+	"req.is_background_fetch": (context) => context.req.is_background_fetch ?? false,
+	"req.is_clustering": () => false,
+	"req.is_esi_subreq": (context) => context.req?.is_esi_subreq ?? false,
+	"req.esi": (context) => context.req.esi ?? true,
+	"req.esi_level": (context) => context.req?.esi_level ?? 0,
+	"req.hash": (context) => context.hashData?.join(":") || "",
+	"req.hash_always_miss": (context) => context.req?.hash_always_miss ?? false,
+	"req.hash_ignore_busy": (context) => context.req?.hash_ignore_busy ?? false,
+	// Unless configured, staleness allowances default to the maximum RTIME.
+	"req.grace": (context) => context.req?.grace ?? MAX_RTIME_SECONDS,
+	"req.max_stale_if_error": (context) => context.req?.max_stale_if_error ?? MAX_RTIME_SECONDS,
+	"req.max_stale_while_revalidate": (context) =>
+		context.req?.max_stale_while_revalidate ?? MAX_RTIME_SECONDS,
+	"req.xid": (context) => {
+		if (!context.req.xid) context.req.xid = generateXid(context);
+		return context.req.xid;
+	},
+	"req.enable_range_on_pass": (context) => context.req?.enable_range_on_pass ?? false,
+	"req.enable_segmented_caching": (context) => context.req?.enable_segmented_caching ?? false,
+	// Before the cache key is computed the digest reads as all zeros.
+	"req.digest": (context) => context.req?.digest || "0".repeat(64),
+	"req.digest.ratio": (context) => context.req?.digest_ratio ?? 0,
+	"req.bytes_read": () => 0,
+	"req.header_bytes_read": () => 0,
+	"req.body_bytes_read": () => 0,
+	"req.topurl": (context) => context.req.topurl ?? context.req.url,
+	"req.postbody": (context) => context.req?.body || "",
+	"req.protocol": (context) => {
+		return context.req?.is_ssl ? "https" : "http";
+	},
+	"req.service_id": (context) => context.req?.service_id || "local-service-id",
+	"req.customer_id": (context) => context.req?.customer_id || "local-customer-id",
+	"req.vcl": (context) => context.req?.vcl || "local.1_0-00000000000000000000000000000000",
+	"req.vcl.md5": (context) => {
+		const vcl = context.req?.vcl || "local.1_0-00000000000000000000000000000000";
+		return hashHex("md5", Buffer.from(vcl));
+	},
+	"req.vcl.generation": () => 1,
+	"req.vcl.version": () => 1,
+	"req.headers": (context) => serializeHeaders(context.req.http),
+
+	// bereq.* variables
+	"bereq.url": (context) => context.bereq.url,
+	"bereq.method": (context) => context.bereq.method,
+	"bereq.request": (context) => context.bereq.method,
+	"bereq.proto": (context) => context.bereq?.proto || "HTTP/1.1",
+	"bereq.url.path": (context) => {
+		const url = context.bereq.url || "";
+		const qIdx = url.indexOf("?");
+		return qIdx >= 0 ? url.substring(0, qIdx) : url;
+	},
+	"bereq.url.qs": (context) => {
+		const url = context.bereq.url || "";
+		const qIdx = url.indexOf("?");
+		return qIdx >= 0 ? url.substring(qIdx + 1) : "";
+	},
+	"bereq.url.basename": (context) => {
+		const path = resolveVariable("bereq.url.path", context) as string;
+		if (path === "") return ".";
+		const lastSlash = path.lastIndexOf("/");
+		return lastSlash >= 0 ? path.substring(lastSlash + 1) : path;
+	},
+	"bereq.url.dirname": (context) => {
+		const path = resolveVariable("bereq.url.path", context) as string;
+		if (path === "") return ".";
+		const lastSlash = path.lastIndexOf("/");
+		return lastSlash >= 0 ? path.substring(0, lastSlash + 1) : "/";
+	},
+	"bereq.url.ext": (context) => {
+		const basename = resolveVariable("bereq.url.basename", context) as string;
+		const dotIdx = basename.lastIndexOf(".");
+		return dotIdx >= 0 ? basename.substring(dotIdx + 1) : "";
+	},
+	"bereq.headers": (context) => serializeHeaders(context.bereq.http),
+	"bereq.max_reuse_idle_time": (context) => context.bereq?.max_reuse_idle_time ?? 0,
+	"bereq.fetch_timeout": (context) => context.bereq?.fetch_timeout ?? 0,
+	"bereq.connect_timeout": (context) => context.bereq?.connect_timeout ?? 0,
+	"bereq.first_byte_timeout": (context) => context.bereq?.first_byte_timeout ?? 15,
+	"bereq.between_bytes_timeout": (context) => context.bereq?.between_bytes_timeout ?? 0,
+	"bereq.is_clustering": () => false,
+	"bereq.bytes_written": () => 0,
+	"bereq.header_bytes_written": () => 0,
+	"bereq.body_bytes_written": () => 0,
+
+	// beresp.* variables
+	"beresp.status": (context) => context.beresp.status,
+	"beresp.response": (context) => context.beresp.statusText,
+	"beresp.proto": (context) => context.beresp?.proto || "HTTP/1.1",
+	"beresp.ttl": (context) => context.beresp.ttl,
+	"beresp.grace": (context) => context.beresp.grace ?? 0,
+	"beresp.stale_if_error": (context) => context.beresp?.stale_if_error ?? 0,
+	"beresp.stale_while_revalidate": (context) => context.beresp.stale_while_revalidate ?? 0,
+	"beresp.cacheable": (context) => context.beresp?.cacheable ?? false,
+	"beresp.do_esi": (context) => context.beresp.do_esi ?? false,
+	"beresp.do_stream": (context) => context.beresp?.do_stream ?? false,
+	"beresp.gzip": (context) => context.beresp?.gzip ?? false,
+	"beresp.brotli": (context) => context.beresp?.brotli ?? false,
+	"beresp.saintmode": (context) => context.beresp?.saintmode ?? 0,
+	// beresp.hipaa and beresp.pci are the same flag under two names.
+	"beresp.hipaa": (context) => context.beresp.pci ?? false,
+	"beresp.pci": (context) => context.beresp.pci ?? false,
+	"beresp.headers": (context) => serializeHeaders(context.beresp.http),
+	"beresp.handshake_time_to_origin_ms": () => 100,
+	"beresp.used_alternate_path_to_origin": () => false,
+
+	// resp.* variables
+	"resp.status": (context) => context.resp.status,
+	"resp.response": (context) => context.resp.statusText,
+	"resp.proto": (context) => context.resp?.proto || "HTTP/1.1",
+	"resp.is_locally_generated": (context) => context.resp?.is_locally_generated ?? false,
+	"resp.completed": (context) => context.resp?.completed ?? true,
+	"resp.stale": (context) => context.resp?.stale ?? false,
+	"resp.stale.is_error": (context) => context.resp?.stale_is_error ?? false,
+	"resp.stale.is_revalidating": (context) => context.resp?.stale_is_revalidating ?? false,
+	"resp.headers": (context) => serializeHeaders(context.resp.http),
+	"resp.bytes_written": () => 0,
+	"resp.header_bytes_written": () => 0,
+	"resp.body_bytes_written": () => 0,
+
+	// obj.* variables
+	"obj.status": (context) => context.obj.status,
+	"obj.response": (context) => context.obj.response ?? VCLString.notset(),
+	"obj.proto": () => "HTTP/1.1",
+	"obj.hits": (context) => context.obj.hits,
+	"obj.ttl": (context) => context.obj?.ttl ?? 0,
+	"obj.age": (context) => context.obj?.age ?? 0,
+	"obj.grace": (context) => context.obj?.grace ?? 0,
+	"obj.lastuse": (context) => context.obj?.lastuse ?? 0,
+	"obj.entered": (context) => context.obj?.entered ?? 0,
+	"obj.cacheable": (context) => context.obj?.cacheable ?? false,
+	// obj.is_pci and obj.is_hipaa reflect the flag the object was cached
+	// with; they are the same value under two names.
+	"obj.is_pci": (context) => context.obj?.pci ?? false,
+	"obj.is_hipaa": (context) => context.obj?.pci ?? false,
+	"obj.stale_if_error": (context) => context.obj?.stale_if_error ?? 0,
+	"obj.stale_while_revalidate": (context) => context.obj?.stale_while_revalidate ?? 60,
+	"obj.headers": (context) => serializeHeaders(context.obj.http),
+
+	// client.* variables
+	"client.ip": (context) => context.client?.ip || "127.0.0.1",
+	"client.port": (context) => context.client?.port ?? 11111,
+	"client.identity": (context) => context.client?.identity || context.client?.ip || "127.0.0.1",
+	"client.requests": (context) => context.client?.requests ?? 1,
+	"client.identified": () => false,
+	"client.sess_timeout": (context) => context.client?.sess_timeout ?? 600,
+	"client.bot.name": () => "",
+	"client.socket.congestion_algorithm": () => "cubic",
+	"client.socket.cwnd": () => 60,
+	"client.socket.nexthop": () => "127.0.0.1",
+
+	// server.* variables
+	"server.hostname": (context) => context.server?.hostname || context.platform.hostname(),
+	"server.identity": (context) => context.server?.identity || "localhost",
+	"server.datacenter": (context) => context.server?.datacenter || "local",
+	"server.region": (context) => context.server?.region || "local",
+	"server.pop": (context) => context.server?.pop || "local",
+	"server.billing_region": (context) => context.server?.billing_region || "local",
+	"server.ip": (context) => context.server?.ip || "127.0.0.1",
+	"server.port": (context) => context.server?.port ?? 3124,
+
+	// fastly.* variables
+	"fastly.error": (context) => context.fastly?.error || "",
+	"fastly.is_staging": () => false,
+	"fastly.ddos_detected": () => false,
+	"fastly.ff.visits_this_pop": () => 1,
+	"fastly.ff.visits_this_pop_this_service": () => 1,
+	"fastly.ff.visits_this_service": () => 0,
+	"fastly.bot.name": () => "",
+	"fastly.bot.category": () => "",
+
+	// fastly_info.* variables
+	"fastly_info.state": (context) => context.fastly?.state || "",
+	"fastly_info.is_h2": () => false,
+	"fastly_info.is_h3": () => false,
+	"fastly_info.is_cluster_edge": () => false,
+	"fastly_info.is_cluster_shield": () => false,
+	"fastly_info.edge.is_tls": () => false,
+	"fastly_info.host_header": (context) => context.req.http.Host || "",
+	"fastly_info.request_id": (context) => context.fastly_info?.request_id || "local-req-id",
+	"fastly_info.h2.stream_id": () => 1,
+
+	// time.* variables
+	"time.start": (context) => Math.floor(context.platform.now() / 1000),
+	"time.start.sec": (context) => Math.floor(context.platform.now() / 1000),
+	"time.start.msec": (context) => context.platform.now(),
+	"time.start.usec": (context) => context.platform.now() * 1000,
+	"time.start.msec_frac": (context) => context.platform.now() % 1000,
+	"time.start.usec_frac": (context) => (context.platform.now() * 1000) % 1000000,
+	"time.elapsed": () => 0,
+	"time.elapsed.sec": () => 0,
+	"time.elapsed.msec": () => 0,
+	"time.elapsed.usec": () => 0,
+	"time.elapsed.msec_frac": () => "000",
+	"time.elapsed.usec_frac": () => "000000",
+	"time.end": (context) => Math.floor(context.platform.now() / 1000),
+	"time.end.sec": (context) => Math.floor(context.platform.now() / 1000),
+	"time.end.msec": (context) => context.platform.now(),
+	"time.end.usec": (context) => context.platform.now() * 1000,
+	"time.end.msec_frac": (context) => context.platform.now() % 1000,
+	"time.end.usec_frac": (context) => (context.platform.now() * 1000) % 1000000,
+	"time.to_first_byte": () => 0,
+
+	// tls.client.* variables. The emulated client handshake mirrors a
+	// typical OpenSSL client hello so fingerprint-style variables read
+	// like a realistic Fastly request.
+	"tls.client.protocol": (context) => context.tls?.client?.protocol || "",
+	"tls.client.cipher": (context) => context.tls?.client?.cipher || "",
+	"tls.client.servername": (context) => context.tls?.client?.servername || "",
+	"tls.client.ciphers_list": () => SYNTHETIC_TLS_CLIENT.ciphersList,
+	"tls.client.ciphers_list_sha": () => SYNTHETIC_TLS_CLIENT.ciphersListSha,
+	"tls.client.ciphers_list_txt": () => SYNTHETIC_TLS_CLIENT.ciphersListTxt,
+	"tls.client.ciphers_sha": () => SYNTHETIC_TLS_CLIENT.ciphersSha,
+	"tls.client.handshake_sent_bytes": () => 4759,
+	"tls.client.iana_chosen_cipher_id": () => 49199,
+	"tls.client.ja3_md5": () => SYNTHETIC_TLS_CLIENT.ja3Md5,
+	"tls.client.ja4": () => SYNTHETIC_TLS_CLIENT.ja4,
+
+	// waf.* variables
+	"waf.executed": (context) => context.waf?.executed ?? false,
+	"waf.blocked": (context) => context.waf?.blocked ?? false,
+	"waf.passed": (context) => context.waf?.passed ?? false,
+	"waf.logged": (context) => context.waf?.logged ?? false,
+	"waf.failures": () => 0,
+	"waf.anomaly_score": (context) => context.waf?.anomaly_score ?? 0,
+	"waf.sql_injection_score": () => 0,
+	"waf.xss_score": () => 0,
+	"waf.rce_score": () => 0,
+	"waf.lfi_score": () => 0,
+	"waf.rfi_score": () => 0,
+	"waf.http_violation_score": () => 0,
+	"waf.session_fixation_score": () => 0,
+	"waf.php_injection_score": () => 0,
+	"waf.rule_id": () => 0,
+	"waf.severity": () => 0,
+	"waf.message": () => "",
+	"waf.logdata": () => "",
+	"waf.counter": () => 0,
+	"waf.inbound_anomaly_score": () => 0,
+
+	// VCL INTEGERs are 64-bit; the extremes exceed double precision, so
+	// they are held as BigInt to stringify exactly.
+	"math.INTEGER_MAX": () => 9223372036854775807n,
+	"math.INTEGER_MIN": () => -9223372036854775808n,
+
+	// workspace.* variables
+	"workspace.bytes_total": () => MAX_REQUEST_WORKSPACE_SIZE,
+	"workspace.bytes_free": (context) =>
+		Math.max(0, MAX_REQUEST_WORKSPACE_SIZE - (context.workspaceBytes ?? 0)),
+	"workspace.overflowed": (context) => (context.workspaceBytes ?? 0) > MAX_REQUEST_WORKSPACE_SIZE,
+
+	// transport.* variables
+	"transport.type": () => "tcp",
+	"transport.bw_estimate": () => 0,
+
+	// segmented_caching.* variables. The block ones describe an inner request;
+	// the totals are known to the outer request once its blocks are fetched.
+	"segmented_caching.block_number": (context) => context.segmentedCaching?.block_number ?? -1,
+	"segmented_caching.block_size": (context) =>
+		context.segmentedCaching?.block_size ?? SEGMENTED_CACHING_BLOCK_SIZE,
+	"segmented_caching.is_inner_req": (context) => context.segmentedCaching?.is_inner_req ?? false,
+	"segmented_caching.is_outer_req": (context) => !context.segmentedCaching?.is_inner_req,
+	"segmented_caching.total_blocks": (context) => context.segmentedCaching?.total_blocks ?? 0,
+	"segmented_caching.completed": (context) => context.segmentedCaching?.completed ?? false,
+	"segmented_caching.failed": (context) => context.segmentedCaching?.failed ?? false,
+	"segmented_caching.error": (context) => context.segmentedCaching?.error ?? "",
+	"segmented_caching.obj.complete_length": (context) =>
+		context.segmentedCaching?.complete_length ?? 0,
+	"segmented_caching.client_req.is_range": (context) =>
+		context.segmentedCaching?.client_range !== undefined,
+	"segmented_caching.client_req.is_open_ended": (context) =>
+		context.segmentedCaching?.client_range?.open_ended ?? false,
+	"segmented_caching.client_req.range_low": (context) =>
+		context.segmentedCaching?.client_range?.low ?? 0,
+	"segmented_caching.client_req.range_high": (context) =>
+		context.segmentedCaching?.client_range?.high ?? 0,
+	"segmented_caching.rounded_req.range_low": (context) =>
+		context.segmentedCaching?.rounded_range?.low ?? 0,
+	"segmented_caching.rounded_req.range_high": (context) =>
+		context.segmentedCaching?.rounded_range?.high ?? 0,
+	"segmented_caching.autopurged": () => false,
+	"segmented_caching.cancelled": () => false,
+
+	// esi.* variables
+	"esi.allow_inside_cdata": () => false,
+
+	"stale.exists": (context) => context.staleExists ?? false,
+
+	// backend.socket.* variables
+	"backend.socket.congestion_algorithm": () => "cubic",
+	"backend.socket.cwnd": () => 60,
+	"backend.conn.tls_protocol": () => "TLSv1.2",
+};
+
+/** The reader for a fixed-name predefined variable, if `name` is one. */
+function variableReader(name: string): VariableReader | undefined {
+	return Object.hasOwn(VARIABLE_READERS, name) ? VARIABLE_READERS[name] : undefined;
+}
+
+/** Value of a predefined variable; unknown names read as "". */
+function resolveVariable(name: string, context: VCLContext): any {
+	const reader = variableReader(name);
+	return reader ? reader(context) : resolveDynamicVariable(name, context);
+}
+
+function resolveDynamicVariable(name: string, context: VCLContext): any {
+	const ctx = context as any;
+
+	if (name.startsWith("req.backend.")) {
+		const prop = name.substring(12);
+		const be = context.current_backend || context.backends?.[context.req.backend || "default"];
+		if (!be) return "";
+		const beProps: Record<string, any> = {
+			name: be.name,
+			host: be.host,
+			// Backend hosts are not resolved locally; report the loopback
+			// address the emulated connection would use.
+			ip: "127.0.0.1",
+			port: be.port,
+			healthy: be.is_healthy ?? true,
+			is_cluster: false,
+			is_origin: true,
+			is_shield: false,
+		};
+		return beProps[prop] ?? "";
+	}
+
+	if (name.startsWith("beresp.backend.")) {
+		const prop = name.substring(15);
+		// These reflect the backend request made in this pass. Without one
+		// (a cache hit, or a subroutine run outside the pipeline) the name
+		// reads empty, host and the addresses read not set, and the port
+		// reads zero.
+		const snap = context.beresp.backend;
+		switch (prop) {
+			case "name":
+				return snap?.name ?? "";
+			case "host":
+				return snap?.host ? snap.host : VCLString.notset();
+			case "ip":
+				return snap?.ip ? snap.ip : VCLString.notset();
+			case "port":
+				return snap?.port ?? 0;
+			case "src_ip":
+				return snap ? "127.0.0.1" : VCLString.notset();
+			case "src_port":
+				return 0;
+			case "requests":
+				return snap ? 1 : 0;
+			case "alternate_ips":
+				return "";
+			default:
+				return VCLString.notset();
+		}
+	}
+
+	if (name.startsWith("client.geo.")) {
+		const geoProp = name.substring(11);
+		const geo = ctx.client?.geo || {};
+		// Without a geolocation database, string fields read "unknown" and
+		// the coordinates point at Fastly's San Francisco headquarters.
+		const defaults: Record<string, any> = {
+			city: "unknown",
+			"city.ascii": "unknown",
+			"city.latin1": "unknown",
+			"city.utf8": "unknown",
+			country_code: "unknown",
+			country_code3: "unknown",
+			country_name: "unknown",
+			"country_name.ascii": "unknown",
+			"country_name.latin1": "unknown",
+			"country_name.utf8": "unknown",
+			continent_code: "unknown",
+			latitude: 37.779,
+			longitude: -122.398,
+			postal_code: "unknown",
+			metro_code: 0,
+			area_code: 0,
+			region: "unknown",
+			"region.ascii": "unknown",
+			"region.latin1": "unknown",
+			"region.utf8": "unknown",
+			gmt_offset: 0,
+			utc_offset: 0,
+			conn_speed: "unknown",
+			conn_type: "unknown",
+			ip_override: "unknown",
+			proxy_description: "unknown",
+			proxy_type: "unknown",
+		};
+		return geo[geoProp] ?? defaults[geoProp] ?? "";
+	}
+
+	if (name.startsWith("client.as.")) {
+		// Loopback/reserved space maps to the reserved AS.
+		const prop = name.substring(10);
+		if (prop === "number") return ctx.client?.as_number ?? 4294967294;
+		if (prop === "name") return ctx.client?.as_name ?? "Reserved";
+		return "";
+	}
+
+	if (name.startsWith("client.browser.")) {
+		const prop = name.substring(15);
+		return ctx.client?.browser?.[prop] ?? BROWSER_DEFAULTS[prop] ?? "";
+	}
+
+	if (name.startsWith("client.os.")) {
+		const prop = name.substring(10);
+		return ctx.client?.os?.[prop] ?? OS_DEFAULTS[prop] ?? "";
+	}
+
+	if (name.startsWith("client.class.")) return false;
+
+	if (name.startsWith("client.platform.")) {
+		const prop = name.substring(16);
+		if (prop === "hwtype" || prop === "model" || prop === "vendor") return "";
+		return false;
+	}
+
+	if (name.startsWith("client.display.")) {
+		if (name === "client.display.touchscreen") return false;
+		// Unknown display characteristics read as -1.
+		return -1;
+	}
+
+	if (name.startsWith("client.socket.")) return 0;
+	if (name.startsWith("fastly.ff.")) return 0;
+	if (name.startsWith("fastly.bot.")) return false;
+	if (name.startsWith("fastly_info.h2.")) return 0;
+
+	if (name.startsWith("tls.client.certificate.")) {
+		const prop = name.substring(23);
+		// The synthetic client certificate is "verified" and valid for a
+		// year starting now.
+		if (prop === "is_verified") return true;
+		if (prop === "not_before") return new VCLTime(context.platform.now());
+		if (prop === "not_after") return new VCLTime(context.platform.now() + 365 * 24 * 3600 * 1000);
+		if (prop.startsWith("is_")) return false;
+		return "";
+	}
+
+	if (name.startsWith("tls.client.")) return "";
+
+	// geoip.* legacy variables (alias for client.geo.*)
+	if (name.startsWith("geoip.")) {
+		const prop = name.substring(6);
+		if (prop === "use_x_forwarded_for") return false;
+		return resolveVariable(`client.geo.${prop}`, context);
+	}
+
+	if (Object.hasOwn(MATH_CONSTANTS, name)) return MATH_CONSTANTS[name];
+	if (name.startsWith("segmented_caching.")) return 0;
+
+	// quic.* variables
+	if (name.startsWith("quic.")) return 0;
+
+	if (name.startsWith("backend.socket.")) return 0;
+	if (name.startsWith("backend.conn.")) return false;
+
+	// Dynamic backend.{name}.healthy / backend.{name}.connections_* variables
+	const backendHealthMatch = name.match(
+		/^backend\.([^.]+)\.(healthy|connections_open|connections_used)$/,
+	);
+	if (backendHealthMatch) {
+		const beName = backendHealthMatch[1]!;
+		const prop = backendHealthMatch[2]!;
+		const be = context.backends?.[beName];
+		if (prop === "healthy") return be?.is_healthy ?? true;
+		return 0;
+	}
+
+	// Dynamic director.{name}.healthy variables
+	const directorHealthMatch = name.match(/^director\.([^.]+)\.healthy$/);
+	if (directorHealthMatch) {
+		const dirName = directorHealthMatch[1]!;
+		const dir = context.directors?.[dirName];
+		if (dir) return true;
+		const be = context.backends?.[dirName];
+		return be?.is_healthy ?? true;
+	}
+
+	// Dynamic ratecounter.{name}.{method}.{window} variables
+	const ratecounterMatch = name.match(/^ratecounter\.([^.]+)\.(bucket|rate)\.(\d+s)$/);
+	if (ratecounterMatch) {
+		return 0;
+	}
+
+	return "";
+}
+
+/** A lowered statement: returns an action, a `__goto__:` marker, or undefined. */
+type CompiledStatement = (context: VCLContext) => string | undefined;
+type CompiledExpression = (context: VCLContext) => any;
+
+/** Declared argument types of the builtin overload a call resolves to. */
+function functionArgumentTypes(expression: VCLFunctionCall): string[] | undefined {
+	const overloads = BUILTIN_SIGNATURES[expression.name]?.args;
+	return overloads?.find((o) => o.length === expression.arguments.length) ?? overloads?.[0];
+}
+
 export class VCLCompiler {
 	private program: VCLProgram;
+	private readonly mode: VCLCompileMode;
+	/** Closures lowered from each statement and expression node in "closures" mode. */
+	private loweredStatements = new WeakMap<VCLStatement, CompiledStatement>();
+	private loweredExpressions = new WeakMap<VCLExpression, CompiledExpression>();
+	/** Lowered expressions whose value is known at load time. */
+	private constants = new WeakMap<CompiledExpression, { value: any }>();
 	private currentSubroutine = "";
+	/** Source location of the statement each runtime error was thrown from. */
+	private errorLocations = new WeakMap<Error, SourceLocation>();
 	/** Nesting depth of functional (typed) subroutine calls being evaluated. */
 	private functionalSubDepth = 0;
 	/** Typed (functional) subroutines by name, for expression-call dispatch. */
@@ -907,8 +1610,9 @@ export class VCLCompiler {
 		}
 	}
 
-	constructor(program: VCLProgram) {
+	constructor(program: VCLProgram, options: VCLCompilerOptions = {}) {
 		this.program = program;
+		this.mode = options.mode ?? "closures";
 		this.functionalSubs = new Map(
 			program.subroutines.filter((sub) => sub.returnType).map((sub) => [sub.name, sub]),
 		);
@@ -989,7 +1693,8 @@ export class VCLCompiler {
 					const pp: Record<string, any> = {};
 					for (const prop of probeProp.properties) pp[prop.name] = prop.value;
 					probe = {
-						request: String(pp.request ?? ""),
+						// A Varnish-style .url stands for a GET of that path.
+						request: String(pp.request ?? (pp.url ? `GET ${pp.url} HTTP/1.1` : "")),
 						expected_response: Number(pp.expected_response ?? 200),
 						interval: parseTimeValue(String(pp.interval ?? "5s")),
 						timeout: parseTimeValue(String(pp.timeout ?? "2s")),
@@ -1022,6 +1727,7 @@ export class VCLCompiler {
 			subroutines[subroutine.name] = this.compileSubroutine(subroutine, context);
 		}
 
+		programDeclarations.set(subroutines, context);
 		return subroutines;
 	}
 
@@ -1092,6 +1798,30 @@ export class VCLCompiler {
 		subroutine: VCLSubroutine,
 		initialContext?: VCLContext,
 	): (context: VCLContext) => string {
+		// Handle both body and statements properties for backward compatibility
+		let statements: VCLStatement[] = [];
+
+		if (subroutine.body && Array.isArray(subroutine.body)) {
+			statements = subroutine.body;
+		} else if (subroutine.statements && Array.isArray(subroutine.statements)) {
+			statements = subroutine.statements;
+
+			// Copy the statements to the body property for compatibility
+			subroutine.body = [...subroutine.statements];
+		}
+
+		// Map label names to their positions for goto statements. Labels are
+		// pure position markers; goto jumps forward to them.
+		const labelMap = new Map<string, number>();
+		for (let idx = 0; idx < statements.length; idx++) {
+			const stmt = statements[idx];
+			if (stmt && stmt.type === "LabelStatement") {
+				labelMap.set((stmt as VCLLabelStatement).name, idx);
+			}
+		}
+
+		const steps = statements.map((statement) => this.compileStatement(statement));
+
 		const run = (context: VCLContext): string => {
 			// Merge program declarations into the runtime context (once per
 			// context; every phase entry reuses the same context object).
@@ -1100,47 +1830,10 @@ export class VCLCompiler {
 				this.mergeDeclarations(context, initialContext);
 			}
 			try {
-				// Execute each statement in the subroutine
-				// Handle both body and statements properties for backward compatibility
-				let statements: VCLStatement[] = [];
-
-				if (subroutine.body && Array.isArray(subroutine.body)) {
-					statements = subroutine.body;
-				} else if (subroutine.statements && Array.isArray(subroutine.statements)) {
-					statements = subroutine.statements;
-
-					// Copy the statements to the body property for compatibility
-					subroutine.body = [...subroutine.statements];
-				}
-
-				// Map label names to their positions for goto statements. Labels are
-				// pure position markers; goto jumps forward to them.
-				const labelMap = new Map<string, number>();
-				for (let idx = 0; idx < statements.length; idx++) {
-					const stmt = statements[idx];
-					if (stmt && stmt.type === "LabelStatement") {
-						labelMap.set((stmt as VCLLabelStatement).name, idx);
-					}
-				}
-
 				// Execute statements sequentially, handling goto statements
 				let i = 0;
-				while (i < statements.length) {
-					const statement = statements[i];
-					if (!statement) {
-						i++;
-						continue;
-					}
-
-					// Make sure the statement has a test property if it's an IfStatement
-					if (statement.type === "IfStatement") {
-						const ifStmt = statement as VCLIfStatement;
-						if (!ifStmt.test && ifStmt.condition) {
-							ifStmt.test = ifStmt.condition;
-						}
-					}
-
-					const result = this.executeStatement(statement, context);
+				while (i < steps.length) {
+					const result = steps[i]!(context);
 
 					// A goto (possibly propagated out of a nested block) jumps to its
 					// label without executing the skipped statements.
@@ -1180,7 +1873,15 @@ export class VCLCompiler {
 			} catch (error) {
 				if (error instanceof UnsupportedFeatureError) throw error;
 				if (error instanceof VCLLimitExceededError) throw error;
-				logError(`Error executing subroutine ${subroutine.name}:`, error);
+				const location = error instanceof Error ? this.errorLocations.get(error) : undefined;
+				const where = location ? ` ${formatLocation(location)}` : "";
+				logError(`Error executing subroutine ${subroutine.name}${where}:`, error);
+				context.platform?.onTrace?.({
+					phase: subroutine.name,
+					subroutine: subroutine.name,
+					...(location && { statement: { ...location } }),
+					error: error instanceof Error ? error.message : String(error),
+				});
 				const errorReturns: Record<string, string> = {
 					vcl_recv: "error",
 					vcl_hash: "error",
@@ -1266,15 +1967,36 @@ export class VCLCompiler {
 	}
 
 	private executeStatement(statement: VCLStatement, context: VCLContext): string | undefined {
+		// Interpreted statements (set, call, ...) reach lowered children through here.
+		if (this.mode === "closures") {
+			const lowered = this.loweredStatements.get(statement);
+			if (lowered) return lowered(context);
+		}
+		try {
+			return this.dispatchStatement(statement, context);
+		} catch (error) {
+			// Attribute a runtime error to the innermost statement it came from.
+			if (error instanceof Error && statement.location && !this.errorLocations.has(error)) {
+				this.errorLocations.set(error, statement.location);
+			}
+			throw error;
+		}
+	}
+
+	private dispatchStatement(statement: VCLStatement, context: VCLContext): string | undefined {
 		const scopes = STATEMENT_SCOPES[statement.type];
 		if (scopes) this.requireScope(scopes.label, context, scopes.allowed);
 		if (context.platform?.onTrace && statement.location) {
 			context.platform.onTrace({
 				phase: this.currentSubroutine,
 				subroutine: this.currentSubroutine,
-				statement: { line: statement.location.line, column: statement.location.column },
+				statement: { ...statement.location },
 			});
 		}
+		return this.runStatement(statement, context);
+	}
+
+	private runStatement(statement: VCLStatement, context: VCLContext): string | undefined {
 		switch (statement.type) {
 			case "IfStatement":
 				return this.executeIfStatement(statement as VCLIfStatement, context);
@@ -1774,10 +2496,16 @@ export class VCLCompiler {
 			(context.req as any).hash_always_miss = Boolean(value);
 		} else if (parts.length === 2 && part0 === "req" && part1 === "hash_ignore_busy") {
 			(context.req as any).hash_ignore_busy = Boolean(value);
+		} else if (parts.length === 2 && part0 === "req" && part1 === "enable_range_on_pass") {
+			(context.req as any).enable_range_on_pass = Boolean(value);
+		} else if (parts.length === 2 && part0 === "req" && part1 === "enable_segmented_caching") {
+			(context.req as any).enable_segmented_caching = Boolean(value);
+		} else if (parts.length === 2 && part0 === "segmented_caching" && part1 === "block_size") {
+			context.segmentedCaching = { ...context.segmentedCaching, block_size: Number(value) };
 		} else if (parts.length === 2 && part0 === "req" && part1 === "is_ssl") {
 			(context.req as any).is_ssl = Boolean(value);
 		} else if (parts.length === 2 && part0 === "req" && part1 === "esi") {
-			(context.req as any).esi = Boolean(value);
+			context.req.esi = Boolean(value);
 		} else if (parts.length === 2 && part0 === "req" && part1 === "grace") {
 			(context.req as any).grace = parseTimeValue(String(value));
 		} else if (parts.length === 2 && part0 === "req" && part1 === "max_stale_if_error") {
@@ -2100,8 +2828,486 @@ export class VCLCompiler {
 		return "restart";
 	}
 
+	/** A top-level statement of a subroutine as a step of its run loop. */
+	private compileStatement(statement: VCLStatement | undefined): CompiledStatement {
+		if (!statement) return () => undefined;
+		// Make sure the statement has a test property if it's an IfStatement
+		if (statement.type === "IfStatement" && !statement.test && statement.condition) {
+			statement.test = statement.condition;
+		}
+		if (this.mode === "closures") return this.lowerStatement(statement);
+		return (context) => this.executeStatement(statement, context);
+	}
+
+	/**
+	 * Lower a statement to a closure with the same scope check, trace event
+	 * and error attribution as executeStatement. Statements with no control
+	 * flow of their own keep their execute* method; their expressions are
+	 * lowered here and reached through evaluateExpression.
+	 */
+	private lowerStatement(statement: VCLStatement): CompiledStatement {
+		const existing = this.loweredStatements.get(statement);
+		if (existing) return existing;
+		const body = this.lowerStatementBody(statement);
+		const scopes = STATEMENT_SCOPES[statement.type];
+		const location = statement.location;
+		const compiled: CompiledStatement = (context) => {
+			try {
+				if (scopes) this.requireScope(scopes.label, context, scopes.allowed);
+				if (location && context.platform?.onTrace) {
+					context.platform.onTrace({
+						phase: this.currentSubroutine,
+						subroutine: this.currentSubroutine,
+						statement: { ...location },
+					});
+				}
+				return body(context);
+			} catch (error) {
+				if (error instanceof Error && location && !this.errorLocations.has(error)) {
+					this.errorLocations.set(error, location);
+				}
+				throw error;
+			}
+		};
+		this.loweredStatements.set(statement, compiled);
+		return compiled;
+	}
+
+	private lowerStatementBody(statement: VCLStatement): CompiledStatement {
+		switch (statement.type) {
+			case "IfStatement": {
+				if (!statement.test && statement.condition) statement.test = statement.condition;
+				const test = this.lowerExpression(statement.test);
+				const consequent = this.lowerBlock(statement.consequent);
+				const alternate = this.lowerBlock(statement.alternate);
+				const known = this.constants.get(test);
+				if (known) return this.isTruthyCondition(known.value) ? consequent : alternate;
+				return (context) =>
+					this.isTruthyCondition(test(context)) ? consequent(context) : alternate(context);
+			}
+			case "ReturnStatement": {
+				const action = statement.argument;
+				if (!statement.value) return () => action;
+				const value = this.lowerExpression(statement.value);
+				return (context) => {
+					if (this.functionalSubDepth === 0) return action;
+					if (!context.locals) context.locals = {};
+					context.locals.__return_value__ = value(context);
+					return "__typed_return__";
+				};
+			}
+			case "SwitchStatement":
+				return this.lowerSwitchStatement(statement);
+			case "BlockStatement":
+				return this.lowerBlock(statement.body);
+			case "GotoStatement": {
+				const marker = `__goto__:${statement.label}`;
+				return () => marker;
+			}
+			case "RestartStatement":
+				return () => "restart";
+			case "LabelStatement":
+				// Pure position marker for goto.
+				return () => undefined;
+			case "ExpressionStatement": {
+				const expression = this.lowerExpression(statement.expression);
+				return (context) => {
+					expression(context);
+					return undefined;
+				};
+			}
+			case "SetStatement":
+			case "AddStatement":
+			case "HashDataStatement":
+				this.lowerExpression(statement.value);
+				break;
+			case "ErrorStatement":
+				this.lowerExpression(statement.status);
+				this.lowerExpression(statement.message);
+				break;
+			case "LogStatement":
+				this.lowerExpression(statement.message);
+				break;
+			case "SyntheticStatement":
+				this.lowerExpression(statement.expression);
+				break;
+			case "SyntheticBase64Statement":
+				this.lowerExpression(statement.content);
+				break;
+			case "DeclareStatement":
+				this.lowerExpression(statement.initialValue);
+				break;
+			case "CallStatement":
+				for (const arg of statement.arguments) this.lowerExpression(arg);
+				break;
+			default:
+				break;
+		}
+		return (context) => this.runStatement(statement, context);
+	}
+
+	/** Run statements in order, stopping at the first action or goto. */
+	private lowerBlock(statements: VCLStatement[] | undefined): CompiledStatement {
+		const steps = (statements ?? []).map((stmt) => this.lowerStatement(stmt));
+		return (context) => {
+			for (let i = 0; i < steps.length; i++) {
+				const result = steps[i]!(context);
+				if (result && typeof result === "string") return result;
+			}
+			return undefined;
+		};
+	}
+
+	private lowerSwitchStatement(statement: VCLSwitchStatement): CompiledStatement {
+		const subject = this.lowerExpression(statement.subject);
+		const cases = statement.cases.map((switchCase) => {
+			const test = switchCase.test === null ? undefined : this.lowerExpression(switchCase.test);
+			const known = test && this.constants.get(test);
+			// A constant case is stringified, and a regex case compiled, once.
+			const caseStr = known ? this.switchCaseString(known.value) : undefined;
+			let regex: RegExp | undefined;
+			if (switchCase.regex && caseStr !== undefined) {
+				try {
+					regex = compileRegex(caseStr);
+				} catch {
+					// regexMatch logs the invalid pattern each time the case is tried.
+				}
+			}
+			return {
+				test,
+				caseStr,
+				regex,
+				isRegex: switchCase.regex,
+				body: this.lowerBlock(switchCase.body),
+				fallthrough: switchCase.fallthrough,
+			};
+		});
+		const defaultIndex = statement.cases.findIndex((c) => c.test === null);
+		return (context) => {
+			const value = subject(context);
+			const subjectStr =
+				value instanceof VCLConcatResult
+					? value.forLocal()
+					: value instanceof VCLString
+						? value.value
+						: vclToString(value);
+			let index = -1;
+			for (let n = 0; n < cases.length; n++) {
+				const switchCase = cases[n]!;
+				if (!switchCase.test) continue;
+				const caseStr = switchCase.caseStr ?? this.switchCaseString(switchCase.test(context));
+				const isMatch = switchCase.isRegex
+					? this.regexMatch(subjectStr, switchCase.regex ?? caseStr, context, false)
+					: subjectStr === caseStr;
+				if (isMatch) {
+					index = n;
+					break;
+				}
+			}
+			if (index === -1) {
+				index = defaultIndex;
+				if (index === -1) return undefined;
+			}
+			while (index < cases.length) {
+				const switchCase = cases[index]!;
+				const result = switchCase.body(context);
+				if (result && typeof result === "string") return result;
+				if (!switchCase.fallthrough) break;
+				index++;
+			}
+			return undefined;
+		};
+	}
+
+	private switchCaseString(value: any): string {
+		return value instanceof VCLString ? value.value : vclToString(value);
+	}
+
+	private lowerExpression(expression: VCLExpression | undefined): CompiledExpression {
+		if (!expression?.type) return () => null;
+		const existing = this.loweredExpressions.get(expression);
+		if (existing) return existing;
+		const compiled = this.lowerExpressionBody(expression);
+		this.loweredExpressions.set(expression, compiled);
+		return compiled;
+	}
+
+	private lowerExpressionBody(expression: VCLExpression): CompiledExpression {
+		switch (expression.type) {
+			case "StringLiteral":
+				return this.constant(expression.value);
+			case "NumberLiteral":
+				// VCLFloat is immutable, so every evaluation can share one instance.
+				return this.constant(
+					expression.isFloat ? new VCLFloat(expression.value) : expression.value,
+				);
+			case "RTimeLiteral":
+				return this.constant(new VCLRTime(expression.seconds));
+			case "BoolLiteral":
+				return this.constant(expression.value);
+			case "RegexLiteral": {
+				const { pattern, flags } = expression;
+				// A global or sticky regex carries lastIndex between matches.
+				if (/[gy]/.test(flags ?? "")) return () => compileRegex(pattern, flags);
+				try {
+					const regex = compileRegex(pattern, flags || "");
+					return () => regex;
+				} catch {
+					return () => compileRegex(pattern, flags || "");
+				}
+			}
+			case "Identifier":
+				return this.lowerIdentifier(expression.name);
+			case "BinaryExpression":
+				return this.lowerBinaryExpression(expression);
+			case "UnaryExpression": {
+				if (!expression.operand) {
+					return (context) => this.evaluateUnaryExpression(expression, context);
+				}
+				const operand = this.lowerExpression(expression.operand);
+				if (expression.operator === "!") {
+					return this.fold((context) => !this.isTruthyCondition(operand(context)), operand);
+				}
+				if (expression.operator === "-") return this.fold((context) => -operand(context), operand);
+				return (context) => this.evaluateUnaryExpression(expression, context);
+			}
+			case "TernaryExpression": {
+				const condition = this.lowerExpression(expression.condition);
+				const whenTrue = this.lowerExpression(expression.trueExpr);
+				const whenFalse = this.lowerExpression(expression.falseExpr);
+				const known = this.constants.get(condition);
+				if (known) return this.isTruthyCondition(known.value) ? whenTrue : whenFalse;
+				return (context) =>
+					this.isTruthyCondition(condition(context)) ? whenTrue(context) : whenFalse(context);
+			}
+			case "FunctionCall": {
+				const argTypes = functionArgumentTypes(expression);
+				const args = expression.arguments.map((arg) => this.lowerExpression(arg));
+				return (context) => {
+					const values = new Array(args.length);
+					for (let i = 0; i < args.length; i++) {
+						values[i] = this.toFunctionArgument(args[i]!(context), argTypes?.[i]);
+					}
+					return this.functionResult(
+						expression.name,
+						this.callFunction(expression, values, context),
+						context,
+					);
+				};
+			}
+			case "MemberAccess": {
+				const object = this.lowerExpression(expression.object);
+				const property = expression.property;
+				return (context) => {
+					const value = object(context);
+					return value && typeof value === "object" ? value[property] : null;
+				};
+			}
+			default:
+				return () => null;
+		}
+	}
+
+	/** An expression whose value is known at load time. */
+	private constant(value: any): CompiledExpression {
+		const compiled = () => value;
+		this.constants.set(compiled, { value });
+		return compiled;
+	}
+
+	/**
+	 * Evaluate a context-free operation once when all its operands are
+	 * constant. Only primitive results fold: objects (concatenations, typed
+	 * values) stay per-evaluation so no two evaluations share one.
+	 */
+	private fold(
+		compiled: CompiledExpression,
+		...operands: CompiledExpression[]
+	): CompiledExpression {
+		if (!operands.every((operand) => this.constants.has(operand))) return compiled;
+		let value: any;
+		try {
+			value = compiled({} as VCLContext);
+		} catch {
+			return compiled;
+		}
+		return value === null || typeof value === "object" || typeof value === "function"
+			? compiled
+			: this.constant(value);
+	}
+
+	/** Resolve what an identifier reads once, leaving only the read itself per evaluation. */
+	private lowerIdentifier(name: string): CompiledExpression {
+		const read = this.lowerVariableRead(name);
+		if (!VARIABLE_TYPES[name]) return read;
+		return (context) => coerceVariableRead(name, read(context));
+	}
+
+	private lowerVariableRead(name: string): CompiledExpression {
+		const parts = name.split(".");
+		const idPart0 = parts[0] ?? "";
+		const idPart1 = parts[1] ?? "";
+
+		if (name === "LF") return this.constant("\n");
+		if (VCL_ENUM_VALUES.has(name)) return this.constant(name);
+
+		if (name === "now") return (context) => new VCLTime(context.platform.now());
+		if (name === "now.sec") {
+			return (context) => String(Math.floor(context.platform.now() / 1000));
+		}
+
+		if (parts.length >= 3 && idPart1 === "http") {
+			const headerName = parts.slice(2).join(".");
+			const [baseHeader, subfieldKey] = this.parseSubfield(headerName);
+			if (subfieldKey !== null) {
+				return (context) => {
+					const headerValue = this.httpHeadersOf(context, idPart0)?.[baseHeader];
+					if (headerValue === undefined || headerValue === "") return VCLString.notset();
+					const val = this.dictGet(firstHeaderFragment(String(headerValue)), subfieldKey);
+					return val !== undefined ? val : VCLString.notset();
+				};
+			}
+			return (context) => {
+				const raw = this.httpHeadersOf(context, idPart0)?.[headerName];
+				return raw === undefined ? VCLString.notset() : firstHeaderFragment(raw);
+			};
+		}
+
+		if (parts.length === 3 && idPart0 === "re" && idPart1 === "group") {
+			const groupNumber = parseInt(parts[2]!, 10);
+			if (Number.isNaN(groupNumber)) return () => VCLString.notset();
+			return (context) => {
+				const group = context.re?.groups?.[groupNumber];
+				return group !== undefined ? group : VCLString.notset();
+			};
+		}
+
+		if (parts.length >= 2 && idPart0 === "var") {
+			const varName = parts.slice(1).join(".");
+			return (context) => context.locals?.[varName] ?? VCLString.notset();
+		}
+
+		const reader =
+			variableReader(name) ?? ((context: VCLContext) => resolveDynamicVariable(name, context));
+		// A bare identifier may name a declared backend or director.
+		const bare = !name.includes(".");
+		return (context) => {
+			if (context.locals && name in context.locals) return context.locals[name];
+			if (bare) {
+				const backend = context.backends?.[name] ?? context.directors?.[name];
+				if (backend) return backend;
+			}
+			return reader(context);
+		};
+	}
+
+	private lowerBinaryExpression(expression: VCLBinaryExpression): CompiledExpression {
+		if (!expression.left || !expression.right) {
+			return (context) => this.evaluateBinaryExpression(expression, context);
+		}
+		const left = this.lowerExpression(expression.left);
+		const right = this.lowerExpression(expression.right);
+		// Both operands are evaluated, left first, before the operator applies.
+		switch (expression.operator) {
+			case " ":
+				return (context) => {
+					const l = left(context);
+					const r = right(context);
+					const leftPart = l instanceof VCLConcatResult ? l.parts : [toConcatPart(l)];
+					const rightPart = r instanceof VCLConcatResult ? r.parts : [toConcatPart(r)];
+					return new VCLConcatResult([...leftPart, ...rightPart]);
+				};
+			case "+":
+			case "-":
+			case "*":
+			case "/":
+			case "%": {
+				const operator = expression.operator;
+				return this.fold(
+					(context) => applyArithmetic(operator, left(context), right(context)),
+					left,
+					right,
+				);
+			}
+			case "==":
+				return this.fold((context) => this.vclEquals(left(context), right(context)), left, right);
+			case "!=":
+				return this.fold((context) => !this.vclEquals(left(context), right(context)), left, right);
+			case ">":
+				return this.fold((context) => left(context) > right(context), left, right);
+			case ">=":
+				return this.fold((context) => left(context) >= right(context), left, right);
+			case "<":
+				return this.fold((context) => left(context) < right(context), left, right);
+			case "<=":
+				return this.fold((context) => left(context) <= right(context), left, right);
+			case "~":
+			case "!~":
+				return this.lowerMatchExpression(expression, left, right);
+			case "&&":
+				return this.fold(
+					(context) => {
+						const l = left(context);
+						const r = right(context);
+						return l && r;
+					},
+					left,
+					right,
+				);
+			case "||":
+				return this.fold(
+					(context) => {
+						const l = left(context);
+						const r = right(context);
+						return l || r;
+					},
+					left,
+					right,
+				);
+			default:
+				return (context) => this.evaluateBinaryExpression(expression, context);
+		}
+	}
+
+	/** `~` / `!~`: ACL membership when the right side names an ACL, else a regex match. */
+	private lowerMatchExpression(
+		expression: VCLBinaryExpression,
+		left: CompiledExpression,
+		right: CompiledExpression,
+	): CompiledExpression {
+		const negate = expression.operator === "!~";
+		const aclName =
+			expression.right.type === "Identifier" ? (expression.right as VCLIdentifier).name : undefined;
+		let regex: RegExp | undefined;
+		const pattern = this.constants.get(right)?.value;
+		if (aclName === undefined && typeof pattern === "string") {
+			try {
+				regex = compileRegex(pattern);
+			} catch {
+				// regexMatch logs the invalid pattern on each evaluation.
+			}
+		}
+		return (context) => {
+			if (aclName !== undefined) {
+				const acl = context.acls?.[aclName];
+				if (acl && !(context.locals && aclName in context.locals)) {
+					const inAcl = this.isIpInAcl(toRawString(left(context)), acl, context);
+					return negate ? !inAcl : inAcl;
+				}
+			}
+			const l = toRawString(left(context));
+			if (regex) return this.regexMatch(l, regex, context, negate);
+			const r = right(context);
+			return this.regexMatch(l, r instanceof VCLString ? r.value : r, context, negate);
+		};
+	}
+
 	private evaluateExpression(expression: VCLExpression, context: VCLContext): any {
 		if (!expression?.type) return null;
+		if (this.mode === "closures") {
+			const lowered = this.loweredExpressions.get(expression);
+			if (lowered) return lowered(context);
+		}
 
 		switch (expression.type) {
 			case "StringLiteral":
@@ -2116,7 +3322,7 @@ export class VCLCompiler {
 				return (expression as any).value as boolean;
 			case "RegexLiteral": {
 				const regex = expression as VCLRegexLiteral;
-				return new RegExp(regex.pattern, regex.flags || "");
+				return compileRegex(regex.pattern, regex.flags || "");
 			}
 			case "Identifier":
 				return this.evaluateIdentifier(expression as VCLIdentifier, context);
@@ -2156,35 +3362,43 @@ export class VCLCompiler {
 	}
 
 	private evaluateFunctionCall(expression: VCLFunctionCall, context: VCLContext): any {
-		const result = this.evaluateFunctionCallInner(expression, context);
-		const rule = NULL_RESULT_RULES[expression.name];
+		const argTypes = functionArgumentTypes(expression);
+		const args = expression.arguments.map((arg, i) =>
+			this.toFunctionArgument(this.evaluateExpression(arg, context), argTypes?.[i]),
+		);
+		return this.functionResult(
+			expression.name,
+			this.callFunction(expression, args, context),
+			context,
+		);
+	}
+
+	/** Apply a builtin's NULL-result rule and return-type coercion to its raw result. */
+	private functionResult(functionName: string, result: any, context: VCLContext): any {
+		const rule = NULL_RESULT_RULES[functionName];
 		if (rule && (result === null || result === undefined)) {
 			if (context.fastly) context.fastly.error = rule.error;
-			return coerceBuiltinReturn(expression.name, rule.value);
+			return coerceBuiltinReturn(functionName, rule.value);
 		}
-		return coerceBuiltinReturn(expression.name, result);
+		return coerceBuiltinReturn(functionName, result);
 	}
 
-	private evaluateFunctionCallInner(expression: VCLFunctionCall, context: VCLContext): any {
-		const functionName = expression.name;
-		const overloads = BUILTIN_SIGNATURES[functionName]?.args;
-		const argTypes =
-			overloads?.find((o) => o.length === expression.arguments.length) ?? overloads?.[0];
-		const args = expression.arguments.map((arg, i) => {
-			const v = this.evaluateExpression(arg, context);
-			// STRING arguments receive the concatenated string form.
-			if (v instanceof VCLConcatResult) return this.stringifyForOutput(v);
-			// Unwrap typed values per the declared parameter type so module
-			// implementations receive plain JS primitives.
-			const declared = argTypes?.[i];
-			if (v !== null && v !== undefined) {
-				if (declared === "FLOAT" || declared === "INTEGER") return Number(v);
-				if (declared === "STRING" && typeof v !== "string" && !(v instanceof VCLString)) {
-					return vclToString(v);
-				}
+	private toFunctionArgument(v: any, declared: string | undefined): any {
+		// STRING arguments receive the concatenated string form.
+		if (v instanceof VCLConcatResult) return this.stringifyForOutput(v);
+		// Unwrap typed values per the declared parameter type so module
+		// implementations receive plain JS primitives.
+		if (v !== null && v !== undefined) {
+			if (declared === "FLOAT" || declared === "INTEGER") return Number(v);
+			if (declared === "STRING" && typeof v !== "string" && !(v instanceof VCLString)) {
+				return vclToString(v);
 			}
-			return v;
-		});
+		}
+		return v;
+	}
+
+	private callFunction(expression: VCLFunctionCall, args: any[], context: VCLContext): any {
+		const functionName = expression.name;
 
 		// Functional (typed) user subroutines are called like builtin functions.
 		if (!functionName.includes(".")) {
@@ -2564,27 +3778,6 @@ export class VCLCompiler {
 
 		if (name === "LF") return "\n";
 
-		const VCL_ENUM_VALUES = new Set([
-			"aes128",
-			"aes192",
-			"aes256",
-			"cbc",
-			"ctr",
-			"gcm",
-			"ccm",
-			"pkcs7",
-			"nopad",
-			"sha1",
-			"sha256",
-			"sha384",
-			"sha512",
-			"der",
-			"jwt",
-			"standard",
-			"url",
-			"url_nopad",
-			"default",
-		]);
 		if (VCL_ENUM_VALUES.has(name)) return name;
 
 		if (name === "now") return new VCLTime(context.platform.now());
@@ -2628,525 +3821,7 @@ export class VCLCompiler {
 			if (backend) return backend;
 		}
 
-		return this.resolveVariable(name, context);
-	}
-
-	private resolveVariable(name: string, context: VCLContext): any {
-		const ctx = context as any;
-
-		if (name === "testing.state") return ctx.testing?._state ?? "";
-		if (name === "testing.synthetic_body") return context.obj.response ?? "";
-
-		if (name === "req.url") return context.req.url;
-		if (name === "req.url.path") {
-			const url = context.req.url || "";
-			const qIdx = url.indexOf("?");
-			return qIdx >= 0 ? url.substring(0, qIdx) : url;
-		}
-		if (name === "req.url.qs") {
-			const url = context.req.url || "";
-			const qIdx = url.indexOf("?");
-			return qIdx >= 0 ? url.substring(qIdx + 1) : "";
-		}
-		if (name === "req.url.basename") {
-			const path = this.resolveVariable("req.url.path", context) as string;
-			if (path === "") return ".";
-			const lastSlash = path.lastIndexOf("/");
-			return lastSlash >= 0 ? path.substring(lastSlash + 1) : path;
-		}
-		if (name === "req.url.dirname") {
-			const path = this.resolveVariable("req.url.path", context) as string;
-			if (path === "") return ".";
-			const lastSlash = path.lastIndexOf("/");
-			return lastSlash >= 0 ? path.substring(0, lastSlash + 1) : "/";
-		}
-		if (name === "req.url.ext") {
-			const basename = this.resolveVariable("req.url.basename", context) as string;
-			const dotIdx = basename.lastIndexOf(".");
-			return dotIdx >= 0 ? basename.substring(dotIdx + 1) : "";
-		}
-		if (name === "req.method" || name === "req.request") return context.req.method;
-		if (name === "req.backend") return context.req.backend || "";
-		if (name === "req.restarts") return context.req.restarts || 0;
-		if (name === "req.proto") return ctx.req?.proto || "HTTP/1.1";
-		if (name === "req.body") return ctx.req?.body || "";
-		if (name === "req.body.base64") {
-			const body = ctx.req?.body || "";
-			return body ? Buffer.from(body).toString("base64") : "";
-		}
-		if (name === "req.is_ssl") return ctx.req?.is_ssl ?? false;
-		if (name === "req.is_purge") return context.req.method === "PURGE";
-		if (name === "req.is_ipv6") return ctx.req?.is_ipv6 ?? false;
-		if (name === "req.is_background_fetch") return false;
-		if (name === "req.is_clustering") return false;
-		if (name === "req.is_esi_subreq") return ctx.req?.is_esi_subreq ?? false;
-		if (name === "req.esi") return ctx.req?.esi ?? false;
-		if (name === "req.esi_level") return ctx.req?.esi_level ?? 0;
-		if (name === "req.hash") return ctx.hashData?.join(":") || "";
-		if (name === "req.hash_always_miss") return ctx.req?.hash_always_miss ?? false;
-		if (name === "req.hash_ignore_busy") return ctx.req?.hash_ignore_busy ?? false;
-		// Unless configured, staleness allowances default to the maximum RTIME.
-		if (name === "req.grace") return ctx.req?.grace ?? MAX_RTIME_SECONDS;
-		if (name === "req.max_stale_if_error") return ctx.req?.max_stale_if_error ?? MAX_RTIME_SECONDS;
-		if (name === "req.max_stale_while_revalidate")
-			return ctx.req?.max_stale_while_revalidate ?? MAX_RTIME_SECONDS;
-		if (name === "req.xid") {
-			if (!ctx.req.xid) ctx.req.xid = generateXid(context);
-			return ctx.req.xid;
-		}
-		if (name === "req.enable_range_on_pass") return false;
-		if (name === "req.enable_segmented_caching") return false;
-		// Before the cache key is computed the digest reads as all zeros.
-		if (name === "req.digest") return ctx.req?.digest || "0".repeat(64);
-		if (name === "req.digest.ratio") return ctx.req?.digest_ratio ?? 0;
-		if (name === "req.bytes_read") return 0;
-		if (name === "req.header_bytes_read") return 0;
-		if (name === "req.body_bytes_read") return 0;
-		if (name === "req.topurl") return context.req.url;
-		if (name === "req.postbody") return ctx.req?.body || "";
-		if (name === "req.protocol") {
-			return ctx.req?.is_ssl ? "https" : "http";
-		}
-		if (name === "req.service_id") return ctx.req?.service_id || "local-service-id";
-		if (name === "req.customer_id") return ctx.req?.customer_id || "local-customer-id";
-		if (name === "req.vcl") return ctx.req?.vcl || "local.1_0-00000000000000000000000000000000";
-		if (name === "req.vcl.md5") {
-			const vcl = ctx.req?.vcl || "local.1_0-00000000000000000000000000000000";
-			return hashHex("md5", Buffer.from(vcl));
-		}
-		if (name === "req.vcl.generation") return 1;
-		if (name === "req.vcl.version") return 1;
-		if (name === "req.headers") return serializeHeaders(context.req.http);
-		if (name.startsWith("req.backend.")) {
-			const prop = name.substring(12);
-			const be = context.current_backend || context.backends?.[context.req.backend || "default"];
-			if (!be) return "";
-			const beProps: Record<string, any> = {
-				name: be.name,
-				host: be.host,
-				// Backend hosts are not resolved locally; report the loopback
-				// address the emulated connection would use.
-				ip: "127.0.0.1",
-				port: be.port,
-				healthy: be.is_healthy ?? true,
-				is_cluster: false,
-				is_origin: true,
-				is_shield: false,
-			};
-			return beProps[prop] ?? "";
-		}
-
-		// bereq.* variables
-		if (name === "bereq.url") return context.bereq.url;
-		if (name === "bereq.method" || name === "bereq.request") return context.bereq.method;
-		if (name === "bereq.proto") return ctx.bereq?.proto || "HTTP/1.1";
-		if (name === "bereq.url.path") {
-			const url = context.bereq.url || "";
-			const qIdx = url.indexOf("?");
-			return qIdx >= 0 ? url.substring(0, qIdx) : url;
-		}
-		if (name === "bereq.url.qs") {
-			const url = context.bereq.url || "";
-			const qIdx = url.indexOf("?");
-			return qIdx >= 0 ? url.substring(qIdx + 1) : "";
-		}
-		if (name === "bereq.url.basename") {
-			const path = this.resolveVariable("bereq.url.path", context) as string;
-			if (path === "") return ".";
-			const lastSlash = path.lastIndexOf("/");
-			return lastSlash >= 0 ? path.substring(lastSlash + 1) : path;
-		}
-		if (name === "bereq.url.dirname") {
-			const path = this.resolveVariable("bereq.url.path", context) as string;
-			if (path === "") return ".";
-			const lastSlash = path.lastIndexOf("/");
-			return lastSlash >= 0 ? path.substring(0, lastSlash + 1) : "/";
-		}
-		if (name === "bereq.url.ext") {
-			const basename = this.resolveVariable("bereq.url.basename", context) as string;
-			const dotIdx = basename.lastIndexOf(".");
-			return dotIdx >= 0 ? basename.substring(dotIdx + 1) : "";
-		}
-		if (name === "bereq.headers") return serializeHeaders(context.bereq.http);
-		if (name === "bereq.max_reuse_idle_time") return ctx.bereq?.max_reuse_idle_time ?? 0;
-		if (name === "bereq.fetch_timeout") return ctx.bereq?.fetch_timeout ?? 0;
-		if (name === "bereq.connect_timeout") return ctx.bereq?.connect_timeout ?? 0;
-		if (name === "bereq.first_byte_timeout") return ctx.bereq?.first_byte_timeout ?? 15;
-		if (name === "bereq.between_bytes_timeout") return ctx.bereq?.between_bytes_timeout ?? 0;
-		if (name === "bereq.is_clustering") return false;
-		if (name === "bereq.bytes_written") return 0;
-		if (name === "bereq.header_bytes_written") return 0;
-		if (name === "bereq.body_bytes_written") return 0;
-
-		// beresp.* variables
-		if (name === "beresp.status") return context.beresp.status;
-		if (name === "beresp.response") return context.beresp.statusText;
-		if (name === "beresp.proto") return ctx.beresp?.proto || "HTTP/1.1";
-		if (name === "beresp.ttl") return context.beresp.ttl;
-		if (name === "beresp.grace") return context.beresp.grace ?? 0;
-		if (name === "beresp.stale_if_error") return ctx.beresp?.stale_if_error ?? 0;
-		if (name === "beresp.stale_while_revalidate") return context.beresp.stale_while_revalidate ?? 0;
-		if (name === "beresp.cacheable") return ctx.beresp?.cacheable ?? false;
-		if (name === "beresp.do_esi") return context.beresp.do_esi ?? false;
-		if (name === "beresp.do_stream") return ctx.beresp?.do_stream ?? false;
-		if (name === "beresp.gzip") return ctx.beresp?.gzip ?? false;
-		if (name === "beresp.brotli") return ctx.beresp?.brotli ?? false;
-		if (name === "beresp.saintmode") return ctx.beresp?.saintmode ?? 0;
-		// beresp.hipaa and beresp.pci are the same flag under two names.
-		if (name === "beresp.hipaa" || name === "beresp.pci") return context.beresp.pci ?? false;
-		if (name === "beresp.headers") return serializeHeaders(context.beresp.http);
-		if (name === "beresp.handshake_time_to_origin_ms") return 100;
-		if (name === "beresp.used_alternate_path_to_origin") return false;
-		if (name.startsWith("beresp.backend.")) {
-			const prop = name.substring(15);
-			// These reflect the backend request made in this pass. Without one
-			// (a cache hit, or a subroutine run outside the pipeline) the name
-			// reads empty, host and the addresses read not set, and the port
-			// reads zero.
-			const snap = context.beresp.backend;
-			switch (prop) {
-				case "name":
-					return snap?.name ?? "";
-				case "host":
-					return snap?.host ? snap.host : VCLString.notset();
-				case "ip":
-					return snap?.ip ? snap.ip : VCLString.notset();
-				case "port":
-					return snap?.port ?? 0;
-				case "src_ip":
-					return snap ? "127.0.0.1" : VCLString.notset();
-				case "src_port":
-					return 0;
-				case "requests":
-					return snap ? 1 : 0;
-				case "alternate_ips":
-					return "";
-				default:
-					return VCLString.notset();
-			}
-		}
-
-		// resp.* variables
-		if (name === "resp.status") return context.resp.status;
-		if (name === "resp.response") return context.resp.statusText;
-		if (name === "resp.proto") return ctx.resp?.proto || "HTTP/1.1";
-		if (name === "resp.is_locally_generated") return ctx.resp?.is_locally_generated ?? false;
-		if (name === "resp.completed") return ctx.resp?.completed ?? true;
-		if (name === "resp.stale") return ctx.resp?.stale ?? false;
-		if (name === "resp.stale.is_error") return false;
-		if (name === "resp.stale.is_revalidating") return false;
-		if (name === "resp.headers") return serializeHeaders(context.resp.http);
-		if (name === "resp.bytes_written") return 0;
-		if (name === "resp.header_bytes_written") return 0;
-		if (name === "resp.body_bytes_written") return 0;
-
-		// obj.* variables
-		if (name === "obj.status") return context.obj.status;
-		if (name === "obj.response") return context.obj.response ?? VCLString.notset();
-		if (name === "obj.proto") return "HTTP/1.1";
-		if (name === "obj.hits") return context.obj.hits;
-		if (name === "obj.ttl") return ctx.obj?.ttl ?? 0;
-		if (name === "obj.age") return ctx.obj?.age ?? 0;
-		if (name === "obj.grace") return ctx.obj?.grace ?? 0;
-		if (name === "obj.lastuse") return ctx.obj?.lastuse ?? 0;
-		if (name === "obj.entered") return ctx.obj?.entered ?? 0;
-		if (name === "obj.cacheable") return ctx.obj?.cacheable ?? false;
-		// obj.is_pci and obj.is_hipaa reflect the flag the object was cached
-		// with; they are the same value under two names.
-		if (name === "obj.is_pci" || name === "obj.is_hipaa") return ctx.obj?.pci ?? false;
-		if (name === "obj.stale_if_error") return ctx.obj?.stale_if_error ?? 0;
-		if (name === "obj.stale_while_revalidate") return ctx.obj?.stale_while_revalidate ?? 60;
-		if (name === "obj.headers") return serializeHeaders(context.obj.http);
-
-		// client.* variables
-		if (name === "client.ip") return context.client?.ip || "127.0.0.1";
-		if (name === "client.port") return ctx.client?.port ?? 11111;
-		if (name === "client.identity")
-			return ctx.client?.identity || context.client?.ip || "127.0.0.1";
-		if (name === "client.requests") return ctx.client?.requests ?? 1;
-		if (name === "client.identified") return false;
-		if (name === "client.sess_timeout") return ctx.client?.sess_timeout ?? 600;
-		if (name.startsWith("client.geo.")) {
-			const geoProp = name.substring(11);
-			const geo = ctx.client?.geo || {};
-			// Without a geolocation database, string fields read "unknown" and
-			// the coordinates point at Fastly's San Francisco headquarters.
-			const defaults: Record<string, any> = {
-				city: "unknown",
-				"city.ascii": "unknown",
-				"city.latin1": "unknown",
-				"city.utf8": "unknown",
-				country_code: "unknown",
-				country_code3: "unknown",
-				country_name: "unknown",
-				"country_name.ascii": "unknown",
-				"country_name.latin1": "unknown",
-				"country_name.utf8": "unknown",
-				continent_code: "unknown",
-				latitude: 37.779,
-				longitude: -122.398,
-				postal_code: "unknown",
-				metro_code: 0,
-				area_code: 0,
-				region: "unknown",
-				"region.ascii": "unknown",
-				"region.latin1": "unknown",
-				"region.utf8": "unknown",
-				gmt_offset: 0,
-				utc_offset: 0,
-				conn_speed: "unknown",
-				conn_type: "unknown",
-				ip_override: "unknown",
-				proxy_description: "unknown",
-				proxy_type: "unknown",
-			};
-			return geo[geoProp] ?? defaults[geoProp] ?? "";
-		}
-		if (name.startsWith("client.as.")) {
-			// Loopback/reserved space maps to the reserved AS.
-			const prop = name.substring(10);
-			if (prop === "number") return ctx.client?.as_number ?? 4294967294;
-			if (prop === "name") return ctx.client?.as_name ?? "Reserved";
-			return "";
-		}
-		if (name.startsWith("client.browser.")) {
-			const prop = name.substring(15);
-			return ctx.client?.browser?.[prop] ?? BROWSER_DEFAULTS[prop] ?? "";
-		}
-		if (name.startsWith("client.os.")) {
-			const prop = name.substring(10);
-			return ctx.client?.os?.[prop] ?? OS_DEFAULTS[prop] ?? "";
-		}
-		if (name === "client.bot.name") return "";
-		if (name.startsWith("client.class.")) return false;
-		if (name.startsWith("client.platform.")) {
-			const prop = name.substring(16);
-			if (prop === "hwtype" || prop === "model" || prop === "vendor") return "";
-			return false;
-		}
-		if (name.startsWith("client.display.")) {
-			if (name === "client.display.touchscreen") return false;
-			// Unknown display characteristics read as -1.
-			return -1;
-		}
-		if (name === "client.socket.congestion_algorithm") return "cubic";
-		if (name === "client.socket.cwnd") return 60;
-		if (name === "client.socket.nexthop") return "127.0.0.1";
-		if (name.startsWith("client.socket.")) return 0;
-
-		// server.* variables
-		if (name === "server.hostname") return ctx.server?.hostname || ctx.platform.hostname();
-		if (name === "server.identity") return ctx.server?.identity || "localhost";
-		if (name === "server.datacenter") return ctx.server?.datacenter || "local";
-		if (name === "server.region") return ctx.server?.region || "local";
-		if (name === "server.pop") return ctx.server?.pop || "local";
-		if (name === "server.billing_region") return ctx.server?.billing_region || "local";
-		if (name === "server.ip") return ctx.server?.ip || "127.0.0.1";
-		if (name === "server.port") return ctx.server?.port ?? 3124;
-
-		// fastly.* variables
-		if (name === "fastly.error") return context.fastly?.error || "";
-		if (name === "fastly.is_staging") return false;
-		if (name === "fastly.ddos_detected") return false;
-		if (name === "fastly.ff.visits_this_pop") return 1;
-		if (name === "fastly.ff.visits_this_pop_this_service") return 1;
-		if (name === "fastly.ff.visits_this_service") return 0;
-		if (name.startsWith("fastly.ff.")) return 0;
-		if (name === "fastly.bot.name" || name === "fastly.bot.category") return "";
-		if (name.startsWith("fastly.bot.")) return false;
-
-		// fastly_info.* variables
-		if (name === "fastly_info.state") return context.fastly?.state || "";
-		if (name === "fastly_info.is_h2") return false;
-		if (name === "fastly_info.is_h3") return false;
-		if (name === "fastly_info.is_cluster_edge") return false;
-		if (name === "fastly_info.is_cluster_shield") return false;
-		if (name === "fastly_info.edge.is_tls") return false;
-		if (name === "fastly_info.host_header") return context.req.http.Host || "";
-		if (name === "fastly_info.request_id") return ctx.fastly_info?.request_id || "local-req-id";
-		if (name === "fastly_info.h2.stream_id") return 1;
-		if (name.startsWith("fastly_info.h2.")) return 0;
-
-		// time.* variables
-		if (name === "time.start" || name === "time.start.sec")
-			return Math.floor(ctx.platform.now() / 1000);
-		if (name === "time.start.msec") return ctx.platform.now();
-		if (name === "time.start.usec") return ctx.platform.now() * 1000;
-		if (name === "time.start.msec_frac") return ctx.platform.now() % 1000;
-		if (name === "time.start.usec_frac") return (ctx.platform.now() * 1000) % 1000000;
-		if (name === "time.elapsed" || name === "time.elapsed.sec") return 0;
-		if (name === "time.elapsed.msec") return 0;
-		if (name === "time.elapsed.usec") return 0;
-		if (name === "time.elapsed.msec_frac") return "000";
-		if (name === "time.elapsed.usec_frac") return "000000";
-		if (name === "time.end" || name === "time.end.sec")
-			return Math.floor(ctx.platform.now() / 1000);
-		if (name === "time.end.msec") return ctx.platform.now();
-		if (name === "time.end.usec") return ctx.platform.now() * 1000;
-		if (name === "time.end.msec_frac") return ctx.platform.now() % 1000;
-		if (name === "time.end.usec_frac") return (ctx.platform.now() * 1000) % 1000000;
-		if (name === "time.to_first_byte") return 0;
-
-		// tls.client.* variables. The emulated client handshake mirrors a
-		// typical OpenSSL client hello so fingerprint-style variables read
-		// like a realistic Fastly request.
-		if (name === "tls.client.protocol") return ctx.tls?.client?.protocol || "";
-		if (name === "tls.client.cipher") return ctx.tls?.client?.cipher || "";
-		if (name === "tls.client.servername") return ctx.tls?.client?.servername || "";
-		if (name === "tls.client.ciphers_list") return SYNTHETIC_TLS_CLIENT.ciphersList;
-		if (name === "tls.client.ciphers_list_sha") return SYNTHETIC_TLS_CLIENT.ciphersListSha;
-		if (name === "tls.client.ciphers_list_txt") return SYNTHETIC_TLS_CLIENT.ciphersListTxt;
-		if (name === "tls.client.ciphers_sha") return SYNTHETIC_TLS_CLIENT.ciphersSha;
-		if (name === "tls.client.handshake_sent_bytes") return 4759;
-		if (name === "tls.client.iana_chosen_cipher_id") return 49199;
-		if (name === "tls.client.ja3_md5") return SYNTHETIC_TLS_CLIENT.ja3Md5;
-		if (name === "tls.client.ja4") return SYNTHETIC_TLS_CLIENT.ja4;
-		if (name.startsWith("tls.client.certificate.")) {
-			const prop = name.substring(23);
-			// The synthetic client certificate is "verified" and valid for a
-			// year starting now.
-			if (prop === "is_verified") return true;
-			if (prop === "not_before") return new VCLTime(context.platform.now());
-			if (prop === "not_after") return new VCLTime(context.platform.now() + 365 * 24 * 3600 * 1000);
-			if (prop.startsWith("is_")) return false;
-			return "";
-		}
-		if (name.startsWith("tls.client.")) return "";
-
-		// waf.* variables
-		if (name === "waf.executed") return ctx.waf?.executed ?? false;
-		if (name === "waf.blocked") return ctx.waf?.blocked ?? false;
-		if (name === "waf.passed") return ctx.waf?.passed ?? false;
-		if (name === "waf.logged") return ctx.waf?.logged ?? false;
-		if (name === "waf.failures") return 0;
-		if (name === "waf.anomaly_score") return ctx.waf?.anomaly_score ?? 0;
-		if (name === "waf.sql_injection_score") return 0;
-		if (name === "waf.xss_score") return 0;
-		if (name === "waf.rce_score") return 0;
-		if (name === "waf.lfi_score") return 0;
-		if (name === "waf.rfi_score") return 0;
-		if (name === "waf.http_violation_score") return 0;
-		if (name === "waf.session_fixation_score") return 0;
-		if (name === "waf.php_injection_score") return 0;
-		if (name === "waf.rule_id") return 0;
-		if (name === "waf.severity") return 0;
-		if (name === "waf.message") return "";
-		if (name === "waf.logdata") return "";
-		if (name === "waf.counter") return 0;
-		if (name === "waf.inbound_anomaly_score") return 0;
-
-		// geoip.* legacy variables (alias for client.geo.*)
-		if (name.startsWith("geoip.")) {
-			const prop = name.substring(6);
-			if (prop === "use_x_forwarded_for") return false;
-			return this.resolveVariable(`client.geo.${prop}`, context);
-		}
-
-		// math.* constants
-		const mathConstants: Record<string, number> = {
-			"math.PI": Math.PI,
-			"math.PI_2": Math.PI / 2,
-			"math.PI_4": Math.PI / 4,
-			"math.2PI": 2 * Math.PI,
-			"math.E": Math.E,
-			"math.TAU": 2 * Math.PI,
-			"math.PHI": (1 + Math.sqrt(5)) / 2,
-			"math.1_PI": 1 / Math.PI,
-			"math.2_PI": 2 / Math.PI,
-			"math.2_SQRTPI": 2 / Math.sqrt(Math.PI),
-			"math.SQRT2": Math.SQRT2,
-			"math.SQRT1_2": Math.SQRT1_2,
-			"math.LN2": Math.LN2,
-			"math.LN10": Math.LN10,
-			"math.LOG2E": Math.LOG2E,
-			"math.LOG10E": Math.LOG10E,
-			"math.NEG_INFINITY": -Infinity,
-			"math.POS_INFINITY": Infinity,
-			"math.NEG_HUGE_VAL": -Infinity,
-			"math.POS_HUGE_VAL": Infinity,
-			"math.NAN": NaN,
-			"math.FLOAT_MAX": Number.MAX_VALUE,
-			"math.FLOAT_MIN": Number.MIN_VALUE,
-			"math.FLOAT_EPSILON": Number.EPSILON,
-			"math.FLOAT_DIG": 15,
-			"math.FLOAT_MANT_DIG": 53,
-			"math.FLOAT_MAX_10_EXP": 308,
-			"math.FLOAT_MAX_EXP": 1024,
-			"math.FLOAT_MIN_10_EXP": -307,
-			"math.FLOAT_MIN_EXP": -1021,
-			"math.FLOAT_RADIX": 2,
-			"math.INTEGER_BIT": 64,
-		};
-		if (mathConstants[name] !== undefined) return mathConstants[name];
-		// VCL INTEGERs are 64-bit; the extremes exceed double precision, so
-		// they are held as BigInt to stringify exactly.
-		if (name === "math.INTEGER_MAX") return 9223372036854775807n;
-		if (name === "math.INTEGER_MIN") return -9223372036854775808n;
-
-		// workspace.* variables
-		if (name === "workspace.bytes_total") return MAX_REQUEST_WORKSPACE_SIZE;
-		if (name === "workspace.bytes_free") {
-			return Math.max(0, MAX_REQUEST_WORKSPACE_SIZE - (context.workspaceBytes ?? 0));
-		}
-		if (name === "workspace.overflowed") {
-			return (context.workspaceBytes ?? 0) > MAX_REQUEST_WORKSPACE_SIZE;
-		}
-
-		// transport.* variables
-		if (name === "transport.type") return "tcp";
-		if (name === "transport.bw_estimate") return 0;
-
-		// segmented_caching.* variables
-		if (name === "segmented_caching.block_number") return 1;
-		if (name === "segmented_caching.is_outer_req") return true;
-		if (name === "segmented_caching.error") return "";
-		if (name.startsWith("segmented_caching.")) return 0;
-
-		// esi.* variables
-		if (name === "esi.allow_inside_cdata") return false;
-
-		// stale.exists reads as an empty string when no stale object exists.
-		if (name === "stale.exists") return "";
-
-		// quic.* variables
-		if (name.startsWith("quic.")) return 0;
-
-		// backend.socket.* variables
-		if (name === "backend.socket.congestion_algorithm") return "cubic";
-		if (name === "backend.socket.cwnd") return 60;
-		if (name.startsWith("backend.socket.")) return 0;
-		if (name === "backend.conn.tls_protocol") return "TLSv1.2";
-		if (name.startsWith("backend.conn.")) return false;
-
-		// Dynamic backend.{name}.healthy / backend.{name}.connections_* variables
-		const backendHealthMatch = name.match(
-			/^backend\.([^.]+)\.(healthy|connections_open|connections_used)$/,
-		);
-		if (backendHealthMatch) {
-			const beName = backendHealthMatch[1]!;
-			const prop = backendHealthMatch[2]!;
-			const be = context.backends?.[beName];
-			if (prop === "healthy") return be?.is_healthy ?? true;
-			return 0;
-		}
-
-		// Dynamic director.{name}.healthy variables
-		const directorHealthMatch = name.match(/^director\.([^.]+)\.healthy$/);
-		if (directorHealthMatch) {
-			const dirName = directorHealthMatch[1]!;
-			const dir = context.directors?.[dirName];
-			if (dir) return true;
-			const be = context.backends?.[dirName];
-			return be?.is_healthy ?? true;
-		}
-
-		// Dynamic ratecounter.{name}.{method}.{window} variables
-		const ratecounterMatch = name.match(/^ratecounter\.([^.]+)\.(bucket|rate)\.(\d+s)$/);
-		if (ratecounterMatch) {
-			return 0;
-		}
-
-		return "";
+		return resolveVariable(name, context);
 	}
 
 	private evaluateUnaryExpression(expression: VCLUnaryExpression, context: VCLContext): any {
@@ -3261,11 +3936,11 @@ export class VCLCompiler {
 
 	private regexMatch(left: any, right: any, context: VCLContext, negate: boolean): boolean {
 		try {
-			const regex = right instanceof RegExp ? right : new RegExp(String(right));
+			const regex = right instanceof RegExp ? right : compileRegex(String(right));
 			const match = String(left).match(regex);
 			if (match) {
 				const groups: Record<number, string> = {};
-				match.forEach((val, i) => {
+				regexCaptures(regex, match).forEach((val, i) => {
 					groups[i] = val ?? "";
 				});
 				context.re = { groups };
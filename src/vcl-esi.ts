@@ -1,10 +1,12 @@
 /**
  * VCL ESI (Edge Side Includes) Module
- * Parses and processes ESI tags in HTML content per the Fastly VCL specification.
+ * Parses and processes ESI 1.0 markup per the Fastly VCL specification.
  */
 
 import { logError } from "./platform";
+import { headerValue } from "./runtime/headers";
 import type { VCLContext } from "./vcl";
+import { MAX_ESI_DEPTH, MAX_ESI_INCLUDES } from "./vcl-limits";
 
 export enum ESITagType {
 	INCLUDE = "include",
@@ -14,254 +16,456 @@ export enum ESITagType {
 	WHEN = "when",
 	OTHERWISE = "otherwise",
 	VARS = "vars",
+	TRY = "try",
+	ATTEMPT = "attempt",
+	EXCEPT = "except",
 }
 
+/** An ESI element and what it encloses. */
 export interface ESITag {
 	type: ESITagType;
-	content?: string;
-	attributes?: Record<string, string>;
-	children?: ESITag[];
-	parent?: ESITag;
+	attributes: Record<string, string>;
+	children: ESINode[];
 }
 
+/** Text outside any ESI markup, or an ESI element. */
+export type ESINode = string | ESITag;
+
+const TAG_TYPES = new Set<string>(Object.values(ESITagType));
+
+// Opening and closing ESI tags, <!--esi comments, and the end of a comment.
+const MARKUP = /<esi:|<\/esi:|<!--esi|-->/g;
+const OPEN_TAG = /<esi:([a-z]+)((?:\s+[a-z0-9_:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/iy;
+const CLOSE_TAG = /<\/esi:([a-z]+)\s*>/iy;
+const ATTRIBUTE = /([a-z0-9_:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi;
+
+// ESIParser builds the tree of a document's ESI markup. Elements nest, so a
+// choose may sit inside a when or an attempt. esi:remove and esi:comment leave
+// nothing in the tree, and the content of an <!--esi ... --> comment is parsed
+// as if the comment were not there. Anything that is not well-formed ESI,
+// such as an unknown esi: tag or a stray closing tag, is kept as text, and an
+// element left open ends with the document.
 export class ESIParser {
-	private content: string;
-	private position: number = 0;
-	private tags: ESITag[] = [];
+	private position = 0;
 
-	constructor(content: string) {
-		this.content = content;
-	}
+	constructor(private readonly content: string) {}
 
-	parse(): ESITag[] {
+	parse(): ESINode[] {
 		this.position = 0;
-		this.tags = [];
+		return this.parseNodes();
+	}
+
+	/** The nodes up to `</esi:until>`, the `-->` ending an <!--esi comment, or the end. */
+	private parseNodes(until?: string): ESINode[] {
+		const nodes: ESINode[] = [];
+		let text = "";
+		const flush = () => {
+			if (text) nodes.push(text);
+			text = "";
+		};
 
 		while (this.position < this.content.length) {
-			const tagStart = this.content.indexOf("<esi:", this.position);
-			if (tagStart === -1) {
+			MARKUP.lastIndex = this.position;
+			const marker = MARKUP.exec(this.content);
+			if (!marker) {
+				text += this.content.slice(this.position);
+				this.position = this.content.length;
 				break;
 			}
-
-			this.position = tagStart;
-			const tag = this.parseTag();
-			if (tag) {
-				this.tags.push(tag);
+			text += this.content.slice(this.position, marker.index);
+			this.position = marker.index;
+
+			if (marker[0] === "-->") {
+				this.position += 3;
+				if (until === "-->") break;
+				text += "-->";
+			} else if (marker[0] === "<!--esi") {
+				this.position += 7;
+				flush();
+				nodes.push(...this.parseNodes("-->"));
+			} else if (marker[0] === "</esi:") {
+				CLOSE_TAG.lastIndex = this.position;
+				const close = CLOSE_TAG.exec(this.content);
+				const length = close ? close[0].length : marker[0].length;
+				this.position += length;
+				if (close?.[1]?.toLowerCase() === until) break;
+				text += this.content.slice(this.position - length, this.position);
+			} else {
+				const tag = this.parseTag();
+				if (typeof tag === "string") {
+					text += tag;
+				} else {
+					flush();
+					if (tag) nodes.push(tag);
+				}
 			}
 		}
 
-		return this.tags;
+		flush();
+		return nodes;
 	}
 
-	private parseTag(): ESITag | null {
-		const tagNameMatch = this.content.substring(this.position).match(/<esi:([a-z]+)/i);
-		if (!tagNameMatch) {
-			this.position++;
-			return null;
+	/** The element opening here; null when it renders nothing, text when it is not ESI. */
+	private parseTag(): ESITag | null | string {
+		OPEN_TAG.lastIndex = this.position;
+		const open = OPEN_TAG.exec(this.content);
+		const name = open?.[1]?.toLowerCase();
+		if (!open || !name || !TAG_TYPES.has(name)) {
+			this.position += 5;
+			return "<esi:";
 		}
-
-		const tagName = tagNameMatch[1]!.toLowerCase();
-		const tagType = this.getTagType(tagName);
-		if (!tagType) {
-			this.position++;
-			return null;
+		this.position += open[0].length;
+		const type = name as ESITagType;
+		const selfClosing = open[3] === "/";
+
+		// Elements whose content is never output are skipped without parsing it.
+		if (type === ESITagType.INCLUDE || type === ESITagType.REMOVE || type === ESITagType.COMMENT) {
+			if (!selfClosing) this.skipPast(`</esi:${name}>`);
+			if (type !== ESITagType.INCLUDE) return null;
 		}
 
-		const tagEndPos = this.content.indexOf(">", this.position);
-		if (tagEndPos === -1) {
-			this.position++;
-			return null;
+		const attributes: Record<string, string> = {};
+		for (const match of (open[2] ?? "").matchAll(ATTRIBUTE)) {
+			attributes[match[1]!.toLowerCase()] = match[2] ?? match[3] ?? "";
 		}
+		const children = selfClosing || type === ESITagType.INCLUDE ? [] : this.parseNodes(name);
+		return { type, attributes, children };
+	}
 
-		const tagContent = this.content.substring(this.position, tagEndPos + 1);
-		const attributes = this.parseAttributes(tagContent);
-		const tag: ESITag = { type: tagType, attributes };
-
-		this.position = tagEndPos + 1;
+	private skipPast(closingTag: string): void {
+		const end = this.content.indexOf(closingTag, this.position);
+		this.position = end === -1 ? this.content.length : end + closingTag.length;
+	}
+}
 
-		if (tagContent.endsWith("/>")) {
-			return tag;
-		}
+/**
+ * Fetches the fragment an <esi:include> names and resolves to its body, or
+ * rejects when the fragment cannot be had. The pipeline's fetcher makes each
+ * include a subrequest through runPipeline, and rejects on an error status.
+ */
+export type ESIIncludeFetcher = (src: string) => Promise<string>;
 
-		const closingTag = `</esi:${tagName}>`;
-		const closingTagPos = this.content.indexOf(closingTag, this.position);
+export interface ESIOptions {
+	/** Fetches included fragments; without one, includes are removed. */
+	fetchInclude?: ESIIncludeFetcher;
+}
 
-		if (closingTagPos === -1) {
-			return tag;
-		}
+export async function processESI(
+	content: string,
+	context: VCLContext,
+	options: ESIOptions = {},
+): Promise<string> {
+	if (!content || !context.beresp.do_esi) {
+		return content || "";
+	}
 
-		tag.content = this.content.substring(this.position, closingTagPos);
+	const nodes = new ESIParser(content).parse();
+	return render(nodes, { context, options, vars: false, attempts: 0 });
+}
 
-		if (tagType === ESITagType.CHOOSE || tagType === ESITagType.REMOVE) {
-			const childParser = new ESIParser(tag.content);
-			tag.children = childParser.parse();
-			tag.children?.forEach((child) => {
-				child.parent = tag;
-			});
-		}
+interface Rendering {
+	context: VCLContext;
+	options: ESIOptions;
+	/** Inside esi:vars, where text has its variables substituted. */
+	vars: boolean;
+	/** How many esi:attempt elements enclose the node, which decides what a failed include does. */
+	attempts: number;
+}
 
-		this.position = closingTagPos + closingTag.length;
-		return tag;
+// Thrown by an include that failed inside an esi:attempt, for the enclosing
+// esi:try to render its esi:except instead.
+class ESIIncludeError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ESIIncludeError";
 	}
+}
 
-	private getTagType(tagName: string): ESITagType | null {
-		const typeMap: Record<string, ESITagType> = {
-			include: ESITagType.INCLUDE,
-			remove: ESITagType.REMOVE,
-			comment: ESITagType.COMMENT,
-			choose: ESITagType.CHOOSE,
-			when: ESITagType.WHEN,
-			otherwise: ESITagType.OTHERWISE,
-			vars: ESITagType.VARS,
-		};
-		return typeMap[tagName] || null;
+async function render(nodes: ESINode[], rendering: Rendering): Promise<string> {
+	let output = "";
+	// One at a time, so the includes count against MAX_ESI_INCLUDES in document order.
+	for (const node of nodes) {
+		output += await renderNode(node, rendering);
 	}
+	return output;
+}
 
-	private parseAttributes(tagContent: string): Record<string, string> {
-		const attributes: Record<string, string> = {};
-		const attrRegex = /([a-z0-9_-]+)=["']([^"']*)["']/gi;
-		let match;
-
-		while ((match = attrRegex.exec(tagContent)) !== null) {
-			attributes[match[1]!.toLowerCase()] = match[2]!;
+async function renderNode(node: ESINode, rendering: Rendering): Promise<string> {
+	if (typeof node === "string") {
+		return rendering.vars ? substituteVariables(node, rendering.context) : node;
+	}
+	switch (node.type) {
+		case ESITagType.INCLUDE:
+			return includeTag(node.attributes, rendering);
+		case ESITagType.VARS:
+			return render(node.children, { ...rendering, vars: true });
+		case ESITagType.CHOOSE: {
+			const branch =
+				node.children.find(
+					(child) =>
+						typeof child !== "string" &&
+						child.type === ESITagType.WHEN &&
+						evaluateESIExpression(child.attributes.test ?? "", rendering.context),
+				) ?? childTag(node, ESITagType.OTHERWISE);
+			return typeof branch === "object" ? render(branch.children, rendering) : "";
 		}
-
-		return attributes;
+		case ESITagType.TRY: {
+			const attempt = childTag(node, ESITagType.ATTEMPT)?.children ?? [];
+			try {
+				return await render(attempt, { ...rendering, attempts: rendering.attempts + 1 });
+			} catch (error) {
+				if (!(error instanceof ESIIncludeError)) throw error;
+				return render(childTag(node, ESITagType.EXCEPT)?.children ?? [], rendering);
+			}
+		}
+		default:
+			// when, otherwise, attempt and except render only through their parent.
+			return "";
 	}
 }
 
-export function processESI(content: string, context: VCLContext): string {
-	if (!content || !context.beresp.do_esi) {
-		return content || "";
-	}
-
-	let processedContent = content;
-	processedContent = processComments(processedContent);
-	processedContent = processRemoveTags(processedContent);
-	processedContent = processChooseTags(processedContent, context);
-	processedContent = processIncludeTags(processedContent, context);
-
-	return processedContent;
+function childTag(node: ESITag, type: ESITagType): ESITag | undefined {
+	return node.children.find(
+		(child): child is ESITag => typeof child !== "string" && child.type === type,
+	);
 }
 
-function _processTag(tag: ESITag, context: VCLContext): string {
-	switch (tag.type) {
-		case ESITagType.INCLUDE:
-			return processIncludeTag(tag, context);
-		case ESITagType.REMOVE:
-		case ESITagType.COMMENT:
-			return "";
-		case ESITagType.CHOOSE:
-			return processChooseTag(tag, context);
-		default:
-			return tag.content || "";
+// includeTag fetches src, or alt when src fails. When both fail, the include
+// leaves nothing with onerror="continue"; without it, an include inside an
+// esi:attempt fails the attempt, and one outside any is removed and logged.
+async function includeTag(
+	attributes: Record<string, string>,
+	rendering: Rendering,
+): Promise<string> {
+	const { context } = rendering;
+	const sources = [attributes.src, attributes.alt]
+		.filter((source) => source !== undefined)
+		.map((source) => substituteVariables(source, context));
+	for (const src of sources) {
+		const fragment = await includeFragment(src, context, rendering.options);
+		if (fragment !== undefined) return fragment;
 	}
+	if (attributes.onerror === "continue" || rendering.attempts === 0) return "";
+	throw new ESIIncludeError(`ESI include ${sources[0] ?? ""} failed`);
 }
 
-function processIncludeTag(tag: ESITag, context: VCLContext): string {
-	if (!tag.attributes?.src) {
+// includeFragment fetches one include, unless the request is already nested
+// MAX_ESI_DEPTH deep or its tree of fragments has used up MAX_ESI_INCLUDES; a
+// dropped include leaves nothing in its place, and a failed one is undefined.
+async function includeFragment(
+	src: string,
+	context: VCLContext,
+	options: ESIOptions,
+): Promise<string | undefined> {
+	if (!options.fetchInclude) return "";
+	if ((context.req.esi_level ?? 0) >= MAX_ESI_DEPTH) {
+		logError(`ESI include ${src} dropped: includes nest at most ${MAX_ESI_DEPTH} levels deep`);
 		return "";
 	}
-
+	context.esiIncludes ??= { count: 0 };
+	if (context.esiIncludes.count >= MAX_ESI_INCLUDES) {
+		logError(
+			`ESI include ${src} dropped: a request may fetch at most ${MAX_ESI_INCLUDES} includes`,
+		);
+		return "";
+	}
+	context.esiIncludes.count++;
 	try {
-		const includedContent = fetchResource(tag.attributes.src, context);
-		return processESI(includedContent, context);
+		return await options.fetchInclude(src);
 	} catch (error) {
 		const err = error as Error;
 		logError(`Error processing ESI include: ${err.message}`);
-		return "";
+		return undefined;
 	}
 }
 
-function processChooseTag(tag: ESITag, context: VCLContext): string {
-	if (!tag.children) {
-		return "";
-	}
+/** The value of an ESI variable or expression operand. */
+type ESIValue = string | number | boolean;
 
-	for (const child of tag.children) {
-		if (child.type === ESITagType.WHEN && evaluateCondition(child.attributes?.test, context)) {
-			return child.content || "";
-		}
-		if (child.type === ESITagType.OTHERWISE) {
-			return child.content || "";
-		}
-	}
+const VARIABLE = /\$\(([A-Z_]+)(?:\{([^}]*)\})?\)/g;
 
-	return "";
+/** Replace each $(NAME) or $(NAME{key}) in `text` with the variable's value. */
+export function substituteVariables(text: string, context: VCLContext): string {
+	return text.replace(VARIABLE, (_, name: string, key: string | undefined) =>
+		String(variableValue(name, key, context)),
+	);
 }
 
-function evaluateCondition(condition: string | undefined, context: VCLContext): boolean {
-	if (!condition) {
-		return false;
-	}
-
-	const cookieConditionRegex = /\$\(HTTP_COOKIE{([^}]+)}\)\s*==\s*['"]([^'"]+)['"]/;
-	const cookieMatch = condition.match(cookieConditionRegex);
-
-	if (cookieMatch) {
-		const cookieName = cookieMatch[1];
-		const expectedValue = cookieMatch[2];
-
-		if (context.req.http.Cookie) {
-			const cookieRegex = new RegExp(`${cookieName}=([^;]+)`);
-			const match = context.req.http.Cookie.match(cookieRegex);
-			return match ? match[1] === expectedValue : false;
+// variableValue looks up an ESI 1.0 variable. HTTP_ACCEPT_LANGUAGE{lang} is
+// whether the client accepts the language, and HTTP_USER_AGENT{browser},
+// {os} and {version} classify the client as the specification does. Other
+// HTTP_ names read the request header they spell, and an unknown variable or
+// key is empty.
+function variableValue(name: string, key: string | undefined, context: VCLContext): ESIValue {
+	key = key?.replace(/^(['"])(.*)\1$/, "$2");
+	switch (name) {
+		case "QUERY_STRING": {
+			const query = context.req.url.split("?").slice(1).join("?");
+			return key === undefined ? query : (new URLSearchParams(query).get(key) ?? "");
+		}
+		case "HTTP_COOKIE": {
+			const cookie = headerValue(context.req.http, "cookie") ?? "";
+			if (key === undefined) return cookie;
+			for (const pair of cookie.split(";")) {
+				const [cookieName, ...value] = pair.split("=");
+				if (cookieName?.trim() === key) return value.join("=").trim();
+			}
+			return "";
+		}
+		case "HTTP_ACCEPT_LANGUAGE": {
+			const header = headerValue(context.req.http, "accept-language") ?? "";
+			if (key === undefined) return header;
+			const wanted = key.toLowerCase();
+			return header
+				.split(",")
+				.map((range) => range.split(";")[0]!.trim().toLowerCase())
+				.some((language) => language === wanted || language.startsWith(`${wanted}-`));
+		}
+		case "HTTP_USER_AGENT": {
+			const agent = headerValue(context.req.http, "user-agent") ?? "";
+			if (key === "browser") {
+				if (/MSIE|Trident\//.test(agent)) return "MSIE";
+				return /Mozilla\//.test(agent) ? "MOZILLA" : "OTHER";
+			}
+			if (key === "os") {
+				if (/Windows|Win32|Win64/.test(agent)) return "WIN";
+				if (/Mac/.test(agent)) return "MAC";
+				return /Linux|X11|BSD|SunOS|Unix/.test(agent) ? "UNIX" : "OTHER";
+			}
+			if (key === "version") {
+				const version = agent.match(/MSIE ([\d.]+)/) ?? agent.match(/^[^/\s]+\/([\d.]+)/);
+				return version?.[1] ?? "";
+			}
+			return key === undefined ? agent : "";
+		}
+		default: {
+			if (!name.startsWith("HTTP_") || key !== undefined) return "";
+			return headerValue(context.req.http, name.slice(5).toLowerCase().replace(/_/g, "-")) ?? "";
 		}
-		return false;
 	}
-
-	return false;
 }
 
-function processComments(content: string): string {
-	return content.replace(/<esi:comment[^>]*?(?:\/>|>.*?<\/esi:comment>)/gs, "");
-}
-
-function processRemoveTags(content: string): string {
-	return content.replace(/<esi:remove>.*?<\/esi:remove>/gs, "");
+type ExpressionToken = { kind: "operator"; text: string } | { kind: "value"; value: ESIValue };
+
+const EXPRESSION_TOKEN =
+	/\s*(?:(==|!=|<=|>=|[<>&|!()])|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|(-?\d+(?:\.\d+)?)|\$\(([A-Z_]+)(?:\{([^}]*)\})?\)|(true|false))/y;
+
+function tokenizeExpression(test: string, context: VCLContext): ExpressionToken[] {
+	const tokens: ExpressionToken[] = [];
+	EXPRESSION_TOKEN.lastIndex = 0;
+	while (EXPRESSION_TOKEN.lastIndex < test.length) {
+		if (/^\s*$/.test(test.slice(EXPRESSION_TOKEN.lastIndex))) break;
+		const start = EXPRESSION_TOKEN.lastIndex;
+		const match = EXPRESSION_TOKEN.exec(test);
+		if (!match) throw new Error(`unexpected "${test.slice(start).trim()}"`);
+		const [, operator, single, double, number, variable, key, boolean] = match;
+		if (operator !== undefined) tokens.push({ kind: "operator", text: operator });
+		else if (single !== undefined || double !== undefined)
+			tokens.push({ kind: "value", value: (single ?? double ?? "").replace(/\\(.)/g, "$1") });
+		else if (number !== undefined) tokens.push({ kind: "value", value: Number(number) });
+		else if (variable !== undefined)
+			tokens.push({ kind: "value", value: variableValue(variable, key, context) });
+		else tokens.push({ kind: "value", value: boolean === "true" });
+	}
+	return tokens;
 }
 
-function processChooseTags(content: string, context: VCLContext): string {
-	const chooseRegex = /<esi:choose>([\s\S]*?)<\/esi:choose>/g;
-	const whenRegex = /<esi:when test="([^"]*)">([\s\S]*?)<\/esi:when>/g;
-	const otherwiseRegex = /<esi:otherwise>([\s\S]*?)<\/esi:otherwise>/g;
-
-	return content.replace(chooseRegex, (chooseBlock): string => {
-		whenRegex.lastIndex = 0;
-		let whenMatch;
-
-		while ((whenMatch = whenRegex.exec(chooseBlock)) !== null) {
-			if (evaluateCondition(whenMatch[1], context)) {
-				return whenMatch[2] ?? "";
-			}
-		}
-
-		const otherwiseMatch = otherwiseRegex.exec(chooseBlock);
-		return otherwiseMatch ? (otherwiseMatch[1] ?? "") : "";
-	});
+function truthy(value: ESIValue): boolean {
+	if (typeof value === "number") return value !== 0;
+	return typeof value === "string" ? value !== "" : value;
 }
 
-function processIncludeTags(content: string, context: VCLContext): string {
-	const includeRegex = /<esi:include\s+src="([^"]*)"(?:\s+[^>]*)?\/>/g;
-	return content.replace(includeRegex, (_match, src) => fetchResource(src, context));
+// Operands compare as numbers when both read as one, and as strings otherwise.
+function compare(left: ESIValue, operator: string, right: ESIValue): boolean {
+	const numeric = (value: ESIValue) =>
+		typeof value === "number" || (typeof value === "string" && /^\s*-?\d+(\.\d+)?\s*$/.test(value));
+	const [a, b] =
+		numeric(left) && numeric(right) ? [Number(left), Number(right)] : [String(left), String(right)];
+	switch (operator) {
+		case "==":
+			return a === b;
+		case "!=":
+			return a !== b;
+		case "<":
+			return a < b;
+		case ">":
+			return a > b;
+		case "<=":
+			return a <= b;
+		default:
+			return a >= b;
+	}
 }
 
-function fetchResource(url: string, _context: VCLContext): string {
-	if (url === "/header") {
-		return `<header>
-      <nav>
-        <ul>
-          <li><a href="/">Home</a></li>
-          <li><a href="/about">About</a></li>
-          <li><a href="/contact">Contact</a></li>
-        </ul>
-      </nav>
-    </header>`;
+/**
+ * Evaluate an esi:when test: comparisons with == != < > <= >=, combined with
+ * & and |, negated with !, and grouped with parentheses, over string and
+ * number literals and ESI variables. & binds tighter than |. A test that does
+ * not parse is logged and false.
+ */
+export function evaluateESIExpression(test: string, context: VCLContext): boolean {
+	let tokens: ExpressionToken[];
+	try {
+		tokens = tokenizeExpression(test, context);
+	} catch (error) {
+		logError(`Invalid ESI test "${test}": ${(error as Error).message}`);
+		return false;
 	}
-	if (url === "/footer") {
-		return `<footer>
-      <p>&copy; 2023 Example Company</p>
-    </footer>`;
+	let position = 0;
+	const peek = () => {
+		const token = tokens[position];
+		return token?.kind === "operator" ? token.text : undefined;
+	};
+	const expect = (text: string) => {
+		if (peek() !== text) throw new Error(`expected "${text}"`);
+		position++;
+	};
+
+	const operand = (): ESIValue => {
+		const token = tokens[position++];
+		if (token?.kind === "value") return token.value;
+		if (token?.text === "(") {
+			const value = or();
+			expect(")");
+			return value;
+		}
+		if (token?.text === "!") return !truthy(operand());
+		throw new Error(token ? `unexpected "${token.text}"` : "unexpected end of test");
+	};
+	const comparison = (): ESIValue => {
+		const left = operand();
+		const operator = peek();
+		if (operator === undefined || !["==", "!=", "<", ">", "<=", ">="].includes(operator)) {
+			return left;
+		}
+		position++;
+		return compare(left, operator, operand());
+	};
+	const and = (): ESIValue => {
+		let value = comparison();
+		while (peek() === "&") {
+			position++;
+			const right = comparison();
+			value = truthy(value) && truthy(right);
+		}
+		return value;
+	};
+	const or = (): ESIValue => {
+		let value = and();
+		while (peek() === "|") {
+			position++;
+			const right = and();
+			value = truthy(value) || truthy(right);
+		}
+		return value;
+	};
+
+	try {
+		const value = or();
+		if (position < tokens.length) throw new Error("unexpected input after the test");
+		return truthy(value);
+	} catch (error) {
+		logError(`Invalid ESI test "${test}": ${(error as Error).message}`);
+		return false;
 	}
-	return `<!-- ESI include for ${url} -->`;
 }
@@ -0,0 +1,832 @@
+// VCL formatter: re-emits a program in one canonical layout, so formatting is
+// never a matter of taste. Structure comes from the AST; the exact spelling of
+// literals (long strings, hex numbers, percent escapes) and of declaration
+// values is copied from the source tokens, so parsing the output yields the same
+// AST. Comments are not in the AST below the top level; they are taken from the
+// token stream and re-attached by position: a comment on its own line stays above
+// the node that follows it in the same block, or at the end of the block when
+// nothing follows, and one sharing a line with a node stays at the end of that
+// node's line.
+
+import { buildDiagnostic, VCLDiagnosticError } from "./diagnostics";
+import {
+	type Token,
+	TokenType,
+	type VCLACL,
+	type VCLBackendDeclaration,
+	type VCLBackendProperty,
+	type VCLBlockStatement,
+	type VCLCallStatement,
+	type VCLDeclareStatement,
+	type VCLDirectorDeclaration,
+	type VCLErrorStatement,
+	type VCLExpression,
+	type VCLIfStatement,
+	type VCLNode,
+	type VCLProgram,
+	type VCLReturnStatement,
+	type VCLStatement,
+	type VCLSubroutine,
+	type VCLSwitchCase,
+	type VCLSwitchStatement,
+	type VCLTableDeclaration,
+	VCLLexer,
+} from "./vcl-parser";
+import { VCLParser } from "./vcl-parser-impl";
+
+export interface VCLFormatOptions {
+	/** Spaces per indentation level (default 2). Ignored when `useTabs` is set. */
+	indentWidth?: number;
+	/** Indent with one tab per level. */
+	useTabs?: boolean;
+}
+
+// formatVCL returns `source` in canonical layout. A program that does not parse
+// throws a VCLDiagnosticError listing every syntax error.
+export function formatVCL(source: string, options: VCLFormatOptions = {}): string {
+	let tokens: Token[];
+	try {
+		tokens = new VCLLexer(source).tokenize();
+	} catch (error) {
+		throw new VCLDiagnosticError(buildDiagnostic(error as Error, source));
+	}
+	const { program, diagnostics } = new VCLParser(tokens, source).parseWithRecovery();
+	if (diagnostics.length > 0) {
+		throw new VCLDiagnosticError(diagnostics);
+	}
+	return new VCLFormatter(source, tokens, program, options).format();
+}
+
+// Binding strength of each binary operator, as the parser's precedence climbing
+// assigns it; " " is implicit concatenation, the tightest.
+const PRECEDENCE: Record<string, number> = {
+	"||": 1,
+	"&&": 2,
+	"==": 3,
+	"!=": 3,
+	">": 4,
+	">=": 4,
+	"<": 4,
+	"<=": 4,
+	"~": 5,
+	"!~": 5,
+	"+": 6,
+	"-": 6,
+	"*": 7,
+	"/": 7,
+	"%": 7,
+	" ": 8,
+};
+const PRIMARY = 9;
+
+/** A comment, or a line the AST does not keep (`pragma`, `vcl 4.0;`, a nested `include`). */
+interface Trivia {
+	index: number;
+	line: number;
+	text: string;
+	comment: boolean;
+}
+
+/** A member of a declaration or block, printed in source order. */
+interface Member {
+	index: number | undefined;
+	print: (depth: number, limit: number) => void;
+	/** One-line declaration (`include`, `import`) kept together with its neighbours. */
+	grouped?: boolean;
+}
+
+class VCLFormatter {
+	private readonly tokens: Token[];
+	private readonly lines: string[];
+	private readonly unit: string;
+	private readonly out: string[] = [];
+	private readonly tokenIndex = new Map<string, number>();
+	/** Index of each `{` punctuation token's matching `}`. */
+	private readonly closing = new Map<number, number>();
+	private readonly trivia: Trivia[] = [];
+	private nextTrivia = 0;
+
+	constructor(
+		private readonly source: string,
+		tokens: Token[],
+		private readonly program: VCLProgram,
+		options: VCLFormatOptions,
+	) {
+		this.tokens = tokens.filter((token) => token.type !== TokenType.WHITESPACE);
+		this.lines = source.split("\n");
+		this.unit = options.useTabs ? "\t" : " ".repeat(options.indentWidth ?? 2);
+		const open: number[] = [];
+		for (let i = 0; i < this.tokens.length; i++) {
+			const token = this.tokens[i]!;
+			this.tokenIndex.set(`${token.line}:${token.column}`, i);
+			if (token.type !== TokenType.PUNCTUATION) continue;
+			if (token.value === "{") open.push(i);
+			if (token.value === "}" && open.length > 0) this.closing.set(open.pop()!, i);
+		}
+		this.collectTrivia();
+	}
+
+	format(): string {
+		const declarations: Member[] = [
+			...this.program.includes.map((include) => ({
+				...this.member(include, (depth) => this.line(depth, `include "${include.module}";`)),
+				grouped: true,
+			})),
+			...this.program.imports.map((imported) => ({
+				...this.member(imported, (depth) => this.line(depth, `import ${imported.module};`)),
+				grouped: true,
+			})),
+			...this.program.acls.map((acl) =>
+				this.member(acl, (depth) => this.acl(acl, depth), this.keywordBefore(acl)),
+			),
+			...this.program.tables.map((table) =>
+				this.member(table, (depth) => this.table(table, depth)),
+			),
+			...this.program.backends.map((backend) =>
+				this.member(backend, (depth) => this.backend(backend, depth)),
+			),
+			...this.program.directors.map((director) =>
+				this.member(director, (depth) => this.director(director, depth)),
+			),
+			...this.program.penaltyboxes.map((box) =>
+				this.member(box, (depth) => this.emptyDeclaration("penaltybox", box, depth)),
+			),
+			...this.program.ratecounters.map((counter) =>
+				this.member(counter, (depth) => this.emptyDeclaration("ratecounter", counter, depth)),
+			),
+			...this.program.subroutines.map((sub) =>
+				this.member(sub, (depth) => this.subroutine(sub, depth), this.keywordBefore(sub)),
+			),
+		].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+		for (let i = 0; i < declarations.length; i++) {
+			const declaration = declarations[i]!;
+			// Declarations are always separated by one blank line, except for runs of
+			// includes and imports; comments directly above a declaration stay attached
+			// to it.
+			if (i > 0 && !(declaration.grouped && declarations[i - 1]!.grouped)) this.blankLine();
+			this.flushTrivia(declaration.index ?? 0, 0);
+			if (declaration.index !== undefined) {
+				this.preserveBlankLine(this.tokens[declaration.index]!.line);
+			}
+			declaration.print(0, declarations[i + 1]?.index ?? this.tokens.length);
+		}
+		if (this.nextTrivia < this.trivia.length && this.out.length > 0) this.blankLine();
+		this.flushTrivia(this.tokens.length, 0);
+		return this.out.length > 0 ? `${this.out.join("\n")}\n` : "";
+	}
+
+	// ---- Declarations ----
+
+	private subroutine(sub: VCLSubroutine, depth: number): void {
+		const params = sub.params
+			? `(${sub.params.map((param) => `${param.paramType} ${param.name}`).join(", ")})`
+			: "";
+		const returnType = sub.returnType ? ` ${sub.returnType}` : "";
+		this.block(depth, `sub ${sub.name}${params}${returnType}`, this.openBraceAfter(sub), (end) =>
+			this.statements(sub.body, depth + 1, end),
+		);
+	}
+
+	private acl(acl: VCLACL, depth: number): void {
+		this.block(depth, `acl ${acl.name}`, this.openBraceAfter(acl), (end) =>
+			this.members(
+				acl.entries.map((entry) => {
+					const index = this.indexOf(entry);
+					const start = entry.negated && index !== undefined ? index - 1 : index;
+					return {
+						index: start,
+						print: (entryDepth: number, next: number) => {
+							const prefix = entry.negated ? "!" : "";
+							const subnet = entry.subnet !== undefined ? `/${entry.subnet}` : "";
+							this.line(entryDepth, `${prefix}"${entry.ip}"${subnet};`);
+							if (index !== undefined) this.trailing(this.tokens[index]!.line, next);
+						},
+					};
+				}),
+				depth + 1,
+				end,
+			),
+		);
+	}
+
+	private table(table: VCLTableDeclaration, depth: number): void {
+		const valueType = table.valueType ? ` ${table.valueType}` : "";
+		this.block(depth, `table ${table.name}${valueType}`, this.openBraceAfter(table), (end) =>
+			this.members(
+				table.entries.map((entry, i) => {
+					const index = this.indexOf(entry);
+					return {
+						index,
+						print: (entryDepth: number, next: number) => {
+							const key = index !== undefined ? this.text(index) : `"${entry.key}"`;
+							const value =
+								index !== undefined
+									? this.join(index + 2, this.valueEnd(index + 2, [",", "}"]))
+									: entry.value;
+							const comma = i < table.entries.length - 1 ? "," : "";
+							this.line(entryDepth, `${key}: ${value}${comma}`);
+							if (index !== undefined) this.trailing(this.tokens[index]!.line, next);
+						},
+					};
+				}),
+				depth + 1,
+				end,
+			),
+		);
+	}
+
+	private backend(backend: VCLBackendDeclaration, depth: number): void {
+		this.block(depth, `backend ${backend.name}`, this.openBraceAfter(backend), (end) =>
+			this.members(
+				backend.properties.map((property) => this.property(property)),
+				depth + 1,
+				end,
+			),
+		);
+	}
+
+	// A director body is laid out from its tokens rather than the AST, which
+	// keeps only the backend entries it understands; anything else must still
+	// survive formatting.
+	private director(director: VCLDirectorDeclaration, depth: number): void {
+		const open = this.openBraceAfter(director);
+		const header = `director ${director.name} ${director.directorType}`;
+		this.block(depth, header, open, (end) => {
+			if (open === undefined || end === undefined) return;
+			const members: Member[] = [];
+			let i = open + 1;
+			while (i < end) {
+				const start = i;
+				if (this.isPunctuation(i, "{")) {
+					const close = this.closing.get(i) ?? end;
+					const fields = this.segments(start + 1, close);
+					members.push({
+						index: start,
+						print: (entryDepth) => this.line(entryDepth, fields ? `{ ${fields} }` : "{}"),
+					});
+					i = close + 1;
+				} else if (this.isPunctuation(i, ".")) {
+					const stop = this.valueEnd(i, [";", "{", "}"]);
+					const field = this.segments(start, stop);
+					members.push({ index: start, print: (fieldDepth) => this.line(fieldDepth, field) });
+					i = this.isPunctuation(stop, ";") ? stop + 1 : stop;
+				} else {
+					i++;
+				}
+			}
+			this.members(members, depth + 1, end);
+		});
+	}
+
+	private emptyDeclaration(keyword: string, node: VCLNode & { name: string }, depth: number) {
+		const open = this.openBraceAfter(node);
+		this.block(depth, `${keyword} ${node.name}`, open, (end) => {
+			if (open === undefined || end === undefined) return;
+			const body = this.join(open + 1, end);
+			if (body) this.line(depth + 1, body);
+		});
+	}
+
+	/** `.name = value;`, with a probe as a nested block. */
+	private property(property: VCLBackendProperty): Member {
+		const index = this.indexOf(property);
+		return {
+			index: index !== undefined ? index - 1 : undefined,
+			print: (depth: number) => {
+				const head = `.${property.name} =`;
+				const value = property.value;
+				if (typeof value === "object") {
+					const open = index !== undefined ? index + 2 : undefined;
+					this.block(depth, head, open, (end) =>
+						this.members(
+							value.properties.map((nested) => this.property(nested)),
+							depth + 1,
+							end,
+						),
+					);
+					return;
+				}
+				if (index === undefined) {
+					this.line(depth, `${head} ${typeof value === "number" ? value : `"${value}"`};`);
+					return;
+				}
+				const start = index + 2;
+				const end = this.valueEnd(start, [";", "}"]);
+				const strings = this.codeTokens(start, end);
+				// A probe request is written as one string per request line.
+				if (strings.length > 1 && strings.every((i) => this.tokens[i]!.type === TokenType.STRING)) {
+					this.line(depth, head);
+					strings.forEach((i, n) =>
+						this.line(depth + 1, `${this.text(i)}${n === strings.length - 1 ? ";" : ""}`),
+					);
+					return;
+				}
+				this.line(depth, `${head} ${this.join(start, end)};`);
+			},
+		};
+	}
+
+	// ---- Statements ----
+
+	private statements(statements: VCLStatement[], depth: number, limit?: number): void {
+		this.members(
+			statements
+				// Comment-only and pragma statements come back as trivia.
+				.filter((statement) => statement.type !== "Statement")
+				.map((statement) => ({
+					index: this.indexOf(statement),
+					print: (statementDepth: number, next: number) =>
+						this.statement(statement, statementDepth, next),
+				})),
+			depth,
+			limit,
+		);
+	}
+
+	private statement(statement: VCLStatement, depth: number, limit: number): void {
+		switch (statement.type) {
+			case "IfStatement":
+				this.ifStatement(statement as VCLIfStatement, depth, "", limit);
+				return;
+			case "SwitchStatement":
+				this.switchStatement(statement as VCLSwitchStatement, depth);
+				return;
+			case "BlockStatement": {
+				const block = statement as VCLBlockStatement;
+				this.block(depth, "", this.indexOf(block), (end) =>
+					this.statements(block.body, depth + 1, end),
+				);
+				return;
+			}
+			case "LabelStatement":
+				this.line(depth, `${statement.name}:`);
+				return;
+		}
+		this.line(depth, this.simpleStatement(statement));
+		const index = this.indexOf(statement);
+		if (index !== undefined) this.trailing(this.tokens[index]!.line, limit);
+	}
+
+	private simpleStatement(statement: VCLStatement): string {
+		switch (statement.type) {
+			case "SetStatement":
+				return `set ${statement.target} ${statement.operator ?? "="} ${this.expression(statement.value)};`;
+			case "UnsetStatement":
+				return `unset ${statement.target};`;
+			case "AddStatement":
+				return `add ${statement.target} = ${this.expression(statement.value)};`;
+			case "RemoveStatement":
+				return `remove ${statement.target};`;
+			case "CallStatement": {
+				const call = statement as VCLCallStatement;
+				const args =
+					call.arguments.length > 0
+						? `(${call.arguments.map((arg) => this.expression(arg)).join(", ")})`
+						: "";
+				return `call ${call.subroutineName}${args};`;
+			}
+			case "ReturnStatement": {
+				const ret = statement as VCLReturnStatement;
+				if (ret.value) return `return ${this.expression(ret.value)};`;
+				return ret.argument ? `return(${ret.argument});` : "return;";
+			}
+			case "ErrorStatement": {
+				const error = statement as VCLErrorStatement;
+				const parts = ["error"];
+				if (error.status) parts.push(this.expression(error.status, PRIMARY));
+				if (error.message) parts.push(this.expression(error.message));
+				return `${parts.join(" ")};`;
+			}
+			case "DeclareStatement": {
+				const declare = statement as VCLDeclareStatement;
+				const init = declare.initialValue ? ` = ${this.expression(declare.initialValue)}` : "";
+				return `declare local ${declare.variableName} ${declare.variableType}${init};`;
+			}
+			case "LogStatement": {
+				const message = this.expression(statement.message);
+				const index = this.indexOf(statement);
+				// `std.log(...)` and the bare `log ...` parse to the same statement.
+				return index !== undefined && this.tokens[index]!.value === "std.log"
+					? `std.log(${message});`
+					: `log ${message};`;
+			}
+			case "SyntheticStatement":
+				return statement.expression
+					? `synthetic ${this.expression(statement.expression)};`
+					: `synthetic ${statement.content};`;
+			case "SyntheticBase64Statement":
+				return `synthetic.base64 ${this.expression(statement.content)};`;
+			case "HashDataStatement":
+				return `hash_data(${this.expression(statement.value)});`;
+			case "EsiStatement":
+				return "esi;";
+			case "RestartStatement":
+				return "restart;";
+			case "GotoStatement":
+				return `goto ${statement.label};`;
+			case "ExpressionStatement":
+				return `${this.expression(statement.expression)};`;
+			case "Assignment":
+				return `set ${statement.left.name} = ${this.expression(statement.right)};`;
+			default:
+				return "";
+		}
+	}
+
+	private ifStatement(statement: VCLIfStatement, depth: number, prefix: string, limit: number) {
+		const index = this.indexOf(statement);
+		let open = index !== undefined ? this.findPunctuation(index, "{") : undefined;
+		// A brace-less body has no block of its own; don't borrow a later one.
+		const first = statement.consequent.find((child) => child.type !== "Statement");
+		const firstIndex = first ? this.indexOf(first) : undefined;
+		if (open !== undefined && firstIndex !== undefined && open > firstIndex) open = undefined;
+		const end = open !== undefined ? this.closing.get(open) : undefined;
+
+		this.line(depth, `${prefix}if (${this.expression(statement.test)}) {`);
+		if (open !== undefined) this.trailing(this.tokens[open]!.line, firstIndex ?? end ?? limit);
+		this.statements(statement.consequent, depth + 1, end);
+		// Comments after the last statement belong to this branch, not the next.
+		if (end !== undefined) this.flushTrivia(end, depth + 1);
+
+		const alternate = statement.alternate;
+		// `else` follows the consequent's closing brace on its line, unless comments
+		// sit between the two; those stay between them, above an `else` of its own.
+		let elsePrefix = "} else";
+		const elseIndex = end !== undefined ? this.nextCode(end + 1) : undefined;
+		if (alternate && end !== undefined && elseIndex !== undefined && elseIndex > end + 1) {
+			this.line(depth, "}");
+			this.trailing(this.tokens[end]!.line, elseIndex);
+			this.flushTrivia(elseIndex, depth);
+			elsePrefix = "else";
+		}
+		if (alternate && alternate.length === 1 && alternate[0]!.type === "IfStatement") {
+			this.ifStatement(alternate[0] as VCLIfStatement, depth, `${elsePrefix} `, limit);
+			return;
+		}
+		if (alternate) {
+			const elseOpen = end !== undefined ? this.findPunctuation(end + 1, "{") : undefined;
+			const elseEnd = elseOpen !== undefined ? this.closing.get(elseOpen) : undefined;
+			this.line(depth, `${elsePrefix} {`);
+			if (elseOpen !== undefined) this.trailing(this.tokens[elseOpen]!.line, elseEnd ?? limit);
+			this.statements(alternate, depth + 1, elseEnd);
+			if (elseEnd !== undefined) this.flushTrivia(elseEnd, depth + 1);
+			this.line(depth, "}");
+			if (elseEnd !== undefined) this.trailing(this.tokens[elseEnd]!.line, limit);
+			return;
+		}
+		this.line(depth, "}");
+		if (end !== undefined) this.trailing(this.tokens[end]!.line, limit);
+	}
+
+	private switchStatement(statement: VCLSwitchStatement, depth: number): void {
+		const index = this.indexOf(statement);
+		const open = index !== undefined ? this.findPunctuation(index, "{") : undefined;
+		this.block(depth, `switch (${this.expression(statement.subject)})`, open, (end) =>
+			this.members(
+				statement.cases.map((switchCase) => ({
+					index: this.indexOf(switchCase),
+					print: (caseDepth: number, next: number) => this.switchCase(switchCase, caseDepth, next),
+				})),
+				depth + 1,
+				end,
+			),
+		);
+	}
+
+	private switchCase(switchCase: VCLSwitchCase, depth: number, limit: number): void {
+		const index = this.indexOf(switchCase);
+		const label =
+			switchCase.test === null
+				? "default:"
+				: `case ${switchCase.regex ? "~" : ""}${this.expression(switchCase.test)}:`;
+		this.line(depth, label);
+		const terminator = index !== undefined ? this.caseTerminator(index) : undefined;
+		if (index !== undefined) this.trailing(this.tokens[index]!.line, terminator ?? limit);
+		this.statements(switchCase.body, depth + 1, terminator);
+		if (terminator !== undefined) this.flushTrivia(terminator, depth + 1);
+		this.line(depth + 1, switchCase.fallthrough ? "fallthrough;" : "break;");
+		if (terminator !== undefined) this.trailing(this.tokens[terminator]!.line, limit);
+	}
+
+	// ---- Expressions ----
+
+	/** Render an expression, parenthesized if it binds looser than `minPrecedence`. */
+	private expression(expression: VCLExpression, minPrecedence = 0): string {
+		switch (expression.type) {
+			case "BinaryExpression": {
+				const precedence = PRECEDENCE[expression.operator] ?? PRECEDENCE["+"]!;
+				const left = this.expression(expression.left, precedence);
+				// Every binary operator is left-associative.
+				const right = this.expression(expression.right, precedence + 1);
+				const text =
+					expression.operator === " "
+						? `${left} ${right}`
+						: `${left} ${expression.operator} ${right}`;
+				return precedence < minPrecedence ? `(${text})` : text;
+			}
+			case "UnaryExpression": {
+				let operand = this.expression(expression.operand, PRIMARY);
+				// `!!x` or `--x` would lex as a single operator, and `-5` as a literal.
+				if (/^[-!]/.test(operand) || /^(Number|RTime)Literal$/.test(expression.operand.type)) {
+					operand = `(${operand})`;
+				}
+				return `${expression.operator}${operand}`;
+			}
+			case "TernaryExpression":
+				return `if(${this.expression(expression.condition)}, ${this.expression(expression.trueExpr)}, ${this.expression(expression.falseExpr)})`;
+			case "FunctionCall":
+				return `${expression.name}(${expression.arguments.map((arg) => this.expression(arg)).join(", ")})`;
+			case "MemberAccess":
+				return `${this.expression(expression.object, PRIMARY)}.${expression.property}`;
+			case "Identifier":
+				return expression.name;
+			case "StringLiteral": {
+				const index = this.indexOf(expression);
+				if (index !== undefined && this.tokens[index]!.type === TokenType.STRING) {
+					return this.text(index);
+				}
+				return quote(expression.value);
+			}
+			case "NumberLiteral": {
+				const index = this.indexOf(expression);
+				if (index !== undefined && this.tokens[index]!.type === TokenType.NUMBER) {
+					return (
+						(expression.value < 0 || Object.is(expression.value, -0) ? "-" : "") + this.text(index)
+					);
+				}
+				const text = String(expression.value);
+				return expression.isFloat && Number.isInteger(expression.value) ? `${text}.0` : text;
+			}
+			case "RTimeLiteral":
+				return expression.raw;
+			case "BoolLiteral":
+				return String(expression.value);
+			case "RegexLiteral":
+				return quote(expression.pattern);
+		}
+	}
+
+	// ---- Layout ----
+
+	/**
+	 * Print `header {`, the body, and `}`; an empty body collapses to `header {}`.
+	 * `open` is the index of the block's `{` token, from which the body's comments
+	 * and the closing brace's position are found.
+	 */
+	private block(
+		depth: number,
+		header: string,
+		open: number | undefined,
+		body: (end: number | undefined) => void,
+	): void {
+		const end = open !== undefined ? this.closing.get(open) : undefined;
+		const opening = header ? `${header} {` : "{";
+		this.line(depth, opening);
+		const mark = this.out.length;
+		if (open !== undefined) this.trailing(this.tokens[open]!.line, this.nextCode(open + 1));
+		body(end);
+		if (end !== undefined) this.flushTrivia(end, depth + 1);
+		if (this.out.length === mark) {
+			this.out[mark - 1] = `${this.indent(depth)}${opening}}`;
+		} else {
+			this.line(depth, "}");
+		}
+		if (end !== undefined) this.trailing(this.tokens[end]!.line, this.tokens.length);
+	}
+
+	/** Print members in order, each preceded by the comments before it. */
+	private members(members: Member[], depth: number, limit: number | undefined): void {
+		for (let i = 0; i < members.length; i++) {
+			const member = members[i]!;
+			const next = members[i + 1]?.index ?? limit ?? this.tokens.length;
+			if (member.index !== undefined) {
+				this.flushTrivia(member.index, depth);
+				this.preserveBlankLine(this.tokens[member.index]!.line);
+			}
+			member.print(depth, next);
+		}
+	}
+
+	private member(node: VCLNode, print: (depth: number) => void, start?: number): Member {
+		return { index: start ?? this.indexOf(node), print };
+	}
+
+	/** Emit every comment and verbatim line that comes before token `index`. */
+	private flushTrivia(index: number, depth: number): void {
+		while (this.nextTrivia < this.trivia.length && this.trivia[this.nextTrivia]!.index < index) {
+			const item = this.trivia[this.nextTrivia++]!;
+			this.preserveBlankLine(item.line);
+			this.line(depth, item.text);
+		}
+	}
+
+	/** Append the next comment to the last line if it sits on `line`, before token `limit`. */
+	private trailing(line: number, limit: number): void {
+		const item = this.trivia[this.nextTrivia];
+		if (!item || !item.comment || item.index >= limit || item.line !== line) return;
+		if (item.text.includes("\n")) return;
+		this.nextTrivia++;
+		this.out[this.out.length - 1] += ` ${item.text}`;
+	}
+
+	/** Keep one blank line where the source had one before `line`. */
+	private preserveBlankLine(line: number): void {
+		const previous = this.out[this.out.length - 1];
+		if (previous === undefined || previous === "" || /[{:]$/.test(previous)) return;
+		if (this.lines[line - 2]?.trim() === "") this.out.push("");
+	}
+
+	private blankLine(): void {
+		if (this.out.length > 0 && this.out[this.out.length - 1] !== "") this.out.push("");
+	}
+
+	private line(depth: number, text: string): void {
+		this.out.push(`${this.indent(depth)}${text}`);
+	}
+
+	private indent(depth: number): string {
+		return this.unit.repeat(depth);
+	}
+
+	// ---- Tokens ----
+
+	private collectTrivia(): void {
+		let depth = 0;
+		for (let i = 0; i < this.tokens.length; i++) {
+			const token = this.tokens[i]!;
+			if (token.type === TokenType.COMMENT) {
+				this.trivia.push({
+					index: i,
+					line: token.line,
+					text: token.value.trimEnd(),
+					comment: true,
+				});
+				continue;
+			}
+			if (token.type === TokenType.PUNCTUATION && token.value === "{") depth++;
+			if (token.type === TokenType.PUNCTUATION && token.value === "}") depth--;
+			const verbatim =
+				(token.type === TokenType.KEYWORD && token.value === "pragma") ||
+				(token.type === TokenType.KEYWORD && token.value === "include" && depth > 0) ||
+				(token.type === TokenType.IDENTIFIER && token.value === "vcl" && depth === 0);
+			if (!verbatim) continue;
+			let end = i;
+			while (end < this.tokens.length - 1 && !this.isPunctuation(end, ";")) end++;
+			this.trivia.push({
+				index: i,
+				line: token.line,
+				text: this.join(i, end + 1),
+				comment: false,
+			});
+			i = end;
+		}
+	}
+
+	private indexOf(node: { location?: VCLNode["location"] }): number | undefined {
+		const location = node.location;
+		return location ? this.tokenIndex.get(`${location.line}:${location.column}`) : undefined;
+	}
+
+	/** The `sub`/`acl` keyword before a declaration located at its name. */
+	private keywordBefore(node: VCLNode): number | undefined {
+		const index = this.indexOf(node);
+		return index !== undefined && index > 0 && this.tokens[index - 1]!.type === TokenType.KEYWORD
+			? index - 1
+			: index;
+	}
+
+	private openBraceAfter(node: VCLNode): number | undefined {
+		const index = this.indexOf(node);
+		return index !== undefined ? this.findPunctuation(index, "{") : undefined;
+	}
+
+	private findPunctuation(from: number, value: string): number | undefined {
+		for (let i = from; i < this.tokens.length; i++) {
+			if (this.isPunctuation(i, value)) return i;
+		}
+		return undefined;
+	}
+
+	private isPunctuation(index: number, value: string): boolean {
+		const token = this.tokens[index];
+		return token?.type === TokenType.PUNCTUATION && token.value === value;
+	}
+
+	/** The `break`/`fallthrough` ending the case that starts at token `index`. */
+	private caseTerminator(index: number): number | undefined {
+		let depth = 0;
+		for (let i = index + 1; i < this.tokens.length; i++) {
+			const token = this.tokens[i]!;
+			if (token.type === TokenType.PUNCTUATION && token.value === "{") depth++;
+			if (token.type === TokenType.PUNCTUATION && token.value === "}") {
+				if (depth === 0) return undefined;
+				depth--;
+			}
+			if (
+				depth === 0 &&
+				token.type === TokenType.KEYWORD &&
+				(token.value === "break" || token.value === "fallthrough")
+			) {
+				return i;
+			}
+		}
+		return undefined;
+	}
+
+	/** The first token at or after `start` that is one of the `stops` punctuation. */
+	private valueEnd(start: number, stops: string[]): number {
+		let i = start;
+		while (
+			i < this.tokens.length - 1 &&
+			!stops.some((stop) => this.isPunctuation(i, stop)) &&
+			!(i > start && this.isPunctuation(i, "."))
+		) {
+			i++;
+		}
+		return i;
+	}
+
+	/** `.name = value;` fields between two token indexes, as one line. */
+	private segments(start: number, end: number): string {
+		const fields: string[] = [];
+		let i = start;
+		while (i < end) {
+			const stop = this.valueEnd(i, [";", "}"]);
+			const tokens = this.codeTokens(i, Math.min(stop, end));
+			if (tokens.length >= 3 && this.tokens[tokens[0]!]!.value === ".") {
+				const name = this.tokens[tokens[1]!]!.value;
+				fields.push(`.${name} = ${this.join(tokens[3] ?? stop, Math.min(stop, end))};`);
+			} else if (tokens.length > 0) {
+				fields.push(`${this.join(i, Math.min(stop, end))};`);
+			}
+			i = this.isPunctuation(stop, ";") ? stop + 1 : Math.max(stop, i + 1);
+		}
+		return fields.join(" ");
+	}
+
+	/** The first non-comment token at or after `index`. */
+	private nextCode(index: number): number {
+		let i = index;
+		while (i < this.tokens.length && this.tokens[i]!.type === TokenType.COMMENT) i++;
+		return i;
+	}
+
+	/** Indexes of the non-comment tokens in [start, end). */
+	private codeTokens(start: number, end: number): number[] {
+		const indexes: number[] = [];
+		for (let i = start; i < end; i++) {
+			if (this.tokens[i]!.type !== TokenType.COMMENT) indexes.push(i);
+		}
+		return indexes;
+	}
+
+	/** Source text of the tokens in [start, end), one space wherever the source had any. */
+	private join(start: number, end: number): string {
+		let text = "";
+		let previousEnd: number | undefined;
+		for (const i of this.codeTokens(start, end)) {
+			const position = this.tokens[i]!.position ?? 0;
+			if (previousEnd !== undefined && position !== previousEnd) text += " ";
+			text += this.text(i);
+			previousEnd = this.endOf(i);
+		}
+		return text;
+	}
+
+	/** A token exactly as written (the lexer decodes percent escapes in short strings). */
+	private text(index: number): string {
+		return this.source.slice(this.tokens[index]!.position ?? 0, this.endOf(index));
+	}
+
+	private endOf(index: number): number {
+		const token = this.tokens[index]!;
+		const start = token.position ?? 0;
+		if (token.type === TokenType.STRING) {
+			const quote = token.value[0]!;
+			// Long strings and synthetic blocks keep their source text as the value.
+			if (quote === "{") return start + token.value.length;
+			const triple = quote.repeat(3);
+			const closing = this.source.startsWith(triple, start)
+				? this.source.indexOf(triple, start + 3) + 3
+				: this.source.indexOf(quote, start + 1) + 1;
+			return closing > 0 ? closing : this.source.length;
+		}
+		if (token.type === TokenType.NUMBER && token.unit) {
+			// "60 s" is lexed as "60s".
+			const number = token.value.length - token.unit.length;
+			return this.source.indexOf(token.unit, start + number) + token.unit.length;
+		}
+		return start + token.value.length;
+	}
+}
+
+// quote writes a string value as a literal: a short string when it can be, a
+// long string when it holds a quote, a percent sign or a newline.
+function quote(value: string): string {
+	if (!/["%\n]/.test(value)) return `"${value}"`;
+	if (!value.includes('"}')) return `{"${value}"}`;
+	let delimiter = "X";
+	while (value.includes(`"${delimiter}}`)) delimiter += "X";
+	return `{${delimiter}"${value}"${delimiter}}`;
+}
@@ -0,0 +1,130 @@
+// Include resolution: `include "name";` is replaced by the named file's contents
+// before parsing, wherever it appears (top level or inside a subroutine body),
+// the way Fastly splices custom VCL and snippets together. Where the text comes
+// from is left to an IncludeResolver, so the engine itself stays platform-pure:
+// Node reads the filesystem (see node-loader.ts), the browser build resolves
+// from an in-memory map.
+
+import { formatLocation } from "./source-map";
+import { TokenType, type Token, VCLLexer } from "./vcl-parser";
+
+export interface ResolvedInclude {
+	/** Canonical name of the included file, used for cycle detection and markers. */
+	path: string;
+	content: string;
+}
+
+export interface IncludeResolver {
+	/**
+	 * Resolve an include name. `from` is the canonical path of the including file,
+	 * or undefined for the root content. Returns undefined when there is no such file.
+	 */
+	resolve(name: string, from: string | undefined): ResolvedInclude | undefined;
+}
+
+// VCLIncludeError is thrown while expanding includes, before a merged buffer
+// exists. Its message already names the file the problem is in, and `source`
+// holds that file's text so a diagnostic can show the offending line.
+export class VCLIncludeError extends Error {
+	readonly source: string;
+
+	constructor(message: string, source: string) {
+		super(message);
+		this.name = "VCLIncludeError";
+		this.source = source;
+	}
+}
+
+// createMapIncludeResolver resolves includes from an in-memory set of files keyed
+// by name. A name without an extension also matches the same name with ".vcl".
+export function createMapIncludeResolver(
+	files: Record<string, string> | Map<string, string>,
+): IncludeResolver {
+	const entries = files instanceof Map ? files : new Map(Object.entries(files));
+	return {
+		resolve(name: string): ResolvedInclude | undefined {
+			for (const candidate of [name, `${name}.vcl`]) {
+				const content = entries.get(candidate);
+				if (content !== undefined) {
+					return { path: candidate, content };
+				}
+			}
+			return undefined;
+		},
+	};
+}
+
+// expandIncludes returns `content` with every include statement replaced by the
+// recursively expanded file it names, wrapped in `# Begin file:` / `# End file:`
+// comment markers (see source-map.ts). A missing file or an include cycle throws
+// a VCLIncludeError with the location of the offending include statement.
+export function expandIncludes(
+	content: string,
+	resolver: IncludeResolver,
+	fileName?: string,
+): string {
+	return expand(content, fileName, resolver, fileName ? [fileName] : [], false);
+}
+
+function expand(
+	content: string,
+	from: string | undefined,
+	resolver: IncludeResolver,
+	stack: string[],
+	nested: boolean,
+): string {
+	let tokens: Token[];
+	try {
+		tokens = new VCLLexer(content).tokenize();
+	} catch (error) {
+		// The root file's lexer errors are reported again, source-mapped, by the
+		// real lexing pass; only an included file needs its name attached here.
+		if (!nested) throw error;
+		throw new VCLIncludeError(`${(error as Error).message} in file "${from}"`, content);
+	}
+	let output = "";
+	let copied = 0;
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i]!;
+		if (token.type !== TokenType.KEYWORD || token.value !== "include") continue;
+		const nameToken = tokens[i + 1];
+		// A malformed include is left in place for the parser to report.
+		if (
+			!nameToken ||
+			nameToken.type !== TokenType.STRING ||
+			nameToken.position === undefined ||
+			token.position === undefined
+		) {
+			continue;
+		}
+		const quote = nameToken.value[0];
+		if (quote !== '"' && quote !== "'") continue;
+		const name = nameToken.value.slice(1, -1);
+		let end = content.indexOf(quote, nameToken.position + 1) + 1;
+		i++;
+		const next = tokens[i + 1];
+		if (next?.type === TokenType.PUNCTUATION && next.value === ";" && next.position !== undefined) {
+			end = next.position + 1;
+			i++;
+		}
+
+		const where = formatLocation({ file: from, line: token.line, column: token.column });
+		const resolved = resolver.resolve(name, from);
+		if (!resolved) {
+			throw new VCLIncludeError(`Included file not found: "${name}" ${where}`, content);
+		}
+		if (stack.includes(resolved.path)) {
+			throw new VCLIncludeError(
+				`Include cycle detected: ${[...stack, resolved.path].join(" -> ")} ${where}`,
+				content,
+			);
+		}
+		const body = expand(resolved.content, resolved.path, resolver, [...stack, resolved.path], true);
+		output += content.slice(copied, token.position);
+		output += `\n# Begin file: ${resolved.path}\n${body}\n# End file: ${resolved.path}\n`;
+		// Pad the rest of the include line so it keeps its original columns.
+		output += " ".repeat(end - (content.lastIndexOf("\n", end - 1) + 1));
+		copied = end;
+	}
+	return output + content.slice(copied);
+}
@@ -50,6 +50,14 @@ export function seedRequestWorkspace(httpHeaders: Record<string, string>): numbe
 // this, activation fails with "Too many sub calls".
 export const MAX_SUBROUTINE_CALL_TREE = 25000;
 
+// MAX_ESI_DEPTH is how deeply ESI includes may nest. A fragment fetched at this
+// req.esi_level has its own includes dropped instead of fetched.
+export const MAX_ESI_DEPTH = 5;
+
+// MAX_ESI_INCLUDES is how many <esi:include> tags one client request may fetch,
+// counted across its whole tree of fragments. Includes past it are dropped.
+export const MAX_ESI_INCLUDES = 256;
+
 // VCLLimitExceededError is thrown when a program exceeds one of Fastly's hard
 // limits. Like UnsupportedFeatureError it is loud on purpose: a limit violation
 // is a real failure a debugging playground must surface, not silently absorb.
@@ -0,0 +1,442 @@
+// VCL linter: named checks for code that loads and runs but is almost certainly
+// a mistake (dead code, unused declarations, regexes that can never compile,
+// ...). Each rule can be switched off or given its own severity. lintVCL also
+// reports the hard errors loadVCLContent would refuse the program for (syntax,
+// types, scopes) with severity "error", so an editor or CI job needs only the
+// one call. Includes are not expanded: each file is linted on its own.
+
+import { buildDiagnostic, diagnosticAt, type VCLDiagnostic, type VCLSeverity } from "./diagnostics";
+import type { SourceLocation } from "./source-map";
+import {
+	type Token,
+	type VCLBinaryExpression,
+	type VCLBlockStatement,
+	type VCLCallStatement,
+	type VCLDeclareStatement,
+	type VCLErrorStatement,
+	type VCLExpression,
+	type VCLFunctionCall,
+	type VCLIfStatement,
+	VCLLexer,
+	type VCLProgram,
+	type VCLReturnStatement,
+	type VCLStatement,
+	type VCLSubroutine,
+	type VCLSwitchStatement,
+	type VCLSyntheticStatement,
+} from "./vcl-parser";
+import { VCLParser } from "./vcl-parser-impl";
+import { checkRegexes, compileRegex, VCLRegexError } from "./vcl-regex";
+import { checkScopes } from "./vcl-scopes";
+import { checkTypes } from "./vcl-typecheck";
+
+export type VCLLintRule =
+	| "unreachable-code"
+	| "unused-subroutine"
+	| "unused-acl"
+	| "unused-table"
+	| "unused-backend"
+	| "unused-local"
+	| "shadowed-local"
+	| "header-never-set"
+	| "invalid-regex"
+	| "host-comparison-case";
+
+export type VCLLintRuleSetting = VCLSeverity | "off";
+
+/** The severity each rule reports with unless configured otherwise. */
+export const DEFAULT_LINT_RULES: Readonly<Record<VCLLintRule, VCLLintRuleSetting>> = {
+	"unreachable-code": "warning",
+	"unused-subroutine": "warning",
+	"unused-acl": "warning",
+	"unused-table": "warning",
+	"unused-backend": "warning",
+	"unused-local": "warning",
+	"shadowed-local": "warning",
+	"header-never-set": "info",
+	"invalid-regex": "error",
+	"host-comparison-case": "warning",
+};
+
+export interface VCLLintOptions {
+	/** Per-rule overrides of DEFAULT_LINT_RULES; "off" disables a rule. */
+	rules?: Partial<Record<VCLLintRule, VCLLintRuleSetting>>;
+}
+
+interface VCLLintFinding {
+	rule: VCLLintRule;
+	message: string;
+	location?: SourceLocation;
+}
+
+// Request headers a client or Fastly itself sends, which VCL reads without
+// ever setting them.
+const REQUEST_HEADERS = new Set([
+	"accept",
+	"accept-charset",
+	"accept-encoding",
+	"accept-language",
+	"authorization",
+	"cache-control",
+	"connection",
+	"content-length",
+	"content-type",
+	"cookie",
+	"dnt",
+	"forwarded",
+	"host",
+	"if-match",
+	"if-modified-since",
+	"if-none-match",
+	"if-range",
+	"if-unmodified-since",
+	"origin",
+	"pragma",
+	"range",
+	"referer",
+	"te",
+	"upgrade",
+	"user-agent",
+	"via",
+	"x-forwarded-for",
+	"x-forwarded-host",
+	"x-forwarded-proto",
+	"x-requested-with",
+]);
+const REQUEST_HEADER_PREFIXES = ["fastly-", "sec-", "cdn-loop"];
+
+// How an unreachable-code message names the statement that always exits.
+const EXITS: Record<string, string> = {
+	ReturnStatement: "return",
+	ErrorStatement: "error",
+	RestartStatement: "restart",
+	IfStatement: "an if statement whose every branch exits",
+	BlockStatement: "a block that always exits",
+};
+
+// lintVCL returns every diagnostic for `source`, in source order. A program
+// that does not parse yields only its syntax errors.
+export function lintVCL(source: string, options: VCLLintOptions = {}): VCLDiagnostic[] {
+	let tokens: Token[];
+	try {
+		tokens = new VCLLexer(source).tokenize();
+	} catch (error) {
+		return [{ ...buildDiagnostic(error as Error, source), severity: "error" }];
+	}
+	const { program, diagnostics } = new VCLParser(tokens, source).parseWithRecovery();
+	if (diagnostics.length > 0) {
+		return diagnostics.map((diagnostic) => ({ ...diagnostic, severity: "error" as const }));
+	}
+
+	const settings = { ...DEFAULT_LINT_RULES, ...options.rules };
+	const results: Array<{ diagnostic: VCLDiagnostic; location?: SourceLocation }> = [];
+	for (const error of [...checkTypes(program), ...checkScopes(program), ...checkRegexes(program)]) {
+		results.push({
+			diagnostic: { ...diagnosticAt(error.message, error.location, source), severity: "error" },
+			...(error.location && { location: error.location }),
+		});
+	}
+	for (const finding of new Linter(program).lint()) {
+		const severity = settings[finding.rule];
+		if (severity === "off") continue;
+		results.push({
+			diagnostic: {
+				...diagnosticAt(finding.message, finding.location, source),
+				severity,
+				rule: finding.rule,
+			},
+			...(finding.location && { location: finding.location }),
+		});
+	}
+	return results
+		.sort(
+			(a, b) =>
+				(a.location?.line ?? 0) - (b.location?.line ?? 0) ||
+				(a.location?.column ?? 0) - (b.location?.column ?? 0),
+		)
+		.map((result) => result.diagnostic);
+}
+
+interface LocalVariable {
+	location?: SourceLocation;
+	read: boolean;
+}
+
+class Linter {
+	private readonly findings: VCLLintFinding[] = [];
+	/**
+	 * Every bare name and string literal an expression mentions: ACLs, tables and
+	 * backends are used by name, and a backend can also be assigned as a string.
+	 */
+	private readonly names = new Set<string>();
+	private readonly calledSubroutines = new Set<string>();
+	/** Header names (lowercased) set anywhere, and where each is first read. */
+	private readonly headersSet = new Set<string>();
+	private readonly headersRead = new Map<string, { name: string; location?: SourceLocation }>();
+	private locals = new Map<string, LocalVariable>();
+	private params = new Set<string>();
+
+	constructor(private readonly program: VCLProgram) {}
+
+	lint(): VCLLintFinding[] {
+		for (const sub of this.program.subroutines) this.lintSubroutine(sub);
+		this.reportUnusedDeclarations();
+		for (const [header, read] of this.headersRead) {
+			if (this.headersSet.has(header)) continue;
+			this.report(
+				"header-never-set",
+				`Header ${read.name} is read but never set by this program`,
+				read.location,
+			);
+		}
+		return this.findings;
+	}
+
+	private report(rule: VCLLintRule, message: string, location: SourceLocation | undefined): void {
+		this.findings.push({ rule, message, ...(location && { location }) });
+	}
+
+	private lintSubroutine(sub: VCLSubroutine): void {
+		this.locals = new Map();
+		this.params = new Set((sub.params ?? []).map((param) => param.name));
+		this.statements(sub.body ?? []);
+		for (const [name, local] of this.locals) {
+			if (!local.read) {
+				this.report(
+					"unused-local",
+					`Local variable ${name} is declared but never read`,
+					local.location,
+				);
+			}
+		}
+	}
+
+	/** Walk a statement list; true when it always ends the subroutine. */
+	private statements(statements: VCLStatement[]): boolean {
+		let exit: string | undefined;
+		let reported = false;
+		for (const statement of statements) {
+			if (statement.type === "Statement") continue;
+			// A label after a return is still reachable through `goto`.
+			if (statement.type === "LabelStatement") exit = undefined;
+			if (exit && !reported) {
+				this.report("unreachable-code", `Unreachable statement after ${exit}`, statement.location);
+				reported = true;
+			}
+			if (this.statement(statement)) exit ??= EXITS[statement.type];
+		}
+		return exit !== undefined;
+	}
+
+	private statement(statement: VCLStatement): boolean {
+		switch (statement.type) {
+			case "IfStatement": {
+				const ifStmt = statement as VCLIfStatement;
+				this.expression(ifStmt.test);
+				const consequent = this.statements(ifStmt.consequent ?? []);
+				const alternate = ifStmt.alternate ? this.statements(ifStmt.alternate) : false;
+				return consequent && alternate;
+			}
+			case "SwitchStatement": {
+				const switchStmt = statement as VCLSwitchStatement;
+				this.expression(switchStmt.subject);
+				for (const switchCase of switchStmt.cases) {
+					if (switchCase.test) {
+						this.expression(switchCase.test);
+						if (!switchCase.regex) this.checkHostComparison(switchStmt.subject, switchCase.test);
+					}
+					this.statements(switchCase.body ?? []);
+				}
+				return false;
+			}
+			case "BlockStatement":
+				return this.statements((statement as VCLBlockStatement).body);
+			case "DeclareStatement": {
+				const declare = statement as VCLDeclareStatement;
+				if (declare.initialValue) this.expression(declare.initialValue);
+				this.declare(declare);
+				return false;
+			}
+			case "SetStatement":
+			case "AddStatement":
+				this.headerWritten(statement.target);
+				this.expression(statement.value);
+				return false;
+			case "CallStatement": {
+				const call = statement as VCLCallStatement;
+				this.calledSubroutines.add(call.subroutineName);
+				for (const arg of call.arguments ?? []) this.expression(arg);
+				return false;
+			}
+			case "ReturnStatement": {
+				const value = (statement as VCLReturnStatement).value;
+				if (value) this.expression(value);
+				return true;
+			}
+			case "ErrorStatement": {
+				const errorStmt = statement as VCLErrorStatement;
+				if (errorStmt.status) this.expression(errorStmt.status);
+				if (errorStmt.message) this.expression(errorStmt.message);
+				return true;
+			}
+			case "SyntheticStatement": {
+				const expression = (statement as VCLSyntheticStatement).expression;
+				if (expression) this.expression(expression);
+				return false;
+			}
+			case "LogStatement":
+				this.expression(statement.message);
+				return false;
+			case "SyntheticBase64Statement":
+				this.expression(statement.content);
+				return false;
+			case "HashDataStatement":
+				this.expression(statement.value);
+				return false;
+			case "ExpressionStatement":
+				this.expression(statement.expression);
+				return false;
+			case "Assignment":
+				this.expression(statement.right);
+				return false;
+		}
+		return statement.type === "RestartStatement";
+	}
+
+	private declare(declare: VCLDeclareStatement): void {
+		const name = declare.variableName;
+		const earlier = this.locals.get(name);
+		if (earlier || this.params.has(name)) {
+			const shadowed = earlier?.location
+				? `the declaration on line ${earlier.location.line}`
+				: "a parameter";
+			this.report("shadowed-local", `Local variable ${name} shadows ${shadowed}`, declare.location);
+			return;
+		}
+		this.locals.set(name, { ...(declare.location && { location: declare.location }), read: false });
+	}
+
+	private expression(expression: VCLExpression | undefined): void {
+		if (!expression) return;
+		switch (expression.type) {
+			case "StringLiteral":
+				this.names.add(expression.value);
+				return;
+			case "Identifier": {
+				const name = expression.name;
+				this.names.add(name);
+				const local = this.locals.get(name);
+				if (local) local.read = true;
+				this.headerRead(name, expression.location);
+				return;
+			}
+			case "FunctionCall": {
+				const call = expression as VCLFunctionCall;
+				this.calledSubroutines.add(call.name);
+				if ((call.name === "regsub" || call.name === "regsuball") && call.arguments[1]) {
+					this.checkRegex(call.arguments[1]);
+				}
+				for (const arg of call.arguments) this.expression(arg);
+				return;
+			}
+			case "BinaryExpression": {
+				const binary = expression as VCLBinaryExpression;
+				this.expression(binary.left);
+				this.expression(binary.right);
+				if (binary.operator === "~" || binary.operator === "!~") this.checkRegex(binary.right);
+				if (binary.operator === "==" || binary.operator === "!=") {
+					this.checkHostComparison(binary.left, binary.right);
+					this.checkHostComparison(binary.right, binary.left);
+				}
+				return;
+			}
+			case "UnaryExpression":
+				this.expression(expression.operand);
+				return;
+			case "TernaryExpression":
+				this.expression(expression.condition);
+				this.expression(expression.trueExpr);
+				this.expression(expression.falseExpr);
+				return;
+			case "MemberAccess":
+				this.expression(expression.object);
+				return;
+		}
+	}
+
+	private checkRegex(pattern: VCLExpression): void {
+		let source: string;
+		if (pattern.type === "StringLiteral") source = pattern.value;
+		else if (pattern.type === "RegexLiteral") source = pattern.pattern;
+		else return;
+		try {
+			compileRegex(source);
+		} catch (error) {
+			// Untranslatable PCRE is a load error, reported with the others.
+			if (error instanceof VCLRegexError) return;
+			const reason = (error as Error).message.replace(/^Invalid regular expression: /, "");
+			this.report(
+				"invalid-regex",
+				`Invalid regular expression "${source}": ${reason}`,
+				pattern.location,
+			);
+		}
+	}
+
+	// Fastly lowercases nothing: a Host comparison against a literal with capital
+	// letters only matches a client that sent it capitalized.
+	private checkHostComparison(subject: VCLExpression, value: VCLExpression): void {
+		if (subject.type !== "Identifier" || !/^(be)?req\.http\.host$/i.test(subject.name)) return;
+		if (value.type !== "StringLiteral" || value.value === value.value.toLowerCase()) return;
+		this.report(
+			"host-comparison-case",
+			`${subject.name} is compared with "${value.value}", which is not lowercase`,
+			value.location ?? subject.location,
+		);
+	}
+
+	private headerWritten(target: string): void {
+		const header = headerName(target);
+		if (header) this.headersSet.add(header.toLowerCase());
+	}
+
+	private headerRead(name: string, location: SourceLocation | undefined): void {
+		if (!/^(be)?req\.http\./i.test(name)) return;
+		const header = headerName(name);
+		if (!header) return;
+		const key = header.toLowerCase();
+		if (REQUEST_HEADERS.has(key) || REQUEST_HEADER_PREFIXES.some((p) => key.startsWith(p))) return;
+		if (!this.headersRead.has(key)) {
+			this.headersRead.set(key, { name, ...(location && { location }) });
+		}
+	}
+
+	private reportUnusedDeclarations(): void {
+		for (const sub of this.program.subroutines) {
+			if (sub.name.startsWith("vcl_") || this.calledSubroutines.has(sub.name)) continue;
+			this.report("unused-subroutine", `Subroutine ${sub.name} is never called`, sub.location);
+		}
+		for (const acl of this.program.acls) {
+			if (this.names.has(acl.name)) continue;
+			this.report("unused-acl", `ACL ${acl.name} is never used`, acl.location);
+		}
+		for (const table of this.program.tables) {
+			if (this.names.has(table.name)) continue;
+			this.report("unused-table", `Table ${table.name} is never used`, table.location);
+		}
+		// The first backend is the default for every request, so it is always used.
+		const directorBackends = new Set(
+			this.program.directors.flatMap((director) => director.backends.map((b) => b.name)),
+		);
+		for (const backend of this.program.backends.slice(1)) {
+			if (this.names.has(backend.name) || directorBackends.has(backend.name)) continue;
+			this.report("unused-backend", `Backend ${backend.name} is never used`, backend.location);
+		}
+	}
+}
+
+/** The header a `req.http.Name` (or `Name:subfield`) variable refers to. */
+function headerName(variable: string): string | undefined {
+	const match = variable.match(/^[a-z]+\.http\.([^:]+)/i);
+	return match?.[1];
+}
@@ -1,3 +1,5 @@
+import { buildDiagnostic, type VCLDiagnostic } from "./diagnostics";
+import type { VCLSourceMap } from "./source-map";
 import { getIPType } from "./vcl-acl";
 import {
 	type Token,
@@ -111,16 +113,58 @@ const RETURN_ACTIONS = new Set([
 	"upgrade",
 ]);
 
+// Keywords that can only begin a top-level declaration; recovery re-syncs at them.
+const DECLARATION_KEYWORDS = new Set([
+	"sub",
+	"acl",
+	"table",
+	"backend",
+	"director",
+	"penaltybox",
+	"ratecounter",
+	"import",
+]);
+
+export interface VCLParseResult {
+	program: VCLProgram;
+	diagnostics: VCLDiagnostic[];
+}
+
 export class VCLParser {
 	private tokens: Token[] = [];
 	private current: number = 0;
 	private source: string;
 
+	/** Set by parseWithRecovery: report errors and re-sync instead of throwing. */
+	private recovering = false;
+	private errors: Error[] = [];
+
 	constructor(tokens: Token[], source: string) {
 		this.tokens = tokens.filter((token) => token.type !== TokenType.WHITESPACE);
 		this.source = source;
 	}
 
+	/**
+	 * Parse the whole program, recovering from syntax errors instead of stopping
+	 * at the first: a bad statement is skipped through its `;` or block, a bad
+	 * declaration through to the next top-level `sub`/`acl`/`table`/`backend`/...
+	 * Returns every error as a diagnostic (mapped through `sourceMap` when the
+	 * source spans several files) and the partial AST of everything that parsed.
+	 */
+	parseWithRecovery(sourceMap?: VCLSourceMap): VCLParseResult {
+		this.recovering = true;
+		this.errors = [];
+		try {
+			const program = this.parse();
+			return {
+				program,
+				diagnostics: this.errors.map((error) => buildDiagnostic(error, this.source, sourceMap)),
+			};
+		} finally {
+			this.recovering = false;
+		}
+	}
+
 	parse(): VCLProgram {
 		const program: VCLProgram = {
 			type: "Program",
@@ -137,69 +181,83 @@ export class VCLParser {
 		};
 
 		while (!this.isAtEnd()) {
-			if (this.match(TokenType.COMMENT)) {
-				program.comments.push(this.parseComment());
-			} else if (this.check(TokenType.KEYWORD)) {
-				const keyword = this.peek().value;
-				this.advance();
-				switch (keyword) {
-					case "sub":
-						program.subroutines.push(this.parseSubroutine());
-						break;
-					case "acl":
-						program.acls.push(this.parseACL());
-						break;
-					case "include":
-						program.includes.push(this.parseIncludeStatement());
-						break;
-					case "import":
-						program.imports.push(this.parseImportStatement());
-						break;
-					case "table":
-						program.tables.push(this.parseTableDeclaration());
-						break;
-					case "backend":
-						program.backends.push(this.parseBackendDeclaration());
-						break;
-					case "director":
-						program.directors.push(this.parseDirectorDeclaration());
-						break;
-					case "penaltybox":
-						program.penaltyboxes.push(this.parsePenaltyboxDeclaration());
-						break;
-					case "ratecounter":
-						program.ratecounters.push(this.parseRatecounterDeclaration());
-						break;
-					case "pragma":
-						// Fastly-generated control line; skip through its semicolon.
-						while (!this.isAtEnd() && !this.check(TokenType.PUNCTUATION, ";")) this.advance();
-						if (this.check(TokenType.PUNCTUATION, ";")) this.advance();
-						break;
-					default: {
-						const kw = this.previous();
-						throw new Error(
-							`Unexpected keyword "${kw.value}" at top level at line ${kw.line}, column ${kw.column}`,
-						);
-					}
-				}
-			} else {
-				const tok = this.peek();
-				// VCL version declaration, e.g. `vcl 4.0;` — recognized but carries no
-				// semantics for the interpreter; consume it through its semicolon.
-				if (tok.value === "vcl") {
-					this.advance();
-					while (!this.isAtEnd() && this.peek().value !== ";") this.advance();
-					if (!this.isAtEnd()) this.advance();
-					continue;
-				}
-				throw new Error(
-					`Unexpected token "${tok.value}" at top level at line ${tok.line}, column ${tok.column}`,
-				);
+			if (!this.recovering) {
+				this.parseTopLevel(program);
+				continue;
+			}
+			const start = this.current;
+			try {
+				this.parseTopLevel(program);
+			} catch (error) {
+				this.report(error as Error);
+				this.synchronizeDeclaration(start);
 			}
 		}
 		return program;
 	}
 
+	private parseTopLevel(program: VCLProgram): void {
+		if (this.match(TokenType.COMMENT)) {
+			program.comments.push(this.parseComment());
+		} else if (this.check(TokenType.KEYWORD)) {
+			const keyword = this.peek().value;
+			this.advance();
+			switch (keyword) {
+				case "sub":
+					program.subroutines.push(this.parseSubroutine());
+					break;
+				case "acl":
+					program.acls.push(this.parseACL());
+					break;
+				case "include":
+					program.includes.push(this.parseIncludeStatement());
+					break;
+				case "import":
+					program.imports.push(this.parseImportStatement());
+					break;
+				case "table":
+					program.tables.push(this.parseTableDeclaration());
+					break;
+				case "backend":
+					program.backends.push(this.parseBackendDeclaration());
+					break;
+				case "director":
+					program.directors.push(this.parseDirectorDeclaration());
+					break;
+				case "penaltybox":
+					program.penaltyboxes.push(this.parsePenaltyboxDeclaration());
+					break;
+				case "ratecounter":
+					program.ratecounters.push(this.parseRatecounterDeclaration());
+					break;
+				case "pragma":
+					// Fastly-generated control line; skip through its semicolon.
+					while (!this.isAtEnd() && !this.check(TokenType.PUNCTUATION, ";")) this.advance();
+					if (this.check(TokenType.PUNCTUATION, ";")) this.advance();
+					break;
+				default: {
+					const kw = this.previous();
+					throw new Error(
+						`Unexpected keyword "${kw.value}" at top level at line ${kw.line}, column ${kw.column}`,
+					);
+				}
+			}
+		} else {
+			const tok = this.peek();
+			// VCL version declaration, e.g. `vcl 4.0;` — recognized but carries no
+			// semantics for the interpreter; consume it through its semicolon.
+			if (tok.value === "vcl") {
+				this.advance();
+				while (!this.isAtEnd() && this.peek().value !== ";") this.advance();
+				if (!this.isAtEnd()) this.advance();
+				return;
+			}
+			throw new Error(
+				`Unexpected token "${tok.value}" at top level at line ${tok.line}, column ${tok.column}`,
+			);
+		}
+	}
+
 	/**
 	 * Strip the delimiters from a STRING token value: plain quotes, or the
 	 * long-string forms {"..."} and {DELIM"..."DELIM}.
@@ -390,7 +448,8 @@ export class VCLParser {
 		while (!this.check(TokenType.PUNCTUATION, "}") && !this.isAtEnd()) {
 			if (this.match(TokenType.COMMENT)) continue;
 			if (this.match(TokenType.STRING)) {
-				const key = this.unquoteStringToken(this.previous().value);
+				const keyToken = this.previous();
+				const key = this.unquoteStringToken(keyToken.value);
 				this.consume(TokenType.PUNCTUATION, "Expected ':' after table key");
 				let value = "";
 				if (this.match(TokenType.STRING)) {
@@ -407,7 +466,11 @@ export class VCLParser {
 				if (this.check(TokenType.PUNCTUATION, ",")) {
 					this.advance();
 				}
-				entries.push({ key, value });
+				entries.push({
+					key,
+					value,
+					location: { line: keyToken.line, column: keyToken.column },
+				});
 			} else {
 				this.error("Expected string key in table entry");
 			}
@@ -431,7 +494,9 @@ export class VCLParser {
 		const properties: VCLBackendProperty[] = [];
 		while (!this.check(TokenType.PUNCTUATION, "}") && !this.isAtEnd()) {
 			if (this.match(TokenType.PUNCTUATION, ".")) {
-				const propName = this.consumeName("Expected property name").value;
+				const propToken = this.consumeName("Expected property name");
+				const propName = propToken.value;
+				const propLocation = { line: propToken.line, column: propToken.column };
 				this.consume(TokenType.OPERATOR, "Expected '=' after property name");
 				let value: string | number = "";
 				if (this.match(TokenType.STRING)) {
@@ -455,7 +520,8 @@ export class VCLParser {
 					const probeProps: VCLBackendProperty[] = [];
 					while (!this.check(TokenType.PUNCTUATION, "}") && !this.isAtEnd()) {
 						if (this.match(TokenType.PUNCTUATION, ".")) {
-							const nestedName = this.consumeName("Expected probe property name").value;
+							const nestedToken = this.consumeName("Expected probe property name");
+							const nestedName = nestedToken.value;
 							this.consume(TokenType.OPERATOR, "Expected '=' after probe property name");
 							let nestedValue: string | number = "";
 							const stringParts: string[] = [];
@@ -472,20 +538,28 @@ export class VCLParser {
 								nestedValue = this.previous().value;
 							}
 							if (this.check(TokenType.PUNCTUATION, ";")) this.advance();
-							probeProps.push({ name: nestedName, value: nestedValue });
+							probeProps.push({
+								name: nestedName,
+								value: nestedValue,
+								location: { line: nestedToken.line, column: nestedToken.column },
+							});
 						} else {
 							this.advance();
 						}
 					}
 					this.consume(TokenType.PUNCTUATION, "Expected '}' after probe block");
-					properties.push({ name: propName, value: { type: "probe", properties: probeProps } });
+					properties.push({
+						name: propName,
+						value: { type: "probe", properties: probeProps },
+						location: propLocation,
+					});
 					if (this.check(TokenType.PUNCTUATION, ";")) this.advance();
 					continue;
 				}
 				if (this.check(TokenType.PUNCTUATION, ";")) {
 					this.advance();
 				}
-				properties.push({ name: propName, value });
+				properties.push({ name: propName, value, location: propLocation });
 			} else {
 				this.advance();
 			}
@@ -537,13 +611,17 @@ export class VCLParser {
 		const startToken = this.tokens[this.current - 1];
 		const startPos = startToken?.position !== undefined ? startToken.position + 1 : 0;
 		const body: VCLStatement[] = [];
-		while (!this.check(TokenType.PUNCTUATION, "}") && !this.isAtEnd()) {
-			body.push(this.parseStatement());
+		while (
+			!this.check(TokenType.PUNCTUATION, "}") &&
+			!this.isAtEnd() &&
+			!this.atDeclarationBoundary()
+		) {
+			this.parseStatementInto(body);
 		}
 		const currentToken = this.tokens[this.current];
 		const endPos = currentToken ? currentToken.position : this.source.length;
 		const rawVCL = this.source.substring(startPos, endPos);
-		this.consume(TokenType.PUNCTUATION, "Expected '}' after subroutine body");
+		this.consumeBlockEnd("Expected '}' after subroutine body");
 		return {
 			type: "Subroutine",
 			name: nameToken.value,
@@ -555,6 +633,24 @@ export class VCLParser {
 		};
 	}
 
+	/**
+	 * Parse one statement onto `body`. In recovery mode a statement that fails to
+	 * parse is reported and skipped instead.
+	 */
+	private parseStatementInto(body: VCLStatement[]): void {
+		if (!this.recovering) {
+			body.push(this.parseStatement());
+			return;
+		}
+		const start = this.current;
+		try {
+			body.push(this.parseStatement());
+		} catch (error) {
+			this.report(error as Error);
+			this.synchronizeStatement(start);
+		}
+	}
+
 	private parseStatement(): VCLStatement {
 		const startToken = this.peek();
 		// Check for label (identifier followed by colon)
@@ -589,10 +685,14 @@ export class VCLParser {
 		if (this.check(TokenType.PUNCTUATION, "{")) {
 			const braceToken = this.advance();
 			const body: VCLStatement[] = [];
-			while (!this.check(TokenType.PUNCTUATION, "}") && !this.isAtEnd()) {
-				body.push(this.parseStatement());
+			while (
+				!this.check(TokenType.PUNCTUATION, "}") &&
+				!this.isAtEnd() &&
+				!this.atDeclarationBoundary()
+			) {
+				this.parseStatementInto(body);
 			}
-			this.consume(TokenType.PUNCTUATION, "Expected '}' after block");
+			this.consumeBlockEnd("Expected '}' after block");
 			return {
 				type: "BlockStatement",
 				body,
@@ -752,11 +852,12 @@ export class VCLParser {
 		while (
 			(!hasBraces || !this.check(TokenType.PUNCTUATION, "}")) &&
 			!this.check(TokenType.KEYWORD, "else") &&
-			!this.isAtEnd()
+			!this.isAtEnd() &&
+			!this.atDeclarationBoundary()
 		) {
-			statements.push(this.parseStatement());
+			this.parseStatementInto(statements);
 		}
-		if (hasBraces) this.consume(TokenType.PUNCTUATION, "Expected '}' after block");
+		if (hasBraces) this.consumeBlockEnd("Expected '}' after block");
 		return statements;
 	}
 
@@ -1347,7 +1448,13 @@ export class VCLParser {
 				}
 				this.consume(TokenType.PUNCTUATION, "Expected ':' after case expression");
 				const { body, fallthrough } = this.parseSwitchCaseBody(caseToken);
-				cases.push({ test, regex: isRegex, body, fallthrough } as VCLSwitchCase);
+				cases.push({
+					test,
+					regex: isRegex,
+					body,
+					fallthrough,
+					location: { line: caseToken.line, column: caseToken.column },
+				} as VCLSwitchCase);
 			} else if (this.match(TokenType.KEYWORD, "default")) {
 				const defaultToken = this.previous();
 				if (sawDefault) {
@@ -1358,7 +1465,12 @@ export class VCLParser {
 				sawDefault = true;
 				this.consume(TokenType.PUNCTUATION, "Expected ':' after default");
 				const { body, fallthrough } = this.parseSwitchCaseBody(defaultToken);
-				cases.push({ test: null, body, fallthrough } as VCLSwitchCase);
+				cases.push({
+					test: null,
+					body,
+					fallthrough,
+					location: { line: defaultToken.line, column: defaultToken.column },
+				} as VCLSwitchCase);
 			} else {
 				const tok = this.peek();
 				throw new Error(
@@ -1403,7 +1515,7 @@ export class VCLParser {
 				this.consume(TokenType.PUNCTUATION, "Expected ';' after fallthrough");
 				return { body, fallthrough: true };
 			}
-			body.push(this.parseStatement());
+			this.parseStatementInto(body);
 		}
 		throw new Error(
 			`Case body must end with 'break' or 'fallthrough' at line ${caseToken.line}, column ${caseToken.column}`,
@@ -1422,11 +1534,12 @@ export class VCLParser {
 		this.consume(TokenType.PUNCTUATION, "Expected '{' after director type");
 
 		const properties: VCLBackendProperty[] = [];
-		const backends: Array<{ name: string; weight?: number }> = [];
+		const backends: VCLDirectorDeclaration["backends"] = [];
 
 		while (!this.check(TokenType.PUNCTUATION, "}") && !this.isAtEnd()) {
 			if (this.match(TokenType.PUNCTUATION, "{")) {
 				// Backend entry block: { .backend = name; .weight = N; }
+				const entryToken = this.previous();
 				let backendName = "";
 				let weight: number | undefined;
 				while (!this.check(TokenType.PUNCTUATION, "}") && !this.isAtEnd()) {
@@ -1454,9 +1567,16 @@ export class VCLParser {
 					}
 				}
 				this.consume(TokenType.PUNCTUATION, "Expected '}' after backend entry");
-				if (backendName) backends.push({ name: backendName, weight });
+				if (backendName) {
+					backends.push({
+						name: backendName,
+						weight,
+						location: { line: entryToken.line, column: entryToken.column },
+					});
+				}
 			} else if (this.match(TokenType.PUNCTUATION, ".")) {
-				const propName = this.consumeName("Expected property name").value;
+				const propToken = this.consumeName("Expected property name");
+				const propName = propToken.value;
 				this.consume(TokenType.OPERATOR, "Expected '=' after property name");
 				let value: string | number = "";
 				if (this.match(TokenType.STRING)) {
@@ -1469,7 +1589,11 @@ export class VCLParser {
 					value = this.previous().value;
 				}
 				if (this.check(TokenType.PUNCTUATION, ";")) this.advance();
-				properties.push({ name: propName, value });
+				properties.push({
+					name: propName,
+					value,
+					location: { line: propToken.line, column: propToken.column },
+				});
 			} else {
 				this.advance();
 			}
@@ -2096,6 +2220,74 @@ export class VCLParser {
 		return this.tokens[this.current - 1]!;
 	}
 
+	private report(error: Error): void {
+		this.errors.push(error);
+	}
+
+	/** In recovery mode, a top-level declaration keyword ends any open block. */
+	private atDeclarationBoundary(): boolean {
+		return (
+			this.recovering &&
+			this.check(TokenType.KEYWORD) &&
+			DECLARATION_KEYWORDS.has(this.peek().value)
+		);
+	}
+
+	/**
+	 * Consume the `}` closing a block. In recovery mode a missing brace is
+	 * reported and the block is closed where it stands.
+	 */
+	private consumeBlockEnd(message: string): void {
+		if (this.recovering && !this.check(TokenType.PUNCTUATION, "}")) {
+			const token = this.peek();
+			this.report(new Error(`${message} at line ${token.line}, column ${token.column}`));
+			return;
+		}
+		this.consume(TokenType.PUNCTUATION, message);
+	}
+
+	/**
+	 * Skip the rest of a statement that failed to parse: through its `;`, or
+	 * through a braced block (and any `else` chain after it), stopping before the
+	 * `}` of the enclosing block or the next top-level declaration.
+	 */
+	private synchronizeStatement(start: number): void {
+		let depth = 0;
+		while (!this.isAtEnd()) {
+			if (depth === 0 && this.atDeclarationBoundary()) break;
+			const token = this.peek();
+			if (token.type === TokenType.PUNCTUATION) {
+				if (token.value === ";" && depth === 0) {
+					this.advance();
+					break;
+				}
+				if (token.value === "{") depth++;
+				if (token.value === "}") {
+					if (depth === 0) break;
+					depth--;
+					if (depth === 0) {
+						this.advance();
+						if (!this.check(TokenType.KEYWORD, "else")) break;
+						continue;
+					}
+				}
+			}
+			this.advance();
+		}
+		// Always make progress, or a token the statement parser rejects outright
+		// would be reported forever.
+		if (this.current === start) this.advance();
+	}
+
+	/** Skip to the next top-level declaration after a declaration failed to parse. */
+	private synchronizeDeclaration(start: number): void {
+		if (this.current === start) this.advance();
+		while (!this.isAtEnd()) {
+			if (this.check(TokenType.KEYWORD) && DECLARATION_KEYWORDS.has(this.peek().value)) break;
+			this.advance();
+		}
+	}
+
 	private error(message: string): never {
 		const token = this.peek();
 		throw new Error(`${message} at line ${token.line}, column ${token.column}`);
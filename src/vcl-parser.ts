@@ -55,6 +55,8 @@ export type VCLNodeType =
 export interface VCLNode {
 	type: VCLNodeType;
 	location?: {
+		/** Originating file, when the program was loaded from named or multiple files. */
+		file?: string;
 		line: number;
 		column: number;
 	};
@@ -301,6 +303,8 @@ export interface VCLTableDeclaration extends VCLNode {
 export interface VCLTableEntry {
 	key: string;
 	value: string;
+	/** Position of the key. */
+	location?: VCLNode["location"];
 }
 
 export interface VCLBackendDeclaration extends VCLNode {
@@ -312,6 +316,8 @@ export interface VCLBackendDeclaration extends VCLNode {
 export interface VCLBackendProperty {
 	name: string;
 	value: string | number | VCLBackendProbe;
+	/** Position of the property name. */
+	location?: VCLNode["location"];
 }
 
 export interface VCLBackendProbe {
@@ -331,7 +337,7 @@ export interface VCLDirectorDeclaration extends VCLNode {
 	name: string;
 	directorType: string;
 	properties: VCLBackendProperty[];
-	backends: Array<{ name: string; weight?: number }>;
+	backends: Array<{ name: string; weight?: number; location?: VCLNode["location"] }>;
 }
 
 export interface VCLPenaltyboxDeclaration extends VCLNode {
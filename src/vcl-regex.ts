@@ -0,0 +1,946 @@
+// PCRE-to-JavaScript regex translation. Fastly matches `~`, regsub, regsuball
+// and querystring.regfilter with PCRE, whose syntax and semantics differ from
+// JavaScript's RegExp: inline flags anywhere in a pattern, \Q...\E quoting,
+// possessive quantifiers and atomic groups, (?P<name>...) groups, \A / \z / \Z
+// anchors, `$` matching before a final newline, and `.` matching \r.
+// translateRegex rewrites a pattern into a JavaScript one that matches the same
+// strings with the same group numbers, or throws VCLRegexError naming the
+// construct that has no JavaScript equivalent. Plain syntax errors are left for
+// the RegExp constructor to report. compileRegex caches compiled patterns.
+
+import type { SourceLocation } from "./source-map";
+import type { VCLExpression, VCLProgram, VCLStatement } from "./vcl-parser";
+
+/** A valid PCRE pattern that uses a construct JavaScript cannot express. */
+export class VCLRegexError extends Error {
+	readonly pattern: string;
+	readonly construct: string;
+
+	constructor(pattern: string, construct: string) {
+		super(`Regex "${pattern}" uses ${construct}, which has no JavaScript equivalent`);
+		this.name = "VCLRegexError";
+		this.pattern = pattern;
+		this.construct = construct;
+	}
+}
+
+export interface TranslatedRegex {
+	source: string;
+	flags: string;
+	/**
+	 * JavaScript capture index of each PCRE group, by PCRE group number (0 is
+	 * the whole match). They differ when atomic groups and possessive
+	 * quantifiers add helper groups.
+	 */
+	groups: number[];
+}
+
+interface Flags {
+	i: boolean;
+	m: boolean;
+	s: boolean;
+	x: boolean;
+	U: boolean;
+}
+
+/** A capturing group of the output, numbered once the whole pattern is translated. */
+interface Group {
+	index: number;
+	name?: string;
+}
+
+/** Output pieces; a backreference names a PCRE group, or points at a helper group. */
+type Part = string | { open: Group } | { ref: number | string | Group };
+
+const HORIZONTAL_SPACE = "\\t \\xa0\\u1680\\u180e\\u2000-\\u200a\\u202f\\u205f\\u3000";
+const VERTICAL_SPACE = "\\n\\x0b\\f\\r\\x85\\u2028\\u2029";
+
+const POSIX_CLASSES: Record<string, string> = {
+	alnum: "a-zA-Z0-9",
+	alpha: "a-zA-Z",
+	ascii: "\\x00-\\x7f",
+	blank: " \\t",
+	cntrl: "\\x00-\\x1f\\x7f",
+	digit: "0-9",
+	graph: "\\x21-\\x7e",
+	lower: "a-z",
+	print: "\\x20-\\x7e",
+	punct: "!-\\/:-@\\[-`{-~",
+	space: "\\t\\n\\x0b\\f\\r ",
+	upper: "A-Z",
+	word: "\\w",
+	xdigit: "0-9A-Fa-f",
+};
+
+/** Negated POSIX classes that have a JavaScript escape to stand in for them. */
+const NEGATED_POSIX_CLASSES: Record<string, string> = { digit: "\\D", space: "\\S", word: "\\W" };
+
+// Leading (*VERB) options that change nothing a JavaScript match can observe.
+const IGNORED_START_OPTIONS = new Set(["UTF8", "UTF", "LF", "NO_START_OPT", "NO_AUTO_POSSESS"]);
+
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})/;
+
+// Metacharacters escaped when a literal character is emitted.
+const SYNTAX_CHARACTERS = new Set([..."\\^$.|?*+()[]{}/"]);
+const CLASS_SYNTAX_CHARACTERS = new Set([..."\\]^-["]);
+
+// translateRegex throws VCLRegexError for an untranslatable construct. A
+// pattern with a syntax error translates to a source the RegExp constructor
+// rejects.
+export function translateRegex(pattern: string): TranslatedRegex {
+	const expanded = new Translator(pattern, false).translate();
+	// (?i) over the whole pattern can use the JavaScript flag rather than
+	// spelling out both cases of every letter.
+	if (expanded.caseless && !expanded.caseful) {
+		return new Translator(pattern, true).translate().result;
+	}
+	if (expanded.caselessReference && expanded.caseful) {
+		throw new VCLRegexError(pattern, "a backreference in a (?i) part of the pattern");
+	}
+	return expanded.result;
+}
+
+class Translator {
+	private pos = 0;
+	private readonly parts: Part[] = [];
+	/** Capturing groups by PCRE number; index 0 stands for the whole match. */
+	private readonly captures: Group[] = [{ index: 0 }];
+	private readonly names = new Map<string, number>();
+	private readonly captureCount: number;
+	private flags: Flags = { i: false, m: false, s: false, x: false, U: false };
+	/** Whether letters were matched under (?i), and outside it. */
+	private caseless = false;
+	private caseful = false;
+	private caselessReference = false;
+
+	constructor(
+		private readonly pattern: string,
+		/** Emit letters as written and rely on the JavaScript `i` flag. */
+		private readonly foldCase: boolean,
+	) {
+		this.captureCount = countCaptures(pattern);
+	}
+
+	translate(): {
+		result: TranslatedRegex;
+		caseless: boolean;
+		caseful: boolean;
+		caselessReference: boolean;
+	} {
+		this.startOptions();
+		this.sequence();
+		while (this.pos < this.pattern.length) {
+			// An unbalanced `)`: left for the RegExp constructor to reject.
+			this.parts.push(")");
+			this.pos++;
+			this.sequence();
+		}
+		return {
+			result: this.result(),
+			caseless: this.caseless,
+			caseful: this.caseful,
+			caselessReference: this.caselessReference,
+		};
+	}
+
+	private result(): TranslatedRegex {
+		let next = 1;
+		for (const part of this.parts) {
+			if (typeof part === "object" && "open" in part) part.open.index = next++;
+		}
+		const source = this.parts
+			.map((part) => {
+				if (typeof part === "string") return part;
+				if ("open" in part) return part.open.name ? `(?<${part.open.name}>` : "(";
+				const group = typeof part.ref === "object" ? part.ref : this.reference(part.ref);
+				return `(?:\\${group.index})`;
+			})
+			.join("");
+		return {
+			source,
+			flags: this.foldCase ? "i" : "",
+			groups: this.captures.map((group) => group.index),
+		};
+	}
+
+	private reference(target: number | string): Group {
+		const number = typeof target === "number" ? target : this.names.get(target);
+		const group = number === undefined ? undefined : this.captures[number];
+		if (!group) {
+			throw new SyntaxError(
+				`Invalid regular expression: reference to non-existent group ${target}`,
+			);
+		}
+		return group;
+	}
+
+	/** Leading (*UTF8)-style options. */
+	private startOptions(): void {
+		for (;;) {
+			const match = /^\(\*([A-Z_0-9=]+)\)/.exec(this.pattern.slice(this.pos));
+			if (!match || !IGNORED_START_OPTIONS.has(match[1]!)) return;
+			this.pos += match[0].length;
+		}
+	}
+
+	/** Alternatives up to the `)` closing the current group, or the end. */
+	private sequence(): void {
+		// Where the atom a following quantifier applies to starts in `parts`.
+		let atomStart = -1;
+		while (this.pos < this.pattern.length) {
+			const ch = this.pattern[this.pos]!;
+			if (ch === ")") return;
+			if (this.flags.x && /\s/.test(ch)) {
+				this.pos++;
+				continue;
+			}
+			if (this.flags.x && ch === "#") {
+				const end = this.pattern.indexOf("\n", this.pos);
+				this.pos = end === -1 ? this.pattern.length : end + 1;
+				continue;
+			}
+			if (ch === "|") {
+				this.parts.push("|");
+				this.pos++;
+				atomStart = -1;
+				continue;
+			}
+			const quantifier = QUANTIFIER.exec(this.pattern.slice(this.pos));
+			if (quantifier) {
+				this.pos += quantifier[0].length;
+				this.quantifier(quantifier[0], atomStart);
+				atomStart = -1;
+				continue;
+			}
+			const start = this.atom();
+			if (start !== null) atomStart = start;
+		}
+	}
+
+	/**
+	 * Translate one atom. Returns where a quantifier after it would apply from,
+	 * -1 when it cannot be quantified (an anchor), or null when it emitted
+	 * nothing (a comment, an option setting).
+	 */
+	private atom(): number | null {
+		const ch = this.pattern[this.pos]!;
+		const start = this.parts.length;
+		switch (ch) {
+			case "(":
+				return this.group();
+			case "[":
+				this.characterClass();
+				return start;
+			case "\\":
+				return this.escape();
+			case ".":
+				this.pos++;
+				this.parts.push(this.flags.s ? "[\\s\\S]" : "[^\\n]");
+				return start;
+			case "^":
+				this.pos++;
+				this.parts.push(this.flags.m ? "(?<=^|\\n)" : "^");
+				return -1;
+			case "$":
+				// PCRE's `$` also matches before a newline that ends the subject.
+				this.pos++;
+				this.parts.push(this.flags.m ? "(?=\\n|$)" : "(?=\\n?$)");
+				return -1;
+			default: {
+				const code = this.pattern.charCodeAt(this.pos);
+				this.pos++;
+				this.literal(code);
+				return start;
+			}
+		}
+	}
+
+	private quantifier(text: string, atomStart: number): void {
+		let lazy = false;
+		let possessive = false;
+		if (this.pattern[this.pos] === "?") {
+			lazy = true;
+			this.pos++;
+		} else if (this.pattern[this.pos] === "+") {
+			possessive = true;
+			this.pos++;
+		}
+		if (!possessive || atomStart < 0) {
+			// (?U) swaps greedy and lazy.
+			if (this.flags.U) lazy = !lazy;
+			this.parts.push(text + (lazy ? "?" : "") + (possessive ? "+" : ""));
+			return;
+		}
+		// X*+ matches like the atomic (?>X*): capture what a lookahead matches
+		// and consume exactly that, so nothing can backtrack into it.
+		const helper: Group = { index: 0 };
+		this.parts.splice(atomStart, 0, "(?:(?=", { open: helper });
+		this.parts.push(text, "))", { ref: helper }, ")");
+	}
+
+	private group(): number | null {
+		const start = this.parts.length;
+		const rest = this.pattern.slice(this.pos);
+		if (rest.startsWith("(*")) {
+			const verb = /^\(\*([A-Z_]*)(?::[^)]*)?\)/.exec(rest);
+			if (verb && (verb[1] === "FAIL" || verb[1] === "F")) {
+				this.pos += verb[0].length;
+				this.parts.push("(?!)");
+				return -1;
+			}
+			throw new VCLRegexError(this.pattern, `the (*${verb?.[1] ?? ""}) verb`);
+		}
+		if (!rest.startsWith("(?")) {
+			this.pos++;
+			return this.capture(undefined, start);
+		}
+		const header = rest.slice(2);
+		if (header.startsWith("#")) {
+			const end = this.pattern.indexOf(")", this.pos);
+			this.pos = end === -1 ? this.pattern.length : end + 1;
+			return null;
+		}
+		for (const prefix of [":", "=", "!", "<=", "<!"]) {
+			if (header.startsWith(prefix)) {
+				this.pos += 2 + prefix.length;
+				this.body(`(?${prefix}`);
+				return start;
+			}
+		}
+		if (header.startsWith(">")) {
+			this.pos += 3;
+			this.atomic();
+			return start;
+		}
+		const named = /^(?:P?<([A-Za-z_]\w*)>|'([A-Za-z_]\w*)')/.exec(header);
+		if (named) {
+			this.pos += 2 + named[0].length;
+			return this.capture(named[1] ?? named[2], start);
+		}
+		const namedReference = /^P=([A-Za-z_]\w*)\)/.exec(header);
+		if (namedReference) {
+			this.pos += 2 + namedReference[0].length;
+			this.backreference(namedReference[1]!);
+			return start;
+		}
+		if (/^(?:P>|&|R\)|[+-]?\d)/.test(header)) {
+			throw new VCLRegexError(this.pattern, "a recursive subpattern call");
+		}
+		if (header.startsWith("|"))
+			throw new VCLRegexError(this.pattern, "a (?|...) branch reset group");
+		if (header.startsWith("(")) throw new VCLRegexError(this.pattern, "a conditional subpattern");
+		if (header.startsWith("C")) throw new VCLRegexError(this.pattern, "a callout");
+		const options = /^([imsxUJX]*)(?:-([imsxUJX]*))?([:)])/.exec(header);
+		if (options) {
+			this.pos += 2 + options[0].length;
+			const scoped = options[3] === ":";
+			const saved = this.flags;
+			this.flags = { ...this.flags };
+			for (const flag of options[1]!) this.setFlag(flag, true);
+			for (const flag of options[2] ?? "") this.setFlag(flag, false);
+			if (!scoped) return null;
+			this.parts.push("(?:");
+			this.sequence();
+			this.close();
+			this.flags = saved;
+			return start;
+		}
+		// Anything else is a syntax error; pass it through for RegExp to reject.
+		this.pos += 2;
+		this.parts.push("(?");
+		return start;
+	}
+
+	private setFlag(flag: string, on: boolean): void {
+		if (flag === "i" || flag === "m" || flag === "s" || flag === "x" || flag === "U") {
+			this.flags[flag] = on;
+		}
+		// J (duplicate names) and X (strict escapes) change nothing translated here.
+	}
+
+	private capture(name: string | undefined, start: number): number {
+		const group: Group = name ? { index: 0, name } : { index: 0 };
+		const number = this.captures.push(group) - 1;
+		if (name) this.names.set(name, number);
+		this.parts.push({ open: group });
+		this.groupBody();
+		return start;
+	}
+
+	/** (?>X) becomes (?:(?=(X))\N): the lookahead's match is consumed whole. */
+	private atomic(): void {
+		const helper: Group = { index: 0 };
+		this.parts.push("(?:(?=", { open: helper });
+		this.groupBody();
+		this.parts.push(")", { ref: helper }, ")");
+	}
+
+	private body(open: string): void {
+		this.parts.push(open);
+		this.groupBody();
+	}
+
+	/** A group's alternatives and its `)`, with option changes scoped to it. */
+	private groupBody(): void {
+		const saved = this.flags;
+		this.flags = { ...this.flags };
+		this.sequence();
+		this.close();
+		this.flags = saved;
+	}
+
+	private close(): void {
+		// An unterminated group is left unterminated for RegExp to reject.
+		if (this.pattern[this.pos] !== ")") return;
+		this.pos++;
+		this.parts.push(")");
+	}
+
+	private escape(): number | null {
+		const start = this.parts.length;
+		const next = this.pattern[this.pos + 1];
+		if (next === undefined) {
+			this.pos++;
+			this.parts.push("\\");
+			return start;
+		}
+		this.pos += 2;
+		switch (next) {
+			case "Q": {
+				const end = this.pattern.indexOf("\\E", this.pos);
+				const text = this.pattern.slice(this.pos, end === -1 ? undefined : end);
+				this.pos = end === -1 ? this.pattern.length : end + 2;
+				if (text === "") return null;
+				for (let i = 0; i < text.length - 1; i++) this.literal(text.charCodeAt(i));
+				const last = this.parts.length;
+				this.literal(text.charCodeAt(text.length - 1));
+				return last;
+			}
+			case "E":
+				return null;
+			case "A":
+				this.parts.push("^");
+				return -1;
+			case "z":
+				this.parts.push("$");
+				return -1;
+			case "Z":
+				this.parts.push("(?=\\n?$)");
+				return -1;
+			case "b":
+			case "B":
+				this.parts.push(`\\${next}`);
+				return -1;
+			case "d":
+			case "D":
+			case "w":
+			case "W":
+			case "s":
+			case "S":
+				this.parts.push(`\\${next}`);
+				return start;
+			case "h":
+				this.parts.push(`[${HORIZONTAL_SPACE}]`);
+				return start;
+			case "H":
+				this.parts.push(`[^${HORIZONTAL_SPACE}]`);
+				return start;
+			case "v":
+				this.parts.push(`[${VERTICAL_SPACE}]`);
+				return start;
+			case "V":
+				this.parts.push(`[^${VERTICAL_SPACE}]`);
+				return start;
+			case "R":
+				this.parts.push(`(?:\\r\\n|[${VERTICAL_SPACE}])`);
+				return start;
+			case "N":
+				this.parts.push("[^\\n]");
+				return start;
+			case "G":
+				throw new VCLRegexError(this.pattern, "the \\G anchor");
+			case "K":
+				throw new VCLRegexError(this.pattern, "\\K (match start reset)");
+			case "X":
+			case "C":
+				throw new VCLRegexError(this.pattern, `\\${next}`);
+			case "p":
+			case "P":
+				throw new VCLRegexError(this.pattern, `the Unicode property escape \\${next}`);
+			case "g":
+				return this.numberedReference(start);
+			case "k": {
+				const name = /^(?:<(\w+)>|'(\w+)'|\{(\w+)\})/.exec(this.pattern.slice(this.pos));
+				if (!name) {
+					this.literal(0x6b);
+					return start;
+				}
+				this.pos += name[0].length;
+				this.backreference(name[1] ?? name[2] ?? name[3]!);
+				return start;
+			}
+		}
+		if (next >= "1" && next <= "9") {
+			const digits = /^\d*/.exec(this.pattern.slice(this.pos))![0];
+			const number = Number(next + digits);
+			if (number < 10 || number <= this.captureCount) {
+				this.pos += digits.length;
+				this.backreference(number);
+				return start;
+			}
+			// Not a group number: up to three octal digits, as in PCRE.
+		}
+		this.literal(this.escapedCode(next));
+		return start;
+	}
+
+	/** \g forms: \gN, \g{N}, \g{-N} (relative), \g{name}. */
+	private numberedReference(start: number): number {
+		const rest = this.pattern.slice(this.pos);
+		if (/^[<']/.test(rest)) throw new VCLRegexError(this.pattern, "a \\g subroutine call");
+		const match = /^(?:\{(-?\d+)\}|(-?\d+)|\{([A-Za-z_]\w*)\})/.exec(rest);
+		if (!match) {
+			this.literal(0x67);
+			return start;
+		}
+		this.pos += match[0].length;
+		if (match[3]) {
+			this.backreference(match[3]);
+			return start;
+		}
+		const number = Number(match[1] ?? match[2]);
+		// A negative number counts back from the groups opened so far.
+		this.backreference(number < 0 ? this.captures.length + number : number);
+		return start;
+	}
+
+	private backreference(target: number | string): void {
+		if (this.flags.i && !this.foldCase) this.caselessReference = true;
+		this.parts.push({ ref: target });
+	}
+
+	/**
+	 * The character an escape other than a class or anchor stands for; the
+	 * escape's letter has been consumed.
+	 */
+	private escapedCode(letter: string): number {
+		switch (letter) {
+			case "a":
+				return 0x07;
+			case "e":
+				return 0x1b;
+			case "f":
+				return 0x0c;
+			case "n":
+				return 0x0a;
+			case "r":
+				return 0x0d;
+			case "t":
+				return 0x09;
+			case "c": {
+				const control = this.pattern[this.pos];
+				if (control === undefined) return 0x63;
+				this.pos++;
+				return control.toUpperCase().charCodeAt(0) ^ 0x40;
+			}
+			case "x": {
+				const match = /^(?:\{([0-9a-fA-F]+)\}|([0-9a-fA-F]{0,2}))/.exec(
+					this.pattern.slice(this.pos),
+				)!;
+				this.pos += match[0].length;
+				return Number.parseInt(match[1] ?? (match[2] || "0"), 16);
+			}
+			case "o": {
+				const match = /^\{([0-7]+)\}/.exec(this.pattern.slice(this.pos));
+				if (!match) return 0x6f;
+				this.pos += match[0].length;
+				return Number.parseInt(match[1]!, 8);
+			}
+			default: {
+				if (letter >= "0" && letter <= "7") {
+					const match = /^[0-7]{0,2}/.exec(this.pattern.slice(this.pos))!;
+					this.pos += match[0].length;
+					return Number.parseInt(letter + match[0], 8);
+				}
+				return letter.charCodeAt(0);
+			}
+		}
+	}
+
+	private literal(code: number): void {
+		if (code > 0xffff) {
+			// Outside a class a surrogate pair is just two code units in a row.
+			const text = String.fromCodePoint(code);
+			this.parts.push(`(?:${escapeCode(text.charCodeAt(0))}${escapeCode(text.charCodeAt(1))})`);
+			return;
+		}
+		const ch = String.fromCharCode(code);
+		const other = otherCase(ch);
+		if (other === undefined) {
+			this.parts.push(SYNTAX_CHARACTERS.has(ch) ? `\\${ch}` : escapeCode(code));
+			return;
+		}
+		if (!this.flags.i) {
+			this.caseful = true;
+			this.parts.push(ch);
+		} else {
+			this.caseless = true;
+			this.parts.push(this.foldCase ? ch : `[${ch}${other}]`);
+		}
+	}
+
+	private characterClass(): void {
+		this.pos++;
+		let negate = false;
+		if (this.pattern[this.pos] === "^") {
+			negate = true;
+			this.pos++;
+		}
+		const items: string[] = [];
+		// Single characters and ranges, for adding the other case under (?i).
+		const ranges: Array<[number, number]> = [];
+		let first = true;
+		while (this.pos < this.pattern.length) {
+			if (this.pattern[this.pos] === "]" && !first) break;
+			first = false;
+			const posix = /^\[:(\^?)([a-z]+):\]/.exec(this.pattern.slice(this.pos));
+			if (posix) {
+				this.pos += posix[0].length;
+				const name = posix[2]!;
+				const negated = posix[1] === "^";
+				const translated = negated ? NEGATED_POSIX_CLASSES[name] : POSIX_CLASSES[name];
+				if (translated === undefined) {
+					throw new VCLRegexError(this.pattern, `the POSIX class [:${posix[1]}${name}:]`);
+				}
+				items.push(translated);
+				if (name === "lower") ranges.push([0x61, 0x7a]);
+				if (name === "upper") ranges.push([0x41, 0x5a]);
+				continue;
+			}
+			const low = this.classMember(items);
+			if (low === undefined) continue;
+			const dash = this.pattern[this.pos] === "-" && this.pattern[this.pos + 1] !== "]";
+			if (dash && this.pos + 1 < this.pattern.length) {
+				const save = this.pos;
+				this.pos++;
+				const high = this.classMember(items, true);
+				if (high !== undefined) {
+					items.push(`${escapeClassCode(low)}-${escapeClassCode(high)}`);
+					ranges.push([low, high]);
+					continue;
+				}
+				// `[a-\d]`: the dash is literal.
+				this.pos = save;
+			}
+			items.push(escapeClassCode(low));
+			ranges.push([low, low]);
+		}
+		if (this.pos >= this.pattern.length) {
+			// Unterminated: left for RegExp to reject.
+			this.parts.push(`[${negate ? "^" : ""}${items.join("")}`);
+			return;
+		}
+		this.pos++;
+		const folded = foldRanges(ranges);
+		if (folded.length > 0 && !this.flags.i) this.caseful = true;
+		if (folded.length > 0 && this.flags.i) {
+			this.caseless = true;
+			if (!this.foldCase) items.push(...folded.map(([lo, hi]) => rangeText(lo, hi)));
+		}
+		this.parts.push(`[${negate ? "^" : ""}${items.join("")}]`);
+	}
+
+	/**
+	 * One class member. Returns its code when it is a single character (so it
+	 * can start or end a range); a class escape like \d is pushed onto `items`
+	 * directly, or rejected when it ends a range.
+	 */
+	private classMember(items: string[], rangeEnd = false): number | undefined {
+		const ch = this.pattern[this.pos]!;
+		if (ch !== "\\") {
+			const code = this.pattern.codePointAt(this.pos)!;
+			if (code > 0xffff) {
+				throw new VCLRegexError(this.pattern, "a character above U+FFFF in a class");
+			}
+			this.pos++;
+			return code;
+		}
+		const next = this.pattern[this.pos + 1];
+		if (next === undefined) {
+			this.pos++;
+			return 0x5c;
+		}
+		const shorthand: Record<string, string> = {
+			d: "\\d",
+			D: "\\D",
+			w: "\\w",
+			W: "\\W",
+			s: "\\s",
+			S: "\\S",
+			h: HORIZONTAL_SPACE,
+			v: VERTICAL_SPACE,
+		};
+		if (shorthand[next] !== undefined || "HVpP".includes(next)) {
+			if (rangeEnd) return undefined;
+			this.pos += 2;
+			if (next === "H" || next === "V") {
+				throw new VCLRegexError(this.pattern, `\\${next} inside a character class`);
+			}
+			if (next === "p" || next === "P") {
+				throw new VCLRegexError(this.pattern, `the Unicode property escape \\${next}`);
+			}
+			items.push(shorthand[next]!);
+			return undefined;
+		}
+		if (next === "Q") {
+			if (rangeEnd) return undefined;
+			const end = this.pattern.indexOf("\\E", this.pos + 2);
+			const text = this.pattern.slice(this.pos + 2, end === -1 ? undefined : end);
+			this.pos = end === -1 ? this.pattern.length : end + 2;
+			for (const quoted of text) items.push(escapeClassCode(quoted.codePointAt(0)!));
+			return undefined;
+		}
+		if (next === "E") {
+			this.pos += 2;
+			return rangeEnd ? undefined : this.classMember(items, rangeEnd);
+		}
+		this.pos += 2;
+		// \b is a backspace inside a class.
+		if (next === "b") return 0x08;
+		const code = this.escapedCode(next);
+		if (code > 0xffff) {
+			throw new VCLRegexError(this.pattern, "a character above U+FFFF in a class");
+		}
+		return code;
+	}
+}
+
+/** The other case of a letter that has exactly one, as JavaScript's `i` flag folds it. */
+function otherCase(ch: string): string | undefined {
+	const lower = ch.toLowerCase();
+	const upper = ch.toUpperCase();
+	if (lower.length !== 1 || upper.length !== 1 || lower === upper) return undefined;
+	return ch === lower ? upper : lower;
+}
+
+/** The ASCII letters of each range, moved to the other case. */
+function foldRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+	const folded: Array<[number, number]> = [];
+	for (const [lo, hi] of ranges) {
+		for (const [from, to, shift] of [
+			[0x61, 0x7a, -0x20],
+			[0x41, 0x5a, 0x20],
+		] as const) {
+			const start = Math.max(lo, from);
+			const end = Math.min(hi, to);
+			if (start <= end) folded.push([start + shift, end + shift]);
+		}
+		if (lo === hi && (lo > 0x7f || lo < 0x41)) {
+			const other = otherCase(String.fromCharCode(lo));
+			if (other !== undefined) folded.push([other.charCodeAt(0), other.charCodeAt(0)]);
+		}
+	}
+	return folded;
+}
+
+function rangeText(lo: number, hi: number): string {
+	return lo === hi ? escapeClassCode(lo) : `${escapeClassCode(lo)}-${escapeClassCode(hi)}`;
+}
+
+function escapeCode(code: number): string {
+	if (code >= 0x20 && code < 0x7f) return String.fromCharCode(code);
+	return code <= 0xff
+		? `\\x${code.toString(16).padStart(2, "0")}`
+		: `\\u${code.toString(16).padStart(4, "0")}`;
+}
+
+function escapeClassCode(code: number): string {
+	const ch = String.fromCharCode(code);
+	return CLASS_SYNTAX_CHARACTERS.has(ch) ? `\\${ch}` : escapeCode(code);
+}
+
+/** Capturing groups in a pattern, to tell a \12 backreference from an octal escape. */
+function countCaptures(pattern: string): number {
+	let count = 0;
+	let inClass = false;
+	for (let i = 0; i < pattern.length; i++) {
+		const ch = pattern[i];
+		if (ch === "\\") {
+			if (pattern[i + 1] === "Q") {
+				const end = pattern.indexOf("\\E", i + 2);
+				i = end === -1 ? pattern.length : end + 1;
+			} else {
+				i++;
+			}
+		} else if (inClass) {
+			if (ch === "]") inClass = false;
+		} else if (ch === "[") {
+			inClass = true;
+			if (pattern[i + 1] === "^") i++;
+			if (pattern[i + 1] === "]") i++;
+		} else if (ch === "(") {
+			const rest = pattern.slice(i + 1, i + 5);
+			if (!rest.startsWith("?") && !rest.startsWith("*")) count++;
+			else if (/^\?(?:P?<[A-Za-z_]|')/.test(rest)) count++;
+		}
+	}
+	return count;
+}
+
+// Compiled patterns by flags and source. Patterns come from VCL literals and
+// tables, so the set is small; the cap only guards pathological input.
+const REGEX_CACHE = new Map<string, RegExp | Error>();
+const REGEX_CACHE_MAX = 1000;
+
+/** PCRE group numbering for compiled regexes whose JavaScript groups differ. */
+const CAPTURE_GROUPS = new WeakMap<RegExp, number[]>();
+
+// compileRegex returns the cached translation of a PCRE pattern, throwing
+// VCLRegexError or the RegExp constructor's SyntaxError as translateRegex
+// would. `flags` adds JavaScript flags such as "g"; a global regex comes back
+// with lastIndex reset.
+export function compileRegex(pattern: string, flags = ""): RegExp {
+	const key = `${flags}/${pattern}`;
+	let compiled = REGEX_CACHE.get(key);
+	if (compiled === undefined) {
+		try {
+			const translated = translateRegex(pattern);
+			compiled = new RegExp(translated.source, translated.flags + flags);
+			if (translated.groups.some((index, number) => index !== number)) {
+				CAPTURE_GROUPS.set(compiled, translated.groups);
+			}
+		} catch (error) {
+			compiled = error instanceof Error ? error : new Error(String(error));
+		}
+		if (REGEX_CACHE.size >= REGEX_CACHE_MAX) REGEX_CACHE.clear();
+		REGEX_CACHE.set(key, compiled);
+	}
+	if (compiled instanceof Error) throw compiled;
+	compiled.lastIndex = 0;
+	return compiled;
+}
+
+/** A match's capture groups numbered as in the PCRE pattern; 0 is the whole match. */
+export function regexCaptures(regex: RegExp, match: RegExpMatchArray): Array<string | undefined> {
+	const groups = CAPTURE_GROUPS.get(regex);
+	return groups ? groups.map((index) => match[index]) : [...match];
+}
+
+export interface VCLRegexCheckError {
+	message: string;
+	location?: SourceLocation;
+}
+
+// Functions whose second argument is a PCRE pattern.
+const PATTERN_FUNCTIONS = new Set([
+	"regsub",
+	"regsuball",
+	"querystring.regfilter",
+	"querystring.regfilter_except",
+]);
+
+// checkRegexes reports every constant pattern (a `~` / `!~` operand, a
+// `case ~` label, a regsub / regsuball / querystring.regfilter argument) that
+// uses a construct translateRegex cannot express, the way Fastly rejects a
+// pattern it cannot compile at activation. Syntax errors are not reported
+// here; see the linter's invalid-regex rule.
+export function checkRegexes(program: VCLProgram): VCLRegexCheckError[] {
+	const errors: VCLRegexCheckError[] = [];
+	const check = (pattern: VCLExpression | null | undefined) => {
+		let source: string;
+		if (pattern?.type === "StringLiteral") source = pattern.value;
+		else if (pattern?.type === "RegexLiteral") source = pattern.pattern;
+		else return;
+		try {
+			translateRegex(source);
+		} catch (error) {
+			if (!(error instanceof VCLRegexError)) return;
+			errors.push({
+				message: error.message,
+				...(pattern.location && { location: pattern.location }),
+			});
+		}
+	};
+	const visitExpression = (expression: VCLExpression | null | undefined): void => {
+		if (!expression) return;
+		switch (expression.type) {
+			case "BinaryExpression":
+				if (expression.operator === "~" || expression.operator === "!~") check(expression.right);
+				visitExpression(expression.left);
+				visitExpression(expression.right);
+				return;
+			case "FunctionCall":
+				if (PATTERN_FUNCTIONS.has(expression.name)) check(expression.arguments[1]);
+				for (const arg of expression.arguments) visitExpression(arg);
+				return;
+			case "UnaryExpression":
+				visitExpression(expression.operand);
+				return;
+			case "TernaryExpression":
+				visitExpression(expression.condition);
+				visitExpression(expression.trueExpr);
+				visitExpression(expression.falseExpr);
+				return;
+			case "MemberAccess":
+				visitExpression(expression.object);
+				return;
+			default:
+				return;
+		}
+	};
+	const visitStatements = (statements: VCLStatement[] | undefined): void => {
+		for (const statement of statements ?? []) {
+			switch (statement.type) {
+				case "IfStatement":
+					visitExpression(statement.test ?? statement.condition);
+					visitStatements(statement.consequent);
+					visitStatements(statement.alternate);
+					break;
+				case "SwitchStatement":
+					visitExpression(statement.subject);
+					for (const switchCase of statement.cases) {
+						if (switchCase.regex) check(switchCase.test);
+						visitStatements(switchCase.body);
+					}
+					break;
+				case "BlockStatement":
+					visitStatements(statement.body);
+					break;
+				case "SetStatement":
+				case "AddStatement":
+				case "HashDataStatement":
+					visitExpression(statement.value);
+					break;
+				case "DeclareStatement":
+					visitExpression(statement.initialValue);
+					break;
+				case "ReturnStatement":
+					visitExpression(statement.value);
+					break;
+				case "ErrorStatement":
+					visitExpression(statement.status);
+					visitExpression(statement.message);
+					break;
+				case "LogStatement":
+					visitExpression(statement.message);
+					break;
+				case "SyntheticStatement":
+					visitExpression(statement.expression);
+					break;
+				case "SyntheticBase64Statement":
+					visitExpression(statement.content);
+					break;
+				case "CallStatement":
+					for (const arg of statement.arguments) visitExpression(arg);
+					break;
+				case "ExpressionStatement":
+					visitExpression(statement.expression);
+					break;
+				default:
+					break;
+			}
+		}
+	};
+	for (const sub of program.subroutines) visitStatements(sub.body ?? sub.statements);
+	return errors;
+}
@@ -0,0 +1,155 @@
+// Load-time scope checking. Fastly only lets some statements and return actions
+// appear in some built-in subroutines (`synthetic` in vcl_error, `return(pass)`
+// not in vcl_deliver, ...). A custom subroutine runs in the scope of whatever
+// called it, so its body is checked against every built-in subroutine it can be
+// reached from through `call`. The runtime enforces the same statement table
+// (see requireScope in vcl-compiler.ts); this pass reports every violation up
+// front, with its location, instead of failing one request at a time.
+
+import type { SourceLocation } from "./source-map";
+import type {
+	VCLBlockStatement,
+	VCLCallStatement,
+	VCLIfStatement,
+	VCLProgram,
+	VCLReturnStatement,
+	VCLStatement,
+	VCLSubroutine,
+	VCLSwitchStatement,
+} from "./vcl-parser";
+
+/** Statements restricted to specific built-in subroutine scopes. */
+export const STATEMENT_SCOPES: Record<string, { label: string; allowed: string[] }> = {
+	ErrorStatement: { label: "error", allowed: ["RECV", "HIT", "MISS", "PASS", "FETCH"] },
+	SyntheticStatement: { label: "synthetic", allowed: ["ERROR"] },
+	SyntheticBase64Statement: { label: "synthetic.base64", allowed: ["ERROR"] },
+	EsiStatement: { label: "esi", allowed: ["FETCH"] },
+	RestartStatement: { label: "restart", allowed: ["RECV", "HIT", "FETCH", "ERROR", "DELIVER"] },
+};
+
+/** Return actions each built-in subroutine may exit with. */
+export const RETURN_SCOPES: Record<string, string[]> = {
+	lookup: ["RECV"],
+	pipe: ["RECV"],
+	purge: ["RECV"],
+	upgrade: ["RECV"],
+	hash: ["HASH"],
+	pass: ["RECV", "HIT", "MISS", "PASS", "FETCH"],
+	fetch: ["MISS", "PASS"],
+	error: STATEMENT_SCOPES.ErrorStatement!.allowed,
+	restart: STATEMENT_SCOPES.RestartStatement!.allowed,
+	deliver: ["HIT", "FETCH", "ERROR", "DELIVER", "LOG"],
+	deliver_stale: ["MISS", "FETCH", "ERROR"],
+	hit_for_pass: ["FETCH"],
+};
+
+const BUILTIN_SUBROUTINES = [
+	"vcl_recv",
+	"vcl_hash",
+	"vcl_hit",
+	"vcl_miss",
+	"vcl_pass",
+	"vcl_fetch",
+	"vcl_error",
+	"vcl_deliver",
+	"vcl_log",
+];
+
+export interface VCLScopeError {
+	message: string;
+	location?: SourceLocation;
+}
+
+// checkScopes reports every statement and return action that appears where its
+// subroutine cannot legally run it, in source order.
+export function checkScopes(program: VCLProgram): VCLScopeError[] {
+	const subs = new Map<string, VCLSubroutine[]>();
+	for (const sub of program.subroutines) {
+		const defined = subs.get(sub.name);
+		if (defined) defined.push(sub);
+		else subs.set(sub.name, [sub]);
+	}
+
+	// The built-in subroutines each subroutine can be reached from.
+	const reachedFrom = new Map<string, Set<string>>();
+	for (const builtin of BUILTIN_SUBROUTINES) {
+		if (!subs.has(builtin)) continue;
+		const pending = [builtin];
+		while (pending.length > 0) {
+			const name = pending.pop()!;
+			let scopes = reachedFrom.get(name);
+			if (!scopes) {
+				scopes = new Set();
+				reachedFrom.set(name, scopes);
+			}
+			if (scopes.has(builtin)) continue;
+			scopes.add(builtin);
+			for (const sub of subs.get(name) ?? []) {
+				forEachStatement(sub.body ?? [], (statement) => {
+					if (statement.type === "CallStatement") {
+						pending.push((statement as VCLCallStatement).subroutineName);
+					}
+				});
+			}
+		}
+	}
+
+	const errors: VCLScopeError[] = [];
+	for (const sub of program.subroutines) {
+		const callers = [...(reachedFrom.get(sub.name) ?? [])];
+		if (callers.length === 0) continue;
+		forEachStatement(sub.body ?? [], (statement) => {
+			let label: string;
+			let allowed: string[];
+			if (statement.type === "ReturnStatement") {
+				const action = (statement as VCLReturnStatement).argument;
+				const scopes = RETURN_SCOPES[action];
+				if (!scopes) return;
+				label = `return(${action})`;
+				allowed = scopes;
+			} else {
+				const scopes = STATEMENT_SCOPES[statement.type];
+				if (!scopes) return;
+				label = `${scopes.label} statement`;
+				allowed = scopes.allowed;
+			}
+			const illegal = callers.filter((caller) => !allowed.includes(scopeOf(caller)));
+			if (illegal.length === 0) return;
+			let message = `${label} is only available in ${allowed.join(", ")} scope`;
+			if (!BUILTIN_SUBROUTINES.includes(sub.name)) {
+				message += ` (sub ${sub.name} is called from ${illegal.join(", ")})`;
+			}
+			errors.push({ message, ...(statement.location && { location: statement.location }) });
+		});
+	}
+	return errors;
+}
+
+function scopeOf(builtin: string): string {
+	return builtin.slice(4).toUpperCase();
+}
+
+function forEachStatement(
+	statements: VCLStatement[],
+	visit: (statement: VCLStatement) => void,
+): void {
+	for (const statement of statements) {
+		visit(statement);
+		switch (statement.type) {
+			case "IfStatement": {
+				const ifStmt = statement as VCLIfStatement;
+				forEachStatement(ifStmt.consequent ?? [], visit);
+				if (ifStmt.alternate) forEachStatement(ifStmt.alternate, visit);
+				break;
+			}
+			case "SwitchStatement":
+				for (const switchCase of (statement as VCLSwitchStatement).cases) {
+					forEachStatement(switchCase.body ?? [], visit);
+				}
+				break;
+			case "BlockStatement":
+				forEachStatement((statement as VCLBlockStatement).body, visit);
+				break;
+		}
+	}
+}
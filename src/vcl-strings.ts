@@ -1,6 +1,8 @@
 // String builtins matching Fastly's behavior. Functions returning `null`
 // correspond to VCL "not set" values.
 
+import { compileRegex, regexCaptures } from "./vcl-regex";
+
 const utf8Encoder = new TextEncoder();
 const utf8Decoder = new TextDecoder();
 
@@ -382,7 +384,7 @@ export function strtol(s: string, base: number): number | null {
 	return Number(v);
 }
 
-function expandReplacement(_input: string, replacement: string, match: RegExpExecArray): string {
+function expandReplacement(replacement: string, captures: Array<string | undefined>): string {
 	let result = "";
 	for (let i = 0; i < replacement.length; i++) {
 		if (replacement[i] !== "\\" || i + 1 >= replacement.length) {
@@ -394,7 +396,7 @@ function expandReplacement(_input: string, replacement: string, match: RegExpExe
 		if (next >= "0" && next <= "9") {
 			const groupIdx = parseInt(next, 10);
 			// Non-participating groups return undefined — use empty string
-			result += match[groupIdx] ?? "";
+			result += captures[groupIdx] ?? "";
 		} else {
 			result += next;
 		}
@@ -405,12 +407,12 @@ function expandReplacement(_input: string, replacement: string, match: RegExpExe
 export function regsub(str: string, pattern: string, replacement: string): string {
 	try {
 		const s = String(str);
-		const re = new RegExp(pattern);
+		const re = compileRegex(pattern);
 		const match = re.exec(s);
 		if (!match) return s;
 		return (
 			s.slice(0, match.index) +
-			expandReplacement(s, replacement, match) +
+			expandReplacement(replacement, regexCaptures(re, match)) +
 			s.slice(match.index + match[0].length)
 		);
 	} catch {
@@ -421,13 +423,13 @@ export function regsub(str: string, pattern: string, replacement: string): strin
 export function regsuball(str: string, pattern: string, replacement: string): string {
 	try {
 		const s = String(str);
-		const re = new RegExp(pattern, "g");
+		const re = compileRegex(pattern, "g");
 		let result = "";
 		let lastEnd = 0;
 		let match: RegExpExecArray | null;
 		while ((match = re.exec(s)) !== null) {
 			result += s.slice(lastEnd, match.index);
-			result += expandReplacement(s, replacement, match);
+			result += expandReplacement(replacement, regexCaptures(re, match));
 			lastEnd = match.index + match[0].length;
 			if (match[0].length === 0) {
 				re.lastIndex++;
@@ -0,0 +1,485 @@
+// Load-time type checking, the way Fastly rejects a service on activation
+// rather than at request time: calls to unknown functions, wrong argument counts
+// or types, assignments to read-only variables, and assignments whose value type
+// cannot be stored in the target. Types come from the same tables the runtime
+// coerces with (BUILTIN_SIGNATURES, VARIABLE_TYPES). An expression whose type
+// cannot be known statically (a ternary, arithmetic on mixed types) is never
+// reported, so the checker only rejects what is certainly wrong.
+
+import type { SourceLocation } from "./source-map";
+import { BUILTIN_SIGNATURES, VARIABLE_TYPES } from "./vcl-builtin-types";
+import type {
+	VCLBinaryExpression,
+	VCLBlockStatement,
+	VCLCallStatement,
+	VCLDeclareStatement,
+	VCLErrorStatement,
+	VCLExpression,
+	VCLExpressionStatement,
+	VCLFunctionCall,
+	VCLHashDataStatement,
+	VCLIfStatement,
+	VCLLogStatement,
+	VCLNumberLiteral,
+	VCLProgram,
+	VCLReturnStatement,
+	VCLSetStatement,
+	VCLStatement,
+	VCLSubroutine,
+	VCLSwitchStatement,
+	VCLSyntheticBase64Statement,
+	VCLSyntheticStatement,
+	VCLTernaryExpression,
+	VCLUnaryExpression,
+} from "./vcl-parser";
+
+export interface VCLTypeError {
+	message: string;
+	location?: SourceLocation;
+}
+
+// Functions the interpreter dispatches by name beyond Fastly's builtin list
+// (legacy aliases). Together with MODULE_FUNCTIONS these have no signature, so
+// only their existence is checked.
+const INTERPRETER_FUNCTIONS = new Set([
+	"if",
+	"json_escape",
+	"std.min",
+	"std.max",
+	"std.floor",
+	"std.ceiling",
+	"std.round",
+	"fastly.ff.last_hop_was_serviceid",
+]);
+// Test-only modules, installed on the context by the test harness.
+const INTERPRETER_PREFIXES = ["testing.", "assert."];
+
+/**
+ * The functions the runtime modules on a default context implement without a
+ * builtin signature, by module: `waf.log`, `std.random.randomint`, ... Kept
+ * in step with the modules by the type checker tests.
+ */
+export const MODULE_FUNCTIONS: Record<string, readonly string[]> = {
+	std: [
+		"base64",
+		"base64_decode",
+		"base64url",
+		"base64url_decode",
+		"error",
+		"integer",
+		"log",
+		"real",
+		"regsub",
+		"regsuball",
+		"strftime",
+		"substr",
+		"synthetic",
+	],
+	"std.acl": ["add", "add_entry", "check", "remove", "remove_entry"],
+	"std.backend": ["add", "add_probe", "get", "is_healthy", "remove", "set_current"],
+	"std.crypto": ["decrypt_base64", "decrypt_hex", "encrypt_base64", "encrypt_hex"],
+	"std.digest": [
+		"awsv4_hmac",
+		"base64",
+		"base64_decode",
+		"base64url",
+		"base64url_decode",
+		"base64url_nopad",
+		"base64url_nopad_decode",
+		"ecdsa_verify",
+		"hash_crc32",
+		"hash_crc32b",
+		"hash_md5",
+		"hash_sha1",
+		"hash_sha1_from_base64",
+		"hash_sha224",
+		"hash_sha256",
+		"hash_sha256_from_base64",
+		"hash_sha384",
+		"hash_sha512",
+		"hash_sha512_from_base64",
+		"hash_xxh32",
+		"hash_xxh32_from_base64",
+		"hash_xxh64",
+		"hash_xxh64_from_base64",
+		"hmac_md5",
+		"hmac_md5_base64",
+		"hmac_sha1",
+		"hmac_sha1_base64",
+		"hmac_sha256",
+		"hmac_sha256_base64",
+		"hmac_sha256_with_base64_key",
+		"hmac_sha512",
+		"hmac_sha512_base64",
+		"rsa_verify",
+		"secure_is_equal",
+		"time_hmac_md5",
+		"time_hmac_sha1",
+		"time_hmac_sha256",
+		"time_hmac_sha512",
+	],
+	"std.director": ["add", "add_backend", "remove", "remove_backend", "select_backend"],
+	"std.header": ["filter", "filter_except", "get", "remove", "set"],
+	"std.http": ["status_matches"],
+	"std.math": ["abs", "ceil", "floor", "log", "max", "min", "pow", "round"],
+	"std.querystring": ["filter", "filter_except", "get", "remove", "set"],
+	"std.random": ["randombool", "randombool_seeded", "randomint", "randomint_seeded", "randomstr"],
+	"std.ratelimit": [
+		"check_rate",
+		"check_rates",
+		"open_window",
+		"penaltybox_add",
+		"penaltybox_has",
+		"ratecounter_increment",
+	],
+	"std.table": [
+		"add",
+		"add_entry",
+		"contains",
+		"lookup",
+		"lookup_bool",
+		"lookup_float",
+		"lookup_integer",
+		"lookup_regex",
+		"remove",
+		"remove_entry",
+	],
+	addr: ["is_unix"],
+	bin: ["data_convert"],
+	math: ["abs", "fmod", "max", "min", "pow"],
+	uuid: ["decode", "encode"],
+	waf: ["allow", "block", "detect_attack", "log", "rate_limit", "rate_limit_tokens"],
+};
+
+const moduleFunctions = new Set(
+	Object.entries(MODULE_FUNCTIONS).flatMap(([module, names]) =>
+		names.map((name) => `${module}.${name}`),
+	),
+);
+
+const COMPARISON_OPERATORS = new Set(["==", "!=", "<", ">", "<=", ">=", "~", "!~", "&&", "||"]);
+
+// assignable reports whether a value of type `actual` can be stored in, or
+// passed as, `expected`. Every type converts to STRING implicitly. Beyond that,
+// only the conversions the runtime performs losslessly are accepted: an INTEGER
+// widens to FLOAT or counts seconds as RTIME, a STRING names an IP address or a
+// backend. Anything else must match exactly.
+function assignable(expected: string, actual: string): boolean {
+	if (expected === actual) return true;
+	switch (expected) {
+		case "STRING":
+		case "STRING_LIST":
+			return true;
+		case "FLOAT":
+		case "RTIME":
+			return actual === "INTEGER";
+		case "IP":
+		case "BACKEND":
+		case "REQBACKEND":
+			return actual === "STRING";
+		default:
+			return false;
+	}
+}
+
+// checkTypes type-checks every subroutine of a program and returns one error per
+// problem found, in source order.
+export function checkTypes(program: VCLProgram): VCLTypeError[] {
+	return new TypeChecker(program).check();
+}
+
+class TypeChecker {
+	private readonly errors: VCLTypeError[] = [];
+	private readonly subs = new Map<string, VCLSubroutine>();
+	/** Declared types of the `var.` locals and parameters of the current subroutine. */
+	private locals = new Map<string, string>();
+
+	constructor(private readonly program: VCLProgram) {
+		for (const sub of program.subroutines) this.subs.set(sub.name, sub);
+	}
+
+	check(): VCLTypeError[] {
+		for (const sub of this.program.subroutines) {
+			this.locals = new Map();
+			for (const param of sub.params ?? []) {
+				this.locals.set(param.name, param.paramType.toUpperCase());
+			}
+			this.checkStatements(sub.body ?? []);
+		}
+		return this.errors;
+	}
+
+	private report(message: string, location: SourceLocation | undefined): void {
+		this.errors.push({ message, ...(location && { location }) });
+	}
+
+	private checkStatements(statements: VCLStatement[]): void {
+		for (const statement of statements) this.checkStatement(statement);
+	}
+
+	private checkStatement(statement: VCLStatement): void {
+		switch (statement.type) {
+			case "IfStatement": {
+				const ifStmt = statement as VCLIfStatement;
+				this.typeOf(ifStmt.test);
+				this.checkStatements(ifStmt.consequent ?? []);
+				if (ifStmt.alternate) this.checkStatements(ifStmt.alternate);
+				break;
+			}
+			case "SwitchStatement": {
+				const switchStmt = statement as VCLSwitchStatement;
+				this.typeOf(switchStmt.subject);
+				for (const switchCase of switchStmt.cases) {
+					if (switchCase.test) this.typeOf(switchCase.test);
+					this.checkStatements(switchCase.body ?? []);
+				}
+				break;
+			}
+			case "BlockStatement":
+				this.checkStatements((statement as VCLBlockStatement).body);
+				break;
+			case "DeclareStatement": {
+				const declare = statement as VCLDeclareStatement;
+				const declaredType = declare.variableType.toUpperCase();
+				this.locals.set(declare.variableName, declaredType);
+				if (declare.initialValue) {
+					this.checkAssignment(declare.variableName, declaredType, declare.initialValue, declare);
+				}
+				break;
+			}
+			case "SetStatement":
+				this.checkSet(statement as VCLSetStatement);
+				break;
+			case "AddStatement":
+				this.typeOf(statement.value);
+				break;
+			case "CallStatement":
+				for (const arg of (statement as VCLCallStatement).arguments ?? []) this.typeOf(arg);
+				break;
+			case "ReturnStatement": {
+				const value = (statement as VCLReturnStatement).value;
+				if (value) this.typeOf(value);
+				break;
+			}
+			case "ErrorStatement": {
+				const errorStmt = statement as VCLErrorStatement;
+				if (errorStmt.status) this.typeOf(errorStmt.status);
+				if (errorStmt.message) this.typeOf(errorStmt.message);
+				break;
+			}
+			case "LogStatement":
+				this.typeOf((statement as VCLLogStatement).message);
+				break;
+			case "SyntheticStatement": {
+				const expression = (statement as VCLSyntheticStatement).expression;
+				if (expression) this.typeOf(expression);
+				break;
+			}
+			case "SyntheticBase64Statement":
+				this.typeOf((statement as VCLSyntheticBase64Statement).content);
+				break;
+			case "HashDataStatement":
+				this.typeOf((statement as VCLHashDataStatement).value);
+				break;
+			case "ExpressionStatement":
+				this.typeOf((statement as VCLExpressionStatement).expression);
+				break;
+		}
+	}
+
+	private checkSet(statement: VCLSetStatement): void {
+		const target = statement.target;
+		if (target.startsWith("var.")) {
+			const declared = this.locals.get(target);
+			if (declared) {
+				this.checkAssignment(target, declared, statement.value, statement, statement.operator);
+			} else {
+				this.typeOf(statement.value);
+			}
+			return;
+		}
+		const variable = VARIABLE_TYPES[target];
+		if (variable && variable.set === null) {
+			this.report(`Variable ${target} is read-only`, statement.location);
+			this.typeOf(statement.value);
+			return;
+		}
+		if (variable?.set) {
+			this.checkAssignment(target, variable.set, statement.value, statement, statement.operator);
+			return;
+		}
+		this.typeOf(statement.value);
+	}
+
+	private checkAssignment(
+		target: string,
+		targetType: string,
+		value: VCLExpression,
+		statement: VCLStatement,
+		operator?: string,
+	): void {
+		const valueType = this.typeOf(value);
+		// Compound operators (`+=` and friends) combine with the current value, so
+		// only a plain assignment must store the value's type as is.
+		if (operator && operator !== "=") return;
+		if (valueType && !assignable(targetType, valueType)) {
+			this.report(
+				`Cannot assign ${valueType} to ${targetType} variable ${target}`,
+				value.location ?? statement.location,
+			);
+		}
+	}
+
+	/**
+	 * The static VCL type of an expression, or undefined when it cannot be
+	 * known. Checks every function call inside it along the way.
+	 */
+	private typeOf(expression: VCLExpression | undefined): string | undefined {
+		if (!expression) return undefined;
+		switch (expression.type) {
+			case "StringLiteral":
+				return "STRING";
+			case "NumberLiteral":
+				return (expression as VCLNumberLiteral).isFloat ? "FLOAT" : "INTEGER";
+			case "RTimeLiteral":
+				return "RTIME";
+			case "BoolLiteral":
+				return "BOOL";
+			case "Identifier":
+				return this.identifierType(expression.name);
+			case "FunctionCall":
+				return this.checkCall(expression as VCLFunctionCall);
+			case "BinaryExpression": {
+				const binary = expression as VCLBinaryExpression;
+				const left = this.typeOf(binary.left);
+				const right = this.typeOf(binary.right);
+				if (COMPARISON_OPERATORS.has(binary.operator)) return "BOOL";
+				if (binary.operator === " ") return "STRING";
+				if (binary.operator === "+" && (left === "STRING" || right === "STRING")) return "STRING";
+				return undefined;
+			}
+			case "UnaryExpression": {
+				const unary = expression as VCLUnaryExpression;
+				const operand = this.typeOf(unary.operand);
+				if (unary.operator === "!") return "BOOL";
+				return unary.operator === "-" ? operand : undefined;
+			}
+			case "TernaryExpression": {
+				const ternary = expression as VCLTernaryExpression;
+				this.typeOf(ternary.condition);
+				this.typeOf(ternary.trueExpr);
+				this.typeOf(ternary.falseExpr);
+				return undefined;
+			}
+			default:
+				return undefined;
+		}
+	}
+
+	private identifierType(name: string): string | undefined {
+		if (name.startsWith("var.")) return this.locals.get(name);
+		const variable = VARIABLE_TYPES[name];
+		if (variable) return variable.get ?? undefined;
+		// Header reads (req.http.Foo, beresp.http.Foo:sub, ...) are strings.
+		if (/^[a-z_.]+\.http\./.test(name)) return "STRING";
+		return undefined;
+	}
+
+	private checkCall(call: VCLFunctionCall): string | undefined {
+		const args = call.arguments ?? [];
+		const argTypes = args.map((arg) => this.typeOf(arg));
+		const name = call.name;
+
+		const userSub = name.includes(".") ? undefined : this.subs.get(name);
+		if (userSub?.returnType) {
+			const params = userSub.params ?? [];
+			if (params.length !== args.length) {
+				this.report(
+					`Wrong number of arguments for ${name}: expected ${params.length}, got ${args.length}`,
+					call.location,
+				);
+			} else {
+				this.checkArguments(
+					name,
+					params.map((p) => p.paramType.toUpperCase()),
+					args,
+					argTypes,
+				);
+			}
+			return userSub.returnType.toUpperCase();
+		}
+
+		const signature = BUILTIN_SIGNATURES[name];
+		if (!signature) {
+			if (
+				!INTERPRETER_FUNCTIONS.has(name) &&
+				!INTERPRETER_PREFIXES.some((prefix) => name.startsWith(prefix)) &&
+				!moduleFunctions.has(name)
+			) {
+				this.report(`Unknown function ${name}`, call.location);
+			}
+			return undefined;
+		}
+
+		// A function taking no arguments lists no overloads.
+		const overloads = signature.args.length > 0 ? signature.args : [[]];
+		const overload = overloads.find((params) => acceptsCount(params, args.length));
+		if (!overload) {
+			const counts = [...new Set(overloads.map(describeCount))].join(" or ");
+			this.report(
+				`Wrong number of arguments for ${name}: expected ${counts}, got ${args.length}`,
+				call.location,
+			);
+		} else if (overloads.filter((params) => acceptsCount(params, args.length)).length === 1) {
+			// With several overloads of the same arity, any of them may apply.
+			this.checkArguments(name, overload, args, argTypes);
+		}
+		return signature.ret === null ? undefined : signature.ret;
+	}
+
+	private checkArguments(
+		name: string,
+		params: string[],
+		args: VCLExpression[],
+		argTypes: (string | undefined)[],
+	): void {
+		for (let i = 0; i < args.length; i++) {
+			const expected = params[Math.min(i, params.length - 1)]!;
+			const arg = args[i]!;
+			const actual = argTypes[i];
+			if (
+				expected === "ID" ||
+				expected === "ACL" ||
+				expected === "TABLE" ||
+				expected === "BACKEND"
+			) {
+				// These name a declaration, header or method. The interpreter also
+				// takes the name quoted, but a number can never be one.
+				if (arg.type === "NumberLiteral") {
+					this.report(
+						`Argument ${i + 1} of ${name} must be ${expected}, got ${actual}`,
+						arg.location ?? undefined,
+					);
+				}
+				continue;
+			}
+			if (actual && !assignable(expected, actual)) {
+				this.report(
+					`Argument ${i + 1} of ${name} must be ${expected}, got ${actual}`,
+					arg.location,
+				);
+			}
+		}
+	}
+}
+
+// A trailing STRING_LIST parameter takes any number of strings, including none.
+function acceptsCount(params: string[], count: number): boolean {
+	if (params[params.length - 1] === "STRING_LIST") return count >= params.length - 1;
+	return count === params.length;
+}
+
+function describeCount(params: string[]): string {
+	if (params[params.length - 1] === "STRING_LIST") return `at least ${params.length - 1}`;
+	return String(params.length);
+}
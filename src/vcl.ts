@@ -1,4 +1,9 @@
-import { buildDiagnostic, VCLDiagnosticError } from "./diagnostics";
+import {
+	buildDiagnostic,
+	diagnosticAt,
+	type VCLDiagnostic,
+	VCLDiagnosticError,
+} from "./diagnostics";
 import {
 	getPlatform,
 	logError,
@@ -6,19 +11,29 @@ import {
 	UnsupportedFeatureError,
 	type VCLPlatform,
 } from "./platform";
+import { VCLSourceMap } from "./source-map";
 import { AcceptModule } from "./vcl-accept";
 import { aclMatch } from "./vcl-acl";
 import { AddressModule } from "./vcl-address";
 import { BinaryModule } from "./vcl-binary";
-import { VCLCompiler, type VCLContext, type VCLSubroutines } from "./vcl-compiler";
+import {
+	type VCLCompileMode,
+	VCLCompiler,
+	type VCLContext,
+	type VCLSubroutines,
+} from "./vcl-compiler";
+import { expandIncludes, type IncludeResolver, VCLIncludeError } from "./vcl-include";
 import { VCLLimitExceededError } from "./vcl-limits";
+import { checkRegexes, compileRegex } from "./vcl-regex";
+import { checkScopes } from "./vcl-scopes";
+import { regsub as regsubImpl, regsuball as regsuballImpl } from "./vcl-strings";
+import { checkTypes } from "./vcl-typecheck";
 import { toRawString } from "./vcl-value";
 
 // Re-export types
 export type { VCLContext, VCLSubroutines };
 
 import { CryptoModule, createDigestModule } from "./vcl-digest";
-import { processESI } from "./vcl-esi";
 import { createHeaderModule } from "./vcl-header";
 import { createMathModule } from "./vcl-math";
 import { VCLLexer } from "./vcl-parser";
@@ -32,24 +47,67 @@ import { UTF8Module } from "./vcl-utf8";
 import { createUUIDModule } from "./vcl-uuid";
 import { WAFModule } from "./vcl-waf";
 
-export function loadVCLContent(content: string): VCLSubroutines {
+export interface LoadVCLOptions {
+	/**
+	 * Resolves `include` statements. Without one, includes are parsed but not
+	 * inlined.
+	 */
+	includeResolver?: IncludeResolver;
+	/** Name of the root file, used to resolve relative includes and detect cycles. */
+	fileName?: string;
+	/** How subroutines execute; see VCLCompileMode. Defaults to "closures". */
+	compileMode?: VCLCompileMode;
+}
+
+export function loadVCLContent(content: string, options: LoadVCLOptions = {}): VCLSubroutines {
+	let source = content;
+	let sourceMap: VCLSourceMap | undefined;
 	try {
-		const lexer = new VCLLexer(content);
+		if (options.includeResolver) {
+			source = expandIncludes(content, options.includeResolver, options.fileName);
+		}
+		sourceMap = new VCLSourceMap(source, options.fileName);
+		const lexer = new VCLLexer(source);
 		const tokens = lexer.tokenize();
-		const parser = new VCLParser(tokens, content);
-		const ast = parser.parse();
-		const compiler = new VCLCompiler(ast);
+		const parser = new VCLParser(tokens, source);
+		const { program: ast, diagnostics } = parser.parseWithRecovery(sourceMap);
+		if (diagnostics.length > 0) {
+			throwDiagnostics(diagnostics);
+		}
+		// From here on AST locations name the originating file; compiled
+		// statements keep references to their nodes, so trace events and runtime
+		// errors report the same positions.
+		sourceMap.remapLocations(ast);
+		const checkErrors = [...checkTypes(ast), ...checkScopes(ast), ...checkRegexes(ast)];
+		if (checkErrors.length > 0) {
+			throwDiagnostics(
+				checkErrors.map((e) => diagnosticAt(e.message, e.location, source, sourceMap)),
+			);
+		}
+		const compiler = new VCLCompiler(ast, { mode: options.compileMode });
 		return compiler.compile();
 	} catch (error) {
 		if (error instanceof VCLDiagnosticError) throw error;
 		if (error instanceof VCLLimitExceededError) throw error;
-		const diagnostic = buildDiagnostic(error as Error, content);
-		logError(`Error loading VCL content: ${diagnostic.message}`);
-		if (diagnostic.sourceFrame) logError(diagnostic.sourceFrame);
+		const diagnostic =
+			error instanceof VCLIncludeError
+				? buildDiagnostic(error, error.source)
+				: buildDiagnostic(error as Error, source, sourceMap);
+		logDiagnostic(diagnostic);
 		throw new VCLDiagnosticError(diagnostic);
 	}
 }
 
+function logDiagnostic(diagnostic: VCLDiagnostic): void {
+	logError(`Error loading VCL content: ${diagnostic.message}`);
+	if (diagnostic.sourceFrame) logError(diagnostic.sourceFrame);
+}
+
+function throwDiagnostics(diagnostics: VCLDiagnostic[]): never {
+	for (const diagnostic of diagnostics) logDiagnostic(diagnostic);
+	throw new VCLDiagnosticError(diagnostics);
+}
+
 export function executeVCLByName(
 	subroutines: VCLSubroutines,
 	name: string,
@@ -60,16 +118,7 @@ export function executeVCLByName(
 	}
 
 	try {
-		const result = subroutines[name]!(context) || "";
-
-		if (name === "vcl_deliver" && context.beresp.do_esi && context.obj.response) {
-			const contentType = context.resp.http["Content-Type"] || "";
-			if (contentType.includes("text/html")) {
-				context.obj.response = processESI(context.obj.response, context);
-			}
-		}
-
-		return result;
+		return subroutines[name]!(context) || "";
 	} catch (error) {
 		if (error instanceof UnsupportedFeatureError) throw error;
 		if (error instanceof VCLLimitExceededError) throw error;
@@ -179,22 +228,10 @@ export function createVCLContext(platform: VCLPlatform = getPlatform()): VCLCont
 		replaceall: (str: string, search: string, replacement: string) =>
 			String(str).split(String(search)).join(String(replacement)),
 
-		regsub: (str: string, regex: string, replacement: string) => {
-			try {
-				return String(str).replace(new RegExp(regex), replacement);
-			} catch (e) {
-				logError(`Invalid regex: ${regex}`, e);
-				return str;
-			}
-		},
-		regsuball: (str: string, regex: string, replacement: string) => {
-			try {
-				return String(str).replace(new RegExp(regex, "g"), replacement);
-			} catch (e) {
-				logError(`Invalid regex: ${regex}`, e);
-				return str;
-			}
-		},
+		regsub: (str: string, regex: string, replacement: string) =>
+			regsubImpl(String(str), String(regex), String(replacement)),
+		regsuball: (str: string, regex: string, replacement: string) =>
+			regsuballImpl(String(str), String(regex), String(replacement)),
 
 		integer: (value: any) => parseInt(String(value), 10) || 0,
 		real: (value: any) => parseFloat(String(value)) || 0.0,
@@ -267,7 +304,7 @@ export function createVCLContext(platform: VCLPlatform = getPlatform()): VCLCont
 			},
 			filter: (headers: Record<string, string>, pattern: string) => {
 				try {
-					const regex = new RegExp(String(pattern));
+					const regex = compileRegex(String(pattern));
 					for (const key of Object.keys(headers)) {
 						if (regex.test(key)) delete headers[key];
 					}
@@ -277,7 +314,7 @@ export function createVCLContext(platform: VCLPlatform = getPlatform()): VCLCont
 			},
 			filter_except: (headers: Record<string, string>, pattern: string) => {
 				try {
-					const regex = new RegExp(String(pattern));
+					const regex = compileRegex(String(pattern));
 					const keysToKeep = new Set(Object.keys(headers).filter((key) => regex.test(key)));
 					for (const key of Object.keys(headers)) {
 						if (!keysToKeep.has(key)) delete headers[key];
@@ -441,6 +478,8 @@ export function createVCLContext(platform: VCLPlatform = getPlatform()): VCLCont
 			return true;
 		},
 		is_healthy: (name: string) => context.backends[name]?.is_healthy || false,
+		// Takes interval and timeout in milliseconds; the probe keeps them in
+		// seconds, as a VCL-declared .probe does.
 		add_probe: (backendName: string, options: any) => {
 			const backend = context.backends[backendName];
 			if (!backend) return false;
@@ -449,8 +488,8 @@ export function createVCLContext(platform: VCLPlatform = getPlatform()): VCLCont
 					options.request ||
 					`HEAD / HTTP/1.1\r\nHost: ${backend.host}\r\nConnection: close\r\n\r\n`,
 				expected_response: options.expected_response || 200,
-				interval: options.interval || 5000,
-				timeout: options.timeout || 2000,
+				interval: (options.interval || 5000) / 1000,
+				timeout: (options.timeout || 2000) / 1000,
 				window: options.window || 5,
 				threshold: options.threshold || 3,
 				initial: options.initial || 2,
@@ -597,13 +636,13 @@ export function createVCLContext(platform: VCLPlatform = getPlatform()): VCLCont
 		},
 		lookup_regex: (tableName: string, key: string, defaultValue: string = "") => {
 			const table = context.tables[tableName];
-			const defaultRegex = () => (defaultValue ? new RegExp(defaultValue) : /(?:)/);
+			const defaultRegex = () => (defaultValue ? compileRegex(defaultValue) : /(?:)/);
 			if (!table || !(key in table.entries)) return defaultRegex();
 			const value = table.entries[key];
 			if (value instanceof RegExp) return value;
 			if (typeof value === "string") {
 				try {
-					return new RegExp(value);
+					return compileRegex(value);
 				} catch (e) {
 					logError(`Invalid regex pattern: ${value}`, e);
 					return defaultRegex();
@@ -1,5 +1,8 @@
 import { describe, expect, it } from "bun:test";
+import { BoundedCache } from "../src/runtime/bounded-cache";
 import { runBrowserSimulation } from "../src/runtime/browser";
+import type { PipelineCache } from "../src/runtime/pipeline";
+import { purgeSurrogateKey } from "../src/runtime/purge";
 
 const PIN = 1_700_000_000_000;
 
@@ -36,6 +39,36 @@ describe("browser simulation", () => {
 		expect(second.response?.body).toBe("hello");
 	});
 
+	it("purges cache state between runs by surrogate key", async () => {
+		const run = (cacheState?: PipelineCache) =>
+			runBrowserSimulation({
+				vcl: "sub vcl_fetch { set beresp.ttl = 3600s; }",
+				request: { url: "/page" },
+				backendResponse: { status: 200, headers: { "surrogate-key": "page" }, body: "hello" },
+				platformOptions: { now: PIN },
+				cacheState,
+			});
+		const first = await run();
+		expect(purgeSurrogateKey(first.cacheState, "page")).toBe(1);
+		const second = await run(first.cacheState);
+		expect(second.cacheDecision?.outcome).toBe("miss");
+	});
+
+	it("keeps a bounded cache passed as cache state within its limits", async () => {
+		const cacheState = new BoundedCache({ maxObjects: 1 });
+		for (const url of ["/one", "/two"]) {
+			await runBrowserSimulation({
+				vcl: "sub vcl_fetch { set beresp.ttl = 3600s; }",
+				request: { url },
+				backendResponse: { status: 200, body: "hello" },
+				platformOptions: { now: PIN },
+				cacheState,
+			});
+		}
+		expect([...cacheState.keys()]).toEqual(["/two:"]);
+		expect(cacheState.stats().evictions).toBe(1);
+	});
+
 	it("captures the execution trace", async () => {
 		const result = await runBrowserSimulation({
 			vcl: `
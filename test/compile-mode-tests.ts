@@ -0,0 +1,258 @@
+// Closure compilation against the AST interpreter: every program runs in both
+// compile modes and must leave the same actions, headers, locals, errors and
+// trace events behind.
+
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { getPlatform, type TraceEvent } from "../src/platform";
+import type { VCLCompileMode, VCLContext } from "../src/vcl-compiler";
+import { createVCLContext, executeVCL, loadVCLContent } from "../src/vcl";
+import { assert, type TestSuite } from "./test-framework";
+
+const MODES: VCLCompileMode[] = ["closures", "interpreter"];
+const UUID = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+/** A platform whose clock and randomness are fixed, so both runs see the same values. */
+function fixedContext(events: TraceEvent[]): VCLContext {
+	const platform = getPlatform();
+	return createVCLContext({
+		...platform,
+		now: () => 1_700_000_000_000,
+		randomBytes: (length: number) => new Uint8Array(length).fill(7),
+		onTrace: (event) => events.push(event),
+	});
+}
+
+/** Everything a run leaves observable, as one string per mode. */
+function runInMode(
+	mode: VCLCompileMode,
+	vcl: string,
+	phases: string[],
+	setup: (context: VCLContext) => void,
+): string {
+	const subroutines = loadVCLContent(vcl, { compileMode: mode });
+	const events: TraceEvent[] = [];
+	const context = fixedContext(events);
+	setup(context);
+	const actions = phases.map((phase) => executeVCL(subroutines, phase, context));
+	// uuid.* draws from the runtime's own generator, not the platform's bytes.
+	return JSON.stringify({
+		actions,
+		req: context.req.http,
+		url: context.req.url,
+		resp: context.resp?.http,
+		locals: context.locals,
+		error: context.fastly?.error,
+		hashData: context.hashData,
+		events,
+	}).replace(UUID, "<uuid>");
+}
+
+/** Run in both modes; the interpreter's result is the expected one. */
+function compare(
+	vcl: string,
+	phases: string[] = ["vcl_recv"],
+	setup: (context: VCLContext) => void = () => {},
+): { closures: string; interpreter: string } {
+	const [closures, interpreter] = MODES.map((mode) => runInMode(mode, vcl, phases, setup));
+	return { closures: closures!, interpreter: interpreter! };
+}
+
+function same(result: { closures: string; interpreter: string }) {
+	return assert(
+		result.closures === result.interpreter,
+		`closures ${result.closures}\ninterpreter ${result.interpreter}`,
+	);
+}
+
+const request =
+	(url: string, headers: Record<string, string> = {}) =>
+	(context: VCLContext) => {
+		context.req.url = url;
+		context.req.method = "GET";
+		context.req.http = { Host: "www.example.com", ...headers };
+	};
+
+const FIXTURES = join(import.meta.dir, "fixtures", "vcl-files");
+
+const noop = async () => {};
+
+const compileModeTests: TestSuite = {
+	name: "Compile Mode Tests",
+	tests: [
+		{
+			name: "agrees on control flow: if, switch, goto, calls and typed subroutines",
+			run: noop,
+			assertions: [
+				() => {
+					const vcl = `sub tag(STRING kind) {
+  set req.http.X-Kind = kind;
+  if (kind == "api") {
+    return(pass);
+  }
+}
+sub double(INTEGER n) INTEGER {
+  return n * 2;
+}
+sub vcl_recv {
+  declare local var.n INTEGER;
+  set var.n = double(2 + 3 * 4);
+  set req.http.X-N = var.n;
+  switch (req.url.path) {
+    case ~"^/static/":
+      set req.http.X-Static = "1";
+      fallthrough;
+    case "/":
+      set req.http.X-Root = "1";
+      break;
+    default:
+      set req.http.X-Default = "1";
+      break;
+  }
+  if (req.url ~ "^/(api|v[0-9]+)/(.*)$") {
+    set req.http.X-Rest = re.group.2;
+    call tag(re.group.1);
+  } else if (!req.http.Cookie) {
+    set req.http.X-Anonymous = if(req.http.Host == "www.example.com", "www", "other");
+    goto done;
+  }
+  set req.http.X-Skipped = "1";
+  done:
+  hash_data(req.url);
+  return(lookup);
+}`;
+					for (const url of ["/", "/static/a.css", "/api/users", "/v2/items", "/other"]) {
+						const result = compare(vcl, ["vcl_recv"], request(url));
+						if (result.closures !== result.interpreter) return same(result);
+					}
+					return same(compare(vcl, ["vcl_recv"], request("/other", { Cookie: "a=1" })));
+				},
+			],
+		},
+		{
+			name: "agrees on folded constants and typed literals",
+			run: noop,
+			assertions: [
+				() =>
+					same(
+						compare(`sub vcl_recv {
+  declare local var.f FLOAT;
+  declare local var.t RTIME;
+  declare local var.b BOOL;
+  set var.f = 1.5;
+  set var.f *= 3;
+  set var.t = 10s;
+  set var.t += 1m;
+  set var.b = (1 + 2 == 3);
+  set req.http.X-Sum = 7 % 4 - 1;
+  set req.http.X-Neg = -(3 * 2);
+  set req.http.X-Cmp = if(2 > 1, "yes", "no");
+  set req.http.X-Cat = "a" LF "b" + "c";
+  set req.http.X-F = var.f;
+  set req.http.X-T = var.t;
+}`),
+					),
+			],
+		},
+		{
+			name: "agrees on headers, subfields, ACLs and shadowing locals",
+			run: noop,
+			assertions: [
+				() => {
+					const vcl = `acl internal { "10.0.0.0"/8; }
+sub check(STRING internal) {
+  if (client.ip ~ internal) {
+    set req.http.X-Shadowed = "acl";
+  } else {
+    set req.http.X-Shadowed = "regex";
+  }
+}
+sub vcl_recv {
+  set req.http.X-Sub = req.http.Cookie:session;
+  set req.http.X-Missing = req.http.Cookie:missing;
+  set req.http.X-Unset = req.http.Nope;
+  if (client.ip ~ internal) {
+    set req.http.X-Internal = "1";
+  }
+  if (client.ip !~ internal) {
+    set req.http.X-External = "1";
+  }
+  call check("^10\\\\.");
+  unset req.http.Cookie;
+}
+sub vcl_deliver {
+  set resp.http.X-Url = req.url;
+  add resp.http.Set-Cookie = "a=1";
+  add resp.http.Set-Cookie = "b=2";
+}`;
+					const setup = request("/", { Cookie: "session=abc, theme=dark" });
+					const internal = compare(vcl, ["vcl_recv", "vcl_deliver"], (context) => {
+						setup(context);
+						context.client = { ...context.client, ip: "10.1.2.3" };
+					});
+					if (internal.closures !== internal.interpreter) return same(internal);
+					return same(compare(vcl, ["vcl_recv", "vcl_deliver"], setup));
+				},
+			],
+		},
+		{
+			name: "agrees on runtime errors, their locations and invalid regexes",
+			run: noop,
+			assertions: [
+				() =>
+					same(
+						compare(`sub vcl_recv {
+  declare local var.n INTEGER;
+  if (req.url ~ "(") {
+    set req.http.X-Matched = "1";
+  }
+  set var.n = 1;
+  set var.n /= 0;
+  set req.http.X-After = "1";
+}`),
+					),
+				() =>
+					same(
+						compare(`sub fail {
+  declare local var.n INTEGER;
+  set req.http.X-Before = "1";
+  set var.n = std.atoi("12");
+  set var.n /= 0;
+}
+sub vcl_recv {
+  call fail;
+  set req.http.X-After = "1";
+}`),
+					),
+			],
+		},
+		{
+			name: "agrees on every fixture program",
+			run: noop,
+			assertions: [
+				() => {
+					const files = readdirSync(FIXTURES).filter((file) => file.endsWith(".vcl"));
+					const phases = ["vcl_recv", "vcl_hash", "vcl_fetch", "vcl_deliver", "vcl_error"];
+					let compared = 0;
+					for (const file of files) {
+						const vcl = readFileSync(join(FIXTURES, file), "utf8");
+						let result: { closures: string; interpreter: string };
+						try {
+							result = compare(vcl, phases, request("/products/42?utm_source=x&b=1"));
+						} catch {
+							// Fixtures that only load with their includes resolved.
+							continue;
+						}
+						if (result.closures !== result.interpreter) {
+							return assert(false, `${file} differs:\n${result.closures}\n${result.interpreter}`);
+						}
+						compared++;
+					}
+					return assert(compared >= 10, `compared only ${compared} fixtures`);
+				},
+			],
+		},
+	],
+};
+
+export default compileModeTests;
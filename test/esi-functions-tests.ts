@@ -12,6 +12,24 @@ import type { VCLContext, VCLSubroutines } from "../src/vcl-compiler";
 import { processESI } from "../src/vcl-esi";
 import { assert, executeSubroutine, runTestSuite } from "./test-framework";
 
+// The fragments the pages below include, standing in for the subrequests
+// runPipeline would make for them.
+const FRAGMENTS: Record<string, string> = {
+	"/header": `<header>
+      <nav>
+        <ul>
+          <li><a href="/">Home</a></li>
+          <li><a href="/about">About</a></li>
+          <li><a href="/contact">Contact</a></li>
+        </ul>
+      </nav>
+    </header>`,
+	"/footer": `<footer>
+      <p>&copy; 2023 Example Company</p>
+    </footer>`,
+};
+const fetchInclude = async (src: string) => FRAGMENTS[src] ?? "";
+
 // ESI Functions test suite
 const esiFunctionsTests = {
 	name: "ESI Functions Tests",
@@ -57,7 +75,7 @@ const esiFunctionsTests = {
 				context.resp.http["Content-Type"] = "text/html";
 
 				// Process the ESI tags
-				const processed = processESI(context.obj.response, context);
+				const processed = await processESI(context.obj.response, context, { fetchInclude });
 				context.obj.response = processed;
 
 				// Execute the subroutine
@@ -121,7 +139,7 @@ const esiFunctionsTests = {
 				context.resp.http["Content-Type"] = "text/html";
 
 				// Process the ESI tags
-				const processed = processESI(context.obj.response, context);
+				const processed = await processESI(context.obj.response, context, { fetchInclude });
 				context.obj.response = processed;
 
 				// Execute the subroutine
@@ -170,7 +188,7 @@ const esiFunctionsTests = {
 				context.resp.http["Content-Type"] = "text/html";
 
 				// Process the ESI tags
-				const processed = processESI(context.obj.response, context);
+				const processed = await processESI(context.obj.response, context, { fetchInclude });
 				context.obj.response = processed;
 
 				// Execute the subroutine
@@ -232,7 +250,7 @@ const esiFunctionsTests = {
 				context.resp.http["Content-Type"] = "text/html";
 
 				// Process the ESI tags
-				const processed = processESI(context.obj.response, context);
+				const processed = await processESI(context.obj.response, context, { fetchInclude });
 				context.obj.response = processed;
 
 				// Store the premium content result
@@ -262,7 +280,7 @@ const esiFunctionsTests = {
           </html>
         `;
 
-				const processed2 = processESI(originalResponse, context);
+				const processed2 = await processESI(originalResponse, context);
 				context.req.http["X-Standard-Result"] = processed2;
 
 				// Execute the subroutine
@@ -357,7 +375,7 @@ const esiFunctionsTests = {
 				executeSubroutine(context, subroutines, "vcl_deliver");
 
 				// Process ESI tags manually for testing
-				context.obj.response = processESI(context.obj.response, context);
+				context.obj.response = await processESI(context.obj.response, context, { fetchInclude });
 			},
 			assertions: [
 				// Check that ESI tags were processed
@@ -0,0 +1,335 @@
+// The VCL formatter: canonical layout, comments kept in place, and output that
+// parses back to the same program and formats to itself.
+
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { VCLDiagnosticError } from "../src/diagnostics";
+import { formatVCL } from "../src/vcl-format";
+import { parseVCL, TokenType, VCLLexer } from "../src/vcl-parser";
+import { assert, type TestSuite } from "./test-framework";
+
+/** The AST without positions and comments, which formatting is allowed to change. */
+function shape(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value
+			.filter((item) => !(item && typeof item === "object" && item.type === "Statement"))
+			.map(shape);
+	}
+	if (value && typeof value === "object") {
+		const result: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value)) {
+			if (key === "location" || key === "raw" || key === "comments" || item === undefined) {
+				continue;
+			}
+			result[key] = shape(item);
+		}
+		return result;
+	}
+	return value;
+}
+
+function sameProgram(a: string, b: string): boolean {
+	return JSON.stringify(shape(parseVCL(a))) === JSON.stringify(shape(parseVCL(b)));
+}
+
+/** The AST without positions, keeping where comments sit in each block, then every comment in order. */
+function placement(source: string): string {
+	const ast = JSON.stringify(parseVCL(source), (key, item) =>
+		key === "location" || key === "raw" ? undefined : item,
+	);
+	const comments = new VCLLexer(source)
+		.tokenize()
+		.filter((token) => token.type === TokenType.COMMENT)
+		.map((token) => token.value.trimEnd());
+	return `${ast}\n${comments.join("\n")}`;
+}
+
+function expectFormatted(source: string, expected: string) {
+	const formatted = formatVCL(source);
+	return assert(formatted === expected, `got:\n${formatted}`);
+}
+
+const SAMPLE = `# Edge configuration
+import boltsort;
+acl internal { "10.0.0.0"/8;   # private range
+  !"10.1.2.3"; }
+table redirects STRING { "/old": "/new", "/legacy": {"/new?from=legacy%20page"} }
+backend F_origin { .host = "example.com"; .port = "443";
+  .probe = { .request = "HEAD / HTTP/1.1" "Host: example.com"; .interval = 60s; } }
+director pool random { .quorum = 50%; { .backend = F_origin; .weight = 2; } }
+sub vcl_recv {
+#FASTLY recv
+  if(req.http.X&&req.url~"^/a"){set req.http.Y="1";}elseif(req.http.Z){ # second branch
+    unset req.http.Z;
+  }
+  switch (req.http.Host) {
+  case "a.com":
+    set req.http.A = "1" req.http.B;
+    fallthrough;
+  default:
+    break;
+  }
+  return(lookup);
+}
+`;
+
+const noop = async () => {};
+
+const formatTests: TestSuite = {
+	name: "Formatter Tests",
+	tests: [
+		{
+			name: "indents blocks and spaces operators",
+			run: noop,
+			assertions: [
+				() =>
+					expectFormatted(
+						`sub vcl_recv {
+if(req.http.A=="1" && !(req.http.B||req.http.C)){set req.http.D=std.itoa(1+2*3);}else{set req.http.D="x"+req.url;}
+}`,
+						`sub vcl_recv {
+  if (req.http.A == "1" && !(req.http.B || req.http.C)) {
+    set req.http.D = std.itoa(1 + 2 * 3);
+  } else {
+    set req.http.D = "x" + req.url;
+  }
+}
+`,
+					),
+				() => {
+					const formatted = formatVCL(`sub vcl_recv {\nset req.http.A = "1";\n}`, {
+						useTabs: true,
+					});
+					return assert(formatted.includes('\n\tset req.http.A = "1";\n'), `got:\n${formatted}`);
+				},
+			],
+		},
+		{
+			name: "keeps literals exactly as written",
+			run: noop,
+			assertions: [
+				() =>
+					expectFormatted(
+						`sub vcl_error {
+synthetic {"<p class="x">100%</p>"}; set obj.http.A = "a%20b"; set obj.ttl = 0x1F; set obj.grace = 10m;
+}`,
+						`sub vcl_error {
+  synthetic {"<p class="x">100%</p>"};
+  set obj.http.A = "a%20b";
+  set obj.ttl = 0x1F;
+  set obj.grace = 10m;
+}
+`,
+					),
+			],
+		},
+		{
+			name: "keeps comments attached to their statements",
+			run: noop,
+			assertions: [
+				() =>
+					expectFormatted(
+						`# header
+
+sub vcl_recv {
+    # above
+    set req.http.A = "1";   # trailing
+  switch (req.http.Host) {
+  case "a.com":
+    # in case
+    break;
+  }
+
+  /* before return */
+  return(lookup);
+} # after sub`,
+						`# header
+
+sub vcl_recv {
+  # above
+  set req.http.A = "1"; # trailing
+  switch (req.http.Host) {
+    case "a.com":
+      # in case
+      break;
+  }
+
+  /* before return */
+  return(lookup);
+} # after sub
+`,
+					),
+			],
+		},
+		{
+			name: "keeps comments in the branch that holds them",
+			run: noop,
+			assertions: [
+				() =>
+					expectFormatted(
+						`sub vcl_recv {
+  if (req.http.A) {
+    set req.http.B = "1";
+    # end of the if branch
+  } # after the if branch
+  # before the else if
+  else if (req.http.C) {
+    set req.http.D = "1";
+  } else {
+    set req.http.E = "1";
+    # end of the else branch
+  }
+}`,
+						`sub vcl_recv {
+  if (req.http.A) {
+    set req.http.B = "1";
+    # end of the if branch
+  } # after the if branch
+  # before the else if
+  else if (req.http.C) {
+    set req.http.D = "1";
+  } else {
+    set req.http.E = "1";
+    # end of the else branch
+  }
+}
+`,
+					),
+			],
+		},
+		{
+			name: "lays out declarations",
+			run: noop,
+			assertions: [
+				() =>
+					expectFormatted(
+						SAMPLE,
+						`# Edge configuration
+import boltsort;
+
+acl internal {
+  "10.0.0.0"/8; # private range
+  !"10.1.2.3";
+}
+
+table redirects STRING {
+  "/old": "/new",
+  "/legacy": {"/new?from=legacy%20page"}
+}
+
+backend F_origin {
+  .host = "example.com";
+  .port = "443";
+  .probe = {
+    .request =
+      "HEAD / HTTP/1.1"
+      "Host: example.com";
+    .interval = 60s;
+  }
+}
+
+director pool random {
+  .quorum = 50%;
+  { .backend = F_origin; .weight = 2; }
+}
+
+sub vcl_recv {
+  #FASTLY recv
+  if (req.http.X && req.url ~ "^/a") {
+    set req.http.Y = "1";
+  } else if (req.http.Z) { # second branch
+    unset req.http.Z;
+  }
+  switch (req.http.Host) {
+    case "a.com":
+      set req.http.A = "1" req.http.B;
+      fallthrough;
+    default:
+      break;
+  }
+  return(lookup);
+}
+`,
+					),
+			],
+		},
+		{
+			name: "round-trips every fixture and is idempotent",
+			run: noop,
+			assertions: [
+				() => {
+					const dir = join(import.meta.dir, "fixtures", "vcl-files");
+					const failures: string[] = [];
+					for (const file of readdirSync(dir).filter((name) => name.endsWith(".vcl"))) {
+						const source = readFileSync(join(dir, file), "utf-8");
+						try {
+							parseVCL(source);
+						} catch {
+							continue;
+						}
+						const formatted = formatVCL(source);
+						if (!sameProgram(source, formatted) || formatVCL(formatted) !== formatted) {
+							failures.push(file);
+						}
+					}
+					return assert(failures.length === 0, `changed by formatting: ${failures.join(", ")}`);
+				},
+				() => {
+					const formatted = formatVCL(SAMPLE);
+					return assert(
+						sameProgram(SAMPLE, formatted) && formatVCL(formatted) === formatted,
+						`not stable:\n${formatted}`,
+					);
+				},
+			],
+		},
+		{
+			name: "keeps every fixture's comments where they were",
+			run: noop,
+			assertions: [
+				() => {
+					const dir = join(import.meta.dir, "fixtures");
+					const files = readdirSync(dir, { recursive: true })
+						.map(String)
+						.filter((name) => name.endsWith(".vcl"));
+					const failures: string[] = [];
+					for (const file of files) {
+						const source = readFileSync(join(dir, file), "utf-8");
+						try {
+							parseVCL(source);
+						} catch {
+							continue;
+						}
+						const formatted = formatVCL(source);
+						if (placement(source) !== placement(formatted) || formatVCL(formatted) !== formatted) {
+							failures.push(file);
+						}
+					}
+					return assert(
+						files.length > 0 && failures.length === 0,
+						`changed by formatting: ${failures.join(", ")}`,
+					);
+				},
+			],
+		},
+		{
+			name: "refuses source that does not parse",
+			run: noop,
+			assertions: [
+				() => {
+					try {
+						formatVCL("sub vcl_recv {\n  set = ;\n}\nsub vcl_deliver {\n  unset ;\n}");
+					} catch (error) {
+						return assert(
+							error instanceof VCLDiagnosticError && error.diagnostics.length === 2,
+							`got ${error}`,
+						);
+					}
+					return assert(false, "formatVCL accepted invalid VCL");
+				},
+			],
+		},
+	],
+};
+
+export default formatTests;
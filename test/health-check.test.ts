@@ -0,0 +1,251 @@
+// Active health checks against a stand-in origin: what a probe sends, how the
+// window and threshold turn results into health, the schedule, and that
+// directors and VCL see the health the probes record, including through the
+// proxy in index.ts.
+
+import "../src/platform-node";
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HealthChecker } from "../src/runtime/health-check";
+import { createVCLContext, executeVCL, loadVCLContent } from "../src/vcl";
+import { declaredBackends, type VCLProbe } from "../src/vcl-compiler";
+
+interface Received {
+	method: string;
+	url: URL;
+	headers: Record<string, string>;
+}
+
+/** A local origin answering every request with `status`, after `delay` ms, and recording it. */
+function standIn() {
+	const state = { status: 200, delay: 0, requests: [] as Received[] };
+	const server = Bun.serve({
+		port: 0,
+		hostname: "127.0.0.1",
+		async fetch(request) {
+			state.requests.push({
+				method: request.method,
+				url: new URL(request.url),
+				headers: Object.fromEntries(request.headers),
+			});
+			if (state.delay) await Bun.sleep(state.delay);
+			return new Response("ok", { status: state.status });
+		},
+	});
+	return { state, server };
+}
+
+const probe = (overrides: Partial<VCLProbe> = {}): VCLProbe => ({
+	request: "",
+	expected_response: 200,
+	interval: 60,
+	timeout: 1,
+	window: 3,
+	threshold: 2,
+	initial: 0,
+	...overrides,
+});
+
+const cleanup: (() => void)[] = [];
+afterEach(() => {
+	for (const stop of cleanup.splice(0)) stop();
+});
+
+/** A context whose "origin" backend is a stand-in probed with `options`, and its checker. */
+function probedOrigin(options: Partial<VCLProbe> = {}) {
+	const origin = standIn();
+	const context = createVCLContext();
+	context.std!.backend!.add("origin", "127.0.0.1", origin.server.port!);
+	context.backends.origin!.probe = probe(options);
+	const checker = new HealthChecker(context.backends);
+	cleanup.push(
+		() => checker.stop(),
+		() => origin.server.stop(true),
+	);
+	return { ...origin, context, checker };
+}
+
+describe("HealthChecker", () => {
+	it("sends the probe's request line and headers to the backend", async () => {
+		const { state, checker } = probedOrigin({
+			request:
+				"GET /health?deep=1 HTTP/1.1\r\nHost: origin.example\r\nX-Probe: yes\r\nConnection: close",
+		});
+		expect(await checker.probe("origin")).toBe(true);
+		const [request] = state.requests;
+		expect(request?.method).toBe("GET");
+		expect(`${request?.url.pathname}${request?.url.search}`).toBe("/health?deep=1");
+		expect(request?.headers.host).toBe("origin.example");
+		expect(request?.headers["x-probe"]).toBe("yes");
+	});
+
+	it("is healthy while threshold probes in the window are good", async () => {
+		const { state, context, checker } = probedOrigin();
+		const backend = context.backends.origin!;
+
+		const results: boolean[] = [];
+		for (const status of [200, 200, 500, 503, 200]) {
+			state.status = status;
+			await checker.probe("origin");
+			results.push(backend.is_healthy!);
+		}
+		expect(results).toEqual([false, true, true, false, false]);
+		expect(checker.window("origin")).toEqual([false, false, true]);
+		expect(state.requests.map((request) => request.method)).toEqual(Array(5).fill("HEAD"));
+	});
+
+	it("counts a wrong status, a timeout and a refused connection as failures", async () => {
+		const { state, server, context, checker } = probedOrigin({
+			expected_response: 204,
+			timeout: 0.05,
+			initial: 3,
+		});
+
+		expect(await checker.probe("origin")).toBe(false);
+		state.status = 204;
+		state.delay = 200;
+		expect(await checker.probe("origin")).toBe(false);
+		state.delay = 0;
+		expect(await checker.probe("origin")).toBe(true);
+		server.stop(true);
+		expect(await checker.probe("origin")).toBe(false);
+		expect(checker.window("origin")).toEqual([false, true, false]);
+		expect(context.backends.origin!.is_healthy).toBe(false);
+	});
+
+	it("seeds health from initial and probes every interval until stopped", async () => {
+		const { state, context, checker } = probedOrigin({ interval: 0.02, initial: 2 });
+		state.status = 500;
+
+		checker.start();
+		expect(context.backends.origin!.is_healthy).toBe(true);
+		while (state.requests.length < 3) await Bun.sleep(10);
+		checker.stop();
+		await Bun.sleep(50);
+		const sent = state.requests.length;
+		await Bun.sleep(60);
+		expect(state.requests.length).toBe(sent);
+		expect(context.backends.origin!.is_healthy).toBe(false);
+	});
+
+	it("takes a sick backend out of its directors", async () => {
+		const { state, context, checker } = probedOrigin({ window: 2, initial: 2 });
+		context.std!.backend!.add("spare", "127.0.0.1", 9);
+		context.std!.director!.add("pool", "fallback");
+		context.std!.director!.add_backend("pool", "origin", 1);
+		context.std!.director!.add_backend("pool", "spare", 1);
+
+		expect(context.std!.director!.select_backend("pool")?.name).toBe("origin");
+		state.status = 503;
+		await checker.probe("origin");
+		expect(context.std!.director!.select_backend("pool")?.name).toBe("spare");
+		expect(context.std!.backend!.is_healthy("origin")).toBe(false);
+	});
+
+	it("takes add_probe's interval and timeout in milliseconds", () => {
+		const context = createVCLContext();
+		context.std!.backend!.add("origin", "127.0.0.1", 9);
+		context.std!.backend!.add_probe("origin", { interval: 10000, timeout: 5000 });
+		expect(context.backends.origin!.probe).toMatchObject({ interval: 10, timeout: 5 });
+		context.std!.backend!.add_probe("origin", {});
+		expect(context.backends.origin!.probe).toMatchObject({ interval: 5, timeout: 2 });
+	});
+
+	it("updates the health VCL reads for backends declared with a probe", async () => {
+		const origin = standIn();
+		cleanup.push(() => origin.server.stop(true));
+		const subroutines = loadVCLContent(`
+backend origin {
+  .host = "127.0.0.1";
+  .port = "${origin.server.port}";
+  .probe = {
+    .url = "/status";
+    .interval = 60s;
+    .timeout = 1s;
+    .window = 2;
+    .threshold = 1;
+    .initial = 1;
+  }
+}
+sub vcl_recv {
+  set req.http.X-Healthy = req.backend.healthy;
+  set req.http.X-Std = std.backend.is_healthy("origin");
+  set req.http.X-Named = backend.origin.healthy;
+}`);
+		const recv = () => {
+			const context = createVCLContext();
+			executeVCL(subroutines, "vcl_recv", context);
+			return context;
+		};
+		const checker = new HealthChecker(declaredBackends(subroutines));
+
+		origin.state.status = 404;
+		await checker.probe("origin");
+		await checker.probe("origin");
+		const sick = recv().req.http;
+		expect([sick["X-Healthy"], sick["X-Std"], sick["X-Named"]]).toEqual(["0", "0", "0"]);
+		expect(origin.state.requests[0]?.url.pathname).toBe("/status");
+		expect(origin.state.requests[0]?.method).toBe("GET");
+
+		origin.state.status = 200;
+		await checker.probe("origin");
+		const healthy = recv().req.http;
+		expect([healthy["X-Healthy"], healthy["X-Std"], healthy["X-Named"]]).toEqual(["1", "1", "1"]);
+	});
+
+	it("probes the backends declared in the VCL the proxy loads", async () => {
+		const origin = standIn();
+		const dir = mkdtempSync(join(tmpdir(), "fastly-js-health-"));
+		const vclFile = join(dir, "probed.vcl");
+		writeFileSync(
+			vclFile,
+			`backend origin {
+  .host = "127.0.0.1";
+  .port = "${origin.server.port}";
+  .probe = {
+    .url = "/status";
+    .interval = 60s;
+    .window = 1;
+    .threshold = 1;
+    .initial = 0;
+  }
+}
+sub vcl_recv {
+  return(pass);
+}`,
+		);
+		const proxy = Bun.spawn(["bun", "run", "index.ts", vclFile], {
+			cwd: join(import.meta.dir, ".."),
+			env: { ...process.env, FASTLY_JS_PORT: "0" },
+			stdout: "pipe",
+			stderr: "ignore",
+		});
+		cleanup.push(
+			() => proxy.kill(),
+			() => origin.server.stop(true),
+			() => rmSync(dir, { recursive: true, force: true }),
+		);
+
+		const output = await readUntil(proxy.stdout, "Backend 'origin' is now healthy");
+		expect(output).toContain("Backend 'origin' is now sick");
+		expect(output).toContain("Backend 'origin' is now healthy");
+		expect(origin.state.requests[0]?.method).toBe("GET");
+		expect(origin.state.requests[0]?.url.pathname).toBe("/status");
+	}, 20_000);
+});
+
+/** Read `stream` until its text contains `text` or it ends, and return what was read. */
+async function readUntil(stream: ReadableStream<Uint8Array>, text: string): Promise<string> {
+	const reader = stream.getReader();
+	const decoder = new TextDecoder();
+	let output = "";
+	while (!output.includes(text)) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		output += decoder.decode(value, { stream: true });
+	}
+	reader.releaseLock();
+	return output;
+}
@@ -0,0 +1,228 @@
+// The VCL linter: each rule reports what it should with its configured severity,
+// and a clean program produces nothing.
+
+import type { VCLDiagnostic } from "../src/diagnostics";
+import { lintVCL, type VCLLintOptions } from "../src/vcl-lint";
+import { assert, type TestSuite } from "./test-framework";
+
+function describe(diagnostics: VCLDiagnostic[]): string {
+	return `[${diagnostics.map((d) => `${d.severity} ${d.rule}: ${d.message}`).join("; ")}]`;
+}
+
+/** Lint `vcl` and keep only what `rule` reported. */
+function findings(vcl: string, rule: string, options?: VCLLintOptions): VCLDiagnostic[] {
+	return lintVCL(vcl, options).filter((d) => d.rule === rule);
+}
+
+const noop = async () => {};
+
+const lintTests: TestSuite = {
+	name: "Linter Tests",
+	tests: [
+		{
+			name: "reports the first unreachable statement of a block",
+			run: noop,
+			assertions: [
+				() => {
+					const found = findings(
+						`sub vcl_recv {
+  if (req.http.A) {
+    error 403;
+    set req.http.B = "1";
+    set req.http.C = "1";
+  }
+  if (req.http.D) { return(pass); } else { return(lookup); }
+  set req.http.E = "1";
+}
+sub vcl_deliver {
+  return(deliver);
+  done:
+  set resp.http.F = "1";
+}`,
+						"unreachable-code",
+					);
+					return assert(
+						found.length === 2 &&
+							found[0]!.message === "Unreachable statement after error at line 4, column 5" &&
+							found[0]!.severity === "warning" &&
+							found[1]!.line === 8,
+						`got ${describe(found)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "reports unused subroutines, ACLs, tables and backends",
+			run: noop,
+			assertions: [
+				() => {
+					const diagnostics = lintVCL(`acl used { "10.0.0.0"/8; }
+acl spare { "10.0.0.0"/8; }
+table redirects STRING { "/a": "/b" }
+table old STRING { "/a": "/b" }
+backend F_default { .host = "a.example"; }
+backend F_api { .host = "b.example"; }
+backend F_pooled { .host = "c.example"; }
+backend F_legacy { .host = "d.example"; }
+director pool random { { .backend = F_pooled; .weight = 1; } }
+sub helper { set req.http.X-Helper = "1"; }
+sub leftover { set req.http.X-Leftover = "1"; }
+sub vcl_recv {
+  if (client.ip ~ used) { call helper; }
+  set req.http.X-Target = table.lookup(redirects, req.url, "");
+  set req.backend = "F_api";
+}`).filter((d) => d.rule?.startsWith("unused-"));
+					return assert(
+						diagnostics.map((d) => d.message.replace(/ at line.*/, "")).join("; ") ===
+							"ACL spare is never used; Table old is never used; Backend F_legacy is never used; Subroutine leftover is never called",
+						`got ${describe(diagnostics)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "reports unread and shadowed locals",
+			run: noop,
+			assertions: [
+				() => {
+					const diagnostics = lintVCL(`sub vcl_recv {
+  declare local var.used STRING;
+  declare local var.unread STRING;
+  set var.unread = "x";
+  if (req.http.A) {
+    declare local var.used STRING;
+  }
+  set req.http.B = var.used;
+}`).filter((d) => d.rule === "unused-local" || d.rule === "shadowed-local");
+					return assert(
+						diagnostics.length === 2 &&
+							diagnostics[0]!.rule === "unused-local" &&
+							diagnostics[0]!.line === 3 &&
+							diagnostics[1]!.message ===
+								"Local variable var.used shadows the declaration on line 2 at line 6, column 5",
+						`got ${describe(diagnostics)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "reports custom request headers that are read but never set",
+			run: noop,
+			assertions: [
+				() => {
+					const found = findings(
+						`sub vcl_recv {
+  if (req.http.User-Agent && req.http.X-Tenant && req.http.X-Set) {
+    set req.http.X-Copy = req.http.X-Tenant;
+  }
+  set req.http.X-Set = "1";
+}`,
+						"header-never-set",
+					);
+					return assert(
+						found.length === 1 &&
+							found[0]!.severity === "info" &&
+							found[0]!.message.startsWith("Header req.http.X-Tenant is read but never set"),
+						`got ${describe(found)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "reports regex literals that do not compile",
+			run: noop,
+			assertions: [
+				() => {
+					const found = findings(
+						`sub vcl_recv {
+  set req.url = regsub(req.url, "^/(a", "/b");
+  set req.url = regsuball(req.url, "[0-9]+", "n");
+  if (req.url ~ "*.png") { return(pass); }
+}`,
+						"invalid-regex",
+					);
+					return assert(
+						found.map((d) => `${d.severity}@${d.line}:${d.column}`).join(",") ===
+							"error@2:33,error@4:17",
+						`got ${describe(found)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "reports Host comparisons with capitalized literals",
+			run: noop,
+			assertions: [
+				() => {
+					const found = findings(
+						`sub vcl_recv {
+  if (req.http.Host == "WWW.Example.com" || req.http.host != "api.example.com") {
+    return(pass);
+  }
+  switch (req.http.Host) {
+    case "Shop.example.com":
+      break;
+    case ~"^Admin":
+      break;
+  }
+}`,
+						"host-comparison-case",
+					);
+					return assert(found.map((d) => d.line).join(",") === "2,6", `got ${describe(found)}`);
+				},
+			],
+		},
+		{
+			name: "applies rule settings and keeps load errors",
+			run: noop,
+			assertions: [
+				() => {
+					const vcl = `sub vcl_recv {
+  declare local var.unread STRING;
+  set req.url = regsub(req.url, "(", "");
+  set client.ip = "127.0.0.1";
+}`;
+					const diagnostics = lintVCL(vcl, {
+						rules: { "unused-local": "off", "invalid-regex": "warning" },
+					});
+					return assert(
+						diagnostics.map((d) => `${d.severity}:${d.rule ?? "load"}`).join(",") ===
+							"warning:invalid-regex,error:load",
+						`got ${describe(diagnostics)}`,
+					);
+				},
+				() => {
+					const diagnostics = lintVCL("sub vcl_recv {\n  set = 1;\n}");
+					return assert(
+						diagnostics.length === 1 &&
+							diagnostics[0]!.severity === "error" &&
+							diagnostics[0]!.rule === undefined &&
+							diagnostics[0]!.sourceFrame !== undefined,
+						`got ${describe(diagnostics)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "accepts a clean program",
+			run: noop,
+			assertions: [
+				() => {
+					const diagnostics = lintVCL(`acl internal { "10.0.0.0"/8; }
+backend F_origin { .host = "example.com"; }
+sub vcl_recv {
+  declare local var.path STRING;
+  set var.path = regsub(req.url, "\\?.*$", "");
+  if (req.http.Host == "www.example.com" && !(client.ip ~ internal)) {
+    set req.http.X-Path = var.path;
+  }
+  return(lookup);
+}`);
+					return assert(diagnostics.length === 0, `got ${describe(diagnostics)}`);
+				},
+			],
+		},
+	],
+};
+
+export default lintTests;
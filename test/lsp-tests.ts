@@ -0,0 +1,313 @@
+// The VCL language server: each request is driven through VCLLanguageServer.handle
+// against one open document, plus a Content-Length framed round trip over streams.
+
+import { PassThrough } from "node:stream";
+import type { JsonRpcMessage } from "../src/lsp/protocol";
+import { VCLLanguageServer } from "../src/lsp/server";
+import { runLanguageServer } from "../src/lsp/stdio";
+import { assert, type TestSuite } from "./test-framework";
+
+const URI = "file:///main.vcl";
+
+const SOURCE = `acl internal { "10.0.0.0"/8; }
+table redirects STRING { "/a": "/b" }
+backend F_origin { .host = "example.com"; }
+sub tag(STRING kind, STRING value) {
+  set req.http.X-Tag = kind;
+  set req.http.X-Value = value;
+}
+sub vcl_recv {
+  declare local var.path STRING;
+  set var.path = std.tolower(req.url);
+  if (client.ip ~ internal) {
+    goto done;
+  }
+  call tag("sum", var.path);
+  set req.http.X-Target = table.lookup(redirects, var.path, "");
+  done:
+  return(lookup);
+}
+`;
+
+/** A server with SOURCE open, and every message it has sent. */
+function open(text = SOURCE): { server: VCLLanguageServer; sent: JsonRpcMessage[] } {
+	const sent: JsonRpcMessage[] = [];
+	const server = new VCLLanguageServer((message) => sent.push(message));
+	server.handle({ jsonrpc: "2.0", id: 0, method: "initialize", params: {} });
+	server.handle({
+		jsonrpc: "2.0",
+		method: "textDocument/didOpen",
+		params: { textDocument: { uri: URI, languageId: "vcl", version: 1, text } },
+	});
+	return { server, sent };
+}
+
+/** Send a request at a 0-based position and return its result. */
+function request(
+	server: VCLLanguageServer,
+	sent: JsonRpcMessage[],
+	method: string,
+	line: number,
+	character: number,
+	extra: Record<string, unknown> = {},
+): any {
+	const id = sent.length + 100;
+	server.handle({
+		jsonrpc: "2.0",
+		id,
+		method,
+		params: { textDocument: { uri: URI }, position: { line, character }, ...extra },
+	});
+	return sent.find((message) => message.id === id)?.result;
+}
+
+function lines(locations: Array<{ range: { start: { line: number; character: number } } }>) {
+	return locations.map((l) => `${l.range.start.line}:${l.range.start.character}`).join(",");
+}
+
+function frame(message: JsonRpcMessage): string {
+	const body = JSON.stringify(message);
+	return `Content-Length: ${Buffer.byteLength(body, "utf8")}\r\n\r\n${body}`;
+}
+
+const noop = async () => {};
+
+/** What the stream test's server wrote, and the code it exited with. */
+let stream = { code: -1, received: "" };
+
+const lspTests: TestSuite = {
+	name: "Language Server Tests",
+	tests: [
+		{
+			name: "answers initialize and rejects requests before it",
+			run: noop,
+			assertions: [
+				() => {
+					const sent: JsonRpcMessage[] = [];
+					const server = new VCLLanguageServer((message) => sent.push(message));
+					server.handle({ jsonrpc: "2.0", id: 1, method: "textDocument/hover", params: {} });
+					server.handle({ jsonrpc: "2.0", id: 2, method: "initialize", params: {} });
+					server.handle({ jsonrpc: "2.0", id: 3, method: "workspace/symbol", params: {} });
+					const capabilities = (sent[1]?.result as any)?.capabilities;
+					return assert(
+						sent[0]?.error?.code === -32002 &&
+							capabilities?.hoverProvider === true &&
+							capabilities?.completionProvider?.triggerCharacters?.[0] === "." &&
+							sent[2]?.error?.code === -32601,
+						`got ${JSON.stringify(sent)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "publishes lint diagnostics on open, change and close",
+			run: noop,
+			assertions: [
+				() => {
+					const { server, sent } = open(
+						'sub vcl_recv {\n  declare local var.unread STRING;\n  set client.ip = "127.0.0.1";\n}\n',
+					);
+					const opened = (sent[1]?.params as any)?.diagnostics ?? [];
+					server.handle({
+						jsonrpc: "2.0",
+						method: "textDocument/didChange",
+						params: { textDocument: { uri: URI, version: 2 }, contentChanges: [{ text: SOURCE }] },
+					});
+					server.handle({
+						jsonrpc: "2.0",
+						method: "textDocument/didClose",
+						params: { textDocument: { uri: URI } },
+					});
+					const changed = (sent[2]?.params as any)?.diagnostics;
+					const closed = (sent[3]?.params as any)?.diagnostics;
+					return assert(
+						opened
+							.map((d: any) => `${d.severity}:${d.code ?? "load"}@${d.range.start.line}`)
+							.join(",") === "2:unused-local@1,1:load@2" &&
+							!/ at line /.test(opened[0]?.message) &&
+							changed?.length === 0 &&
+							closed?.length === 0,
+						`got ${JSON.stringify(sent.slice(1))}`,
+					);
+				},
+			],
+		},
+		{
+			name: "completes builtins, variables and symbols by context",
+			run: noop,
+			assertions: [
+				() => {
+					const { server, sent } = open(
+						`${SOURCE}sub vcl_deliver {\n  set resp.http.X = std.to\n}\n`,
+					);
+					const items = request(server, sent, "textDocument/completion", 19, 26) ?? [];
+					const labels = items.map((item: any) => item.label);
+					return assert(
+						labels.includes("std.tolower") &&
+							labels.includes("std.toupper") &&
+							!labels.includes("regsub") &&
+							items[0]?.textEdit?.range?.start?.character === 20,
+						`got ${labels.join(",")}`,
+					);
+				},
+				() => {
+					const { server, sent } = open(`${SOURCE}sub vcl_deliver {\n  call \n}\n`);
+					const labels = (request(server, sent, "textDocument/completion", 19, 7) ?? []).map(
+						(item: any) => item.label,
+					);
+					return assert(labels.join(",") === "tag,vcl_recv,vcl_deliver", `got ${labels.join(",")}`);
+				},
+				() => {
+					const { server, sent } = open();
+					const labels = (request(server, sent, "textDocument/completion", 9, 12) ?? []).map(
+						(item: any) => item.label,
+					);
+					return assert(labels.join(",") === "var.path", `got ${labels.join(",")}`);
+				},
+			],
+		},
+		{
+			name: "tracks the active parameter in signature help",
+			run: noop,
+			assertions: [
+				() => {
+					const { server, sent } = open();
+					const help = request(server, sent, "textDocument/signatureHelp", 14, 53);
+					const signature = help?.signatures?.[help.activeSignature];
+					return assert(
+						signature?.label.startsWith("STRING table.lookup(") && help.activeParameter === 1,
+						`got ${JSON.stringify(help)}`,
+					);
+				},
+				() => {
+					const { server, sent } = open();
+					const help = request(server, sent, "textDocument/signatureHelp", 13, 21);
+					const signature = help?.signatures?.[0];
+					const [from, to] = signature?.parameters?.[1]?.label ?? [];
+					return assert(
+						signature?.label === "tag(STRING kind, STRING value)" &&
+							signature.label.slice(from, to) === "STRING value" &&
+							help.activeParameter === 1,
+						`got ${JSON.stringify(help)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "hovers builtins, variables and declared symbols",
+			run: noop,
+			assertions: [
+				() => {
+					const { server, sent } = open();
+					const builtin = request(server, sent, "textDocument/hover", 9, 19)?.contents?.value;
+					const variable = request(server, sent, "textDocument/hover", 10, 8)?.contents?.value;
+					const acl = request(server, sent, "textDocument/hover", 10, 20)?.contents?.value;
+					return assert(
+						/STRING std\.tolower\(STRING\)/.test(builtin) &&
+							/client\.ip/.test(variable) &&
+							/read-only/.test(variable) &&
+							/^```vcl\nacl internal\n```\n\nACL, 1 reference$/.test(acl),
+						`got ${builtin} | ${variable} | ${acl}`,
+					);
+				},
+			],
+		},
+		{
+			name: "finds definitions and references",
+			run: noop,
+			assertions: [
+				() => {
+					const { server, sent } = open();
+					const acl = request(server, sent, "textDocument/definition", 10, 20);
+					const label = request(server, sent, "textDocument/definition", 11, 10);
+					const sub = request(server, sent, "textDocument/definition", 13, 8);
+					const parameter = request(server, sent, "textDocument/definition", 4, 23);
+					return assert(
+						lines([acl, label, sub, parameter]) === "0:4,15:2,3:4,3:15",
+						`got ${JSON.stringify([acl, label, sub, parameter])}`,
+					);
+				},
+				() => {
+					const { server, sent } = open();
+					const local = request(server, sent, "textDocument/references", 8, 18, {
+						context: { includeDeclaration: true },
+					});
+					const table = request(server, sent, "textDocument/references", 1, 8, {
+						context: { includeDeclaration: false },
+					});
+					return assert(
+						lines(local) === "8:16,9:6,13:18,14:50" && lines(table) === "14:39",
+						`got ${lines(local)} | ${lines(table)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "lists document symbols with their locals and labels",
+			run: noop,
+			assertions: [
+				() => {
+					const { server, sent } = open();
+					server.handle({
+						jsonrpc: "2.0",
+						id: 9,
+						method: "textDocument/documentSymbol",
+						params: { textDocument: { uri: URI } },
+					});
+					const symbols = (sent.find((m) => m.id === 9)?.result ?? []) as any[];
+					const outline = symbols
+						.map(
+							(s) =>
+								`${s.name}${s.children ? `(${s.children.map((c: any) => c.name).join(" ")})` : ""}`,
+						)
+						.join(",");
+					const recv = symbols.find((s) => s.name === "vcl_recv");
+					return assert(
+						outline === "internal,redirects,F_origin,tag(kind value),vcl_recv(var.path done)" &&
+							recv?.range?.start?.line === 7 &&
+							recv?.range?.end?.line === 17,
+						`got ${outline}`,
+					);
+				},
+			],
+		},
+		{
+			name: "serves Content-Length framed messages over streams",
+			run: async () => {
+				const input = new PassThrough();
+				const output = new PassThrough();
+				let received = "";
+				output.on("data", (chunk: Buffer) => {
+					received += chunk.toString("utf8");
+				});
+				const done = runLanguageServer(input, output);
+				const initialize = frame({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} });
+				// Split a frame across writes, as a pipe may.
+				input.write(initialize.slice(0, 10));
+				input.write(initialize.slice(10));
+				input.write("Content-Length: 5\r\n\r\n{oops");
+				input.write(frame({ jsonrpc: "2.0", id: 2, method: "shutdown" }));
+				input.write(frame({ jsonrpc: "2.0", method: "exit" }));
+				stream = { code: await done, received };
+			},
+			assertions: [
+				() => {
+					const bodies = stream.received
+						.split(/Content-Length: \d+\r\n\r\n/)
+						.filter(Boolean)
+						.map((body) => JSON.parse(body));
+					return assert(
+						stream.code === 0 &&
+							bodies.length === 3 &&
+							bodies[0].id === 1 &&
+							bodies[1].error?.code === -32700 &&
+							bodies[2].id === 2,
+						`got ${stream.code} ${stream.received}`,
+					);
+				},
+			],
+		},
+	],
+};
+
+export default lspTests;
@@ -7,8 +7,12 @@ import "../src/platform-node";
 
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { type VCLDiagnostic, VCLDiagnosticError } from "../src/diagnostics";
+import { loadVCL, loadVCLFiles } from "../src/node-loader";
+import type { TraceEvent } from "../src/platform";
 import { executeVCL, loadVCLContent } from "../src/vcl";
 import type { VCLContext, VCLSubroutines } from "../src/vcl-compiler";
+import { createMapIncludeResolver } from "../src/vcl-include";
 
 // Helper function to execute a subroutine
 function _executeSubroutine(
@@ -167,7 +171,244 @@ const multiFileTests = {
 				},
 			],
 		},
+
+		// Test 3: Resolve includes from the filesystem
+		{
+			name: "Resolve includes from the filesystem",
+			vclFile: "test/fixtures/vcl-files/includes/main.vcl",
+			run: async (context: VCLContext, subroutines: VCLSubroutines) => {
+				context.req.http["X-Recv-Result"] = executeVCL(subroutines, "vcl_recv", context);
+			},
+			assertions: [
+				// Top-level, nested and in-subroutine includes are all inlined
+				(context: VCLContext) => {
+					const expected: Record<string, string> = {
+						"X-Main": "main",
+						"X-Snippet": "snippet",
+						"X-Common": "common",
+						"X-Nested": "nested",
+						"X-Recv-Result": "lookup",
+					};
+					for (const [name, value] of Object.entries(expected)) {
+						if (context.req.http[name] !== value) {
+							return {
+								success: false,
+								message: `Expected req.http['${name}'] to be '${value}', got '${context.req.http[name]}'`,
+							};
+						}
+					}
+					return { success: true, message: "Included files were inlined" };
+				},
+			],
+		},
+
+		// Test 4: Resolve includes from an in-memory map
+		{
+			name: "Resolve includes from an in-memory map",
+			run: async (context: VCLContext, _subroutines: VCLSubroutines) => {
+				const loadedSubroutines = loadVCLContent(
+					`include "helpers";\nsub vcl_recv {\n  include "snippet";\n  call helper;\n  return(pass);\n}`,
+					{
+						includeResolver: createMapIncludeResolver({
+							"helpers.vcl": `sub helper { set req.http.X-Helper = "1"; }`,
+							snippet: `set req.http.X-Snippet = "1";`,
+						}),
+					},
+				);
+				context.req.http["X-Recv-Result"] = executeVCL(loadedSubroutines, "vcl_recv", context);
+			},
+			assertions: [
+				(context: VCLContext) => {
+					const ok =
+						context.req.http["X-Helper"] === "1" &&
+						context.req.http["X-Snippet"] === "1" &&
+						context.req.http["X-Recv-Result"] === "pass";
+					return {
+						success: ok,
+						message: ok
+							? "Map-resolved includes were inlined"
+							: `Unexpected headers: ${JSON.stringify(context.req.http)}`,
+					};
+				},
+			],
+		},
+
+		// Test 5: Include cycles and missing files are load errors
+		{
+			name: "Reject include cycles and missing files",
+			run: async (_context: VCLContext, _subroutines: VCLSubroutines) => {},
+			assertions: [
+				() => {
+					const message = loadError("cycle_a.vcl");
+					const ok =
+						/Include cycle detected: .*cycle_a\.vcl -> .*cycle_b\.vcl -> .*cycle_a\.vcl/.test(
+							message,
+						);
+					return { success: ok, message: ok ? "Cycle detected" : `Got: ${message}` };
+				},
+				() => {
+					const message = loadError("missing.vcl");
+					const ok =
+						message.startsWith('Included file not found: "does_not_exist"') &&
+						/at line 2, column 5 in file ".*missing\.vcl"$/.test(message);
+					return { success: ok, message: ok ? "Missing file reported" : `Got: ${message}` };
+				},
+			],
+		},
+
+		// Test 6: Diagnostics carry the originating file and position
+		{
+			name: "Diagnostics carry the originating file and position",
+			run: async (_context: VCLContext, _subroutines: VCLSubroutines) => {},
+			assertions: [
+				// Concatenated files, as index.ts builds them
+				() => {
+					const combined = [
+						"# Begin file: a.vcl",
+						"sub helper {",
+						'  set req.http.X-A = "a";',
+						"}",
+						"# End file: a.vcl",
+						"# Begin file: b.vcl",
+						"sub vcl_recv {",
+						"  set req.http.X-B = ;",
+						"}",
+						"# End file: b.vcl",
+					].join("\n");
+					const diagnostic = loadDiagnostic(() => loadVCLContent(combined));
+					const ok =
+						diagnostic?.file === "b.vcl" &&
+						diagnostic.line === 2 &&
+						diagnostic.column === 22 &&
+						diagnostic.message.endsWith('at line 2, column 22 in file "b.vcl"') &&
+						diagnostic.sourceFrame?.includes("> 2 |   set req.http.X-B = ;") === true;
+					return {
+						success: ok,
+						message: ok ? "Concatenated file mapped" : `Got: ${JSON.stringify(diagnostic)}`,
+					};
+				},
+				// An include that splits a line keeps the rest of the line's columns
+				() => {
+					const diagnostic = loadDiagnostic(() =>
+						loadVCLContent(`sub vcl_recv { include "snip"; set req.http.X = ; }`, {
+							fileName: "main.vcl",
+							includeResolver: createMapIncludeResolver({ snip: `set req.http.Y = "1";` }),
+						}),
+					);
+					const ok =
+						diagnostic?.file === "main.vcl" && diagnostic.line === 1 && diagnostic.column === 49;
+					return {
+						success: ok,
+						message: ok ? "Included line mapped" : `Got: ${JSON.stringify(diagnostic)}`,
+					};
+				},
+			],
+		},
+
+		// Test 7: AST locations, trace events and runtime errors use the included file
+		{
+			name: "Trace events and runtime errors point at the included file",
+			run: async (context: VCLContext, _subroutines: VCLSubroutines) => {
+				const events: TraceEvent[] = [];
+				context.platform = { ...context.platform, onTrace: (event) => events.push(event) };
+				const loadedSubroutines = loadVCLContent(
+					`sub vcl_recv {\n  include "divide";\n  return(pass);\n}`,
+					{
+						fileName: "main.vcl",
+						includeResolver: createMapIncludeResolver({
+							divide: `declare local var.n INTEGER;\nset var.n = 1;\nset var.n /= 0;`,
+						}),
+					},
+				);
+				executeVCL(loadedSubroutines, "vcl_recv", context);
+				context.req.http["X-Trace"] = JSON.stringify(events);
+			},
+			assertions: [
+				(context: VCLContext) => {
+					const events = JSON.parse(context.req.http["X-Trace"] ?? "[]") as TraceEvent[];
+					const failure = events.find((event) => event.error);
+					const ok =
+						failure?.error === "Division by zero" &&
+						failure.statement?.file === "divide" &&
+						failure.statement.line === 3 &&
+						failure.statement.column === 1;
+					return {
+						success: ok,
+						message: ok ? "Runtime error located" : `Got: ${JSON.stringify(failure)}`,
+					};
+				},
+			],
+		},
+
+		// Test 8: Files loaded together, as the proxy takes them on its command line
+		{
+			name: "Load the files given on the command line",
+			run: async (_context: VCLContext, _subroutines: VCLSubroutines) => {},
+			assertions: [
+				// A file the entry point does not include is loaded after it
+				() => {
+					const subroutines = loadVCLFiles([
+						includesFixture("main.vcl"),
+						includesFixture("extra.vcl"),
+					]);
+					const ok = "vcl_recv" in subroutines && "vcl_deliver" in subroutines;
+					return {
+						success: ok,
+						message: ok ? "Both files loaded" : `Got: ${Object.keys(subroutines).join(", ")}`,
+					};
+				},
+				// A file the entry point already includes is not loaded twice
+				() => {
+					let message = "no error";
+					try {
+						loadVCLFiles([includesFixture("main.vcl"), includesFixture("common.vcl")]);
+					} catch (error) {
+						message = error instanceof Error ? error.message : String(error);
+					}
+					const ok = /common\.vcl is already included from .*main\.vcl/.test(message);
+					return { success: ok, message: ok ? "Duplicate file rejected" : `Got: ${message}` };
+				},
+				// The entry point has a name, so an include back to it is a cycle
+				() => {
+					let message = "no error";
+					try {
+						loadVCLFiles([includesFixture("cycle_a.vcl")]);
+					} catch (error) {
+						message = error instanceof Error ? error.message : String(error);
+					}
+					const ok =
+						/Include cycle detected: .*cycle_a\.vcl -> .*cycle_b\.vcl -> .*cycle_a\.vcl/.test(
+							message,
+						);
+					return { success: ok, message: ok ? "Cycle detected" : `Got: ${message}` };
+				},
+			],
+		},
 	],
 };
 
+const includesFixture = (fileName: string) =>
+	path.join(__dirname, "fixtures/vcl-files/includes", fileName);
+
+// loadDiagnostic runs a load expected to fail and returns its diagnostic.
+function loadDiagnostic(load: () => void): VCLDiagnostic | undefined {
+	try {
+		load();
+	} catch (error) {
+		if (error instanceof VCLDiagnosticError) return error.diagnostic;
+	}
+	return undefined;
+}
+
+// loadError loads an includes fixture that is expected to fail and returns the
+// error message.
+function loadError(fileName: string): string {
+	try {
+		loadVCL(includesFixture(fileName));
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	}
+	return "no error";
+}
+
 export default multiFileTests;
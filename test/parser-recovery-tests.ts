@@ -0,0 +1,136 @@
+// Error recovery in the parser: a syntax error is reported and skipped so one
+// run reports every error, and the partial AST still carries everything that
+// parsed.
+
+import { type VCLDiagnostic, VCLDiagnosticError } from "../src/diagnostics";
+import { loadVCLContent } from "../src/vcl";
+import { VCLLexer } from "../src/vcl-parser";
+import { VCLParser } from "../src/vcl-parser-impl";
+import { assert, type TestSuite } from "./test-framework";
+
+function parseRecovering(vcl: string) {
+	return new VCLParser(new VCLLexer(vcl).tokenize(), vcl).parseWithRecovery();
+}
+
+function lines(diagnostics: VCLDiagnostic[]): string {
+	return diagnostics.map((d) => d.line).join(",");
+}
+
+const noop = async () => {};
+
+const parserRecoveryTests: TestSuite = {
+	name: "Parser Recovery Tests",
+	tests: [
+		{
+			name: "reports one diagnostic per bad statement",
+			run: noop,
+			assertions: [
+				() => {
+					const { program, diagnostics } = parseRecovering(`sub vcl_recv {
+  set req.http.A = ;
+  set req.http.B = "ok";
+  set = "x";
+  if (req.http.C == ) { set req.http.D = "1"; } else { set req.http.E = "2"; }
+  set req.http.F = "ok";
+}
+`);
+					const body = program.subroutines[0]?.body ?? [];
+					return assert(
+						lines(diagnostics) === "2,4,5" && body.length === 2,
+						`expected errors on lines 2,4,5 and 2 parsed statements, got [${lines(diagnostics)}] and ${body.length}`,
+					);
+				},
+			],
+		},
+		{
+			name: "re-syncs at the next declaration after a missing brace",
+			run: noop,
+			assertions: [
+				() => {
+					const { program, diagnostics } = parseRecovering(`sub vcl_recv {
+  set req.http.A = "1";
+
+sub vcl_deliver {
+  set resp.http.B = "2";
+}
+
+acl internal { "10.0.0.0"/8; }
+`);
+					const names = program.subroutines.map((s) => s.name).join(",");
+					return assert(
+						diagnostics.length === 1 &&
+							diagnostics[0]!.message.startsWith("Expected '}' after subroutine body") &&
+							diagnostics[0]!.line === 4 &&
+							names === "vcl_recv,vcl_deliver" &&
+							program.acls.length === 1,
+						`got [${diagnostics.map((d) => d.message).join("; ")}], subs ${names}`,
+					);
+				},
+			],
+		},
+		{
+			name: "skips a bad declaration and keeps later ones",
+			run: noop,
+			assertions: [
+				() => {
+					const { program, diagnostics } = parseRecovering(`backend origin { .host "x"; }
+table t { "a": "b" }
+garbage here;
+sub vcl_recv { return(pass); }
+`);
+					return assert(
+						lines(diagnostics) === "1,3" &&
+							program.tables.length === 1 &&
+							program.subroutines.length === 1,
+						`got [${lines(diagnostics)}], ${program.tables.length} tables, ${program.subroutines.length} subs`,
+					);
+				},
+			],
+		},
+		{
+			name: "loadVCLContent throws every diagnostic at once",
+			run: noop,
+			assertions: [
+				() => {
+					let error: unknown;
+					try {
+						loadVCLContent(`sub vcl_recv {
+  set req.http.A = ;
+}
+sub vcl_deliver {
+  unset ;
+}
+`);
+					} catch (e) {
+						error = e;
+					}
+					const ok =
+						error instanceof VCLDiagnosticError &&
+						lines(error.diagnostics) === "2,5" &&
+						error.diagnostic === error.diagnostics[0] &&
+						error.message === error.diagnostics[0]!.message;
+					return assert(ok, `got ${String(error)}`);
+				},
+			],
+		},
+		{
+			name: "a valid program parses without diagnostics",
+			run: noop,
+			assertions: [
+				() => {
+					const { program, diagnostics } = parseRecovering(`sub vcl_recv {
+  if (req.http.A) { set req.http.B = "1"; }
+  return(lookup);
+}
+`);
+					return assert(
+						diagnostics.length === 0 && program.subroutines[0]?.body.length === 2,
+						`got ${diagnostics.length} diagnostics`,
+					);
+				},
+			],
+		},
+	],
+};
+
+export default parserRecoveryTests;
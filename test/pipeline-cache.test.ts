@@ -0,0 +1,1302 @@
+// How runPipeline stores and serves cached objects: variants chosen by Vary,
+// TTLs derived from the response headers, purges, stale serving, request
+// collapsing, hit-for-pass markers, conditional requests, byte ranges,
+// segmented caching, bounded caches, cache stores, and what each request's
+// CacheDecision reports.
+
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DiskCacheStore } from "../src/node-cache-store";
+import { getPlatform } from "../src/platform";
+import "../src/platform-node";
+import { BoundedCache, entrySize } from "../src/runtime/bounded-cache";
+import {
+	type CacheStore,
+	hashKey,
+	MemoryCacheStore,
+	mapHashKeys,
+	mapVariants,
+} from "../src/runtime/cache-store";
+import type { BackendResponse, PipelineCache } from "../src/runtime/pipeline";
+import { runPipeline } from "../src/runtime/pipeline";
+import { purgeAll, purgeKey, purgeSurrogateKey, purgeURL } from "../src/runtime/purge";
+import { createVCLContext, loadVCLContent } from "../src/vcl";
+import type { VCLContext } from "../src/vcl-compiler";
+
+interface RequestOptions {
+	url?: string;
+	method?: string;
+	headers?: Record<string, string>;
+}
+
+/**
+ * A cache, a clock and a backend shared by a series of requests against one
+ * VCL program. The backend answers with `respond`, which sees the backend
+ * request's context, and every fetch is counted.
+ */
+function edge<Cache extends PipelineCache | CacheStore = PipelineCache>(
+	vcl: string,
+	respond: (context: VCLContext) => BackendResponse | Promise<BackendResponse>,
+	cache: Cache = new Map() as Cache,
+) {
+	const subroutines = loadVCLContent(vcl);
+	const state = { cache, now: 1_700_000_000_000, fetches: 0 };
+	const request = (options: RequestOptions = {}) => {
+		const context = createVCLContext({ ...getPlatform(), now: () => state.now });
+		context.req.url = options.url ?? "/";
+		context.req.method = options.method ?? "GET";
+		for (const [name, value] of Object.entries(options.headers ?? {})) {
+			context.req.http[name.toLowerCase()] = value;
+		}
+		if (state.cache instanceof Map) context.cache = state.cache;
+		return runPipeline({
+			subroutines,
+			context,
+			cache: state.cache,
+			maxRestarts: 3,
+			getBackendResponse: async (backendContext) => {
+				state.fetches++;
+				return respond(backendContext);
+			},
+		});
+	};
+	return { state, request };
+}
+
+const text = (body: Uint8Array) => new TextDecoder().decode(body);
+
+describe("Vary", () => {
+	const negotiate = (context: VCLContext): BackendResponse => {
+		const encoding = context.req.http["accept-encoding"] ?? "identity";
+		return {
+			status: 200,
+			headers: { "content-type": "text/plain", vary: "Accept-Encoding" },
+			body: `body for ${encoding}`,
+		};
+	};
+
+	it("stores one variant per request header value under one hash key", async () => {
+		const { state, request } = edge("sub vcl_fetch { set beresp.ttl = 60s; }", negotiate);
+		const gzip = await request({ headers: { "Accept-Encoding": "gzip" } });
+		const br = await request({ headers: { "Accept-Encoding": "br" } });
+		expect(gzip.cache.outcome).toBe("miss");
+		expect(br.cache.outcome).toBe("miss");
+		expect(br.cache.variant).toEqual({ "accept-encoding": "br" });
+		expect(mapHashKeys(state.cache)).toEqual([gzip.cache.key]);
+		expect(mapVariants(state.cache, gzip.cache.key)?.length).toBe(2);
+
+		const gzipHit = await request({ headers: { "Accept-Encoding": "gzip" } });
+		const brHit = await request({ headers: { "Accept-Encoding": "br" } });
+		expect(gzipHit.cache.outcome).toBe("hit");
+		expect(text(gzipHit.response.body)).toBe("body for gzip");
+		expect(gzipHit.cache.variant).toEqual({ "accept-encoding": "gzip" });
+		expect(text(brHit.response.body)).toBe("body for br");
+		expect(state.fetches).toBe(2);
+	});
+
+	it("keeps a variant for requests that did not send the header", async () => {
+		const { state, request } = edge("sub vcl_fetch { set beresp.ttl = 60s; }", negotiate);
+		await request();
+		const bare = await request();
+		const gzip = await request({ headers: { "Accept-Encoding": "gzip" } });
+		expect(bare.cache.outcome).toBe("hit");
+		expect(bare.cache.variant).toEqual({ "accept-encoding": null });
+		expect(gzip.cache.outcome).toBe("miss");
+		expect(state.fetches).toBe(2);
+	});
+
+	it("replaces only the variant the request matches when it is refetched", async () => {
+		const { state, request } = edge("sub vcl_fetch { set beresp.ttl = 60s; }", negotiate);
+		await request({ headers: { "Accept-Encoding": "gzip" } });
+		await request({ headers: { "Accept-Encoding": "br" } });
+		state.now += 61_000 + 3_600_000 + 10_000;
+		const refetched = await request({ headers: { "Accept-Encoding": "gzip" } });
+		expect(refetched.cache.outcome).toBe("miss");
+		const variants = mapVariants(state.cache, refetched.cache.key) ?? [];
+		expect(variants.map((variant) => variant.vary?.["accept-encoding"]).sort()).toEqual([
+			"br",
+			"gzip",
+		]);
+	});
+
+	it("honors a Vary header set in vcl_fetch, whatever its case", async () => {
+		const { request } = edge(
+			`sub vcl_fetch {
+  set beresp.ttl = 60s;
+  set beresp.http.Vary = "Accept-Language";
+}`,
+			(context) => ({
+				status: 200,
+				headers: {},
+				body: `lang ${context.req.http["accept-language"]}`,
+			}),
+		);
+		await request({ headers: { "Accept-Language": "en" } });
+		const fr = await request({ headers: { "Accept-Language": "fr" } });
+		const en = await request({ headers: { "Accept-Language": "en" } });
+		expect(fr.cache.outcome).toBe("miss");
+		expect(en.cache.outcome).toBe("hit");
+		expect(text(en.response.body)).toBe("lang en");
+	});
+
+	it("treats Vary: * as uncacheable", async () => {
+		const { state, request } = edge("sub vcl_fetch { set beresp.ttl = 60s; }", () => ({
+			status: 200,
+			headers: { vary: "*" },
+			body: "ok",
+		}));
+		const first = await request();
+		const second = await request();
+		expect(first.cache.outcome).toBe("uncacheable");
+		expect(first.cache.stored).toBe(false);
+		expect(second.cache.outcome).toBe("uncacheable");
+		expect(state.cache.size).toBe(0);
+		expect(state.fetches).toBe(2);
+	});
+});
+
+describe("TTL from response headers", () => {
+	const vcl = `sub vcl_fetch {
+  set beresp.http.X-Seen-TTL = beresp.ttl;
+  set beresp.http.X-Seen-SWR = beresp.stale_while_revalidate;
+  set beresp.http.X-Seen-SIE = beresp.stale_if_error;
+}`;
+	const respondWith = (headers: Record<string, string>) => () => ({
+		status: 200,
+		headers,
+		body: "ok",
+	});
+
+	it("prefers Surrogate-Control max-age and shows vcl_fetch the derived values", async () => {
+		const { request } = edge(
+			vcl,
+			respondWith({
+				"Surrogate-Control": "max-age=600, stale-while-revalidate=30, stale-if-error=86400",
+				"Cache-Control": "max-age=60",
+			}),
+		);
+		const result = await request();
+		expect(result.cache.freshness?.source).toBe("surrogate-control");
+		expect(result.cache.ttl).toBe(600);
+		expect(result.cache.staleWhileRevalidate).toBe(30);
+		expect(result.cache.staleIfError).toBe(86400);
+		expect(result.response.headers["X-Seen-TTL"]).toBe("600.000");
+		expect(result.response.headers["X-Seen-SWR"]).toBe("30.000");
+		expect(result.response.headers["X-Seen-SIE"]).toBe("86400.000");
+		expect(result.cache.outcome).toBe("miss");
+	});
+
+	it("uses s-maxage over max-age, less the response's Age", async () => {
+		const shared = await edge(
+			vcl,
+			respondWith({ "Cache-Control": "max-age=60, s-maxage=120", Age: "20" }),
+		).request();
+		expect(shared.cache.freshness?.source).toBe("s-maxage");
+		expect(shared.cache.ttl).toBe(100);
+		const browser = await edge(
+			vcl,
+			respondWith({ "Cache-Control": "public, max-age=60" }),
+		).request();
+		expect(browser.cache.freshness?.source).toBe("max-age");
+		expect(browser.cache.ttl).toBe(60);
+	});
+
+	it("falls back to Expires minus Date", async () => {
+		const result = await edge(
+			vcl,
+			respondWith({
+				Date: "Tue, 14 Nov 2023 22:00:00 GMT",
+				Expires: "Tue, 14 Nov 2023 23:00:00 GMT",
+			}),
+		).request();
+		expect(result.cache.freshness?.source).toBe("expires");
+		expect(result.cache.ttl).toBe(3600);
+		const invalid = await edge(vcl, respondWith({ Expires: "0" })).request();
+		expect(invalid.cache.ttl).toBe(0);
+		expect(invalid.cache.stored).toBe(false);
+	});
+
+	it("applies the default TTL when the response has no caching headers", async () => {
+		const result = await edge(vcl, respondWith({})).request();
+		expect(result.cache.freshness?.source).toBe("default");
+		expect(result.cache.ttl).toBe(300);
+		expect(result.cache.staleWhileRevalidate).toBe(10);
+		expect(result.cache.stored).toBe(true);
+	});
+
+	it("gives a max-age response no stale window unless it asks for one", async () => {
+		const { state, request } = edge(vcl, respondWith({ "Cache-Control": "max-age=60" }));
+		const first = await request();
+		expect(first.cache.staleWhileRevalidate).toBe(0);
+		expect(first.response.headers["X-Seen-SWR"]).toBe("0.000");
+		state.now += 61_000;
+		const expired = await request();
+		expect(expired.cache.outcome).toBe("miss");
+		expect(expired.revalidation).toBeUndefined();
+		expect(state.fetches).toBe(2);
+	});
+
+	it("does not store private, no-store or max-age=0 responses", async () => {
+		for (const cacheControl of ["private, max-age=600", "no-store", "max-age=0"]) {
+			const { state, request } = edge(vcl, respondWith({ "Cache-Control": cacheControl }));
+			const result = await request();
+			expect(result.cache.outcome).toBe("uncacheable");
+			const stored = [...state.cache.values()];
+			expect(stored.every((entry) => entry.hitForPass)).toBe(true);
+		}
+		const overridden = await edge(
+			vcl,
+			respondWith({ "Cache-Control": "private", "Surrogate-Control": "max-age=60" }),
+		).request();
+		expect(overridden.cache.outcome).toBe("miss");
+	});
+
+	it("lets vcl_fetch override the derived TTL", async () => {
+		const { request } = edge(
+			"sub vcl_fetch { if (beresp.ttl == 60s) { set beresp.ttl = 1h; } }",
+			respondWith({ "Cache-Control": "max-age=60" }),
+		);
+		const result = await request();
+		expect(result.cache.freshness?.ttl).toBe(60);
+		expect(result.cache.ttl).toBe(3600);
+	});
+});
+
+describe("Purge", () => {
+	const tagged = (context: VCLContext): BackendResponse => ({
+		status: 200,
+		headers: {
+			"cache-control": "max-age=60",
+			"surrogate-key": context.req.url.startsWith("/products/") ? "products all" : "all",
+		},
+		body: `page ${context.req.url}`,
+	});
+
+	it("purges a URL with a PURGE request through the VCL's own hash", async () => {
+		const { state, request } = edge(
+			`sub vcl_recv {
+  if (req.is_purge && req.http.purge-token != "secret") {
+    error 401 "Unauthorized";
+  }
+}
+sub vcl_hash {
+  hash_data(req.url.path);
+}`,
+			tagged,
+		);
+		await request({ url: "/products/1?ref=a" });
+		const denied = await request({ url: "/products/1", method: "PURGE" });
+		expect(denied.response.status).toBe(401);
+		expect(state.cache.size).toBe(1);
+
+		const purge = await request({
+			url: "/products/1?ref=b",
+			method: "PURGE",
+			headers: { "Purge-Token": "secret" },
+		});
+		expect(purge.response.status).toBe(200);
+		expect(JSON.parse(text(purge.response.body)).status).toBe("ok");
+		expect(purge.cache.outcome).toBe("purge");
+		expect(purge.cache.purged).toBe(1);
+		expect(state.cache.size).toBe(0);
+		expect((await request({ url: "/products/1" })).cache.outcome).toBe("miss");
+		expect(state.fetches).toBe(2);
+	});
+
+	it("purges when vcl_recv returns purge", async () => {
+		const { state, request } = edge(
+			`sub vcl_recv {
+  if (req.method == "BAN") {
+    return(purge);
+  }
+}`,
+			tagged,
+		);
+		await request({ url: "/a" });
+		const purge = await request({ url: "/a", method: "BAN" });
+		expect(purge.cache.outcome).toBe("purge");
+		expect(state.cache.size).toBe(0);
+	});
+
+	it("soft-purges to stale so grace still serves the object", async () => {
+		const { state, request } = edge("", (context) => {
+			const response = tagged(context);
+			response.headers["cache-control"] = "max-age=60, stale-while-revalidate=30";
+			return response;
+		});
+		await request({ url: "/a" });
+		const purge = await request({
+			url: "/a",
+			method: "PURGE",
+			headers: { "Fastly-Soft-Purge": "1" },
+		});
+		expect(purge.cache.purged).toBe(1);
+		expect(state.cache.size).toBe(1);
+		const stale = await request({ url: "/a" });
+		expect(stale.cache.outcome).toBe("hit-stale");
+		expect(text(stale.response.body)).toBe("page /a");
+		await stale.revalidation;
+		expect(state.fetches).toBe(2);
+		expect((await request({ url: "/a" })).cache.outcome).toBe("hit");
+	});
+
+	it("serves a soft-purged object stale only for its grace from the purge", async () => {
+		let backendUp = true;
+		const { state, request } = edge("sub vcl_fetch { set beresp.grace = 60s; }", (context) => {
+			if (!backendUp) throw new Error("backend down");
+			return { ...tagged(context), headers: { "cache-control": "max-age=86400" } };
+		});
+		await request({ url: "/a" });
+		expect(purgeKey(state.cache, "/a:", { soft: true, now: state.now })).toBe(1);
+		backendUp = false;
+
+		state.now += 30_000;
+		expect((await request({ url: "/a" })).cache.outcome).toBe("hit-stale");
+		state.now += 5 * 3600_000;
+		const expired = await request({ url: "/a" });
+		expect(expired.cache.outcome).toBe("error");
+		expect(state.fetches).toBe(3);
+	});
+
+	it("purges by surrogate key, URL, hash key and everything", async () => {
+		const { state, request } = edge("", tagged);
+		const fill = async () => {
+			for (const url of ["/products/1", "/products/2", "/about"]) await request({ url });
+		};
+		await fill();
+		expect(state.cache.get("/about:")?.surrogateKeys).toEqual(["all"]);
+		expect(purgeSurrogateKey(state.cache, "products")).toBe(2);
+		expect([...state.cache.keys()]).toEqual(["/about:"]);
+		expect(purgeSurrogateKey(state.cache, "products")).toBe(0);
+
+		expect(purgeURL(state.cache, "/about")).toBe(1);
+		await fill();
+		expect(purgeKey(state.cache, "/products/1:")).toBe(1);
+		expect(purgeAll(state.cache, { soft: true, now: state.now })).toBe(2);
+		expect(state.cache.size).toBe(2);
+		expect(purgeAll(state.cache)).toBe(2);
+		expect(state.cache.size).toBe(0);
+	});
+
+	it("takes surrogate keys set in vcl_fetch", async () => {
+		const { state, request } = edge(
+			`sub vcl_fetch {
+  set beresp.http.Surrogate-Key = "a  b a";
+}`,
+			() => ({ status: 200, headers: {}, body: "ok" }),
+		);
+		await request({ url: "/x" });
+		expect(state.cache.get("/x:")?.surrogateKeys).toEqual(["a", "b"]);
+		expect(purgeSurrogateKey(state.cache, "b", { soft: true, now: state.now })).toBe(1);
+		expect((await request({ url: "/x" })).cache.outcome).toBe("hit-stale");
+	});
+});
+
+describe("Serving stale", () => {
+	// Fresh for 60s, served while revalidating until 90s, in place of errors until 360s.
+	const vcl = `sub vcl_fetch {
+  set beresp.grace = 0s;
+  set beresp.http.X-Background = if(req.is_background_fetch, "yes", "no");
+}
+sub vcl_deliver {
+  set resp.http.X-Stale = if(resp.stale, "yes", "no");
+  set resp.http.X-Stale-Error = if(resp.stale.is_error, "yes", "no");
+  set resp.http.X-Revalidating = if(resp.stale.is_revalidating, "yes", "no");
+}`;
+	const origin = () => {
+		const backend = { version: 0, failure: undefined as "down" | 503 | undefined };
+		const respond = (context: VCLContext): BackendResponse => {
+			if (backend.failure === "down") throw new Error("connection refused");
+			if (backend.failure) return { status: backend.failure, headers: {}, body: "oops" };
+			backend.version++;
+			return {
+				status: 200,
+				headers: {
+					"cache-control": "max-age=60, stale-while-revalidate=30, stale-if-error=300",
+					"x-version": String(backend.version),
+					"x-background-request": String(context.req.is_background_fetch ?? false),
+				},
+				body: `v${backend.version}`,
+			};
+		};
+		return { backend, respond };
+	};
+
+	it("serves a stale-while-revalidate hit and refreshes it in the background", async () => {
+		const { backend, respond } = origin();
+		const { state, request } = edge(vcl, respond);
+		await request();
+		state.now += 70_000;
+		const stale = await request();
+		expect(stale.cache.outcome).toBe("hit-stale");
+		expect(stale.cache.stale).toBe("revalidating");
+		expect(text(stale.response.body)).toBe("v1");
+		expect(stale.response.headers["X-Stale"]).toBe("yes");
+		expect(stale.response.headers["X-Revalidating"]).toBe("yes");
+		expect(stale.response.headers["X-Stale-Error"]).toBe("no");
+
+		await stale.revalidation;
+		expect(backend.version).toBe(2);
+		const refreshed = await request();
+		expect(refreshed.cache.outcome).toBe("hit");
+		expect(text(refreshed.response.body)).toBe("v2");
+		expect(refreshed.response.headers["x-background-request"]).toBe("true");
+		expect(refreshed.response.headers["X-Background"]).toBe("yes");
+		expect(refreshed.response.headers["X-Stale"]).toBe("no");
+	});
+
+	it("starts one background fetch for a burst of stale hits", async () => {
+		const { respond } = origin();
+		const { state, request } = edge(vcl, respond);
+		await request();
+		state.now += 70_000;
+		const hits = await Promise.all([request(), request(), request()]);
+		expect(hits.map((hit) => hit.cache.outcome)).toEqual(["hit-stale", "hit-stale", "hit-stale"]);
+		await Promise.all(hits.map((hit) => hit.revalidation));
+		expect(state.fetches).toBe(2);
+	});
+
+	it("keeps the stale object when the background fetch fails", async () => {
+		const { backend, respond } = origin();
+		const { state, request } = edge(vcl, respond);
+		await request();
+		state.now += 70_000;
+		backend.failure = "down";
+		await (await request()).revalidation;
+		const again = await request();
+		expect(again.cache.outcome).toBe("hit-stale");
+		expect(text(again.response.body)).toBe("v1");
+	});
+
+	it("serves the stale object in place of a backend error or a 5xx", async () => {
+		const { backend, respond } = origin();
+		const { state, request } = edge(vcl, respond);
+		await request();
+		state.now += 200_000;
+		for (const failure of ["down", 503] as const) {
+			backend.failure = failure;
+			const result = await request();
+			expect(result.response.status).toBe(200);
+			expect(text(result.response.body)).toBe("v1");
+			expect(result.cache.outcome).toBe("hit-stale");
+			expect(result.cache.stale).toBe("error");
+			expect(result.response.headers["X-Stale-Error"]).toBe("yes");
+			expect(result.revalidation).toBeUndefined();
+		}
+
+		state.now += 200_000;
+		const expired = await request();
+		expect(expired.response.status).toBe(503);
+		expect(expired.cache.outcome).not.toBe("hit-stale");
+	});
+
+	it("lets req.max_stale_if_error and req.max_stale_while_revalidate narrow the windows", async () => {
+		const { backend, respond } = origin();
+		const { state, request } = edge(
+			`sub vcl_recv {
+  set req.max_stale_if_error = 100s;
+  set req.max_stale_while_revalidate = 5s;
+}
+${vcl}`,
+			respond,
+		);
+		await request();
+		state.now += 70_000;
+		const late = await request();
+		expect(late.cache.outcome).toBe("miss");
+		state.now += 200_000;
+		backend.failure = 503;
+		const failed = await request();
+		expect(failed.response.status).toBe(503);
+		expect(failed.cache.stale).toBeUndefined();
+	});
+
+	it("honors return(deliver_stale) from vcl_fetch and vcl_error", async () => {
+		const { backend, respond } = origin();
+		const { state, request } = edge(
+			`sub vcl_recv {
+  set req.max_stale_if_error = 0s;
+}
+sub vcl_fetch {
+  set beresp.grace = 0s;
+  if (beresp.status == 404 && stale.exists) {
+    return(deliver_stale);
+  }
+}
+sub vcl_error {
+  if (stale.exists) {
+    return(deliver_stale);
+  }
+}`,
+			(context) => {
+				if (backend.version > 0 && context.req.url === "/gone") {
+					return { status: 404, headers: {}, body: "missing" };
+				}
+				return respond(context);
+			},
+		);
+		await request({ url: "/gone" });
+		await request({ url: "/down" });
+		state.now += 200_000;
+		const notFound = await request({ url: "/gone" });
+		expect(notFound.response.status).toBe(200);
+		expect(text(notFound.response.body)).toBe("v1");
+		expect(notFound.cache.outcome).toBe("hit-stale");
+		expect(notFound.cache.stale).toBeUndefined();
+
+		backend.failure = "down";
+		const down = await request({ url: "/down" });
+		expect(text(down.response.body)).toBe("v2");
+		expect(down.cache.stale).toBe("error");
+
+		state.now += 1_000_000;
+		const expired = await request({ url: "/down" });
+		expect(expired.cache.outcome).toBe("error");
+	});
+});
+
+describe("Request collapsing", () => {
+	/** A backend that holds every response until `open` is called. */
+	const gated = (headers: Record<string, string>) => {
+		let open = () => {};
+		const gate = new Promise<void>((resolve) => {
+			open = resolve;
+		});
+		const respond = async (): Promise<BackendResponse> => {
+			await gate;
+			return { status: 200, headers, body: "shared" };
+		};
+		return { open: () => open(), respond };
+	};
+
+	it("makes one backend fetch for concurrent misses on a key", async () => {
+		const origin = gated({ "cache-control": "max-age=60" });
+		const { state, request } = edge("", origin.respond);
+		const pending = Promise.all([request(), request(), request()]);
+		origin.open();
+		const results = await pending;
+		expect(state.fetches).toBe(1);
+		expect(results.map((result) => result.cache.outcome)).toEqual(["miss", "hit", "hit"]);
+		expect(results.map((result) => result.cache.collapsed)).toEqual([undefined, true, true]);
+		expect(results.map((result) => text(result.response.body))).toEqual([
+			"shared",
+			"shared",
+			"shared",
+		]);
+	});
+
+	it("sends waiters to the backend when the response is uncacheable", async () => {
+		const origin = gated({ "cache-control": "private" });
+		const { state, request } = edge("", origin.respond);
+		const pending = Promise.all([request(), request(), request()]);
+		origin.open();
+		const results = await pending;
+		expect(state.fetches).toBe(3);
+		expect(results.map((result) => result.cache.outcome)).toEqual([
+			"uncacheable",
+			"hit-for-pass",
+			"hit-for-pass",
+		]);
+	});
+
+	it("does not make req.hash_ignore_busy requests or passes wait", async () => {
+		const origin = gated({ "cache-control": "max-age=60" });
+		const { state, request } = edge(
+			`sub vcl_recv {
+  if (req.http.x-mode == "ignore-busy") {
+    set req.hash_ignore_busy = true;
+  }
+  if (req.http.x-mode == "pass") {
+    return(pass);
+  }
+}`,
+			origin.respond,
+		);
+		const pending = Promise.all([
+			request(),
+			request({ headers: { "X-Mode": "ignore-busy" } }),
+			request({ headers: { "X-Mode": "pass" } }),
+		]);
+		origin.open();
+		const [leader, ignoring, passing] = await pending;
+		expect(state.fetches).toBe(3);
+		expect(leader?.cache.outcome).toBe("miss");
+		expect(ignoring?.cache.collapsed).toBeUndefined();
+		expect(passing?.cache.outcome).toBe("pass");
+	});
+
+	it("wakes waiters when the fetch fails", async () => {
+		let fail = () => {};
+		const failure = new Promise<void>((resolve) => {
+			fail = resolve;
+		});
+		const { state, request } = edge("", async () => {
+			await failure;
+			throw new Error("connection refused");
+		});
+		const pending = Promise.all([request(), request()]);
+		fail();
+		const results = await pending;
+		expect(state.fetches).toBe(2);
+		expect(results.map((result) => result.cache.outcome)).toEqual(["error", "error"]);
+	});
+});
+
+describe("Hit-for-pass", () => {
+	const vcl = `sub vcl_hit {
+  set req.http.x-hit = "1";
+}
+sub vcl_pass {
+  set req.http.x-passed = "1";
+}
+sub vcl_fetch {
+  if (req.http.x-fetch == "pass") {
+    return(pass);
+  }
+  if (req.http.x-fetch == "uncacheable") {
+    set beresp.cacheable = false;
+  }
+}
+sub vcl_deliver {
+  set resp.http.X-Hit = req.http.x-hit;
+  set resp.http.X-Passed = req.http.x-passed;
+}`;
+	const origin = (context: VCLContext): BackendResponse => ({
+		status: Number(context.req.http["x-status"] ?? 200),
+		headers: { "cache-control": context.req.http["x-cache-control"] ?? "max-age=60" },
+		body: `fetch for ${context.req.url}`,
+	});
+
+	it("sends later requests straight to vcl_pass after vcl_fetch returns pass", async () => {
+		const { state, request } = edge(vcl, origin);
+		const first = await request({ headers: { "X-Fetch": "pass" } });
+		expect(first.cache.outcome).toBe("uncacheable");
+		expect(state.cache.get("/:")?.hitForPass).toBe(true);
+
+		const second = await request();
+		expect(second.cache.outcome).toBe("hit-for-pass");
+		expect(second.cache.key).toBe("/:");
+		expect(second.response.headers["X-Passed"]).toBe("1");
+		expect(second.response.headers["X-Hit"]).toBeUndefined();
+		expect(text(second.response.body)).toBe("fetch for /");
+		expect(state.fetches).toBe(2);
+		expect(state.cache.get("/:")?.hitForPass).toBe(true);
+	});
+
+	it("leaves a marker for beresp.cacheable = false but not for an uncacheable status", async () => {
+		const marked = edge(vcl, origin);
+		await marked.request({ headers: { "X-Fetch": "uncacheable" } });
+		expect((await marked.request()).cache.outcome).toBe("hit-for-pass");
+
+		const failing = edge(vcl, origin);
+		const error = await failing.request({ headers: { "X-Status": "503" } });
+		expect(error.cache.outcome).toBe("uncacheable");
+		expect(failing.state.cache.size).toBe(0);
+	});
+
+	it("lasts beresp.ttl, or two minutes when that is zero", async () => {
+		const { state, request } = edge(vcl, origin);
+		await request({ headers: { "X-Fetch": "pass" } });
+		state.now += 59_000;
+		expect((await request()).cache.outcome).toBe("hit-for-pass");
+		state.now += 1_000;
+		expect((await request()).cache.outcome).toBe("miss");
+		expect((await request()).cache.outcome).toBe("hit");
+
+		const uncached = edge(vcl, origin);
+		await uncached.request({ headers: { "X-Cache-Control": "private" } });
+		uncached.state.now += 119_000;
+		expect((await uncached.request()).cache.outcome).toBe("hit-for-pass");
+		uncached.state.now += 1_000;
+		expect((await uncached.request()).cache.outcome).toBe("miss");
+	});
+
+	it("is removed by a purge", async () => {
+		const { state, request } = edge(vcl, origin);
+		await request({ headers: { "X-Fetch": "pass" } });
+		expect(purgeKey(state.cache, "/:")).toBe(1);
+		expect((await request()).cache.outcome).toBe("miss");
+	});
+});
+
+describe("Conditional requests", () => {
+	const etag = '"v1"';
+	const lastModified = "Tue, 14 Nov 2023 22:00:00 GMT";
+
+	it("answers a hit whose validators match with a 304 and no body", async () => {
+		const { request } = edge(
+			"sub vcl_deliver { set resp.http.X-Deliver-Status = resp.status; }",
+			() => ({
+				status: 200,
+				headers: { etag, "last-modified": lastModified, "content-length": "4" },
+				body: "body",
+			}),
+		);
+		expect((await request()).response.status).toBe(200);
+
+		const matched = await request({ headers: { "If-None-Match": `"v0", W/${etag}` } });
+		expect(matched.cache.outcome).toBe("hit");
+		expect(matched.response.status).toBe(304);
+		expect(matched.response.headers["X-Deliver-Status"]).toBe("304");
+		expect(matched.response.headers["content-length"]).toBeUndefined();
+		expect(matched.response.body.length).toBe(0);
+
+		const other = await request({ headers: { "If-None-Match": '"v0"' } });
+		expect(other.response.status).toBe(200);
+		expect(text(other.response.body)).toBe("body");
+	});
+
+	it("compares If-Modified-Since only when there is no If-None-Match", async () => {
+		const { request } = edge("", () => ({
+			status: 200,
+			headers: { etag, "last-modified": lastModified },
+			body: "body",
+		}));
+		await request();
+		const status = async (headers: Record<string, string>) =>
+			(await request({ headers })).response.status;
+		expect(await status({ "If-Modified-Since": lastModified })).toBe(304);
+		expect(await status({ "If-Modified-Since": "Wed, 15 Nov 2023 00:00:00 GMT" })).toBe(304);
+		expect(await status({ "If-Modified-Since": "Mon, 13 Nov 2023 00:00:00 GMT" })).toBe(200);
+		expect(await status({ "If-Modified-Since": lastModified, "If-None-Match": '"v0"' })).toBe(200);
+		expect(
+			(await request({ method: "POST", headers: { "If-None-Match": etag } })).response.status,
+		).toBe(200);
+	});
+
+	it("keeps the client's validators off cacheable fetches but forwards them on a pass", async () => {
+		const seen: Array<Record<string, string>> = [];
+		const { request } = edge(
+			'sub vcl_recv { if (req.url == "/pass") { return(pass); } }',
+			(context) => {
+				seen.push({ ...context.bereq.http });
+				return { status: 200, headers: { etag }, body: "body" };
+			},
+		);
+		await request({ headers: { "If-None-Match": etag, "X-Kept": "1" } });
+		await request({ url: "/pass", headers: { "If-None-Match": etag } });
+		expect(seen[0]).toEqual({ "x-kept": "1" });
+		expect(seen[1]?.["if-none-match"]).toBe(etag);
+	});
+
+	it("revalidates an expired object and lets a backend 304 refresh it", async () => {
+		const vcl = `sub vcl_recv {
+  set req.max_stale_while_revalidate = 0s;
+}
+sub vcl_fetch {
+  set beresp.grace = 1h;
+  set beresp.http.X-Fetch-Status = beresp.status;
+}`;
+		const seen: Array<Record<string, string>> = [];
+		const { state, request } = edge(vcl, (context): BackendResponse => {
+			seen.push({ ...context.bereq.http });
+			if (context.bereq.http["if-none-match"] === etag) {
+				return {
+					status: 304,
+					headers: { "cache-control": "max-age=120", "x-version": "2" },
+					body: "",
+				};
+			}
+			return {
+				status: 200,
+				headers: { etag, "last-modified": lastModified, "cache-control": "max-age=60" },
+				body: "large asset",
+			};
+		});
+		await request();
+		state.now += 61_000;
+
+		const revalidated = await request();
+		expect(seen[1]).toEqual({ "if-none-match": etag, "if-modified-since": lastModified });
+		expect(revalidated.cache.outcome).toBe("miss");
+		expect(revalidated.cache.revalidated).toBe(true);
+		expect(revalidated.cache.ttl).toBe(120);
+		expect(revalidated.response.status).toBe(200);
+		expect(revalidated.response.headers["X-Fetch-Status"]).toBe("304");
+		expect(revalidated.response.headers["x-version"]).toBe("2");
+		expect(text(revalidated.response.body)).toBe("large asset");
+
+		state.now += 100_000;
+		const hit = await request();
+		expect(hit.cache.outcome).toBe("hit");
+		expect(hit.response.headers.etag).toBe(etag);
+		expect(text(hit.response.body)).toBe("large asset");
+		expect(state.fetches).toBe(2);
+	});
+
+	it("revalidates conditionally in the background too", async () => {
+		let version = 1;
+		const { state, request } = edge("", (context): BackendResponse => {
+			if (context.bereq.http["if-none-match"] === etag) {
+				return { status: 304, headers: { "cache-control": "max-age=60" }, body: "" };
+			}
+			return {
+				status: 200,
+				headers: { etag, "cache-control": "max-age=60, stale-while-revalidate=30" },
+				body: `v${version++}`,
+			};
+		});
+		await request();
+		state.now += 61_000;
+		const stale = await request();
+		expect(stale.cache.outcome).toBe("hit-stale");
+		await stale.revalidation;
+		const hit = await request();
+		expect(hit.cache.outcome).toBe("hit");
+		expect(text(hit.response.body)).toBe("v1");
+		expect(state.fetches).toBe(2);
+	});
+});
+
+describe("Byte ranges", () => {
+	const object = "0123456789";
+	const origin = (context: VCLContext): BackendResponse => ({
+		status: 200,
+		headers: {
+			"content-type": "text/plain",
+			"content-length": `${object.length}`,
+			etag: '"abc"',
+		},
+		body: context.bereq.http.range === "bytes=0-0" ? "0" : object,
+	});
+	const ranged = (range: string, headers: Record<string, string> = {}) => ({
+		headers: { Range: range, ...headers },
+	});
+
+	it("serves a single range from fetched and cached objects", async () => {
+		const { state, request } = edge("", origin);
+		const miss = await request(ranged("bytes=2-4"));
+		expect(miss.cache.outcome).toBe("miss");
+		expect(miss.response.status).toBe(206);
+		expect(miss.response.headers["content-range"]).toBe("bytes 2-4/10");
+		expect(miss.response.headers["content-length"]).toBe("3");
+		expect(text(miss.response.body)).toBe("234");
+		expect(text(state.cache.get("/:")?.body ?? new Uint8Array())).toBe(object);
+
+		const suffix = await request(ranged("bytes=-3"));
+		expect(suffix.cache.outcome).toBe("hit");
+		expect(text(suffix.response.body)).toBe("789");
+		expect(text((await request(ranged("bytes=6-"))).response.body)).toBe("6789");
+		expect(text((await request(ranged("bytes=8-99"))).response.body)).toBe("89");
+		expect((await request()).response.status).toBe(200);
+	});
+
+	it("serves several ranges as multipart/byteranges", async () => {
+		const { request } = edge("", origin);
+		const result = await request(ranged("bytes=0-1, 5-6"));
+		expect(result.response.status).toBe(206);
+		const contentType = result.response.headers["content-type"] ?? "";
+		const boundary = /^multipart\/byteranges; boundary=(\S+)$/.exec(contentType)?.[1];
+		expect(boundary).toBeDefined();
+		expect(text(result.response.body)).toBe(
+			`--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 0-1/10\r\n\r\n01\r\n` +
+				`--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 5-6/10\r\n\r\n56\r\n` +
+				`--${boundary}--\r\n`,
+		);
+		expect(result.response.headers["content-length"]).toBe(`${result.response.body.length}`);
+	});
+
+	it("answers 416 for a range past the end and ignores a malformed one", async () => {
+		const { request } = edge("", origin);
+		const unsatisfiable = await request(ranged("bytes=10-"));
+		expect(unsatisfiable.response.status).toBe(416);
+		expect(unsatisfiable.response.headers["content-range"]).toBe("bytes */10");
+		expect(unsatisfiable.response.body.length).toBe(0);
+
+		for (const range of ["bytes=abc", "bytes=5-2", "items=0-1"]) {
+			const whole = await request(ranged(range));
+			expect(whole.response.status).toBe(200);
+			expect(text(whole.response.body)).toBe(object);
+		}
+	});
+
+	it("serves the whole object when If-Range no longer matches", async () => {
+		const { request } = edge("", origin);
+		const status = async (ifRange: string) =>
+			(await request(ranged("bytes=0-1", { "If-Range": ifRange }))).response.status;
+		expect(await status('"abc"')).toBe(206);
+		expect(await status('"xyz"')).toBe(200);
+		expect(await status('W/"abc"')).toBe(200);
+		expect(await status("Tue, 14 Nov 2023 22:00:00 GMT")).toBe(200);
+	});
+
+	it("leaves a passed Range to the backend unless req.enable_range_on_pass is set", async () => {
+		const seen: Array<string | undefined> = [];
+		const { request } = edge(
+			`sub vcl_recv {
+  if (req.url ~ "^/pass") {
+    if (req.url == "/pass-ranged") {
+      set req.enable_range_on_pass = true;
+    }
+    return(pass);
+  }
+}`,
+			(context) => {
+				seen.push(context.bereq.http.range);
+				return origin(context);
+			},
+		);
+		await request(ranged("bytes=0-0"));
+		const passed = await request({ url: "/pass", ...ranged("bytes=0-0") });
+		const edgeRanged = await request({ url: "/pass-ranged", ...ranged("bytes=3-4") });
+		expect(seen).toEqual([undefined, "bytes=0-0", "bytes=3-4"]);
+		expect(passed.response.status).toBe(200);
+		expect(text(passed.response.body)).toBe("0");
+		expect(edgeRanged.response.status).toBe(206);
+		expect(text(edgeRanged.response.body)).toBe("34");
+	});
+});
+
+describe("Segmented caching", () => {
+	const object = "abcdefghijklmnopqrstuvwxyz";
+	const vcl = `sub vcl_recv {
+  set req.enable_segmented_caching = true;
+  set segmented_caching.block_size = 8;
+}
+sub vcl_miss {
+  set bereq.http.X-Block = segmented_caching.block_number;
+  set bereq.http.X-Block-Size = segmented_caching.block_size;
+  if (segmented_caching.is_inner_req) {
+    set bereq.http.X-Inner = "yes";
+  }
+}
+sub vcl_deliver {
+  set resp.http.X-Total = segmented_caching.total_blocks;
+  set resp.http.X-Length = segmented_caching.obj.complete_length;
+  set resp.http.X-Rounded = segmented_caching.rounded_req.range_low "-" segmented_caching.rounded_req.range_high;
+  if (segmented_caching.is_outer_req && segmented_caching.completed) {
+    set resp.http.X-Outer = "completed";
+  }
+}
+sub vcl_error {
+  if (segmented_caching.failed) {
+    set obj.http.X-Segment-Error = segmented_caching.error;
+  }
+}`;
+
+	/** A backend that honours block Range requests, and records each one. */
+	const rangedOrigin = () => {
+		const requests: Array<Record<string, string>> = [];
+		const respond = (context: VCLContext): BackendResponse => {
+			requests.push({ ...context.bereq.http });
+			const [, first, last] = /^bytes=(\d+)-(\d+)$/.exec(context.bereq.http.range ?? "") ?? [];
+			const start = Number(first);
+			if (start >= object.length) {
+				return { status: 416, headers: { "content-range": `bytes */${object.length}` }, body: "" };
+			}
+			const end = Math.min(Number(last), object.length - 1);
+			return {
+				status: 206,
+				headers: {
+					"content-type": "text/plain",
+					"cache-control": "max-age=60",
+					"content-range": `bytes ${start}-${end}/${object.length}`,
+				},
+				body: object.slice(start, end + 1),
+			};
+		};
+		return { requests, respond };
+	};
+
+	it("fetches, stores and assembles the object in blocks", async () => {
+		const origin = rangedOrigin();
+		const { state, request } = edge(vcl, origin.respond);
+		const miss = await request();
+		expect(origin.requests.map((headers) => headers.range)).toEqual([
+			"bytes=0-7",
+			"bytes=8-15",
+			"bytes=16-23",
+			"bytes=24-31",
+		]);
+		expect(origin.requests[1]).toMatchObject({
+			"X-Block": "1",
+			"X-Block-Size": "8",
+			"X-Inner": "yes",
+		});
+		expect(miss.cache.outcome).toBe("miss");
+		expect(miss.cache.segments).toEqual({ blockSize: 8, total: 4, hits: 0, fetched: 4 });
+		expect(miss.response.status).toBe(200);
+		expect(text(miss.response.body)).toBe(object);
+		expect(miss.response.headers["content-length"]).toBe("26");
+		expect(miss.response.headers["content-range"]).toBeUndefined();
+		expect(miss.response.headers).toMatchObject({
+			"X-Total": "4",
+			"X-Length": "26",
+			"X-Outer": "completed",
+		});
+		expect(mapVariants(state.cache, "/:")?.map((entry) => entry.segment?.block)).toEqual([
+			0, 1, 2, 3,
+		]);
+
+		const hit = await request();
+		expect(hit.cache.outcome).toBe("hit");
+		expect(hit.response.headers["X-Cache"]).toBe("HIT");
+		expect(text(hit.response.body)).toBe(object);
+		expect(state.fetches).toBe(4);
+	});
+
+	it("fetches only the blocks a client range covers", async () => {
+		const origin = rangedOrigin();
+		const { state, request } = edge(vcl, origin.respond);
+		const ranged = await request({ headers: { Range: "bytes=10-17" } });
+		expect(origin.requests.map((headers) => headers.range)).toEqual(["bytes=8-15", "bytes=16-23"]);
+		expect(ranged.response.status).toBe(206);
+		expect(ranged.response.headers["content-range"]).toBe("bytes 10-17/26");
+		expect(ranged.response.headers["X-Rounded"]).toBe("8-23");
+		expect(text(ranged.response.body)).toBe("klmnopqr");
+
+		const whole = await request();
+		expect(whole.cache.segments).toEqual({ blockSize: 8, total: 4, hits: 2, fetched: 2 });
+		expect(text(whole.response.body)).toBe(object);
+		expect(state.fetches).toBe(4);
+
+		const several = await request({ headers: { Range: "bytes=0-1,24-25" } });
+		expect(several.response.headers["content-type"]).toStartWith("multipart/byteranges");
+		expect(state.fetches).toBe(4);
+	});
+
+	it("cuts blocks from a backend that ignores Range", async () => {
+		const { state, request } = edge(vcl, () => ({
+			status: 200,
+			headers: { "cache-control": "max-age=60" },
+			body: object,
+		}));
+		const result = await request({ headers: { Range: "bytes=20-" } });
+		expect(result.response.status).toBe(206);
+		expect(text(result.response.body)).toBe("uvwxyz");
+		expect(mapVariants(state.cache, "/:")?.map((entry) => text(entry.body))).toEqual([
+			"qrstuvwx",
+			"yz",
+		]);
+	});
+
+	it("answers 416 past the end and fails with 503 when a block cannot be fetched", async () => {
+		const origin = rangedOrigin();
+		const { request } = edge(vcl, origin.respond);
+		const unsatisfiable = await request({ headers: { Range: "bytes=40-" } });
+		expect(unsatisfiable.response.status).toBe(416);
+		expect(unsatisfiable.response.headers["content-range"]).toBe("bytes */26");
+
+		let calls = 0;
+		const failing = edge(vcl, (context) => {
+			if (++calls === 2) throw new Error("connection reset");
+			return origin.respond(context);
+		});
+		const failed = await failing.request();
+		expect(failed.cache.outcome).toBe("error");
+		expect(failed.response.status).toBe(503);
+		expect(failed.response.headers["X-Segment-Error"]).toBe("block 1: connection reset");
+	});
+
+	it("purges every block with the object's key", async () => {
+		const origin = rangedOrigin();
+		const { state, request } = edge(vcl, origin.respond);
+		await request();
+		expect(purgeKey(state.cache, "/:")).toBe(4);
+		expect((await request()).cache.outcome).toBe("miss");
+	});
+});
+
+describe("Bounded cache", () => {
+	const START = 1_700_000_000_000;
+	/** A bounded cache on the test clock, and a backend whose max-age comes from the URL. */
+	const boundedEdge = (options: { maxObjects?: number; maxBytes?: number }) => {
+		let clock = START;
+		const cache = new BoundedCache({ ...options, now: () => clock });
+		const result = edge(
+			"",
+			(context) => ({
+				status: 200,
+				headers: { "cache-control": `max-age=${context.req.url.includes("short") ? 10 : 600}` },
+				body: "x".repeat(100),
+			}),
+			cache,
+		);
+		const advance = (ms: number) => {
+			result.state.now += ms;
+			clock = result.state.now;
+		};
+		return { ...result, cache, advance };
+	};
+
+	it("evicts the least recently used key past maxObjects", async () => {
+		const { cache, request } = boundedEdge({ maxObjects: 2 });
+		await request({ url: "/a" });
+		await request({ url: "/b" });
+		expect((await request({ url: "/a" })).cache.outcome).toBe("hit");
+		await request({ url: "/c" });
+		expect([...cache.keys()]).toEqual(["/a:", "/c:"]);
+		expect(cache.stats()).toMatchObject({ objects: 2, evictions: 1, expiredEvictions: 0 });
+		expect((await request({ url: "/b" })).cache.outcome).toBe("miss");
+	});
+
+	it("evicts expired objects before fresh ones", async () => {
+		const { cache, request, advance } = boundedEdge({ maxObjects: 2 });
+		await request({ url: "/long" });
+		await request({ url: "/short" });
+		advance(20_000);
+		await request({ url: "/new" });
+		expect([...cache.keys()]).toEqual(["/long:", "/new:"]);
+		expect(cache.stats()).toMatchObject({ evictions: 1, expiredEvictions: 1 });
+	});
+
+	it("accounts each object's size against maxBytes", async () => {
+		const { cache, request } = boundedEdge({ maxBytes: 500 });
+		await request({ url: "/a" });
+		const entry = cache.get("/a:");
+		if (!entry) throw new Error("expected /a to be cached");
+		const size = entrySize(entry);
+		expect(size).toBeGreaterThan(100);
+		expect(cache.stats().bytes).toBe(size);
+		await request({ url: "/b" });
+		await request({ url: "/c" });
+		expect(cache.stats().objects).toBe(Math.floor(500 / size));
+		expect(cache.stats().bytes).toBeLessThanOrEqual(500);
+		purgeAll(cache);
+		expect(cache.stats()).toMatchObject({ objects: 0, bytes: 0 });
+	});
+
+	it("evicts every variant of a key together", async () => {
+		const cache = new BoundedCache({ maxObjects: 3, now: () => START });
+		const { request } = edge(
+			"",
+			(context) => ({
+				status: 200,
+				headers: { "cache-control": "max-age=600", vary: "Accept" },
+				body: `${context.req.url} as ${context.req.http.accept}`,
+			}),
+			cache,
+		);
+		await request({ url: "/a", headers: { Accept: "text/html" } });
+		await request({ url: "/a", headers: { Accept: "application/json" } });
+		await request({ url: "/b", headers: { Accept: "text/html" } });
+		await request({ url: "/c", headers: { Accept: "text/html" } });
+		expect([...cache.keys()]).toEqual(["/b:", "/c:"]);
+		expect(cache.stats()).toMatchObject({ objects: 2, evictions: 2 });
+		const json = await request({ url: "/a", headers: { Accept: "application/json" } });
+		expect(json.cache.outcome).toBe("miss");
+	});
+});
+
+describe("Cache stores", () => {
+	const directories: string[] = [];
+	const cacheDirectory = async () => {
+		const directory = await mkdtemp(join(tmpdir(), "fastly-js-cache-"));
+		directories.push(directory);
+		return directory;
+	};
+	afterEach(async () => {
+		for (const directory of directories.splice(0)) {
+			await rm(directory, { recursive: true, force: true });
+		}
+	});
+
+	const binary = new Uint8Array([0, 1, 127, 128, 255]);
+	const tagged = (): BackendResponse => ({
+		status: 200,
+		headers: {
+			"cache-control": "max-age=600, stale-while-revalidate=30",
+			"surrogate-key": "assets",
+			vary: "Accept",
+		},
+		body: binary,
+	});
+
+	it("looks objects up and stores them through a MemoryCacheStore's map", async () => {
+		const map: PipelineCache = new Map();
+		const { state, request } = edge("", tagged, new MemoryCacheStore(map));
+		expect((await request({ url: "/a" })).cache.outcome).toBe("miss");
+		expect((await request({ url: "/a" })).cache.outcome).toBe("hit");
+		expect([...map.keys()]).toEqual(["/a:"]);
+		expect(state.fetches).toBe(1);
+	});
+
+	it("keeps one object per key in a PipelineCache, however many variants it has", async () => {
+		const { state, request } = edge("", tagged);
+		await request({ url: "/a", headers: { Accept: "text/html" } });
+		await request({ url: "/a", headers: { Accept: "image/png" } });
+		await request({ url: "/b" });
+		expect(state.cache.get("/b:")?.resp.status).toBe(200);
+		expect(state.cache.get("/a:")?.vary).toEqual({ accept: "text/html" });
+		expect(state.cache.size).toBe(3);
+		expect([...new Set([...state.cache.keys()].map(hashKey))]).toEqual(["/a:", "/b:"]);
+
+		// A copy of the map is a cache of its own, with every variant in it.
+		const copy = edge("", tagged, new Map(state.cache));
+		const png = await copy.request({ url: "/a", headers: { Accept: "image/png" } });
+		expect(png.cache.outcome).toBe("hit");
+		expect(purgeKey(copy.state.cache, "/a:")).toBe(2);
+		expect([...copy.state.cache.keys()]).toEqual(["/b:"]);
+	});
+
+	it("keeps objects on disk for a later store on the same directory", async () => {
+		const directory = await cacheDirectory();
+		const first = edge("", tagged, new DiskCacheStore(directory));
+		const stored = await first.request({ url: "/a", headers: { Accept: "image/png" } });
+		expect(stored.cache.outcome).toBe("miss");
+		expect(await readdir(directory)).toHaveLength(1);
+
+		const restarted = edge("", tagged, new DiskCacheStore(directory));
+		const hit = await restarted.request({ url: "/a", headers: { Accept: "image/png" } });
+		expect(hit.cache.outcome).toBe("hit");
+		expect(hit.cache.variant).toEqual({ accept: "image/png" });
+		expect(hit.response.body).toEqual(binary);
+		expect(restarted.state.fetches).toBe(0);
+		const other = await restarted.request({ url: "/a", headers: { Accept: "text/html" } });
+		expect(other.cache.outcome).toBe("miss");
+		expect((await restarted.state.cache.get("/a:"))?.length).toBe(2);
+	});
+
+	it("evicts from disk past its limits, counting what a restart finds there", async () => {
+		const directory = await cacheDirectory();
+		const now = () => 1_700_000_000_000;
+		const store = new DiskCacheStore(directory, { maxObjects: 2, now });
+		const { request } = edge("", tagged, store);
+		await request({ url: "/a" });
+		await request({ url: "/b" });
+		expect((await request({ url: "/a" })).cache.outcome).toBe("hit");
+		await request({ url: "/c" });
+		expect(await readdir(directory)).toHaveLength(2);
+		expect(await store.stats()).toMatchObject({ objects: 2, evictions: 1, expiredEvictions: 0 });
+		expect((await request({ url: "/b" })).cache.outcome).toBe("miss");
+
+		const restarted = new DiskCacheStore(directory, { maxObjects: 2, now });
+		const stats = await restarted.stats();
+		expect(stats).toMatchObject({ objects: 2, maxObjects: 2, evictions: 0 });
+		expect(stats.bytes).toBe((await store.stats()).bytes);
+	});
+
+	it("purges a store by key and surrogate key, writing soft purges back", async () => {
+		const store = new DiskCacheStore(await cacheDirectory());
+		const { state, request } = edge("", tagged, store);
+		await request({ url: "/a" });
+		await request({ url: "/b" });
+
+		expect(await purgeKey(store, "/a:", { soft: true, now: state.now })).toBe(1);
+		expect((await store.get("/a:"))?.[0]?.expires).toBe(state.now);
+		expect((await request({ url: "/a" })).cache.outcome).toBe("hit-stale");
+
+		expect(await purgeSurrogateKey(store, "assets")).toBe(2);
+		const keys = [];
+		for await (const [key] of store.entries()) keys.push(key);
+		expect(keys).toEqual([]);
+		expect(await store.delete("/a:")).toBe(false);
+	});
+
+	it("reads a file that is not a stored key as absent", async () => {
+		const directory = await cacheDirectory();
+		const store = new DiskCacheStore(directory);
+		await edge("", tagged, store).request({ url: "/a" });
+		const [name = ""] = await readdir(directory);
+		await writeFile(join(directory, name), "{ not json");
+		await writeFile(join(directory, "other.json"), JSON.stringify({ version: 0, key: "/b:" }));
+
+		expect(await store.get("/a:")).toBeUndefined();
+		const keys = [];
+		for await (const [key] of store.entries()) keys.push(key);
+		expect(keys).toEqual([]);
+		expect(await purgeAll(store)).toBe(0);
+	});
+});
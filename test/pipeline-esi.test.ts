@@ -0,0 +1,311 @@
+// How runPipeline processes ESI in the responses it delivers: which bodies are
+// parsed, gzip templates, every <esi:include> as a subrequest through the
+// pipeline, cached on its own, Fastly's nesting depth and include limits, and
+// the rest of the ESI 1.0 language.
+
+import { describe, expect, it } from "bun:test";
+import { getPlatform } from "../src/platform";
+import "../src/platform-node";
+import { gunzip, gzip } from "../src/runtime/gzip";
+import type { BackendResponse, PipelineCache } from "../src/runtime/pipeline";
+import { runPipeline } from "../src/runtime/pipeline";
+import { purgeKey } from "../src/runtime/purge";
+import { createVCLContext, loadVCLContent } from "../src/vcl";
+import type { VCLContext } from "../src/vcl-compiler";
+import { MAX_ESI_DEPTH, MAX_ESI_INCLUDES } from "../src/vcl-limits";
+
+const ESI_VCL = `
+sub vcl_fetch {
+  set beresp.do_esi = true;
+}
+`;
+
+/** A cache and a backend shared by a series of requests, with every backend request's URL recorded. */
+function edge(vcl: string, respond: (context: VCLContext) => BackendResponse) {
+	const subroutines = loadVCLContent(vcl);
+	const state = { cache: new Map() as PipelineCache, fetched: [] as string[] };
+	const request = (url: string, headers: Record<string, string> = {}) => {
+		const context = createVCLContext({ ...getPlatform(), now: () => 1_700_000_000_000 });
+		context.req.url = url;
+		context.req.http = { ...context.req.http, host: "www.example.com", ...headers };
+		return runPipeline({
+			subroutines,
+			context,
+			cache: state.cache,
+			maxRestarts: 3,
+			getBackendResponse: async (backendContext) => {
+				state.fetched.push(backendContext.req.url);
+				return respond(backendContext);
+			},
+		});
+	};
+	return { state, request };
+}
+
+const html = (body: string, maxAge = 60): BackendResponse => ({
+	status: 200,
+	headers: { "content-type": "text/html", "cache-control": `max-age=${maxAge}` },
+	body,
+});
+
+const text = (body: Uint8Array) => new TextDecoder().decode(body);
+
+describe("ESI includes", () => {
+	it("fetches each include as a subrequest through the pipeline", async () => {
+		const { state, request } = edge(ESI_VCL, ({ req }) =>
+			req.url === "/shop/page"
+				? html('<main><esi:include src="fragment" /></main>')
+				: html(`${req.url} level=${req.esi_level} subreq=${req.is_esi_subreq} top=${req.topurl}`),
+		);
+		const result = await request("/shop/page");
+		expect(text(result.response.body)).toBe(
+			"<main>/shop/fragment level=1 subreq=true top=/shop/page</main>",
+		);
+		expect(state.fetched).toEqual(["/shop/page", "/shop/fragment"]);
+	});
+
+	it("runs VCL for the subrequest with req.is_esi_subreq and req.esi_level set", async () => {
+		const vcl = `
+sub vcl_recv {
+  if (req.is_esi_subreq) {
+    set req.url = req.url "?level=" req.esi_level;
+  }
+}
+${ESI_VCL}`;
+		const { state, request } = edge(vcl, ({ req }) =>
+			req.url === "/" ? html('<esi:include src="/fragment" />') : html(req.url),
+		);
+		expect(text((await request("/")).response.body)).toBe("/fragment?level=1");
+		expect(state.cache.has("/fragment?level=1:www.example.com")).toBe(true);
+	});
+
+	it("caches fragments on their own and processes the stored template on each delivery", async () => {
+		let version = 1;
+		const { state, request } = edge(ESI_VCL, ({ req }) =>
+			req.url === "/" ? html('<p><esi:include src="/news" /></p>') : html(`news v${version++}`),
+		);
+		expect(text((await request("/")).response.body)).toBe("<p>news v1</p>");
+		const hit = await request("/");
+		expect(hit.cache.outcome).toBe("hit");
+		expect(text(hit.response.body)).toBe("<p>news v1</p>");
+		expect(state.fetched).toEqual(["/", "/news"]);
+		expect(text(state.cache.get("/:www.example.com")?.body ?? new Uint8Array())).toBe(
+			'<p><esi:include src="/news" /></p>',
+		);
+
+		purgeKey(state.cache, "/news:www.example.com");
+		expect(text((await request("/")).response.body)).toBe("<p>news v2</p>");
+		expect(state.fetched).toEqual(["/", "/news", "/news"]);
+	});
+
+	it(`drops includes nested deeper than ${MAX_ESI_DEPTH} levels`, async () => {
+		const { state, request } = edge(ESI_VCL, ({ req }) => {
+			const level = req.esi_level ?? 0;
+			return html(`<b>${level}<esi:include src="/level${level + 1}" /></b>`);
+		});
+		const result = await request("/level0");
+		expect(text(result.response.body)).toBe("<b>0<b>1<b>2<b>3<b>4<b>5</b></b></b></b></b></b>");
+		expect(state.fetched).toHaveLength(MAX_ESI_DEPTH + 1);
+	});
+
+	// With max-age=0 nothing can be hit, so every include is a fetch of its own,
+	// each for a key the request that includes it is still fetching.
+	it("stops an uncacheable page that includes itself at the depth limit", async () => {
+		const { state, request } = edge(ESI_VCL, () => html('<b>self<esi:include src="/" /></b>', 0));
+		const result = await request("/");
+		expect(text(result.response.body)).toBe(
+			`${"<b>self".repeat(MAX_ESI_DEPTH + 1)}${"</b>".repeat(MAX_ESI_DEPTH + 1)}`,
+		);
+		expect(state.fetched).toEqual(Array(MAX_ESI_DEPTH + 1).fill("/"));
+	});
+
+	it("stops an include cycle between two pages at the depth limit", async () => {
+		const { state, request } = edge(ESI_VCL, ({ req }) => {
+			const other = req.url === "/a" ? "/b" : "/a";
+			return html(`<i>${req.url}<esi:include src="${other}" /></i>`, 0);
+		});
+		const result = await request("/a");
+		expect(text(result.response.body)).toBe(
+			"<i>/a<i>/b<i>/a<i>/b<i>/a<i>/b</i></i></i></i></i></i>",
+		);
+		expect(state.fetched).toEqual(["/a", "/b", "/a", "/b", "/a", "/b"]);
+	});
+
+	it(`fetches at most ${MAX_ESI_INCLUDES} includes for one request`, async () => {
+		const page = '<esi:include src="/item" />'.repeat(MAX_ESI_INCLUDES + 10);
+		const { request } = edge(ESI_VCL, ({ req }) => html(req.url === "/" ? page : "x"));
+		const result = await request("/");
+		expect(text(result.response.body)).toBe("x".repeat(MAX_ESI_INCLUDES));
+	});
+
+	it("parses any body that starts with markup, whatever its Content-Type", async () => {
+		const include = '<esi:include src="/fragment" />';
+		const { state, request } = edge(
+			'sub vcl_fetch { if (req.url != "/html") { set beresp.do_esi = true; } }',
+			({ req }) => {
+				const typed = (type: string, body: string): BackendResponse => ({
+					status: 200,
+					headers: { "content-type": type },
+					body,
+				});
+				if (req.url === "/plain") return typed("text/plain", `\n  ${include}`);
+				if (req.url === "/json") return typed("application/json", `{"x": "${include}"}`);
+				if (req.url === "/html") return html(include);
+				return typed("text/plain", "fragment");
+			},
+		);
+		expect(text((await request("/plain")).response.body)).toBe("\n  fragment");
+		expect(text((await request("/json")).response.body)).toBe(`{"x": "${include}"}`);
+		expect(text((await request("/html")).response.body)).toBe(include);
+		expect(state.fetched).toEqual(["/plain", "/fragment", "/json", "/html"]);
+	});
+
+	it("treats the esi statement as setting beresp.do_esi", async () => {
+		const { request } = edge("sub vcl_fetch { esi; }", ({ req }) =>
+			html(req.url === "/" ? '<esi:include src="/fragment" />' : "fragment"),
+		);
+		expect(text((await request("/")).response.body)).toBe("fragment");
+	});
+
+	it("skips processing when vcl_recv sets req.esi to false", async () => {
+		const vcl = `
+sub vcl_recv {
+  if (req.url ~ "raw") {
+    set req.esi = false;
+  }
+}
+${ESI_VCL}`;
+		const { request } = edge(vcl, ({ req }) =>
+			html(req.url === "/fragment" ? "fragment" : '<esi:include src="/fragment" />'),
+		);
+		expect(text((await request("/page")).response.body)).toBe("fragment");
+		expect(text((await request("/page?raw")).response.body)).toBe(
+			'<esi:include src="/fragment" />',
+		);
+	});
+
+	it("decompresses a gzip template and compresses the result again", async () => {
+		const gzipped = async (body: string): Promise<BackendResponse> => {
+			const compressed = await gzip(new TextEncoder().encode(body));
+			return {
+				status: 200,
+				headers: {
+					"content-type": "text/html",
+					"content-encoding": "gzip",
+					"content-length": `${compressed.length}`,
+				},
+				body: compressed,
+			};
+		};
+		const pages: Record<string, BackendResponse> = {
+			"/": await gzipped('<p><esi:include src="/fragment" /></p>'),
+			"/fragment": await gzipped("compressed fragment"),
+		};
+		const { request } = edge(ESI_VCL, ({ req }) => pages[req.url] ?? html(""));
+		const result = await request("/");
+		expect(result.response.headers["content-encoding"]).toBe("gzip");
+		expect(text(await gunzip(result.response.body))).toBe("<p>compressed fragment</p>");
+	});
+
+	it("sends a processed response whole and without a Content-Length", async () => {
+		const { request } = edge(ESI_VCL, ({ req }) => ({
+			...html(req.url === "/" ? '<esi:include src="/fragment" />' : "a longer fragment"),
+			headers: { "content-type": "text/html", "content-length": "31" },
+		}));
+		const context = await request("/");
+		expect(context.response.headers["content-length"]).toBeUndefined();
+		expect(text(context.response.body)).toBe("a longer fragment");
+	});
+});
+
+describe("ESI 1.0 language", () => {
+	/** An edge whose /ok fragment answers "ok", and whose other fragments answer 404 or 503. */
+	const fragments = (page: string) =>
+		edge(ESI_VCL, ({ req }) => {
+			if (req.url === "/") return html(page);
+			if (req.url === "/ok") return html("ok");
+			return { ...html("error page"), status: req.url === "/down" ? 503 : 404 };
+		});
+
+	it('falls back to alt, then to nothing with onerror="continue"', async () => {
+		const { state, request } = fragments(
+			'<p>[<esi:include src="/missing" alt="/ok" />]' +
+				'[<esi:include src="/missing" alt="/down" onerror="continue" />]' +
+				'[<esi:include src="/down" />]</p>',
+		);
+		expect(text((await request("/")).response.body)).toBe("<p>[ok][][]</p>");
+		// The 404 is cached like any fragment, so the second include of /missing is a hit.
+		expect(state.fetched).toEqual(["/", "/missing", "/ok", "/down", "/down"]);
+	});
+
+	it("renders esi:except when an include in esi:attempt fails", async () => {
+		const template = (src: string, onerror = "") => `
+<esi:try>
+  <esi:attempt>[<esi:include src="${src}" ${onerror}/>]</esi:attempt>
+  <esi:except>[fallback]</esi:except>
+</esi:try>`;
+		const page = [
+			template("/ok"),
+			template("/missing"),
+			template("/down", 'onerror="continue" '),
+		].join("");
+		const { request } = fragments(page);
+		expect(text((await request("/")).response.body).replace(/\s+/g, "")).toBe("[ok][fallback][]");
+	});
+
+	it("substitutes variables in esi:vars and include sources", async () => {
+		const page = `<esi:vars>$(HTTP_HOST) q=$(QUERY_STRING{q}) all=$(QUERY_STRING) id=$(HTTP_COOKIE{id}) en=$(HTTP_ACCEPT_LANGUAGE{en}) fr=$(HTTP_ACCEPT_LANGUAGE{fr}) $(HTTP_USER_AGENT{browser}) $(HTTP_USER_AGENT{os}) $(HTTP_USER_AGENT{version}) [$(HTTP_X_UNSET)]</esi:vars> $(HTTP_HOST) <esi:include src="/user/$(HTTP_COOKIE{id})" />`;
+		const { state, request } = edge(ESI_VCL, ({ req }) =>
+			req.url.startsWith("/user/") ? html(req.url) : html(page),
+		);
+		const result = await request("/?q=a%20b&page=2", {
+			cookie: "theme=dark; id=42",
+			"accept-language": "en-GB,de;q=0.8",
+			"user-agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0)",
+		});
+		expect(text(result.response.body)).toBe(
+			"www.example.com q=a b all=q=a%20b&page=2 id=42 en=true fr=false MOZILLA MAC 5.0 [] $(HTTP_HOST) /user/42",
+		);
+		expect(state.fetched).toContain("/user/42");
+	});
+
+	it("evaluates esi:when tests with the full expression grammar", async () => {
+		const tests = [
+			"$(HTTP_COOKIE{group}) == 'beta'",
+			"$(HTTP_COOKIE{group}) != 'beta'",
+			"$(QUERY_STRING{page}) > 9",
+			"$(QUERY_STRING{page}) < 9",
+			"$(QUERY_STRING{page}) >= 10 & $(HTTP_COOKIE{group}) == 'beta'",
+			"$(QUERY_STRING{page}) < 5 | $(HTTP_ACCEPT_LANGUAGE{de})",
+			"!($(HTTP_COOKIE{group}) == 'beta')",
+			"'abc' < 'abd' & 1.5 == 1.50",
+			"$(HTTP_COOKIE{missing}) == ''",
+			"$(HTTP_COOKIE{group}) == ",
+		];
+		const page = tests
+			.map(
+				(test) =>
+					`<esi:choose><esi:when test="${test}">1</esi:when><esi:otherwise>0</esi:otherwise></esi:choose>`,
+			)
+			.join("");
+		const { request } = edge(ESI_VCL, () => html(page));
+		const result = await request("/?page=10", {
+			cookie: "group=beta",
+			"accept-language": "de-DE",
+		});
+		expect(text(result.response.body)).toBe("1010110110");
+	});
+
+	it("nests choose blocks, and processes the content of <!--esi comments", async () => {
+		const page = `<esi:choose>
+<esi:when test="$(HTTP_COOKIE{plan}) == 'paid'"><esi:choose><esi:when test="$(QUERY_STRING{v}) == 2">[paid v2]</esi:when><esi:otherwise>[paid]</esi:otherwise></esi:choose></esi:when>
+<esi:otherwise>[free]</esi:otherwise>
+</esi:choose><!--esi <esi:vars>[$(QUERY_STRING{v})]</esi:vars> --><!-- kept -->`;
+		const { request } = edge(ESI_VCL, () => html(page));
+		const body = async (url: string, cookie: string) =>
+			text((await request(url, { cookie })).response.body).replace(/\s+/g, "");
+		expect(await body("/?v=2", "plan=paid")).toBe("[paidv2][2]<!--kept-->");
+		expect(await body("/?v=1", "plan=paid")).toBe("[paid][1]<!--kept-->");
+		expect(await body("/?v=2", "plan=free")).toBe("[free][2]<!--kept-->");
+	});
+});
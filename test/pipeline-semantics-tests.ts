@@ -340,10 +340,10 @@ const pipelineSemanticsTests: TestSuite = {
           return(pass);
         }
         sub vcl_fetch {
-          if (beresp.cacheable) {
+          if (!beresp.cacheable) {
             set req.http.X-Leaked = "yes";
           }
-          set beresp.cacheable = true;
+          set beresp.cacheable = false;
           set beresp.http.X-From-VCL = "pass-" req.restarts;
           return(pass);
         }
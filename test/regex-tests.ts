@@ -0,0 +1,238 @@
+// PCRE-to-JavaScript regex translation: PCRE-only syntax matches the way Fastly
+// matches it, group numbers survive the helper groups the translation adds, and
+// constructs with no JavaScript equivalent are rejected when the VCL loads.
+
+import { type VCLDiagnostic, VCLDiagnosticError } from "../src/diagnostics";
+import { createVCLContext, executeVCL, loadVCLContent } from "../src/vcl";
+import { lintVCL } from "../src/vcl-lint";
+import { compileRegex, regexCaptures, VCLRegexError } from "../src/vcl-regex";
+import { assert, type TestSuite } from "./test-framework";
+
+/** Whether `pattern` matches `subject`, as `~` would decide it. */
+function matches(pattern: string, subject: string): boolean {
+	return compileRegex(pattern).test(subject);
+}
+
+/** The PCRE-numbered captures of matching `pattern` against `subject`. */
+function captures(pattern: string, subject: string): Array<string | undefined> | null {
+	const regex = compileRegex(pattern);
+	const match = subject.match(regex);
+	return match && regexCaptures(regex, match);
+}
+
+/** Run vcl_recv for `url` and return the request headers it leaves behind. */
+function recv(vcl: string, url: string): Record<string, string> {
+	const subroutines = loadVCLContent(vcl);
+	const context = createVCLContext();
+	context.req.url = url;
+	context.req.http = {};
+	executeVCL(subroutines, "vcl_recv", context);
+	return context.req.http;
+}
+
+function loadDiagnostics(vcl: string): VCLDiagnostic[] {
+	try {
+		loadVCLContent(vcl);
+	} catch (error) {
+		if (error instanceof VCLDiagnosticError) return error.diagnostics;
+		throw error;
+	}
+	return [];
+}
+
+const noop = async () => {};
+
+const regexTests: TestSuite = {
+	name: "Regex Translation Tests",
+	tests: [
+		{
+			name: "applies inline flags from where they appear to the end of their group",
+			run: noop,
+			assertions: [
+				() => assert(matches("(?i)^/API/", "/api/v1"), "(?i) at the start folds case"),
+				() => assert(matches("^/a(?i)BC$", "/abc"), "(?i) mid-pattern folds what follows"),
+				() => assert(!matches("^/a(?i)BC$", "/ABC"), "(?i) mid-pattern leaves what precedes"),
+				() => assert(matches("a(?i:b)c", "aBc") && !matches("a(?i:b)c", "aBC"), "(?i:...)"),
+				() => assert(matches("(a(?i)b)c", "aBc") && !matches("(a(?i)b)c", "aBC"), "group scope"),
+				() => assert(matches("(?i)x[a-c]+", "XABC"), "(?i) folds class ranges"),
+				() => assert(!matches("(?i)x(?-i)[a-c]+", "XABC"), "(?-i) turns it back off"),
+				() => assert(matches("(?s)a.b", "a\nb") && !matches("a.b", "a\nb"), "(?s) and ."),
+				() => assert(matches("(?m)^b$", "a\nb\nc") && !matches("^b$", "a\nb\nc"), "(?m)"),
+				() => assert(matches("(?x) a b # comment\n c", "abc"), "(?x) skips space and comments"),
+				() => assert(captures("(?U)(a+)", "aaa")?.[1] === "a", "(?U) makes quantifiers lazy"),
+			],
+		},
+		{
+			name: "translates quoting, anchors and escapes",
+			run: noop,
+			assertions: [
+				() => assert(matches("^\\Q/a.b?\\E$", "/a.b?") && !matches("^\\Q/a.b\\E", "/axb"), "\\Q"),
+				() =>
+					assert(captures("(\\Qab\\E+)", "abbb")?.[1] === "abbb", "\\Q...\\E+ repeats one char"),
+				() => assert(matches("\\Afoo\\z", "foo") && !matches("\\Afoo\\z", "foo\n"), "\\A \\z"),
+				() => assert(matches("foo\\Z", "foo\n") && matches("foo$", "foo\n"), "$ and \\Z"),
+				() => assert(!matches("foo$", "foo\nbar"), "$ only skips a final newline"),
+				() => assert(matches("^\\x{263a}\\h\\e$", "☺\t\x1b"), "\\x{...}, \\h and \\e"),
+				() => assert(matches("^[[:alpha:]]+[[:^digit:]]$", "ab!"), "POSIX classes"),
+				() => assert(matches("^a{,2}$", "a{,2}"), "an invalid quantifier is literal"),
+			],
+		},
+		{
+			name: "keeps PCRE group numbers across possessive quantifiers and atomic groups",
+			run: noop,
+			assertions: [
+				() => assert(!matches("^\\d++5", "12345"), "a possessive quantifier does not backtrack"),
+				() => assert(!matches("^(?>a+)a", "aaa") && matches("^(?>a+)b", "aab"), "atomic group"),
+				() => {
+					const groups = captures("(a)(?>(b))\\2(c)", "abbc");
+					return assert(
+						JSON.stringify(groups) === '["abbc","a","b","c"]',
+						`got ${JSON.stringify(groups)}`,
+					);
+				},
+				() => {
+					const headers = recv(
+						`sub vcl_recv {
+  if (req.url ~ "^/(\\w++)/(?>(\\d+))/(?P<rest>.*)$") {
+    set req.http.X-1 = re.group.1;
+    set req.http.X-2 = re.group.2;
+    set req.http.X-3 = re.group.3;
+  }
+}`,
+						"/items/42/a/b",
+					);
+					return assert(
+						headers["X-1"] === "items" && headers["X-2"] === "42" && headers["X-3"] === "a/b",
+						`got ${JSON.stringify(headers)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "translates named groups and backreferences",
+			run: noop,
+			assertions: [
+				() =>
+					assert(
+						matches("^(?P<y>\\d+)-(?P=y)$", "12-12") && !matches("^(?P<y>\\d+)-(?P=y)$", "12-13"),
+						"(?P=)",
+					),
+				() => assert(matches("^(?'y'\\d+)-\\k{y}-\\k<y>$", "1-1-1"), "(?'name') and \\k"),
+				() => assert(matches("^(a)(b)\\g{-1}\\g1$", "abba"), "\\g{-N} and \\gN"),
+				() => assert(matches("^(a)\\1$", "aa") && matches("^\\101$", "A"), "\\1 and octal \\101"),
+			],
+		},
+		{
+			name: "expands \\N replacement backreferences in regsub and regsuball",
+			run: noop,
+			assertions: [
+				() => {
+					const headers = recv(
+						`sub vcl_recv {
+  set req.http.X-Sub = regsub(req.url, "^/(?P<section>\\w+)/(?>(\\d+))$", "/\\2/\\1");
+  set req.http.X-All = regsuball(req.url, "(?i)([A-Z])(\\d)", "\\2\\1");
+  set req.http.X-Std = std.regsub("Hello", "(?i)(h)", "[\\1]");
+}`,
+						"/news/7",
+					);
+					return assert(
+						headers["X-Sub"] === "/7/news" &&
+							headers["X-All"] === "/news/7" &&
+							headers["X-Std"] === "[H]ello",
+						`got ${JSON.stringify(headers)}`,
+					);
+				},
+				() => {
+					const headers = recv(
+						`sub vcl_recv {
+  set req.http.X-All = regsuball("a1b2", "([a-z])(\\d)", "\\2\\1");
+  set req.http.X-Qs = querystring.regfilter(req.url, "^utm_(?i)SOURCE$");
+}`,
+						"/?utm_source=x&utm_SOURCE=y&b=1",
+					);
+					return assert(
+						headers["X-All"] === "1a2b" && headers["X-Qs"] === "/?b=1",
+						`got ${JSON.stringify(headers)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "rejects untranslatable constant patterns at load time with their location",
+			run: noop,
+			assertions: [
+				() => {
+					const diagnostics = loadDiagnostics(`sub vcl_recv {
+  if (req.url ~ "\\Gfoo") {
+    set req.http.X = "1";
+  }
+  set req.http.Y = regsub(req.url, "a(?R)?b", "");
+  switch (req.url) {
+    case ~"(?(1)a|b)":
+      break;
+  }
+  set req.url = querystring.regfilter(req.url, "\\p{L}");
+}`);
+					const messages = diagnostics.map((d) => d.message);
+					return assert(
+						messages.length === 4 &&
+							messages[0] ===
+								'Regex "\\Gfoo" uses the \\G anchor, which has no JavaScript equivalent at line 2, column 17' &&
+							messages[1]!.includes("a recursive subpattern call") &&
+							messages[2]!.includes("a conditional subpattern") &&
+							messages[3]!.includes("the Unicode property escape \\p"),
+						`got ${JSON.stringify(messages)}`,
+					);
+				},
+				() => {
+					const diagnostics = lintVCL(`sub vcl_recv {
+  set req.http.A = regsub(req.url, "a\\Kb", "");
+  set req.http.B = regsub(req.url, "(", "");
+}`).map((d) => `${d.severity}:${d.rule ?? "load"}`);
+					return assert(
+						diagnostics.join(",") === "error:load,error:invalid-regex",
+						`got ${diagnostics.join(",")}`,
+					);
+				},
+				() => {
+					let error: unknown;
+					try {
+						compileRegex("a(?|b)");
+					} catch (e) {
+						error = e;
+					}
+					return assert(
+						error instanceof VCLRegexError && error.construct === "a (?|...) branch reset group",
+						`got ${String(error)}`,
+					);
+				},
+				() =>
+					assert(
+						loadDiagnostics(`sub vcl_recv {
+  if (req.url ~ req.http.X-Pattern) { set req.http.X = "1"; }
+}`).length === 0,
+						"patterns that are only known at runtime load",
+					),
+			],
+		},
+		{
+			name: "caches compiled patterns and resets global ones",
+			run: noop,
+			assertions: [
+				() => {
+					const first = compileRegex("^/cached/");
+					return assert(compileRegex("^/cached/") === first, "same instance");
+				},
+				() =>
+					assert(compileRegex("^/cached/", "g") !== compileRegex("^/cached/"), "keyed by flags"),
+				() => {
+					const regex = compileRegex("a", "g");
+					regex.exec("aaa");
+					return assert(compileRegex("a", "g").lastIndex === 0, "lastIndex is reset");
+				},
+			],
+		},
+	],
+};
+
+export default regexTests;
@@ -4,23 +4,31 @@ import backendErrorTests from "./backend-error-tests";
 import basicVCLTests from "./basic-vcl-tests";
 import binaryDataFunctionsTests from "./binary-data-functions-tests";
 import cachingTests from "./caching-tests";
+import compileModeTests from "./compile-mode-tests";
 import comprehensiveVCLTests from "./comprehensive-vcl-tests";
 import csrfProtectionTests from "./csrf-protection-tests";
 import digestFunctionsTests from "./digest-functions-tests";
 import esiFunctionsTests from "./esi-functions-tests";
+import formatTests from "./format-tests";
 import { gotoTests } from "./goto-tests";
 import httpFunctionsTests from "./http-functions-tests";
+import lintTests from "./lint-tests";
+import lspTests from "./lsp-tests";
 import multiFileTests from "./multi-file-tests";
+import parserRecoveryTests from "./parser-recovery-tests";
 import pipelineSemanticsTests from "./pipeline-semantics-tests";
 import queryStringFunctionsTests from "./query-string-functions-tests";
 import randomFunctionsTests from "./random-functions-tests";
 import rateLimitFunctionsTests from "./ratelimit-functions-tests";
 import realWorldEcommerceTests from "./real-world-ecommerce-tests";
 import realWorldVCLTests from "./real-world-vcl-tests";
+import regexTests from "./regex-tests";
+import scopeTests from "./scope-tests";
 import securityFeaturesTests from "./security-features-tests";
 import stdlibTests from "./stdlib-tests";
 import { runAllTests } from "./test-framework";
 import timeFunctionsTests from "./time-functions-tests";
+import typecheckTests from "./typecheck-tests";
 import uuidFunctionsTests from "./uuid-functions-tests";
 import vclFileTests from "./vcl-file-tests";
 import vclParityTests from "./vcl-parity-tests";
@@ -47,6 +55,14 @@ runAllTests([
 	esiFunctionsTests,
 	csrfProtectionTests,
 	multiFileTests,
+	parserRecoveryTests,
+	typecheckTests,
+	scopeTests,
+	formatTests,
+	lintTests,
+	lspTests,
+	compileModeTests,
+	regexTests,
 	comprehensiveVCLTests,
 	realWorldVCLTests,
 	realWorldEcommerceTests,
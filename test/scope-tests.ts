@@ -0,0 +1,148 @@
+// Load-time scope validation: return actions and scope-restricted statements are
+// checked against every built-in subroutine they can run in, including through
+// calls to custom subroutines.
+
+import { type VCLDiagnostic, VCLDiagnosticError } from "../src/diagnostics";
+import { loadVCLContent } from "../src/vcl";
+import { assert, type TestSuite } from "./test-framework";
+
+function scopeDiagnostics(vcl: string): VCLDiagnostic[] {
+	try {
+		loadVCLContent(vcl);
+	} catch (error) {
+		if (error instanceof VCLDiagnosticError) return error.diagnostics;
+		throw error;
+	}
+	return [];
+}
+
+function describe(diagnostics: VCLDiagnostic[]): string {
+	return `[${diagnostics.map((d) => d.message).join("; ")}]`;
+}
+
+const noop = async () => {};
+
+const scopeTests: TestSuite = {
+	name: "Scope Validation Tests",
+	tests: [
+		{
+			name: "rejects a return action its subroutine cannot take",
+			run: noop,
+			assertions: [
+				() => {
+					const diagnostics = scopeDiagnostics(`sub vcl_deliver {
+  if (req.http.X) {
+    return(pass);
+  }
+  return(deliver);
+}`);
+					return assert(
+						diagnostics.length === 1 &&
+							diagnostics[0]!.message ===
+								"return(pass) is only available in RECV, HIT, MISS, PASS, FETCH scope at line 3, column 5",
+						`got ${describe(diagnostics)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "allows deliver_stale only where Fastly does",
+			run: noop,
+			assertions: [
+				() => {
+					const diagnostics = scopeDiagnostics(`sub vcl_fetch {
+  return(deliver_stale);
+}
+sub vcl_error {
+  return(deliver_stale);
+}
+sub vcl_deliver {
+  return(deliver_stale);
+}`);
+					return assert(
+						diagnostics.length === 1 && diagnostics[0]!.line === 8,
+						`got ${describe(diagnostics)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "checks a custom subroutine against every scope that calls it",
+			run: noop,
+			assertions: [
+				() => {
+					const diagnostics = scopeDiagnostics(`sub render_error {
+  synthetic "oops";
+}
+sub handle {
+  call render_error;
+}
+sub vcl_recv {
+  call handle;
+}
+sub vcl_error {
+  call render_error;
+  return(deliver);
+}`);
+					return assert(
+						diagnostics.length === 1 &&
+							diagnostics[0]!.message ===
+								"synthetic statement is only available in ERROR scope (sub render_error is called from vcl_recv) at line 2, column 3",
+						`got ${describe(diagnostics)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "reports every violation and ignores unreachable subroutines",
+			run: noop,
+			assertions: [
+				() => {
+					const diagnostics = scopeDiagnostics(`sub unused {
+  return(pass);
+}
+sub vcl_recv {
+  esi;
+  return(deliver);
+}
+sub vcl_log {
+  restart;
+}`);
+					return assert(
+						diagnostics.map((d) => d.line).join(",") === "5,6,9",
+						`got ${describe(diagnostics)}`,
+					);
+				},
+			],
+		},
+		{
+			name: "accepts a program that stays in scope",
+			run: noop,
+			assertions: [
+				() => {
+					const diagnostics = scopeDiagnostics(`sub vcl_recv {
+  if (req.url ~ "^/admin") { error 403 "Forbidden"; }
+  return(lookup);
+}
+sub vcl_hash {
+  return(hash);
+}
+sub vcl_fetch {
+  esi;
+  return(deliver);
+}
+sub vcl_error {
+  synthetic "denied";
+  return(deliver);
+}
+sub vcl_deliver {
+  return;
+}`);
+					return assert(diagnostics.length === 0, `got ${describe(diagnostics)}`);
+				},
+			],
+		},
+	],
+};
+
+export default scopeTests;
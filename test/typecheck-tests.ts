@@ -0,0 +1,234 @@
+// Load-time type checking: programs Fastly would refuse to activate are rejected
+// by loadVCLContent with one located diagnostic per problem, before anything runs.
+
+import "../src/platform-node";
+import { readdirSync } from "node:fs";
+import * as path from "node:path";
+import { type VCLDiagnostic, VCLDiagnosticError } from "../src/diagnostics";
+import { loadVCL } from "../src/node-loader";
+import { BUILTIN_SIGNATURES } from "../src/vcl-builtin-types";
+import { createVCLContext, loadVCLContent } from "../src/vcl";
+import { MODULE_FUNCTIONS } from "../src/vcl-typecheck";
+import { assert, type TestSuite } from "./test-framework";
+
+function typeDiagnostics(vcl: string): VCLDiagnostic[] {
+	try {
+		loadVCLContent(vcl);
+	} catch (error) {
+		if (error instanceof VCLDiagnosticError) return error.diagnostics;
+		throw error;
+	}
+	return [];
+}
+
+function expectDiagnostic(vcl: string, message: string, line: number, column: number) {
+	const diagnostics = typeDiagnostics(vcl);
+	const found = diagnostics[0];
+	return assert(
+		diagnostics.length === 1 &&
+			found!.message === `${message} at line ${line}, column ${column}` &&
+			found!.line === line &&
+			found!.column === column,
+		`got [${diagnostics.map((d) => d.message).join("; ")}]`,
+	);
+}
+
+const noop = async () => {};
+
+const FIXTURES = path.join(__dirname, "fixtures");
+
+// Fixtures that are not programs that load on their own, each with the start
+// of the error it fails with: include errors on purpose, a snippet that is
+// only ever included, and two files written against a syntax VCL never had.
+const UNLOADABLE_FIXTURES: Record<string, string> = {
+	"vcl-files/includes/cycle_a.vcl": "Include cycle detected",
+	"vcl-files/includes/cycle_b.vcl": "Include cycle detected",
+	"vcl-files/includes/missing.vcl": "Included file not found",
+	"vcl-files/includes/recv_snippet.vcl": 'Unexpected keyword "set" at top level',
+	"vcl-files/multi_backend.vcl": 'Unexpected token "{" in expression',
+	"vcl-root-files/backend_error_test.vcl": "Expected assignment operator after identifier",
+};
+
+// loadFixture loads a fixture and returns the message it fails with, or
+// undefined once it loads.
+function loadFixture(fixture: string): string | undefined {
+	try {
+		loadVCL(path.join(FIXTURES, fixture));
+	} catch (error) {
+		return (error as Error).message;
+	}
+	return undefined;
+}
+
+// implementedFunctions lists every function a default context's modules
+// implement without a builtin signature, by the name VCL calls it.
+function implementedFunctions(): string[] {
+	const context = createVCLContext() as unknown as Record<string, unknown>;
+	const names: string[] = [];
+	const addMembers = (prefix: string, module: unknown) => {
+		if (!module || typeof module !== "object") return;
+		for (const [name, member] of Object.entries(module)) {
+			const qualified = `${prefix}.${name}`;
+			if (typeof member === "function" && !BUILTIN_SIGNATURES[qualified]) names.push(qualified);
+		}
+	};
+	for (const prefix of ["addr", "accept", "bin", "math", "querystring", "uuid", "waf", "utf8"]) {
+		addMembers(prefix, context[prefix]);
+	}
+	const std = context.std as Record<string, unknown>;
+	addMembers("std", std);
+	for (const [name, member] of Object.entries(std)) {
+		if (typeof member === "object") addMembers(`std.${name}`, member);
+	}
+	return names.sort();
+}
+
+const typecheckTests: TestSuite = {
+	name: "Type Checker Tests",
+	tests: [
+		{
+			name: "rejects a call to an unknown function",
+			run: noop,
+			assertions: [
+				() =>
+					expectDiagnostic(
+						`sub vcl_recv {
+  set req.http.X = std.nosuchthing(req.url);
+}`,
+						"Unknown function std.nosuchthing",
+						2,
+						20,
+					),
+			],
+		},
+		{
+			name: "rejects a wrong argument count",
+			run: noop,
+			assertions: [
+				() =>
+					expectDiagnostic(
+						`sub vcl_recv {
+  set req.http.X = std.tolower(req.url, "extra");
+}`,
+						"Wrong number of arguments for std.tolower: expected 1, got 2",
+						2,
+						20,
+					),
+			],
+		},
+		{
+			name: "rejects a wrong argument type",
+			run: noop,
+			assertions: [
+				() => {
+					const diagnostics = typeDiagnostics(`sub vcl_recv {
+  set req.http.X = std.itoa(req.url);
+}`);
+					return assert(
+						diagnostics.length === 1 &&
+							/^Argument 1 of std\.itoa/.test(diagnostics[0]!.message) &&
+							diagnostics[0]!.line === 2,
+						`got [${diagnostics.map((d) => d.message).join("; ")}]`,
+					);
+				},
+			],
+		},
+		{
+			name: "rejects setting a read-only variable",
+			run: noop,
+			assertions: [
+				() =>
+					expectDiagnostic(
+						`sub vcl_recv {
+  set client.ip = "127.0.0.1";
+}`,
+						"Variable client.ip is read-only",
+						2,
+						3,
+					),
+			],
+		},
+		{
+			name: "rejects a STRING assigned to an INTEGER local",
+			run: noop,
+			assertions: [
+				() =>
+					expectDiagnostic(
+						`sub vcl_recv {
+  declare local var.count INTEGER;
+  set var.count = "ten";
+}`,
+						"Cannot assign STRING to INTEGER variable var.count",
+						3,
+						19,
+					),
+			],
+		},
+		{
+			name: "reports every problem in one load and accepts valid programs",
+			run: noop,
+			assertions: [
+				() => {
+					const diagnostics = typeDiagnostics(`sub vcl_recv {
+  set client.ip = "127.0.0.1";
+  set req.http.X = nope();
+}
+sub vcl_deliver {
+  declare local var.n INTEGER;
+  set var.n = std.atoi("3");
+  set var.n += 1;
+  set resp.http.Y = std.itoa(var.n);
+  set req.backend = "origin";
+}`);
+					return assert(
+						diagnostics.map((d) => d.line).join(",") === "2,3",
+						`got [${diagnostics.map((d) => d.message).join("; ")}]`,
+					);
+				},
+			],
+		},
+		{
+			name: "loads every fixture under test/fixtures",
+			run: noop,
+			assertions: [
+				() => {
+					const fixtures = readdirSync(FIXTURES, { recursive: true })
+						.map(String)
+						.filter((file) => file.endsWith(".vcl"))
+						.map((file) => file.split(path.sep).join("/"))
+						.sort();
+					const problems = fixtures.flatMap((fixture) => {
+						const error = loadFixture(fixture);
+						const expected = UNLOADABLE_FIXTURES[fixture];
+						if (expected === undefined) return error ? [`${fixture}: ${error}`] : [];
+						return error?.startsWith(expected) ? [] : [`${fixture}: got ${error}`];
+					});
+					return assert(
+						fixtures.length > 0 && problems.length === 0,
+						`${fixtures.length} fixtures; ${problems.join("; ")}`,
+					);
+				},
+			],
+		},
+		{
+			name: "knows every function the runtime modules implement",
+			run: noop,
+			assertions: [
+				() => {
+					const registered = Object.entries(MODULE_FUNCTIONS)
+						.flatMap(([module, names]) => names.map((name) => `${module}.${name}`))
+						.sort();
+					const implemented = implementedFunctions();
+					const missing = implemented.filter((name) => !registered.includes(name));
+					const extra = registered.filter((name) => !implemented.includes(name));
+					return assert(
+						missing.length === 0 && extra.length === 0,
+						`unregistered [${missing.join(", ")}], not implemented [${extra.join(", ")}]`,
+					);
+				},
+			],
+		},
+	],
+};
+
+export default typecheckTests;
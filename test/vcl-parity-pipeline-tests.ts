@@ -4,14 +4,14 @@
 
 import { describe, expect, it } from "bun:test";
 import "../src/platform-node";
-import { type CacheEntry, runPipeline } from "../src/runtime/pipeline";
+import { type PipelineCache, runPipeline } from "../src/runtime/pipeline";
 import { createVCLContext, loadVCLContent } from "../src/vcl";
 
 async function okBackend() {
 	return { status: 200, headers: { "content-type": "text/plain" }, body: "ok" };
 }
 
-async function drive(vcl: string, cache: Map<string, CacheEntry>) {
+async function drive(vcl: string, cache: PipelineCache) {
 	const context = createVCLContext();
 	context.req.url = "/";
 	context.req.method = "GET";
@@ -44,7 +44,7 @@ describe("beresp.backend.* reflects the backend request", () => {
 	});
 
 	it("reads not set on a cache hit, when no backend request was made", async () => {
-		const cache = new Map<string, CacheEntry>();
+		const cache: PipelineCache = new Map();
 		await drive(`sub vcl_fetch { set beresp.ttl = 60s; }\n${vcl}`, cache);
 		const hit = await drive(`sub vcl_fetch { set beresp.ttl = 60s; }\n${vcl}`, cache);
 		expect(hit.cache.outcome).toBe("hit");
@@ -63,7 +63,7 @@ describe("return(upgrade)", () => {
 		const context = createVCLContext();
 		context.req.url = "/ws";
 		context.req.method = "GET";
-		const cache = new Map<string, CacheEntry>();
+		const cache: PipelineCache = new Map();
 		context.cache = cache;
 		const result = await runPipeline({
 			subroutines: loadVCLContent(vcl),
@@ -108,7 +108,7 @@ describe("PCI/HIPAA flags", () => {
         set resp.http.H = req.http.H;
       }
     `;
-		const cache = new Map<string, CacheEntry>();
+		const cache: PipelineCache = new Map();
 		await drive(vcl, cache);
 		const hit = await drive(vcl, cache);
 		expect(hit.cache.outcome).toBe("hit");
@@ -122,7 +122,7 @@ describe("PCI/HIPAA flags", () => {
       sub vcl_hit { set req.http.P = if(obj.is_pci, "1", "0"); }
       sub vcl_deliver { set resp.http.P = req.http.P; }
     `;
-		const cache = new Map<string, CacheEntry>();
+		const cache: PipelineCache = new Map();
 		await drive(vcl, cache);
 		const hit = await drive(vcl, cache);
 		expect(hit.cache.outcome).toBe("hit");
@@ -332,11 +332,11 @@ const vclParityTests: TestSuite = {
 			name: "a numeric literal compared against a header is a compile error",
 			run: async (context: VCLContext) => {
 				context.results = {
-					plain: compileOutcome(`sub vcl_recv { if (req.http.Host == 10) { esi; } }`),
-					floatLit: compileOutcome(`sub vcl_recv { if (req.http.Host == 10.0) { esi; } }`),
-					negated: compileOutcome(`sub vcl_recv { if (req.http.Host == -10) { esi; } }`),
-					grouped: compileOutcome(`sub vcl_recv { if (req.http.Host != (10)) { esi; } }`),
-					boolLit: compileOutcome(`sub vcl_recv { if (req.http.Host == true) { esi; } }`),
+					plain: compileOutcome(`sub vcl_fetch { if (req.http.Host == 10) { esi; } }`),
+					floatLit: compileOutcome(`sub vcl_fetch { if (req.http.Host == 10.0) { esi; } }`),
+					negated: compileOutcome(`sub vcl_fetch { if (req.http.Host == -10) { esi; } }`),
+					grouped: compileOutcome(`sub vcl_fetch { if (req.http.Host != (10)) { esi; } }`),
+					boolLit: compileOutcome(`sub vcl_fetch { if (req.http.Host == true) { esi; } }`),
 				};
 			},
 			assertions: [
@@ -1,8 +1,10 @@
 import { runBrowserSimulation, type SimulationResult } from "../src/runtime/browser";
-import type { CacheEntry } from "../src/runtime/pipeline";
+import { hashKey } from "../src/runtime/cache-store";
+import type { PipelineCache } from "../src/runtime/pipeline";
+import { lintVCL } from "../src/vcl-lint";
 
 // The cache lives across runs so MISS -> HIT is visible by clicking Run twice.
-let cacheState = new Map<string, CacheEntry>();
+let cacheState: PipelineCache = new Map();
 
 const $ = <T extends HTMLElement = HTMLElement>(id: string): T => document.getElementById(id) as T;
 
@@ -109,12 +111,18 @@ function renderCacheTable() {
 		return;
 	}
 	const now = Date.now();
+	// One row per variant; a varying object shows the header values it was stored for.
 	box.innerHTML = [...cacheState.entries()]
 		.map(([key, e]) => {
 			const state = now < e.expires ? "fresh" : now < e.staleUntil ? "stale" : "expired";
 			const age = Math.max(0, Math.floor((now - e.created) / 1000));
 			const ttl = Math.round((e.expires - e.created) / 1000);
-			return `<div class="cache-row"><span class="badge state-${state}">${state}</span><span class="ckey">${escapeHtml(key)}</span><span class="muted">ttl ${ttl}s · age ${age}s · ${e.resp.status}</span></div>`;
+			const vary = e.vary
+				? ` · ${Object.entries(e.vary)
+						.map(([name, value]) => `${name}: ${value ?? "(none)"}`)
+						.join(", ")}`
+				: "";
+			return `<div class="cache-row"><span class="badge state-${state}">${state}</span><span class="ckey">${escapeHtml(hashKey(key))}</span><span class="muted">ttl ${ttl}s · age ${age}s · ${e.resp.status}${escapeHtml(vary)}</span></div>`;
 		})
 		.join("");
 }
@@ -136,6 +144,19 @@ function renderTrace(trace: SimulationResult["trace"], vcl: string) {
 			.join("") || '<span class="muted">(no trace)</span>';
 }
 
+// Lint findings are shown next to the run result; hard errors are left to the
+// error card, which already shows them with a source frame.
+function renderLint(vcl: string) {
+	const findings = lintVCL(vcl).filter((d) => d.rule !== undefined);
+	$("lint").style.display = findings.length > 0 ? "block" : "none";
+	$("lint-list").innerHTML = findings
+		.map(
+			(d) =>
+				`<div class="lint-row"><span class="sev sev-${d.severity}">${d.severity}</span>${escapeHtml(d.message)}<span class="rule">${d.rule}</span></div>`,
+		)
+		.join("");
+}
+
 function render(result: SimulationResult) {
 	const errBox = $("errors");
 	const okPanes = $("ok-panes");
@@ -209,6 +230,7 @@ async function run() {
 		});
 		cacheState = result.cacheState;
 		render(result);
+		renderLint(fields.vcl.value);
 	} finally {
 		button.disabled = false;
 		button.textContent = "Run";